@@ -9,10 +9,12 @@
  * - Responsive Design und Loading-States
  * 
  * Features:
- * - Geschützte Routen mit Authentifizierung
+ * - Geschützte Routen mit Authentifizierung und Rollenprüfung
  * - Lazy Loading für optimale Performance
  * - Einheitliche Loading-States
  * - Error Boundary für Fehlerbehandlung
+ * - Warnung vor Sitzungsablauf und Idle-Timeout
+ * - Netzwerk-Inspektor für Entwicklung und Support (optional)
  * 
  * Author: DSP Development Team
  * Created: 10.07.2025
@@ -25,6 +27,10 @@ import Layout from "./components/Layout";
 import Overview from "./pages/Overview";
 import ErrorBoundary from "./components/ErrorBoundary";
 import ProtectedRoute from "./components/ProtectedRoute";
+import SessionTimeoutModal from "./components/SessionTimeoutModal";
+import NetworkInspector from "./components/NetworkInspector";
+import { networkLog } from "./services/networkLog";
+import { ROUTE_ROLES, CHANGE_PASSWORD_ROUTE } from "./services/authService";
 
 // --- Lazy Loading für bessere Performance ---
 
@@ -38,6 +44,7 @@ const EmployeeManagement = React.lazy(
 );
 const Login = React.lazy(() => import("./pages/Login"));
 const ToolManagement = React.lazy(() => import("./pages/tool_management"));
+const ChangePassword = React.lazy(() => import("./pages/ChangePassword"));
 
 // --- Loading Fallback Komponente ---
 
@@ -72,11 +79,11 @@ const App: React.FC = () => {
               }
             />
             
-            {/* Tabellen-Browser */}
+            {/* Tabellen-Browser (optional mit Model und Ansicht in der URL) */}
             <Route
-              path="/tables"
+              path="/tables/:appLabel?/:modelName?"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute requiredRoles={ROUTE_ROLES["/tables"]}>
                   <React.Suspense fallback={<LoadingFallback message="Lade Tabellen-Browser..." />}>
                     <TableBrowser />
                   </React.Suspense>
@@ -88,7 +95,7 @@ const App: React.FC = () => {
             <Route
               path="/statistics"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute requiredRoles={ROUTE_ROLES["/statistics"]}>
                   <React.Suspense fallback={<LoadingFallback message="Lade Statistiken..." />}>
                     <Statistics />
                   </React.Suspense>
@@ -112,7 +119,7 @@ const App: React.FC = () => {
             <Route
               path="/employees"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute requiredRoles={ROUTE_ROLES["/employees"]}>
                   <React.Suspense fallback={<LoadingFallback message="Lade Mitarbeiterverwaltung..." />}>
                     <EmployeeManagement />
                   </React.Suspense>
@@ -124,7 +131,7 @@ const App: React.FC = () => {
             <Route
               path="/tool-management"
               element={
-                <ProtectedRoute>
+                <ProtectedRoute requiredRoles={ROUTE_ROLES["/tool-management"]}>
                   <React.Suspense fallback={<LoadingFallback message="Lade Tool-Verwaltung..." />}>
                     <ToolManagement />
                   </React.Suspense>
@@ -132,6 +139,18 @@ const App: React.FC = () => {
               }
             />
             
+            {/* Passwortänderung (erzwungen bei temporärem Passwort) */}
+            <Route
+              path={CHANGE_PASSWORD_ROUTE}
+              element={
+                <ProtectedRoute>
+                  <React.Suspense fallback={<LoadingFallback message="Lade Passwortänderung..." />}>
+                    <ChangePassword />
+                  </React.Suspense>
+                </ProtectedRoute>
+              }
+            />
+            
             {/* --- Öffentliche Routen --- */}
             
             {/* Login-Seite */}
@@ -145,6 +164,12 @@ const App: React.FC = () => {
             />
           </Routes>
         </Layout>
+
+        {/* Warnung vor Sitzungsende und Idle-Timeout */}
+        <SessionTimeoutModal />
+
+        {/* Letzte API-Requests (nur wenn das Netzwerk-Protokoll aktiv ist) */}
+        {networkLog.enabled && <NetworkInspector />}
       </Router>
     </ErrorBoundary>
   );
@@ -39,8 +39,8 @@ const CategoryList: React.FC = () => {
   // --- Data Fetching ---
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ["categories"],
-    queryFn: async () => {
-      const res = await learningAPI.getCategories();
+    queryFn: async ({ signal }) => {
+      const res = await learningAPI.getCategories({ signal });
       return res.data as { id: number; name: string }[];
     },
   });
@@ -0,0 +1,143 @@
+/**
+ * Environment Switcher Component - DSP Database Overview
+ *
+ * Farbiges Badge der aktiven Backend-Umgebung und Auswahl der Umgebung:
+ * - Badge in der Farbe der Umgebung (Produktion hervorgehoben)
+ * - Auswahlliste, sobald mehrere Umgebungen konfiguriert sind
+ * - Wechsel lädt die Anwendung für das neue Backend neu
+ *
+ * Ohne VITE_BACKEND_ENVIRONMENTS wird nichts angezeigt.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React from "react";
+import clsx from "clsx";
+import { Server, ShieldAlert } from "lucide-react";
+import {
+  ACTIVE_ENVIRONMENT,
+  BACKEND_ENVIRONMENTS,
+  DEFAULT_ENVIRONMENT_ID,
+  switchBackendEnvironment,
+  type EnvironmentColor,
+} from "../services/backendEnvironments";
+
+// --- Komponenten-Interfaces ---
+
+interface EnvironmentSwitcherProps {
+  // Nur Badge ohne Beschriftung (eingeklappte Sidebar)
+  compact?: boolean;
+  className?: string;
+}
+
+// --- Farben je Umgebung ---
+
+const BADGE_CLASSES: Record<EnvironmentColor, string> = {
+  gray: "bg-gray-100 text-gray-700 border-gray-200",
+  green: "bg-green-100 text-green-800 border-green-200",
+  blue: "bg-blue-100 text-blue-800 border-blue-200",
+  yellow: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  red: "bg-red-600 text-white border-red-700",
+};
+
+const DOT_CLASSES: Record<EnvironmentColor, string> = {
+  gray: "bg-gray-400",
+  green: "bg-green-500",
+  blue: "bg-blue-500",
+  yellow: "bg-yellow-500",
+  red: "bg-white",
+};
+
+// --- Environment Badge ---
+
+export const EnvironmentBadge: React.FC<{
+  compact?: boolean;
+  className?: string;
+}> = ({ compact = false, className }) => {
+  const { label, color, production } = ACTIVE_ENVIRONMENT;
+  const Icon = production ? ShieldAlert : Server;
+
+  return (
+    <span
+      className={clsx(
+        "inline-flex items-center rounded-full border text-xs font-semibold",
+        compact ? "p-1" : "space-x-1.5 px-2.5 py-1",
+        BADGE_CLASSES[color],
+        className
+      )}
+      title={`Backend: ${label} (${ACTIVE_ENVIRONMENT.baseUrl})`}
+    >
+      {compact ? (
+        <span className={clsx("w-2 h-2 rounded-full", DOT_CLASSES[color])} />
+      ) : (
+        <>
+          <Icon className="h-3.5 w-3.5" />
+          <span className="truncate">{label}</span>
+        </>
+      )}
+    </span>
+  );
+};
+
+// --- Environment Switcher ---
+
+const EnvironmentSwitcher: React.FC<EnvironmentSwitcherProps> = ({
+  compact = false,
+  className,
+}) => {
+  const isConfigured =
+    BACKEND_ENVIRONMENTS.length > 1 ||
+    ACTIVE_ENVIRONMENT.id !== DEFAULT_ENVIRONMENT_ID;
+  if (!isConfigured) return null;
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const target = BACKEND_ENVIRONMENTS.find(
+      (environment) => environment.id === event.target.value
+    );
+    if (!target) return;
+
+    if (
+      target.production &&
+      !window.confirm(
+        `Zum Produktions-Backend "${target.label}" wechseln?\n` +
+          "Änderungen wirken sich dort auf echte Daten aus."
+      )
+    ) {
+      // Auswahl auf die aktive Umgebung zurücksetzen
+      event.target.value = ACTIVE_ENVIRONMENT.id;
+      return;
+    }
+
+    switchBackendEnvironment(target.id);
+  };
+
+  if (compact || BACKEND_ENVIRONMENTS.length === 1) {
+    return <EnvironmentBadge compact={compact} className={className} />;
+  }
+
+  return (
+    <div className={clsx("flex items-center space-x-2", className)}>
+      <EnvironmentBadge />
+      <label className="sr-only" htmlFor="backend-environment">
+        Backend-Umgebung
+      </label>
+      <select
+        id="backend-environment"
+        value={ACTIVE_ENVIRONMENT.id}
+        onChange={handleChange}
+        className="min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-[#ff863d]"
+      >
+        {BACKEND_ENVIRONMENTS.map((environment) => (
+          <option key={environment.id} value={environment.id}>
+            {environment.label}
+            {environment.production ? " (Produktion)" : ""}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default EnvironmentSwitcher;
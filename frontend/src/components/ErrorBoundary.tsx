@@ -7,7 +7,7 @@
  * Features:
  * - Globale Fehlerbehandlung für die gesamte Anwendung
  * - Benutzerfreundliche Fehlermeldungen
- * - Technische Details für Entwickler
+ * - Technische Details für Entwickler (inkl. Schema-Abweichungen der API)
  * - Automatische Fehlerprotokollierung
  * - Reload-Funktionalität für einfache Wiederherstellung
  * 
@@ -18,6 +18,10 @@
 
 import React, { Component, ErrorInfo, ReactNode } from "react";
 import { AlertTriangle, RefreshCw } from "lucide-react";
+import { isResponseValidationError } from "../services/responseValidation";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("ErrorBoundary");
 
 // --- Komponenten-Interfaces ---
 
@@ -51,7 +55,7 @@ class ErrorBoundary extends Component<Props, State> {
    * Wird aufgerufen nach einem Fehler für Logging-Zwecke
    */
   componentDidCatch(error: Error, errorInfo: ErrorInfo) {
-    console.error("ErrorBoundary caught an error:", error, errorInfo);
+    log.error("ErrorBoundary caught an error:", error, errorInfo);
   }
 
   /**
@@ -86,7 +90,9 @@ class ErrorBoundary extends Component<Props, State> {
                   Technische Details
                 </summary>
                 <pre className="mt-2 p-3 bg-gray-100 rounded text-xs overflow-auto">
-                  {this.state.error.toString()}
+                  {isResponseValidationError(this.state.error)
+                    ? this.state.error.details
+                    : this.state.error.toString()}
                 </pre>
               </details>
             )}
@@ -6,6 +6,7 @@
  * - Seitenleiste mit Navigation
  * - Moderne UI-Elemente
  * - Konsistente Gestaltung
+ * - Badge und Auswahl der Backend-Umgebung
  */
 
 import React, { useState, useEffect } from "react";
@@ -25,7 +26,8 @@ import {
   Users,
   Wrench, // Hinzufügen
 } from "lucide-react";
-import { authService } from "../services/authService";
+import { useAuth } from "../contexts/AuthContext";
+import EnvironmentSwitcher from "./EnvironmentSwitcher";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -40,7 +42,12 @@ interface NavigationItem {
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const isAuthed = authService.isAuthenticated();
+  const {
+    isAuthenticated: isAuthed,
+    mustChangePassword,
+    canAccessRoute,
+    logout,
+  } = useAuth();
 
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Für Mobile
   const [isCollapsed, setIsCollapsed] = useState(false); // Für Desktop
@@ -49,7 +56,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigate = useNavigate();
 
   const handleLogout = () => {
-    authService.logout();
+    logout();
     navigate("/login");
   };
 
@@ -89,7 +96,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     setIsManuallyCollapsed(newCollapsedState); // Merken dass es manuell gesetzt wurde
   };
 
-  const navigationItems: NavigationItem[] = [
+  const allNavigationItems: NavigationItem[] = [
     {
       path: "/",
       label: "Dashboard",
@@ -129,17 +136,32 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     },
   ];
 
+  // Nur Einträge anzeigen, die der Benutzer auch öffnen darf
+  const navigationItems = allNavigationItems.filter((item) =>
+    canAccessRoute(item.path)
+  );
+
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen);
   };
 
+  // Unterseiten (z.B. /tables/app/Model) markieren ihren Menüpunkt mit
   const isActivePath = (path: string) => {
-    return location.pathname === path;
+    return (
+      location.pathname === path ||
+      (path !== "/" && location.pathname.startsWith(`${path}/`))
+    );
   };
 
-  if (!isAuthed) {
-    // Einfaches Layout ohne Sidebar
-    return <div className="min-h-screen bg-gray-50">{children}</div>;
+  // Ohne Anmeldung oder bei erzwungener Passwortänderung keine Navigation
+  if (!isAuthed || mustChangePassword) {
+    // Einfaches Layout ohne Sidebar - Umgebung bleibt vor dem Login wählbar
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <EnvironmentSwitcher className="fixed top-4 right-4 z-50 w-64" />
+        {children}
+      </div>
+    );
   }
 
   const sidebarClasses = clsx(
@@ -212,6 +234,12 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           </div>
         </div>
 
+        {/* Backend-Umgebung */}
+        <EnvironmentSwitcher
+          compact={isCollapsed}
+          className={clsx("mt-4", isCollapsed ? "mx-auto flex w-fit" : "mx-4")}
+        />
+
         {/* Professional Navigation */}
         <nav className="py-6 px-3">
           <div className="space-y-1">
@@ -391,7 +419,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 DSP Database Overview
               </h2>
             </div>
-            <div className="w-10"></div> {/* Spacer for centering */}
+            <div className="flex w-10 justify-end">
+              <EnvironmentSwitcher compact />
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,191 @@
+/**
+ * Network Inspector Component - DSP Database Overview
+ *
+ * Entwickler-Panel mit den letzten API-Requests der Sitzung:
+ * - Methode, URL, Status, Dauer und Zeitpunkt je Request
+ * - Aufklappbare Details mit geschwärztem Request- und Response-Body
+ * - Fehlgeschlagene und abgebrochene Requests farbig markiert
+ * - Liste leeren, Panel ein- und ausblenden
+ *
+ * Wird nur eingebunden, wenn das Netzwerk-Protokoll aktiv ist
+ * (siehe services/networkLog.ts).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useState, useSyncExternalStore } from "react";
+import clsx from "clsx";
+import { Activity, ChevronDown, ChevronRight, Trash2, X } from "lucide-react";
+import { networkLog, type NetworkLogEntry } from "../services/networkLog";
+
+// --- Hilfsfunktionen ---
+
+const getStatusClass = (entry: NetworkLogEntry) => {
+  if (entry.canceled) return "bg-gray-100 text-gray-600";
+  if (entry.status === 0 || entry.status >= 500) {
+    return "bg-red-100 text-red-700";
+  }
+  if (entry.status >= 400) return "bg-yellow-100 text-yellow-800";
+  return "bg-green-100 text-green-700";
+};
+
+const getStatusLabel = (entry: NetworkLogEntry) => {
+  if (entry.canceled) return "Abbruch";
+  if (entry.status === 0) return "Fehler";
+  return String(entry.status);
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("de-DE");
+
+// --- Body-Anzeige ---
+
+const BodyBlock: React.FC<{ title: string; body: string | null }> = ({
+  title,
+  body,
+}) => (
+  <div>
+    <p className="mb-1 text-xs font-semibold text-gray-600">{title}</p>
+    {body ? (
+      <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-gray-900 p-2 text-xs text-gray-100">
+        {body}
+      </pre>
+    ) : (
+      <p className="text-xs italic text-gray-400">Kein Inhalt</p>
+    )}
+  </div>
+);
+
+// --- Request-Zeile ---
+
+const RequestRow: React.FC<{ entry: NetworkLogEntry }> = ({ entry }) => {
+  const [expanded, setExpanded] = useState(false);
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <li className="border-b border-gray-100">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="flex w-full items-center space-x-2 px-3 py-2 text-left text-xs hover:bg-gray-50"
+        aria-expanded={expanded}
+      >
+        <Chevron className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+        <span className="w-14 flex-shrink-0 font-mono font-semibold text-gray-700">
+          {entry.method}
+        </span>
+        <span
+          className={clsx(
+            "w-14 flex-shrink-0 rounded px-1.5 py-0.5 text-center font-medium",
+            getStatusClass(entry)
+          )}
+        >
+          {getStatusLabel(entry)}
+        </span>
+        <span className="min-w-0 flex-1 truncate font-mono text-gray-800">
+          {entry.url}
+        </span>
+        <span className="w-16 flex-shrink-0 text-right text-gray-500">
+          {entry.durationMs} ms
+        </span>
+        <span className="hidden w-16 flex-shrink-0 text-right text-gray-400 sm:inline">
+          {formatTime(entry.startedAt)}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="space-y-3 bg-gray-50 px-3 py-3">
+          <p className="break-all font-mono text-xs text-gray-700">
+            {entry.method} {entry.url}
+          </p>
+          {entry.error && (
+            <p className="text-xs text-red-700">Fehler: {entry.error}</p>
+          )}
+          <BodyBlock title="Request-Body" body={entry.requestBody} />
+          <BodyBlock title="Response-Body" body={entry.responseBody} />
+        </div>
+      )}
+    </li>
+  );
+};
+
+// --- Network Inspector ---
+
+const NetworkInspector: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const entries = useSyncExternalStore(
+    networkLog.subscribe,
+    networkLog.getSnapshot
+  );
+
+  const failedCount = entries.filter(
+    (entry) => !entry.canceled && (entry.status === 0 || entry.status >= 400)
+  ).length;
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 left-4 z-40 flex items-center space-x-2 rounded-full bg-gray-900 px-3 py-2 text-xs font-medium text-white shadow-lg hover:bg-gray-800"
+        title="Netzwerk-Inspektor öffnen"
+      >
+        <Activity className="h-4 w-4" />
+        <span>{entries.length}</span>
+        {failedCount > 0 && (
+          <span className="rounded-full bg-red-500 px-1.5">{failedCount}</span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-x-4 bottom-4 z-40 flex max-h-[60vh] flex-col rounded-lg border border-gray-200 bg-white shadow-2xl md:left-auto md:w-[48rem]">
+      <div className="flex items-center justify-between border-b border-gray-200 px-3 py-2">
+        <div className="flex items-center space-x-2">
+          <Activity className="h-4 w-4 text-[#ff863d]" />
+          <h2 className="text-sm font-semibold text-gray-900">
+            Netzwerk-Inspektor
+          </h2>
+          <span className="text-xs text-gray-500">
+            {entries.length} Requests
+          </span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => networkLog.clear()}
+            className="flex items-center space-x-1 rounded px-2 py-1 text-xs text-gray-600 hover:bg-gray-100"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            <span>Leeren</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            className="rounded p-1 text-gray-500 hover:bg-gray-100"
+            title="Schließen"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="px-3 py-6 text-center text-sm text-gray-500">
+          Noch keine Requests aufgezeichnet.
+        </p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto">
+          {entries.map((entry) => (
+            <RequestRow key={entry.id} entry={entry} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NetworkInspector;
@@ -3,12 +3,15 @@
  *
  * Diese Komponente schützt Routen vor unbefugtem Zugriff:
  * - Authentifizierungsprüfung
+ * - Rollenprüfung (Staff/Superuser)
  * - Automatische Weiterleitung zur Login-Seite
  * - State-Preservation für bessere UX
  *
  * Features:
  * - Automatische Authentifizierungsprüfung
  * - Redirect zur Login-Seite bei fehlender Authentifizierung
+ * - Forbidden-Seite bei fehlenden Rollen
+ * - Erzwungene Passwortänderung bei temporären Passwörtern
  * - State-Preservation für bessere Benutzererfahrung
  * - Integration mit React Router
  *
@@ -19,30 +22,61 @@
 
 import React from "react";
 import { Navigate, useLocation } from "react-router-dom";
-import { authService } from "../services/authService";
+import { CHANGE_PASSWORD_ROUTE, type UserRole } from "../services/authService";
+import { useAuth } from "../contexts/AuthContext";
+import Forbidden from "../pages/Forbidden";
 
 interface ProtectedRouteProps {
   children: React.ReactElement;
+  requiredRoles?: UserRole[];
 }
 
 /**
  * Protected Route Komponente für Authentifizierungsschutz
  *
- * Prüft ob der Benutzer authentifiziert ist und leitet bei fehlender
- * Authentifizierung zur Login-Seite weiter.
+ * Prüft über useAuth() ob der Benutzer authentifiziert ist und leitet bei
+ * fehlender Authentifizierung zur Login-Seite weiter. Ein Logout (auch durch
+ * einen fehlgeschlagenen Token-Refresh) rendert den Guard sofort neu.
+ *
+ * Sind Rollen angegeben, wird zusätzlich das persistierte Benutzerprofil
+ * geprüft und bei fehlender Berechtigung die Forbidden-Seite angezeigt.
  *
  * @param children - Zu schützende Komponente
- * @returns Geschützte Komponente oder Redirect zur Login-Seite
+ * @param requiredRoles - Optionale Rollen, die der Benutzer besitzen muss
+ * @returns Geschützte Komponente, Forbidden-Seite oder Redirect zur Login-Seite
  */
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  requiredRoles = [],
+}) => {
   const location = useLocation();
+  const { isAuthenticated, mustChangePassword, hasRoles } = useAuth();
 
   // Authentifizierung prüfen
-  if (!authService.isAuthenticated()) {
+  if (!isAuthenticated) {
     // Zur Login-Seite weiterleiten mit aktueller Location als State
     return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
+  // Temporäres Passwort - bis zur erfolgreichen Änderung festhalten
+  if (
+    mustChangePassword &&
+    location.pathname !== CHANGE_PASSWORD_ROUTE
+  ) {
+    return (
+      <Navigate
+        to={CHANGE_PASSWORD_ROUTE}
+        replace
+        state={{ from: location }}
+      />
+    );
+  }
+
+  // Rollen prüfen
+  if (!hasRoles(requiredRoles)) {
+    return <Forbidden requiredRoles={requiredRoles} />;
+  }
+
   // Authentifiziert - geschützte Komponente rendern
   return children;
 };
@@ -0,0 +1,222 @@
+/**
+ * Session Timeout Modal - DSP Database Overview
+ *
+ * Warnt vor dem Ende der Sitzung und meldet inaktive Benutzer ab:
+ * - Countdown vor Ablauf des Refresh-Tokens (Sitzungsende) - im Cookie-
+ *   Modus nur, wenn das Backend den Ablauf bei Login/Refresh mitliefert,
+ *   sonst bleibt es beim Idle-Timeout (siehe services/tokenStorage.ts)
+ * - Optionaler Idle-Timeout nach Inaktivität (tab-übergreifend)
+ * - Aktionen "Angemeldet bleiben" und "Abmelden"
+ *
+ * Vorlaufzeit und Idle-Timeout werden über SESSION_CONFIG
+ * (VITE_SESSION_WARNING_MINUTES, VITE_IDLE_TIMEOUT_MINUTES) gesteuert.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { Clock, LogOut } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { API_CONFIG, SESSION_CONFIG } from "../services/config";
+import { createLogger } from "../services/logger";
+import { ButtonPrimary, ButtonSecondary } from "./ui_elements/buttons";
+
+// Ereignisse, die als Benutzeraktivität gelten
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+] as const;
+
+// Aktivität höchstens einmal pro Intervall übernehmen (vermeidet Re-Renders)
+const ACTIVITY_THROTTLE_MS = 5000;
+
+const log = createLogger("Session");
+
+// Kanal, über den Tabs ihre Aktivität teilen - aktiv in einem Tab
+// bedeutet aktiv in allen Tabs
+const ACTIVITY_CHANNEL = `dsp-session-activity:${API_CONFIG.ENVIRONMENT.id}`;
+
+/**
+ * Verbleibende Zeit als mm:ss formatieren
+ */
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const SessionTimeoutModal: React.FC = () => {
+  const { isAuthenticated, refreshExpiresAt, refreshSession, logout } =
+    useAuth();
+
+  const [now, setNow] = useState(() => Date.now());
+  const [lastActivity, setLastActivity] = useState(() => Date.now());
+  const [isExtending, setIsExtending] = useState(false);
+  // Sitzungsende, für das die Warnung bereits bestätigt wurde
+  const [acknowledgedExpiry, setAcknowledgedExpiry] = useState<number | null>(
+    null
+  );
+  const isWarningOpenRef = useRef(false);
+  const activityChannelRef = useRef<BroadcastChannel | null>(null);
+
+  const warningMs = SESSION_CONFIG.WARNING_MINUTES * 60 * 1000;
+  const idleMs = SESSION_CONFIG.IDLE_TIMEOUT_MINUTES * 60 * 1000;
+
+  // --- Zeitbasis (Sekundentakt) ---
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isAuthenticated]);
+
+  // --- Aktivitätserkennung für den Idle-Timeout ---
+  useEffect(() => {
+    if (!isAuthenticated || idleMs <= 0) return;
+
+    setLastActivity(Date.now());
+
+    const channel =
+      typeof BroadcastChannel !== "undefined"
+        ? new BroadcastChannel(ACTIVITY_CHANNEL)
+        : null;
+    activityChannelRef.current = channel;
+
+    let lastBroadcast = 0;
+
+    const handleActivity = () => {
+      // Während der Warnung zählt nur die explizite Bestätigung
+      if (isWarningOpenRef.current) return;
+
+      const current = Date.now();
+      if (current - lastBroadcast <= ACTIVITY_THROTTLE_MS) return;
+
+      lastBroadcast = current;
+      setLastActivity(current);
+      channel?.postMessage(current);
+    };
+
+    const handleRemoteActivity = (event: MessageEvent<number>) => {
+      setLastActivity((prev) => Math.max(prev, event.data));
+    };
+
+    channel?.addEventListener("message", handleRemoteActivity);
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      channel?.removeEventListener("message", handleRemoteActivity);
+      channel?.close();
+      activityChannelRef.current = null;
+    };
+  }, [isAuthenticated, idleMs]);
+
+  // --- Deadlines berechnen ---
+  const idleDeadline = idleMs > 0 ? lastActivity + idleMs : null;
+  const sessionDeadline = refreshExpiresAt;
+
+  const isIdleWarning =
+    idleDeadline !== null &&
+    (sessionDeadline === null || idleDeadline <= sessionDeadline);
+  const deadline = isIdleWarning ? idleDeadline : sessionDeadline;
+
+  const remaining = deadline !== null ? deadline - now : null;
+  const isWarningOpen =
+    isAuthenticated &&
+    remaining !== null &&
+    remaining <= warningMs &&
+    (isIdleWarning || acknowledgedExpiry !== sessionDeadline);
+
+  useEffect(() => {
+    isWarningOpenRef.current = isWarningOpen;
+  }, [isWarningOpen]);
+
+  // --- Automatischer Logout bei Ablauf ---
+  useEffect(() => {
+    if (isAuthenticated && remaining !== null && remaining <= 0) {
+      log.info(
+        isIdleWarning
+          ? "Automatischer Logout nach Inaktivität"
+          : "Sitzung abgelaufen"
+      );
+      logout();
+    }
+  }, [isAuthenticated, remaining, isIdleWarning, logout]);
+
+  if (!isWarningOpen || remaining === null) return null;
+
+  // --- Aktionen ---
+
+  const handleStaySignedIn = async () => {
+    const current = Date.now();
+    setLastActivity(current);
+    // Warnung auch in den übrigen Tabs schließen
+    activityChannelRef.current?.postMessage(current);
+    if (isIdleWarning) return;
+
+    setIsExtending(true);
+    try {
+      await refreshSession();
+      // Ohne Token-Rotation bleibt das Sitzungsende unverändert -
+      // Warnung für diesen Zeitpunkt nicht erneut anzeigen
+      setAcknowledgedExpiry(sessionDeadline);
+    } catch (error) {
+      log.error("Sitzung konnte nicht verlängert werden:", error);
+      logout();
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-timeout-title"
+        className="bg-white rounded-xl w-full max-w-sm shadow-lg p-6 text-center"
+      >
+        <div className="flex items-center justify-center w-12 h-12 bg-orange-100 rounded-lg mx-auto mb-4">
+          <Clock className="h-6 w-6 text-[#ff863d]" />
+        </div>
+        <h2
+          id="session-timeout-title"
+          className="text-lg font-semibold text-gray-900 mb-2"
+        >
+          {isIdleWarning ? "Sind Sie noch da?" : "Sitzung läuft ab"}
+        </h2>
+        <p className="text-sm text-gray-600">
+          {isIdleWarning
+            ? "Sie werden wegen Inaktivität automatisch abgemeldet in"
+            : "Ihre Sitzung endet in"}
+        </p>
+        <p className="text-3xl font-bold text-gray-900 my-4 tabular-nums">
+          {formatCountdown(remaining)}
+        </p>
+        <div className="flex justify-center space-x-3">
+          <ButtonSecondary
+            onClick={logout}
+            icon={<LogOut />}
+            variant="outline"
+          >
+            Abmelden
+          </ButtonSecondary>
+          <ButtonPrimary onClick={handleStaySignedIn} loading={isExtending}>
+            Angemeldet bleiben
+          </ButtonPrimary>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeoutModal;
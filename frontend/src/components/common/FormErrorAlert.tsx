@@ -0,0 +1,41 @@
+/**
+ * Form Error Alert Component - DSP Database Overview Frontend
+ *
+ * Anzeige allgemeiner Formularfehler (z.B. Serverfehler ohne Feldbezug)
+ * oberhalb der Formular-Aktionen.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React from "react";
+import clsx from "clsx";
+import { AlertCircle } from "lucide-react";
+
+interface FormErrorAlertProps {
+  message?: string | null;
+  className?: string;
+}
+
+const FormErrorAlert: React.FC<FormErrorAlertProps> = ({
+  message,
+  className,
+}) => {
+  if (!message) return null;
+
+  return (
+    <div
+      role="alert"
+      className={clsx(
+        "flex items-start space-x-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700",
+        className
+      )}
+    >
+      <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <span>{message}</span>
+    </div>
+  );
+};
+
+export default FormErrorAlert;
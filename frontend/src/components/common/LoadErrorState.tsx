@@ -0,0 +1,89 @@
+/**
+ * Load Error State Component - DSP Database Overview Frontend
+ *
+ * Fehleranzeige für Seiten, deren Daten nicht geladen werden konnten.
+ * Bei unerwartetem Antwortformat (ResponseValidationError) werden
+ * Endpoint und betroffene Pfade als technische Details angezeigt,
+ * statt dass die Seite beim Rendern abstürzt.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React from "react";
+import clsx from "clsx";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { isResponseValidationError } from "../../services/responseValidation";
+
+interface LoadErrorStateProps {
+  // Seitenspezifische Meldung ("Fehler beim Laden der Statistiken")
+  message: string;
+  // Ursprünglicher Fehler für die technischen Details
+  error?: unknown;
+  title?: string;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const LoadErrorState: React.FC<LoadErrorStateProps> = ({
+  message,
+  error,
+  title = "Fehler beim Laden",
+  onRetry,
+  className,
+}) => {
+  const validationError = isResponseValidationError(error) ? error : null;
+
+  return (
+    <div
+      className={clsx(
+        "min-h-screen bg-gray-50 flex items-center justify-center p-6",
+        className
+      )}
+    >
+      <div
+        role="alert"
+        className="max-w-md w-full bg-white rounded-lg p-8 shadow-sm border border-red-200"
+      >
+        <div className="flex items-center justify-center w-12 h-12 bg-red-100 rounded-lg mx-auto mb-4">
+          <AlertTriangle className="h-6 w-6 text-red-600" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900 text-center mb-2">
+          {title}
+        </h3>
+        <p className="text-gray-600 text-center text-sm">{message}</p>
+
+        {/* Schema-Abweichung: Hinweis und technische Details */}
+        {validationError && (
+          <>
+            <p className="text-gray-500 text-center text-xs mt-2">
+              {validationError.message}
+            </p>
+            <details className="mt-4 text-left">
+              <summary className="cursor-pointer text-sm text-gray-500 hover:text-gray-700">
+                Technische Details
+              </summary>
+              <pre className="mt-2 p-3 bg-gray-100 rounded text-xs overflow-auto whitespace-pre-wrap">
+                {validationError.details}
+              </pre>
+            </details>
+          </>
+        )}
+
+        {onRetry && (
+          <button
+            type="button"
+            onClick={onRetry}
+            className="mt-6 flex items-center space-x-2 bg-dsp-orange hover:bg-dsp-orange_medium text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors mx-auto"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Erneut versuchen</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoadErrorState;
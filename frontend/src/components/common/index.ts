@@ -3,6 +3,8 @@
  *
  * Export-Datei für alle Common-Komponenten:
  * - LoadingSpinner: Vielseitige Loading-Komponente
+ * - FormErrorAlert: Allgemeine Formular- und Serverfehler
+ * - LoadErrorState: Fehleranzeige für nicht geladene Seitendaten
  * 
  * Common-Komponenten sind wiederverwendbare UI-Elemente,
  * die in der gesamten Anwendung verwendet werden.
@@ -13,3 +15,5 @@
  */
 
 export { default as LoadingSpinner } from "./LoadingSpinner";
+export { default as FormErrorAlert } from "./FormErrorAlert";
+export { default as LoadErrorState } from "./LoadErrorState";
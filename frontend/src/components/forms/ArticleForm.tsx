@@ -3,8 +3,13 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
+import { FormErrorAlert } from "../common";
+import { applyApiErrors } from "./formErrors";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { learningAPI } from "../../services/learningApi";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("ArticleForm");
 
 const schema = z.object({
   moduleId: z.string().min(1, "Modul wählen"),
@@ -14,6 +19,8 @@ const schema = z.object({
 
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = Object.keys(schema.shape) as (keyof FormValues)[];
+
 // Reusable components similar to VideoForm
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label: string;
@@ -80,6 +87,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
 }) => {
   const queryClient = useQueryClient();
   const [pendingArticles, setPendingArticles] = useState<FormValues[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
   const [isSavingAll, setIsSavingAll] = useState(false);
 
   // Fetch modules for dropdown
@@ -97,6 +105,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors, isSubmitting },
     reset,
     watch,
@@ -112,15 +121,15 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
   const watchedModuleId = watch("moduleId");
 
   // Debug logging
-  console.log("🔍 [ArticleForm] Debug info:");
-  console.log(
+  log.debug("🔍 [ArticleForm] Debug info:");
+  log.debug(
     "🔍 watchedModuleId:",
     watchedModuleId,
     "type:",
     typeof watchedModuleId
   );
-  console.log("🔍 chaptersData:", chaptersData?.data);
-  console.log("🔍 Sample chapter:", chaptersData?.data?.[0]);
+  log.debug("🔍 chaptersData:", chaptersData?.data);
+  log.debug("🔍 Sample chapter:", chaptersData?.data?.[0]);
 
   // Filter chapters by selected module
   const filteredChapters =
@@ -140,7 +149,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
           chapterModuleId = 0;
         }
 
-        console.log(
+        log.debug(
           "🔍 Chapter:",
           chapter.title,
           "module:",
@@ -154,12 +163,12 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
       }
     ) || [];
 
-  console.log("🔍 Filtered chapters:", filteredChapters);
+  log.debug("🔍 Filtered chapters:", filteredChapters);
 
   // Reset chapter selection when module changes
   React.useEffect(() => {
     if (watchedModuleId) {
-      console.log("🔍 Module changed, resetting chapter selection");
+      log.debug("🔍 Module changed, resetting chapter selection");
       // Note: Chapter selection will be reset when form is submitted
     }
   }, [watchedModuleId]);
@@ -183,6 +192,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
     if (pendingArticles.length === 0) return;
 
     setIsSavingAll(true);
+    setFormError(null);
     try {
       for (const article of pendingArticles) {
         const payloadCreate = {
@@ -194,7 +204,7 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
         await learningAPI.createArticleFromCloud(payloadCreate);
       }
 
-      console.log(`${pendingArticles.length} Artikel gespeichert`);
+      log.debug(`${pendingArticles.length} Artikel gespeichert`);
       setPendingArticles([]);
 
       // Cache für alle relevanten Module invalidieren um UI sofort zu aktualisieren
@@ -213,7 +223,9 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
 
       onSuccess?.();
     } catch (error) {
-      console.error("Fehler beim Speichern der Artikel:", error);
+      log.error("Fehler beim Speichern der Artikel:", error);
+      // Fehler betreffen bereits vorgemerkte Artikel, nicht das aktuelle Formular
+      setFormError(applyApiErrors(error, setError, { fields: [] }));
     } finally {
       setIsSavingAll(false);
     }
@@ -224,6 +236,8 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
   };
 
   const onSubmit = async (data: FormValues) => {
+    setFormError(null);
+
     if (mode === "edit") {
       // Handle edit mode
       try {
@@ -245,7 +259,17 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
 
         onSuccess?.();
       } catch (error) {
-        console.error("Fehler beim Aktualisieren:", error);
+        log.error("Fehler beim Aktualisieren:", error);
+        setFormError(
+          applyApiErrors(error, setError, {
+            fields: FORM_FIELDS,
+            fieldMap: {
+              module_id: "moduleId",
+              chapter_id: "chapterId",
+              url: "cloudUrl",
+            },
+          })
+        );
       }
     } else {
       // Add to pending list
@@ -314,6 +338,8 @@ const ArticleForm: React.FC<ArticleFormProps> = ({
           {...register("cloudUrl")}
         />
 
+        <FormErrorAlert message={formError} />
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -25,6 +25,9 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
 import { learningAPI } from "../../services/learningApi";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("CategoryForm");
 
 // --- Validierungsschema ---
 
@@ -97,10 +100,10 @@ const CategoryForm: React.FC<CategoryFormProps> = ({
     try {
       if (mode === "edit" && id) {
         await learningAPI.updateCategory(id, { name: data.name });
-        console.log("Kategorie aktualisiert");
+        log.debug("Kategorie aktualisiert");
       } else {
         await learningAPI.createCategory({ name: data.name });
-        console.log("Kategorie gespeichert");
+        log.debug("Kategorie gespeichert");
         reset();
       }
       onSuccess?.();
@@ -1,10 +1,15 @@
-import React from "react";
+import React, { useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
+import { FormErrorAlert } from "../common";
+import { applyApiErrors } from "./formErrors";
 import { learningAPI, type ChapterPayload } from "../../services/learningApi";
 import { useQuery } from "@tanstack/react-query";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("ChapterForm");
 
 const schema = z.object({
   moduleId: z.string().min(1, "Modul wählen"),
@@ -16,6 +21,8 @@ const schema = z.object({
 
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = Object.keys(schema.shape) as (keyof FormValues)[];
+
 // Reusable Input component
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label: string;
@@ -107,9 +114,12 @@ const ChapterForm: React.FC<ChapterFormProps> = ({
   moduleId,
   onSuccess,
 }) => {
+  const [formError, setFormError] = useState<string | null>(null);
+
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors, isSubmitting },
     reset,
   } = useForm<FormValues>({
@@ -122,6 +132,8 @@ const ChapterForm: React.FC<ChapterFormProps> = ({
   });
 
   const onSubmit = async (data: FormValues) => {
+    setFormError(null);
+
     try {
       const payload: ChapterPayload = {
         module_id: Number(data.moduleId),
@@ -131,26 +143,32 @@ const ChapterForm: React.FC<ChapterFormProps> = ({
         is_active: data.is_active,
       };
 
-      console.log("[ChapterForm] Payload:", payload);
+      log.debug("[ChapterForm] Payload:", payload);
 
       if (mode === "edit" && id) {
         await learningAPI.updateChapter(id, payload);
-        console.log("Kapitel aktualisiert");
+        log.debug("Kapitel aktualisiert");
       } else {
         await learningAPI.createChapter(payload);
-        console.log("Kapitel gespeichert");
+        log.debug("Kapitel gespeichert");
         reset();
       }
       onSuccess?.();
-    } catch (e: unknown) {
-      if (e instanceof Error) alert("Fehler: " + e.message);
+    } catch (error) {
+      log.error("Fehler beim Speichern des Kapitels:", error);
+      setFormError(
+        applyApiErrors(error, setError, {
+          fields: FORM_FIELDS,
+          fieldMap: { module_id: "moduleId" },
+        })
+      );
     }
   };
 
   const { data: modulesData } = useQuery({
     queryKey: ["modules-accessible"],
-    queryFn: async () => {
-      const res = await learningAPI.getModulesAll();
+    queryFn: async ({ signal }) => {
+      const res = await learningAPI.getModulesAll({ signal });
       return res.data as { id: number; title: string; is_public: boolean }[];
     },
   });
@@ -194,6 +212,7 @@ const ChapterForm: React.FC<ChapterFormProps> = ({
           Aktiv (sichtbar für Benutzer)
         </label>
       </div>
+      <FormErrorAlert message={formError} />
       <button
         type="submit"
         disabled={isSubmitting}
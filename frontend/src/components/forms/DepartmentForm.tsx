@@ -1,9 +1,14 @@
-import React from "react";
+import React, { useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
+import { FormErrorAlert } from "../common";
+import { applyApiErrors } from "./formErrors";
 import { employeeAPI, type DepartmentCreate } from "../../services/employeeApi";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("DepartmentForm");
 
 const schema = z.object({
   name: z.string().min(1, "Abteilungsname erforderlich").max(100, "Maximal 100 Zeichen"),
@@ -13,6 +18,8 @@ const schema = z.object({
 
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = Object.keys(schema.shape) as (keyof FormValues)[];
+
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label: string;
   error?: string;
@@ -99,9 +106,12 @@ const DepartmentForm: React.FC<DepartmentFormProps> = ({
   onSuccess,
   onCancel,
 }) => {
+  const [formError, setFormError] = useState<string | null>(null);
+
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors, isSubmitting },
     reset,
   } = useForm<FormValues>({
@@ -113,6 +123,8 @@ const DepartmentForm: React.FC<DepartmentFormProps> = ({
   });
 
   const onSubmit = async (data: FormValues) => {
+    setFormError(null);
+
     try {
       const payload: DepartmentCreate = {
         name: data.name,
@@ -122,16 +134,17 @@ const DepartmentForm: React.FC<DepartmentFormProps> = ({
 
       if (mode === "edit" && id) {
         await employeeAPI.updateDepartment(id, payload);
-        console.log("Abteilung aktualisiert");
+        log.debug("Abteilung aktualisiert");
       } else {
         await employeeAPI.createDepartment(payload);
-        console.log("Abteilung erstellt");
+        log.debug("Abteilung erstellt");
         reset();
       }
       onSuccess?.();
-    } catch (error: any) {
-      console.error("Fehler beim Speichern:", error);
-      alert(`Fehler: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      log.error("Fehler beim Speichern:", error);
+      // DRF-Validierungsfehler direkt unter den Feldern anzeigen
+      setFormError(applyApiErrors(error, setError, { fields: FORM_FIELDS }));
     }
   };
 
@@ -163,6 +176,8 @@ const DepartmentForm: React.FC<DepartmentFormProps> = ({
           {...register("is_active")}
         />
 
+        <FormErrorAlert message={formError} className="mb-4" />
+
         <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
           {onCancel && (
             <button
@@ -3,6 +3,8 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
+import { FormErrorAlert } from "../common";
+import { applyApiErrors } from "./formErrors";
 import {
   employeeAPI,
   type EmployeeCreate,
@@ -11,6 +13,9 @@ import {
   type Tool,
   type ToolAccess,
 } from "../../services/employeeApi";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("EmployeeForm");
 
 const schema = z.object({
   first_name: z
@@ -33,6 +38,8 @@ const schema = z.object({
 
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = Object.keys(schema.shape) as (keyof FormValues)[];
+
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label: string;
   error?: string;
@@ -134,10 +141,12 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
   const [loading, setLoading] = useState(true);
   const [tools, setTools] = useState<Tool[]>([]);
   const [toolAccess, setToolAccess] = useState<Set<string>>(new Set());
+  const [formError, setFormError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors, isSubmitting },
     reset,
   } = useForm<FormValues>({
@@ -160,7 +169,7 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
         setDepartments(deptData.filter((dept) => dept.is_active));
         setPositions(posData.filter((pos) => pos.is_active));
       } catch (error) {
-        console.error("Fehler beim Laden der Daten:", error);
+        log.error("Fehler beim Laden der Daten:", error);
         alert("Fehler beim Laden der Abteilungen und Positionen");
       } finally {
         setLoading(false);
@@ -181,7 +190,7 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
           setToolAccess(new Set(access.map((a) => a.tool.slug)));
         }
       } catch (e) {
-        console.error("Fehler beim Laden der Tools", e);
+        log.error("Fehler beim Laden der Tools", e);
       }
     };
     loadTools();
@@ -197,6 +206,8 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
   };
 
   const onSubmit = async (data: FormValues) => {
+    setFormError(null);
+
     try {
       const payload: EmployeeCreate = {
         first_name: data.first_name,
@@ -210,7 +221,7 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
 
       if (mode === "edit" && id) {
         await employeeAPI.updateEmployee(id, payload);
-        console.log("Mitarbeiter aktualisiert");
+        log.debug("Mitarbeiter aktualisiert");
         // sync tool access
         const current = await employeeAPI.getToolAccess(id);
         const currentSlugs = new Set(current.map((a) => a.tool.slug));
@@ -228,13 +239,14 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
         }
       } else {
         await employeeAPI.createEmployee(payload);
-        console.log("Mitarbeiter erstellt");
+        log.debug("Mitarbeiter erstellt");
         reset();
       }
       onSuccess?.();
-    } catch (error: any) {
-      console.error("Fehler beim Speichern:", error);
-      alert(`Fehler: ${error.response?.data?.message || error.message}`);
+    } catch (error) {
+      log.error("Fehler beim Speichern:", error);
+      // DRF-Validierungsfehler direkt unter den Feldern anzeigen
+      setFormError(applyApiErrors(error, setError, { fields: FORM_FIELDS }));
     }
   };
 
@@ -355,6 +367,8 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
           </div>
         )}
 
+        <FormErrorAlert message={formError} className="mb-4" />
+
         <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
           {onCancel && (
             <button
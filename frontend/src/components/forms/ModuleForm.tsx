@@ -5,6 +5,9 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
 import { learningAPI, type ModulePayload } from "../../services/learningApi";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("ModuleForm");
 
 const schema = z.object({
   title: z.string().min(1, "Titel erforderlich"),
@@ -101,11 +104,11 @@ const ModuleForm: React.FC<ModuleFormProps> = ({
         is_public: data.is_public,
       };
 
-      console.log("[ModuleForm] Payload:", payload);
+      log.debug("[ModuleForm] Payload:", payload);
 
       if (mode === "edit" && id) {
         await learningAPI.updateModule(id, payload);
-        console.log("Modul aktualisiert");
+        log.debug("Modul aktualisiert");
 
         // Cache für alle Module invalidieren um UI zu aktualisieren
         queryClient.invalidateQueries({ queryKey: ["modules-all"] });
@@ -113,7 +116,7 @@ const ModuleForm: React.FC<ModuleFormProps> = ({
         queryClient.invalidateQueries({ queryKey: ["module-detail", id] });
       } else {
         await learningAPI.createModule(payload);
-        console.log("Modul gespeichert");
+        log.debug("Modul gespeichert");
         reset();
 
         // Cache für alle Module invalidieren um neues Modul sofort anzuzeigen
@@ -128,8 +131,8 @@ const ModuleForm: React.FC<ModuleFormProps> = ({
 
   const { data: categoriesData } = useQuery({
     queryKey: ["categories"],
-    queryFn: async () => {
-      const res = await learningAPI.getCategories();
+    queryFn: async ({ signal }) => {
+      const res = await learningAPI.getCategories({ signal });
       return res.data as { id: number; name: string }[];
     },
   });
@@ -3,9 +3,18 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
+import { FormErrorAlert } from "../common";
+import { applyApiErrors } from "./formErrors";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { learningAPI } from "../../services/learningApi";
-import { authService } from "../../services/authService";
+import { getErrorMessage } from "../../services/apiError";
+import { useAuth } from "../../contexts/AuthContext";
+import { createLogger, LOG_LEVEL } from "../../services/logger";
+
+const log = createLogger("TaskForm");
+
+// Debug-Panel und Test-Button nur mit Log-Level "debug"
+const DEBUG_PANEL_ENABLED = LOG_LEVEL === "debug";
 
 const schema = z.object({
   moduleId: z.string().min(1, "Modul wählen"),
@@ -18,6 +27,8 @@ const schema = z.object({
 
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = Object.keys(schema.shape) as (keyof FormValues)[];
+
 // Reusable components
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label: string;
@@ -109,12 +120,16 @@ const TaskForm: React.FC<TaskFormProps> = ({
   onSuccess,
 }) => {
   const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+
+  const [formError, setFormError] = useState<string | null>(null);
 
   // Debug state
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
 
   const addDebugInfo = (message: string) => {
-    console.log(`🔍 [DEBUG] ${message}`);
+    log.debug(message);
+    if (!DEBUG_PANEL_ENABLED) return;
     setDebugInfo((prev) => [
       ...prev,
       `${new Date().toLocaleTimeString()}: ${message}`,
@@ -181,6 +196,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors, isSubmitting },
     reset,
     watch,
@@ -208,7 +224,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
         hint: initialData.hint || "",
       };
 
-      console.log(
+      log.debug(
         "🔍 [TaskForm] Updating form values for edit mode:",
         newValues
       );
@@ -216,14 +232,14 @@ const TaskForm: React.FC<TaskFormProps> = ({
 
       // Load existing multiple choice questions for this task
       if (initialData.id) {
-        console.log(
+        log.debug(
           "🔍 [TaskForm] Loading multiple choice questions for task:",
           initialData.id
         );
         learningAPI
           .getTaskMultipleChoiceByTask(initialData.id)
           .then((response) => {
-            console.log(
+            log.debug(
               "🔍 [TaskForm] Multiple choice questions loaded:",
               response.data
             );
@@ -253,7 +269,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
             }
           })
           .catch((error) => {
-            console.error(
+            log.error(
               "❌ [TaskForm] Error loading multiple choice questions:",
               error
             );
@@ -265,43 +281,43 @@ const TaskForm: React.FC<TaskFormProps> = ({
   // Filter chapters by selected module
   const filteredChapters = React.useMemo(() => {
     if (!chaptersData?.data || !watchedModuleId) {
-      console.log("🔍 [TaskForm] No chapters data or no module selected");
-      console.log("🔍 chaptersData:", chaptersData);
-      console.log("🔍 watchedModuleId:", watchedModuleId);
+      log.debug("🔍 [TaskForm] No chapters data or no module selected");
+      log.debug("🔍 chaptersData:", chaptersData);
+      log.debug("🔍 watchedModuleId:", watchedModuleId);
       return [];
     }
 
-    console.log("🔍 [TaskForm] Filtering chapters:");
-    console.log(
+    log.debug("🔍 [TaskForm] Filtering chapters:");
+    log.debug(
       "🔍 watchedModuleId:",
       watchedModuleId,
       "type:",
       typeof watchedModuleId
     );
-    console.log("🔍 chaptersData:", chaptersData.data);
-    console.log("🔍 chaptersData type:", typeof chaptersData.data);
-    console.log("🔍 is array:", Array.isArray(chaptersData.data));
+    log.debug("🔍 chaptersData:", chaptersData.data);
+    log.debug("🔍 chaptersData type:", typeof chaptersData.data);
+    log.debug("🔍 is array:", Array.isArray(chaptersData.data));
 
     if (!Array.isArray(chaptersData.data)) {
-      console.log("🔍 chaptersData.data is not an array!");
+      log.debug("🔍 chaptersData.data is not an array!");
       return [];
     }
 
     const filtered = chaptersData.data.filter(
       (chapter: Record<string, unknown>) => {
-        console.log("🔍 Checking chapter:", chapter);
-        console.log("🔍 chapter keys:", Object.keys(chapter));
+        log.debug("🔍 Checking chapter:", chapter);
+        log.debug("🔍 chapter keys:", Object.keys(chapter));
 
         // Try different possible field names
         const moduleId =
           chapter.module_id || chapter.moduleId || chapter.module;
-        console.log(
+        log.debug(
           "🔍 chapter module ID:",
           moduleId,
           "type:",
           typeof moduleId
         );
-        console.log(
+        log.debug(
           "🔍 watchedModuleId:",
           watchedModuleId,
           "type:",
@@ -309,13 +325,13 @@ const TaskForm: React.FC<TaskFormProps> = ({
         );
 
         const matches = moduleId === parseInt(watchedModuleId);
-        console.log("🔍 matches:", matches);
+        log.debug("🔍 matches:", matches);
 
         return matches;
       }
     );
 
-    console.log("🔍 Filtered chapters:", filtered);
+    log.debug("🔍 Filtered chapters:", filtered);
     return filtered;
   }, [chaptersData, watchedModuleId]);
 
@@ -359,6 +375,8 @@ const TaskForm: React.FC<TaskFormProps> = ({
   };
 
   const onSubmit = async (data: FormValues) => {
+    setFormError(null);
+
     try {
       const isEditMode = mode === "edit" && initialData?.id;
 
@@ -377,10 +395,9 @@ const TaskForm: React.FC<TaskFormProps> = ({
       addDebugInfo(`🔍 Is submitting: ${isSubmitting}`);
 
       // Check authentication
-      const isAuth = authService.isAuthenticated();
-      addDebugInfo(`🔐 Authentication check: ${isAuth}`);
+      addDebugInfo(`🔐 Authentication check: ${isAuthenticated}`);
 
-      if (!isAuth) {
+      if (!isAuthenticated) {
         addDebugInfo("❌ User not authenticated");
         alert("Sie sind nicht eingeloggt. Bitte melden Sie sich an.");
         return;
@@ -488,14 +505,10 @@ const TaskForm: React.FC<TaskFormProps> = ({
             questionsCreated++;
             addDebugInfo(`✅ Question ${i + 1} created successfully`);
           } catch (questionError: unknown) {
-            const error = questionError as {
-              response?: { data?: unknown };
-              message?: string;
-            };
             addDebugInfo(
-              `❌ Failed to create question ${i + 1}: ${
-                error.response?.data || error.message
-              }`
+              `❌ Failed to create question ${i + 1}: ${getErrorMessage(
+                questionError
+              )}`
             );
             // Continue with other questions even if one fails
           }
@@ -506,7 +519,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
         }
       }
 
-      console.log(
+      log.debug(
         `🎉 [TaskForm] Success! ${
           isEditMode ? "Updated" : "Created"
         } task with ${questionsCreated} questions`
@@ -537,50 +550,15 @@ const TaskForm: React.FC<TaskFormProps> = ({
       );
       onSuccess?.();
     } catch (error: unknown) {
-      console.error("❌ [TaskForm] Error during task creation:", error);
-
-      // Type-safe error handling
-      const axiosError = error as {
-        message?: string;
-        response?: {
-          data?: unknown;
-          status?: number;
-          statusText?: string;
-        };
-      };
-
-      console.error("❌ [TaskForm] Error details:", {
-        message: axiosError.message,
-        response: axiosError.response?.data,
-        status: axiosError.response?.status,
-        statusText: axiosError.response?.statusText,
-      });
-
-      // Show user-friendly error message
-      let errorMessage = "Fehler beim Speichern der Aufgabe";
-
-      if (axiosError.response?.status === 401) {
-        errorMessage = "Sie sind nicht eingeloggt. Bitte melden Sie sich an.";
-      } else if (axiosError.response?.status === 400) {
-        const responseData = axiosError.response.data as
-          | { detail?: string; message?: string }
-          | undefined;
-        errorMessage = `Validierungsfehler: ${
-          responseData?.detail || responseData?.message || "Ungültige Daten"
-        }`;
-      } else if (axiosError.response?.status === 403) {
-        errorMessage = "Sie haben keine Berechtigung, Aufgaben zu erstellen.";
-      } else if (
-        axiosError.response?.status &&
-        axiosError.response.status >= 500
-      ) {
-        errorMessage = "Serverfehler. Bitte versuchen Sie es später erneut.";
-      } else if (axiosError.message === "Network Error") {
-        errorMessage =
-          "Verbindungsfehler. Bitte prüfen Sie Ihre Internetverbindung.";
-      }
-
-      alert(errorMessage);
+      log.error("❌ [TaskForm] Error during task creation:", error);
+
+      // Feldfehler inline, alles Übrige (401/403/5xx, Netzwerk) als Meldung
+      setFormError(
+        applyApiErrors(error, setError, {
+          fields: FORM_FIELDS,
+          fieldMap: { chapter: "chapterId" },
+        })
+      );
     }
   };
 
@@ -805,19 +783,29 @@ const TaskForm: React.FC<TaskFormProps> = ({
         </div>
       )}
 
+      <FormErrorAlert message={formError} />
+
       {/* Test Button */}
       <div className="flex justify-between items-center">
-        <button
-          type="button"
-          onClick={() => {
-            addDebugInfo("🧪 Test button clicked!");
-            addDebugInfo(`🔍 Form errors: ${JSON.stringify(errors, null, 2)}`);
-            addDebugInfo(`🔍 Form values: ${JSON.stringify(watch(), null, 2)}`);
-          }}
-          className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-        >
-          🧪 Test Form
-        </button>
+        {DEBUG_PANEL_ENABLED ? (
+          <button
+            type="button"
+            onClick={() => {
+              addDebugInfo("🧪 Test button clicked!");
+              addDebugInfo(
+                `🔍 Form errors: ${JSON.stringify(errors, null, 2)}`
+              );
+              addDebugInfo(
+                `🔍 Form values: ${JSON.stringify(watch(), null, 2)}`
+              );
+            }}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            🧪 Test Form
+          </button>
+        ) : (
+          <span />
+        )}
 
         {/* Submit Button */}
         <button
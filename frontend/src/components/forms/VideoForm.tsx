@@ -3,8 +3,13 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "clsx";
+import { FormErrorAlert } from "../common";
+import { applyApiErrors } from "./formErrors";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { learningAPI } from "../../services/learningApi";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("VideoForm");
 
 // ---------------- Schema ---------------------------------------------
 const schema = z.object({
@@ -16,6 +21,8 @@ const schema = z.object({
 
 type FormValues = z.infer<typeof schema>;
 
+const FORM_FIELDS = Object.keys(schema.shape) as (keyof FormValues)[];
+
 // ---------------- UI Hilfskomponenten --------------------------------
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   label: string;
@@ -135,8 +142,8 @@ const VideoForm: React.FC<VideoFormProps> = ({
 
   const { data: modulesData } = useQuery({
     queryKey: ["modules-accessible"],
-    queryFn: async () => {
-      const res = await learningAPI.getModulesAll();
+    queryFn: async ({ signal }) => {
+      const res = await learningAPI.getModulesAll({ signal });
       return res.data as {
         id: number;
         title: string;
@@ -149,12 +156,14 @@ const VideoForm: React.FC<VideoFormProps> = ({
   const [pendingVideos, setPendingVideos] = useState<FormValues[]>([]);
   const [isSavingAll, setIsSavingAll] = useState(false);
   const [isValidatingUrl, setIsValidatingUrl] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
     watch,
     setValue,
+    setError,
     formState: { errors, isSubmitting },
     reset,
   } = useForm<FormValues>({
@@ -195,31 +204,23 @@ const VideoForm: React.FC<VideoFormProps> = ({
 
     setIsValidatingUrl(true);
     try {
-      const response = await fetch(
-        "/api/elearning/modules/content/validate-video-url/",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${localStorage.getItem("access_token")}`,
-          },
-          body: JSON.stringify({ video_url: videoUrl }),
-        }
-      );
-
-      const data = await response.json();
+      // Über apiClient, damit Token und Refresh-Logik greifen
+      const { data } = await learningAPI.validateVideoUrl(videoUrl);
 
       if (data.success) {
         // URL validieren
         setValue("video_url", data.video_url);
 
-        console.log("Video-URL validiert:", data);
+        log.debug("Video-URL validiert:", data);
       } else {
-        alert(`Fehler bei der URL-Validierung: ${data.error}`);
+        setError("video_url", {
+          type: "server",
+          message: data.error || "Video-URL ist ungültig",
+        });
       }
     } catch (error) {
-      console.error("Fehler bei der URL-Validierung:", error);
-      alert("Fehler bei der URL-Validierung");
+      log.error("Fehler bei der URL-Validierung:", error);
+      setFormError(applyApiErrors(error, setError, { fields: ["video_url"] }));
     } finally {
       setIsValidatingUrl(false);
     }
@@ -229,6 +230,7 @@ const VideoForm: React.FC<VideoFormProps> = ({
     if (pendingVideos.length === 0) return;
 
     setIsSavingAll(true);
+    setFormError(null);
     try {
       for (const video of pendingVideos) {
         const payloadCreate = {
@@ -237,14 +239,14 @@ const VideoForm: React.FC<VideoFormProps> = ({
           video_url: video.video_url,
         } as const;
 
-        console.log(
+        log.debug(
           "📡 [VideoForm] Creating video with payload:",
           payloadCreate
         );
         await learningAPI.createVideo(payloadCreate as any);
       }
 
-      console.log(`${pendingVideos.length} Videos gespeichert`);
+      log.debug(`${pendingVideos.length} Videos gespeichert`);
       setPendingVideos([]);
       reset();
 
@@ -258,14 +260,18 @@ const VideoForm: React.FC<VideoFormProps> = ({
           queryKey: ["module-detail", Number(firstVideoModuleId)],
         });
       }
-    } catch (e: unknown) {
-      if (e instanceof Error) alert("Fehler beim Speichern: " + e.message);
+    } catch (error) {
+      log.error("Fehler beim Speichern der Videos:", error);
+      // Fehler betreffen bereits vorgemerkte Videos, nicht das aktuelle Formular
+      setFormError(applyApiErrors(error, setError, { fields: [] }));
     } finally {
       setIsSavingAll(false);
     }
   };
 
   const onSubmit = async (data: FormValues) => {
+    setFormError(null);
+
     if (mode === "edit" && id) {
       // Edit mode - save single video
       try {
@@ -275,7 +281,7 @@ const VideoForm: React.FC<VideoFormProps> = ({
         } as const;
 
         const res = await learningAPI.updateVideo(id, payloadUpdate as any);
-        console.log("Video aktualisiert");
+        log.debug("Video aktualisiert");
 
         // Cache invalidieren für UI-Update
         queryClient.invalidateQueries({ queryKey: ["modules-all"] });
@@ -284,8 +290,14 @@ const VideoForm: React.FC<VideoFormProps> = ({
         queryClient.invalidateQueries({ queryKey: ["module-detail"] });
 
         onSuccess?.(res.data);
-      } catch (e: unknown) {
-        if (e instanceof Error) alert("Fehler: " + e.message);
+      } catch (error) {
+        log.error("Fehler beim Aktualisieren des Videos:", error);
+        setFormError(
+          applyApiErrors(error, setError, {
+            fields: FORM_FIELDS,
+            fieldMap: { chapter: "chapterId" },
+          })
+        );
       }
     } else {
       // Create mode - add to pending list
@@ -424,6 +436,8 @@ const VideoForm: React.FC<VideoFormProps> = ({
           </p>
         </div>
 
+        <FormErrorAlert message={formError} />
+
         <div className="flex space-x-3">
           <button
             type="submit"
@@ -0,0 +1,61 @@
+/**
+ * Formular-Fehlerbehandlung - DSP Database Overview
+ *
+ * Überträgt normalisierte API-Fehler (ApiError) in react-hook-form:
+ * - Feldfehler des Backends erscheinen direkt unter dem Eingabefeld
+ * - Nicht zuordenbare Fehler werden als allgemeine Meldung zurückgegeben
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
+import { toApiError } from "../../services/apiError";
+
+interface ApplyApiErrorsOptions<T extends FieldValues> {
+  // Formularfelder, unter denen Serverfehler angezeigt werden können
+  fields: readonly Path<T>[];
+  // Abweichende Feldnamen Backend -> Formular (z.B. "module_id" -> "module")
+  fieldMap?: Partial<Record<string, Path<T>>>;
+}
+
+/**
+ * API-Fehler in die Feldfehler eines Formulars übernehmen
+ *
+ * @param error - Beliebiger Fehler aus einem API-Aufruf
+ * @param setError - setError aus useForm
+ * @param options - Bekannte Formularfelder und Feld-Zuordnung
+ * @returns Allgemeine Fehlermeldung oder null, wenn alle Fehler einem
+ *          Feld zugeordnet werden konnten
+ */
+export const applyApiErrors = <T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  { fields, fieldMap = {} }: ApplyApiErrorsOptions<T>
+): string | null => {
+  const apiError = toApiError(error);
+  const generalErrors = [...apiError.nonFieldErrors];
+  let shouldFocus = true;
+
+  Object.entries(apiError.fieldErrors).forEach(([key, messages]) => {
+    const field =
+      fieldMap[key] ??
+      (fields.includes(key as Path<T>) ? (key as Path<T>) : undefined);
+
+    if (field) {
+      // Nur das erste fehlerhafte Feld fokussieren
+      setError(
+        field,
+        { type: "server", message: messages.join(" ") },
+        { shouldFocus }
+      );
+      shouldFocus = false;
+    } else {
+      generalErrors.push(`${key}: ${messages.join(" ")}`);
+    }
+  });
+
+  if (generalErrors.length > 0) return generalErrors.join(" ");
+  return apiError.hasFieldErrors ? null : apiError.message;
+};
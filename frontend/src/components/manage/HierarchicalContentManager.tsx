@@ -21,6 +21,9 @@ import ChapterForm from "../forms/ChapterForm";
 import VideoForm from "../forms/VideoForm";
 import ArticleForm from "../forms/ArticleForm";
 import TaskForm from "../forms/TaskForm";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("ContentManager");
 
 interface ModuleData {
   id: number;
@@ -106,8 +109,8 @@ const HierarchicalContentManager: React.FC = () => {
   // Fetch all modules
   const { data: modules, isLoading } = useQuery({
     queryKey: ["modules-all"],
-    queryFn: async () => {
-      const res = await learningAPI.getModulesAll();
+    queryFn: async ({ signal }) => {
+      const res = await learningAPI.getModulesAll({ signal });
       return res.data as ModuleData[];
     },
   });
@@ -115,10 +118,10 @@ const HierarchicalContentManager: React.FC = () => {
   // Fetch detailed module data when expanded
   const { data: moduleDetails, isLoading: detailsLoading } = useQuery({
     queryKey: ["module-details", Array.from(expanded.modules)],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       const details = await Promise.all(
         Array.from(expanded.modules).map(async (moduleId) => {
-          const res = await learningAPI.getModule(moduleId);
+          const res = await learningAPI.getModule(moduleId, { signal });
           return res.data as ModuleData;
         })
       );
@@ -142,7 +145,7 @@ const HierarchicalContentManager: React.FC = () => {
   // Get module detail data
   const getModuleDetail = (moduleId: number) => {
     const detail = moduleDetails?.find((module) => module.id === moduleId);
-    console.log(
+    log.debug(
       `🔍 [HierarchicalContentManager] Module ${moduleId} detail:`,
       detail
     );
@@ -195,7 +198,7 @@ const HierarchicalContentManager: React.FC = () => {
       queryClient.invalidateQueries({ queryKey: ["modules-all"] });
       queryClient.invalidateQueries({ queryKey: ["module-details"] });
     } catch (error) {
-      console.error(`Fehler beim Löschen von ${type}:`, error);
+      log.error(`Fehler beim Löschen von ${type}:`, error);
     }
   };
 
@@ -245,7 +248,7 @@ const HierarchicalContentManager: React.FC = () => {
     }
 
     try {
-      console.log("🔄 [Drag & Drop] Starting reorder:", {
+      log.debug("🔄 [Drag & Drop] Starting reorder:", {
         draggedItem,
         targetType,
         targetId,
@@ -274,7 +277,7 @@ const HierarchicalContentManager: React.FC = () => {
                   newOrder = targetIndex;
                 }
 
-                console.log(
+                log.debug(
                   `🔄 [Drag & Drop] Reordering chapter ${draggedItem.id} to order ${newOrder}`
                 );
                 await learningAPI.updateChapter(draggedItem.id, {
@@ -305,7 +308,7 @@ const HierarchicalContentManager: React.FC = () => {
                   newOrder = targetIndex;
                 }
 
-                console.log(
+                log.debug(
                   `🔄 [Drag & Drop] Reordering video ${draggedItem.id} to order ${newOrder}`
                 );
                 await learningAPI.updateContent(draggedItem.id, {
@@ -340,7 +343,7 @@ const HierarchicalContentManager: React.FC = () => {
                   newOrder = targetIndex;
                 }
 
-                console.log(
+                log.debug(
                   `🔄 [Drag & Drop] Reordering task ${draggedItem.id} to order ${newOrder}`
                 );
                 await learningAPI.updateTask(draggedItem.id, {
@@ -373,7 +376,7 @@ const HierarchicalContentManager: React.FC = () => {
                   newOrder = targetIndex;
                 }
 
-                console.log(
+                log.debug(
                   `🔄 [Drag & Drop] Reordering article ${draggedItem.id} to order ${newOrder}`
                 );
                 await learningAPI.updateArticle(draggedItem.id, {
@@ -393,9 +396,9 @@ const HierarchicalContentManager: React.FC = () => {
       queryClient.invalidateQueries({ queryKey: ["modules-all"] });
       queryClient.invalidateQueries({ queryKey: ["module-details"] });
 
-      console.log("✅ [Drag & Drop] Reorder completed successfully");
+      log.debug("✅ [Drag & Drop] Reorder completed successfully");
     } catch (error) {
-      console.error("❌ [Drag & Drop] Fehler beim Neuanordnen:", error);
+      log.error("❌ [Drag & Drop] Fehler beim Neuanordnen:", error);
     } finally {
       setDraggedItem(null);
     }
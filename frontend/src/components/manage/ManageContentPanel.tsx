@@ -9,6 +9,9 @@ import ArticleForm from "../forms/ArticleForm";
 import SortableList from "./SortableList";
 import ChapterContentList from "./ChapterContentList";
 import { useEffect } from "react";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("ManageContent");
 
 interface ModuleDetail {
   id: number;
@@ -41,8 +44,8 @@ const ManageContentPanel: React.FC = () => {
   const queryClient = useQueryClient();
   const { data, isLoading, error } = useQuery({
     queryKey: ["modules-all"],
-    queryFn: async () => {
-      const res = await learningAPI.getModulesAll();
+    queryFn: async ({ signal }) => {
+      const res = await learningAPI.getModulesAll({ signal });
       return res.data as {
         id: number;
         title: string;
@@ -62,9 +65,9 @@ const ManageContentPanel: React.FC = () => {
 
   const { data: detailData } = useQuery<ModuleDetail | undefined>({
     queryKey: ["module-detail", expanded],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!expanded) return undefined;
-      const res = await learningAPI.getModule(expanded);
+      const res = await learningAPI.getModule(expanded, { signal });
       return res.data as ModuleDetail;
     },
     enabled: !!expanded,
@@ -427,7 +430,7 @@ const ManageContentPanel: React.FC = () => {
                             url: item.url,
                             module_id: mod.id,
                           };
-                          console.log(
+                          log.debug(
                             `[DEBUG] Updating article ${item.id} with payload:`,
                             payload
                           );
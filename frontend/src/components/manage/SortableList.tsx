@@ -15,6 +15,9 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { DragEndEvent } from "@dnd-kit/core";
+import { createLogger } from "../../services/logger";
+
+const log = createLogger("SortableList");
 
 interface Item {
   id: number;
@@ -122,7 +125,7 @@ const SortableList: React.FC<SortableListProps> = ({
       );
 
       if (!activeElement || !overElement) {
-        console.log("Drag & Drop blocked: Items must be in the same chapter");
+        log.debug("Drag & Drop blocked: Items must be in the same chapter");
         return;
       }
     }
@@ -0,0 +1,170 @@
+/**
+ * Column Manager Component - DSP Database Overview Frontend
+ *
+ * Spaltenauswahl für den Tabellen-Browser:
+ * - Spalten ein- und ausblenden (mindestens eine bleibt sichtbar)
+ * - Reihenfolge der sichtbaren Spalten ändern
+ * - Eigene Spaltenbreite in Pixeln (leer = Standardbreite)
+ *
+ * Die Komponente ist kontrolliert - der Aufrufer speichert Spalten und
+ * Breiten (z.B. in der URL bzw. einer gespeicherten Ansicht).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React from "react";
+import { ArrowDown, ArrowUp, RotateCcw } from "lucide-react";
+import type { SchemaField } from "../../services/api";
+import { ButtonSecondary } from "../ui_elements/buttons";
+
+// --- Komponenten-Interface ---
+
+interface ColumnManagerProps {
+  fields: SchemaField[];
+  // Sichtbare Spalten in Anzeigereihenfolge
+  columns: string[];
+  widths: Record<string, number>;
+  getDefaultWidth: (field: SchemaField) => number;
+  onChange: (columns: string[], widths: Record<string, number>) => void;
+}
+
+// --- Konfiguration ---
+
+const MIN_COLUMN_WIDTH = 40;
+const MAX_COLUMN_WIDTH = 1000;
+
+const CHECKBOX_CLASSES =
+  "rounded border-gray-300 text-[#ff863d] focus:ring-[#ff863d]";
+
+const ICON_BUTTON_CLASSES =
+  "p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-900 disabled:opacity-30 disabled:hover:bg-transparent";
+
+// --- Column Manager ---
+
+const ColumnManager: React.FC<ColumnManagerProps> = ({
+  fields,
+  columns,
+  widths,
+  getDefaultWidth,
+  onChange,
+}) => {
+  const visibleFields = columns
+    .map((name) => fields.find((field) => field.name === name))
+    .filter((field): field is SchemaField => !!field);
+  const hiddenFields = fields.filter((field) => !columns.includes(field.name));
+
+  // Eingeblendete Spalten kommen ans Ende, die letzte bleibt sichtbar
+  const toggleColumn = (name: string) => {
+    if (!columns.includes(name)) {
+      onChange([...columns, name], widths);
+    } else if (columns.length > 1) {
+      onChange(columns.filter((item) => item !== name), widths);
+    }
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...columns];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next, widths);
+  };
+
+  const changeWidth = (name: string, value: string) => {
+    const rest = Object.fromEntries(
+      Object.entries(widths).filter(([key]) => key !== name)
+    );
+    const width = Number.parseInt(value, 10);
+    onChange(columns, width > 0 ? { ...rest, [name]: width } : rest);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Sichtbare Spalten in Anzeigereihenfolge */}
+      <ol className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+        {visibleFields.map((field, index) => (
+          <li
+            key={field.name}
+            className="flex items-center space-x-3 px-3 py-1.5 text-sm"
+          >
+            <input
+              type="checkbox"
+              checked
+              disabled={columns.length === 1}
+              onChange={() => toggleColumn(field.name)}
+              className={CHECKBOX_CLASSES}
+              aria-label={`${field.name} ausblenden`}
+            />
+            <span className="flex-1 truncate text-gray-900">{field.name}</span>
+            <button
+              type="button"
+              onClick={() => moveColumn(index, -1)}
+              disabled={index === 0}
+              className={ICON_BUTTON_CLASSES}
+              aria-label={`${field.name} nach vorne`}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveColumn(index, 1)}
+              disabled={index === visibleFields.length - 1}
+              className={ICON_BUTTON_CLASSES}
+              aria-label={`${field.name} nach hinten`}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </button>
+            <label className="flex items-center space-x-1 text-xs text-gray-500">
+              <input
+                type="number"
+                min={MIN_COLUMN_WIDTH}
+                max={MAX_COLUMN_WIDTH}
+                step={10}
+                value={widths[field.name] ?? ""}
+                placeholder={String(getDefaultWidth(field))}
+                onChange={(e) => changeWidth(field.name, e.target.value)}
+                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-[#ff863d]"
+                aria-label={`Breite von ${field.name} in Pixeln`}
+              />
+              <span>px</span>
+            </label>
+          </li>
+        ))}
+      </ol>
+
+      {/* Ausgeblendete Spalten */}
+      {hiddenFields.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+          {hiddenFields.map((field) => (
+            <label
+              key={field.name}
+              className="flex items-center space-x-2 text-sm text-gray-500 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={false}
+                onChange={() => toggleColumn(field.name)}
+                className={CHECKBOX_CLASSES}
+              />
+              <span className="truncate">{field.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <ButtonSecondary
+          onClick={() => onChange(fields.map((field) => field.name), {})}
+          icon={<RotateCcw />}
+          size="sm"
+          variant="outline"
+        >
+          Alle Spalten, Standardbreiten
+        </ButtonSecondary>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnManager;
@@ -0,0 +1,162 @@
+/**
+ * Column Menu Component - DSP Database Overview Frontend
+ *
+ * Menü einer Spalte im DataTable-Header:
+ * - Links oder rechts anheften bzw. lösen
+ * - Breite an den sichtbaren Inhalt anpassen
+ * - Spalte ausblenden
+ *
+ * Das Menü liegt über einem Portal im body, damit es nicht vom
+ * Scroll-Bereich der Tabelle abgeschnitten wird. Schließt bei Klick
+ * außerhalb, Escape und Scrollen.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  EyeOff,
+  MoveHorizontal,
+  PinOff,
+} from "lucide-react";
+
+// --- Typen ---
+
+export type ColumnPin = "left" | "right";
+
+interface ColumnMenuProps {
+  // Header-Zelle, unter der das Menü erscheint
+  anchor: HTMLElement;
+  pinned?: ColumnPin;
+  onPin?: (pinned: ColumnPin | null) => void;
+  onAutoFit?: () => void;
+  onHide?: () => void;
+  onClose: () => void;
+}
+
+// --- Styling ---
+
+const MENU_WIDTH = 208;
+
+const ITEM_CLASSES =
+  "w-full flex items-center space-x-2 px-3 py-2 text-sm text-left normal-case tracking-normal font-normal text-gray-700 rounded-md hover:bg-gray-100";
+
+// --- Column Menu ---
+
+const ColumnMenu: React.FC<ColumnMenuProps> = ({
+  anchor,
+  pinned,
+  onPin,
+  onAutoFit,
+  onHide,
+  onClose,
+}) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (!menuRef.current?.contains(target) && !anchor.contains(target)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    // Position wäre nach dem Scrollen veraltet
+    window.addEventListener("scroll", onClose, true);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("scroll", onClose, true);
+    };
+  }, [anchor, onClose]);
+
+  // Unter der Zelle, ohne über den rechten Fensterrand hinauszuragen
+  const rect = anchor.getBoundingClientRect();
+  const left = Math.max(
+    8,
+    Math.min(rect.left, window.innerWidth - MENU_WIDTH - 8)
+  );
+
+  const select = (action?: () => void) => () => {
+    action?.();
+    onClose();
+  };
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed z-50 p-1 bg-white border border-gray-200 rounded-lg shadow-lg"
+      style={{ top: rect.bottom + 4, left, width: MENU_WIDTH }}
+    >
+      {onPin && pinned !== "left" && (
+        <button
+          type="button"
+          role="menuitem"
+          onClick={select(() => onPin("left"))}
+          className={ITEM_CLASSES}
+        >
+          <ArrowLeftToLine className="h-4 w-4" />
+          <span>Links anheften</span>
+        </button>
+      )}
+      {onPin && pinned !== "right" && (
+        <button
+          type="button"
+          role="menuitem"
+          onClick={select(() => onPin("right"))}
+          className={ITEM_CLASSES}
+        >
+          <ArrowRightToLine className="h-4 w-4" />
+          <span>Rechts anheften</span>
+        </button>
+      )}
+      {onPin && pinned && (
+        <button
+          type="button"
+          role="menuitem"
+          onClick={select(() => onPin(null))}
+          className={ITEM_CLASSES}
+        >
+          <PinOff className="h-4 w-4" />
+          <span>Lösen</span>
+        </button>
+      )}
+      {onAutoFit && (
+        <button
+          type="button"
+          role="menuitem"
+          onClick={select(onAutoFit)}
+          className={ITEM_CLASSES}
+        >
+          <MoveHorizontal className="h-4 w-4" />
+          <span>Breite anpassen</span>
+        </button>
+      )}
+      {onHide && (
+        <button
+          type="button"
+          role="menuitem"
+          onClick={select(onHide)}
+          className={ITEM_CLASSES}
+        >
+          <EyeOff className="h-4 w-4" />
+          <span>Ausblenden</span>
+        </button>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+export default ColumnMenu;
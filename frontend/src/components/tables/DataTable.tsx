@@ -3,10 +3,23 @@
  *
  * Haupt-Tabellen-Komponente für Datenvisualisierung:
  * - Sortierbare Spalten mit visuellen Indikatoren
+ * - Mehrspaltige Sortierung (Umschalt+Klick für weitere Sortierschlüssel)
+ * - Klickbare Zeilen (z.B. für Detailansichten), auch per Tastatur
  * - Verschiedene Styling-Optionen (bordered, striped, hover)
  * - Loading- und Empty-States
  * - Sticky Header für große Tabellen
  * - Responsive Design mit horizontalem Scroll
+ * - Virtualisierung für große Tabellen: nur sichtbare Zeilen und Spalten
+ *   im DOM, feste Höhe mit Sticky Header
+ * - Endlos-Scrollen über onEndReached (nur mit Virtualisierung)
+ * - Spalten-Layout: Breite per Ziehen am Rand, Reihenfolge per Ziehen des
+ *   Headers, links/rechts anheften; Menü je Spalte mit Anheften, Breite
+ *   anpassen und Ausblenden. Änderungen meldet die Tabelle über Callbacks,
+ *   der Aufrufer speichert das Layout und reicht es über columns zurück.
+ * - Auswahl mehrerer Zeilen per Checkbox (Umschalt+Klick für Bereiche),
+ *   alle Zeilen der Seite oder alle passenden Datensätze; Aktionsleiste für
+ *   die Auswahl über bulkActions. Die Auswahl verwaltet der Aufrufer
+ *   (siehe useRowSelection).
  * 
  * Features:
  * - TypeScript-Generics für typsichere Daten
@@ -20,15 +33,40 @@
  * Version: 1.0.0
  */
 
-import React from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
 import clsx from "clsx";
-import { ChevronDown, ChevronUp } from "lucide-react";
+import { ChevronDown, ChevronUp, MoreVertical } from "lucide-react";
+import {
+  closestCenter,
+  DndContext,
+  MouseSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  arrayMove,
+  horizontalListSortingStrategy,
+  SortableContext,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import ColumnMenu, { type ColumnPin } from "./ColumnMenu";
 
 // --- Typen-Definitionen ---
 
 export interface TableColumn<T = any> {
   key: string;
   header: string;
+  // Eigener Header-Inhalt statt des Textes (Sortier-Icon bleibt erhalten)
+  renderHeader?: () => React.ReactNode;
   width?: string;
   minWidth?: string;
   maxWidth?: string;
@@ -36,6 +74,8 @@ export interface TableColumn<T = any> {
   render?: (value: any, row: T, index: number) => React.ReactNode;
   className?: string;
   headerClassName?: string;
+  // Angeheftet - bleibt beim horizontalen Scrollen sichtbar
+  pinned?: ColumnPin;
 }
 
 export interface SortConfig {
@@ -43,24 +83,254 @@ export interface SortConfig {
   direction: "asc" | "desc";
 }
 
+export type RowKey = string | number;
+
+export interface RowSelection {
+  keys: ReadonlySet<RowKey>;
+  // Alle passenden Datensätze, auch nicht geladene (keys ist dann leer)
+  allMatching: boolean;
+}
+
 interface DataTableProps<T = any> {
   columns: TableColumn<T>[];
   data: T[];
   loading?: boolean;
-  sortConfig?: SortConfig;
-  onSort?: (key: string) => void;
+  // Einzelne Sortierung oder Liste nach Priorität (erster Eintrag primär)
+  sortConfig?: SortConfig | SortConfig[];
+  // additive: Umschalt+Klick - Spalte als weiteren Sortierschlüssel führen
+  onSort?: (key: string, additive: boolean) => void;
   className?: string;
   headerClassName?: string;
   bodyClassName?: string;
   rowClassName?: string | ((row: T, index: number) => string);
+  // Klick oder Enter auf eine Zeile
+  onRowClick?: (row: T, index: number) => void;
   emptyMessage?: string;
   stickyHeader?: boolean;
   bordered?: boolean;
   striped?: boolean;
   hover?: boolean;
   compact?: boolean;
+  // Nur sichtbare Zeilen und Spalten rendern (feste Zeilenhöhe, Breiten
+  // der Spalten in px)
+  virtualized?: boolean;
+  // Maximale Höhe des Scroll-Bereichs bei Virtualisierung
+  maxHeight?: string;
+  // Zeilenhöhe in px (Standard passend zu compact)
+  rowHeight?: number;
+  // Kurz vor der letzten Zeile gescrollt (z.B. nächste Seite laden)
+  onEndReached?: () => void;
+  // Ladeanzeige unter der letzten Zeile
+  loadingMore?: boolean;
+  // Spalten-Layout - ohne Callback ist die jeweilige Funktion aus
+  // Neue Breite in px (Ziehen am Rand oder "Breite anpassen")
+  onColumnResize?: (key: string, width: number) => void;
+  // Neue Reihenfolge aller Spalten (nur innerhalb gleich angehefteter)
+  onColumnOrderChange?: (keys: string[]) => void;
+  // Anheften (null = lösen)
+  onColumnPinChange?: (key: string, pinned: ColumnPin | null) => void;
+  onColumnHide?: (key: string) => void;
+  // Auswahl - Checkbox-Spalte nur mit onSelectionChange
+  selection?: RowSelection;
+  onSelectionChange?: (selection: RowSelection) => void;
+  // Schlüssel einer Zeile für Auswahl und React-Keys (Standard: Index) -
+  // mit stabilen Schlüsseln behalten Zeilen ihren Zustand beim Umsortieren
+  getRowKey?: (row: T, index: number) => RowKey;
+  // Anzahl aller passenden Datensätze für "Alle auswählen"
+  totalCount?: number;
+  // Aktionen in der Leiste über der Tabelle (nur bei Auswahl sichtbar)
+  bulkActions?: React.ReactNode;
+}
+
+// --- Virtualisierung ---
+
+const ROW_HEIGHT = { normal: 53, compact: 37 };
+const DEFAULT_COLUMN_WIDTH = 150;
+
+// Zusätzlich gerenderte Zeilen/Spalten außerhalb des sichtbaren Bereichs
+const ROW_OVERSCAN = 10;
+const COLUMN_OVERSCAN = 2;
+
+// onEndReached, sobald so viele Zeilen vor dem Ende sichtbar sind
+const END_REACHED_THRESHOLD = 20;
+
+interface Viewport {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+interface VisibleRange {
+  first: number;
+  // Exklusiv
+  last: number;
+}
+
+const parsePixels = (value?: string) => {
+  const match = /^(\d+(?:\.\d+)?)px$/.exec(value ?? "");
+  return match ? Number(match[1]) : null;
+};
+
+const getColumnPixelWidth = (column: TableColumn) =>
+  parsePixels(column.width) ??
+  parsePixels(column.minWidth) ??
+  DEFAULT_COLUMN_WIDTH;
+
+const getRowRange = (
+  viewport: Viewport,
+  rowHeight: number,
+  rowCount: number
+): VisibleRange => ({
+  first: Math.max(0, Math.floor(viewport.top / rowHeight) - ROW_OVERSCAN),
+  last: Math.min(
+    rowCount,
+    Math.ceil((viewport.top + viewport.height) / rowHeight) + ROW_OVERSCAN
+  ),
+});
+
+const getColumnRange = (
+  viewport: Viewport,
+  widths: number[]
+): VisibleRange => {
+  let first = 0;
+  let offset = 0;
+  while (first < widths.length - 1 && offset + widths[first] <= viewport.left) {
+    offset += widths[first];
+    first += 1;
+  }
+  let last = first;
+  while (last < widths.length && offset < viewport.left + viewport.width) {
+    offset += widths[last];
+    last += 1;
+  }
+  return {
+    first: Math.max(0, first - COLUMN_OVERSCAN),
+    last: Math.min(widths.length, Math.max(last, first + 1) + COLUMN_OVERSCAN),
+  };
+};
+
+const sumWidths = (widths: number[], from: number, to: number) =>
+  widths.slice(from, to).reduce((sum, width) => sum + width, 0);
+
+// --- Spalten-Layout ---
+
+const MIN_COLUMN_WIDTH = 40;
+const MAX_COLUMN_WIDTH = 1000;
+// Obergrenze für "Breite anpassen"
+const MAX_AUTO_FIT_WIDTH = 600;
+
+const clampWidth = (width: number, max = MAX_COLUMN_WIDTH) =>
+  Math.min(max, Math.max(MIN_COLUMN_WIDTH, Math.round(width)));
+
+const getPinGroup = (column: TableColumn) => column.pinned ?? "none";
+
+// --- Auswahl ---
+
+const SELECTION_COLUMN_KEY = "__selection";
+const NO_KEYS: ReadonlySet<RowKey> = new Set();
+
+const CHECKBOX_CLASSES =
+  "rounded border-gray-300 text-[#ff863d] focus:ring-[#ff863d]";
+
+interface HeaderCellProps {
+  column: TableColumn;
+  className: string;
+  style: React.CSSProperties;
+  ariaSort?: React.AriaAttributes["aria-sort"];
+  sortIndicator: React.ReactNode;
+  reorderable: boolean;
+  onSort?: (event: React.MouseEvent) => void;
+  onResizeStart?: (event: React.PointerEvent) => void;
+  onOpenMenu?: (anchor: HTMLElement) => void;
 }
 
+/**
+ * Header-Zelle mit Sortierung, Ziehen zum Umsortieren, Rand zum Ändern der
+ * Breite und Menü-Button
+ */
+const HeaderCell: React.FC<HeaderCellProps> = ({
+  column,
+  className,
+  style,
+  ariaSort,
+  sortIndicator,
+  reorderable,
+  onSort,
+  onResizeStart,
+  onOpenMenu,
+}) => {
+  const { listeners, setNodeRef, transform, transition, isDragging } =
+    useSortable({ id: column.key, disabled: !reorderable });
+
+  return (
+    <th
+      ref={setNodeRef}
+      scope="col"
+      data-column-key={column.key}
+      className={clsx(
+        className,
+        reorderable && "cursor-grab",
+        isDragging && "opacity-60"
+      )}
+      style={{
+        ...style,
+        transform: CSS.Translate.toString(transform),
+        transition,
+        ...(isDragging && { zIndex: 30 }),
+      }}
+      aria-sort={ariaSort}
+      title={
+        column.sortable
+          ? "Klicken zum Sortieren, Umschalt+Klick für weitere Spalten"
+          : undefined
+      }
+      onClick={onSort}
+      {...listeners}
+    >
+      <div className="flex items-center space-x-1" data-column-content>
+        {column.renderHeader ? (
+          <div className="min-w-0">{column.renderHeader()}</div>
+        ) : (
+          <span>{column.header}</span>
+        )}
+        {column.sortable && (
+          <span className="text-gray-400">
+            {sortIndicator || <ChevronDown className="w-4 h-4 opacity-50" />}
+          </span>
+        )}
+        {onOpenMenu && (
+          <button
+            type="button"
+            onMouseDown={(event) => event.stopPropagation()}
+            onClick={(event) => {
+              event.stopPropagation();
+              onOpenMenu(event.currentTarget.closest("th") as HTMLElement);
+            }}
+            className="ml-auto p-0.5 rounded text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+            aria-label={`Menü für Spalte ${column.header}`}
+          >
+            <MoreVertical className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Rand zum Ändern der Breite */}
+      {onResizeStart && (
+        <div
+          role="separator"
+          aria-orientation="vertical"
+          aria-label={`Breite von ${column.header} ändern`}
+          onPointerDown={onResizeStart}
+          onMouseDown={(event) => event.stopPropagation()}
+          onClick={(event) => event.stopPropagation()}
+          className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-[#ff863d]/50"
+        />
+      )}
+    </th>
+  );
+};
+
 /**
  * Data Table Komponente
  * 
@@ -77,38 +347,289 @@ const DataTable = <T extends Record<string, any>>({
   headerClassName = "",
   bodyClassName = "",
   rowClassName = "",
+  onRowClick,
   emptyMessage = "Keine Daten verfügbar",
   stickyHeader = false,
   bordered = true,
   striped = false,
   hover = true,
   compact = false,
+  virtualized = false,
+  maxHeight = "70vh",
+  rowHeight = compact ? ROW_HEIGHT.compact : ROW_HEIGHT.normal,
+  onEndReached,
+  loadingMore = false,
+  onColumnResize,
+  onColumnOrderChange,
+  onColumnPinChange,
+  onColumnHide,
+  selection,
+  onSelectionChange,
+  getRowKey,
+  totalCount,
+  bulkActions,
 }: DataTableProps<T>) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+  // Breite während des Ziehens am Spaltenrand
+  const [resizing, setResizing] = useState<{
+    key: string;
+    width: number;
+  } | null>(null);
+  const [menu, setMenu] = useState<{
+    key: string;
+    anchor: HTMLElement;
+  } | null>(null);
+  const closeMenu = useCallback(() => setMenu(null), []);
+  // Zuletzt angeklickte Zeile - Ausgangspunkt für Umschalt+Klick
+  const selectionAnchorRef = useRef<number | null>(null);
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, {
+      activationConstraint: { delay: 250, tolerance: 5 },
+    })
+  );
+  const [viewport, setViewport] = useState<Viewport>({
+    top: 0,
+    left: 0,
+    width: 0,
+    height: 0,
+  });
+
+  const updateViewport = useCallback(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    setViewport({
+      top: element.scrollTop,
+      left: element.scrollLeft,
+      width: element.clientWidth,
+      height: element.clientHeight,
+    });
+  }, []);
+
+  // Größe des Scroll-Bereichs messen und bei Änderungen nachführen
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!virtualized || !element) return;
+
+    updateViewport();
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [virtualized, updateViewport]);
+
+  // --- Auswahl ---
+
+  const selectable = !!onSelectionChange;
+  const selectedKeys = selection?.keys ?? NO_KEYS;
+  const allMatching = !!selection?.allMatching;
+  const rowKeys = data.map((row, index) =>
+    getRowKey ? getRowKey(row, index) : index
+  );
+  const isRowSelected = (rowIndex: number) =>
+    allMatching || selectedKeys.has(rowKeys[rowIndex]);
+  const selectedOnPage = allMatching
+    ? data.length
+    : rowKeys.filter((key) => selectedKeys.has(key)).length;
+  const allOnPageSelected = data.length > 0 && selectedOnPage === data.length;
+  const selectedCount = allMatching
+    ? totalCount ?? data.length
+    : selectedKeys.size;
+
+  // Umschalt+Klick übernimmt den neuen Zustand für alle Zeilen zwischen
+  // der zuletzt angeklickten und dieser
+  const toggleRow = (rowIndex: number, range: boolean) => {
+    const keys = new Set(allMatching ? rowKeys : selectedKeys);
+    const select = !isRowSelected(rowIndex);
+    const anchor = selectionAnchorRef.current;
+    const [from, to] =
+      range && anchor !== null && anchor < data.length
+        ? [Math.min(anchor, rowIndex), Math.max(anchor, rowIndex)]
+        : [rowIndex, rowIndex];
+    for (let index = from; index <= to; index++) {
+      if (select) keys.add(rowKeys[index]);
+      else keys.delete(rowKeys[index]);
+    }
+    selectionAnchorRef.current = rowIndex;
+    onSelectionChange?.({ keys, allMatching: false });
+  };
+
+  const togglePage = () => {
+    if (allMatching) {
+      onSelectionChange?.({ keys: new Set(), allMatching: false });
+      return;
+    }
+    const keys = new Set(selectedKeys);
+    rowKeys.forEach((key) =>
+      allOnPageSelected ? keys.delete(key) : keys.add(key)
+    );
+    onSelectionChange?.({ keys, allMatching: false });
+  };
+
+  // Checkbox-Spalte vor den übrigen (angeheftet, wenn andere es sind)
+  const selectionColumn: TableColumn<T> = {
+    key: SELECTION_COLUMN_KEY,
+    header: "Auswahl",
+    width: "44px",
+    minWidth: "44px",
+    maxWidth: "44px",
+    pinned:
+      virtualized || columns.some((column) => column.pinned)
+        ? "left"
+        : undefined,
+    renderHeader: () => (
+      <input
+        type="checkbox"
+        ref={(input) => {
+          if (input) {
+            input.indeterminate = selectedOnPage > 0 && !allOnPageSelected;
+          }
+        }}
+        checked={allOnPageSelected}
+        onChange={togglePage}
+        disabled={data.length === 0}
+        className={CHECKBOX_CLASSES}
+        aria-label="Alle Zeilen der Seite auswählen"
+      />
+    ),
+    render: (_value, _row, rowIndex) => (
+      <input
+        type="checkbox"
+        checked={isRowSelected(rowIndex)}
+        onChange={(event) =>
+          toggleRow(rowIndex, (event.nativeEvent as MouseEvent).shiftKey)
+        }
+        onClick={(event) => event.stopPropagation()}
+        className={CHECKBOX_CLASSES}
+        aria-label={`Zeile ${rowIndex + 1} auswählen`}
+      />
+    ),
+  };
+  const layoutColumns = selectable ? [selectionColumn, ...columns] : columns;
+
+  // --- Spalten und Breiten ---
+
+  const getWidth = (column: TableColumn<T>) =>
+    resizing?.key === column.key
+      ? resizing.width
+      : getColumnPixelWidth(column);
+
+  // Angeheftete Spalten außen, dazwischen die scrollbaren
+  const leftColumns = layoutColumns.filter(
+    (column) => column.pinned === "left"
+  );
+  const rightColumns = layoutColumns.filter(
+    (column) => column.pinned === "right"
+  );
+  const centerColumns = layoutColumns.filter((column) => !column.pinned);
+  const leftWidths = leftColumns.map(getWidth);
+  const rightWidths = rightColumns.map(getWidth);
+  const centerWidths = centerColumns.map(getWidth);
+  const leftWidth = sumWidths(leftWidths, 0, leftWidths.length);
+  const rightWidth = sumWidths(rightWidths, 0, rightWidths.length);
+  const totalWidth =
+    leftWidth + rightWidth + sumWidths(centerWidths, 0, centerWidths.length);
+  // Feste Breiten für Virtualisierung und Abstände angehefteter Spalten
+  const fixedLayout =
+    virtualized || leftColumns.length > 0 || rightColumns.length > 0;
+
+  // --- Sichtbarer Ausschnitt ---
+
+  const rowRange = virtualized
+    ? getRowRange(viewport, rowHeight, data.length)
+    : { first: 0, last: data.length };
+  const columnRange = virtualized
+    ? getColumnRange(
+        {
+          ...viewport,
+          width: Math.max(0, viewport.width - leftWidth - rightWidth),
+        },
+        centerWidths
+      )
+    : { first: 0, last: centerColumns.length };
+  const visibleRows = data.slice(rowRange.first, rowRange.last);
+  const visibleCenterColumns = centerColumns.slice(
+    columnRange.first,
+    columnRange.last
+  );
+  const renderedColumnCount =
+    leftColumns.length + visibleCenterColumns.length + rightColumns.length + 2;
+
+  // Platzhalter für nicht gerenderte Zeilen und Spalten
+  const spacerTop = rowRange.first * rowHeight;
+  const spacerBottom = (data.length - rowRange.last) * rowHeight;
+  const spacerLeft = sumWidths(centerWidths, 0, columnRange.first);
+  const spacerRight = sumWidths(
+    centerWidths,
+    columnRange.last,
+    centerColumns.length
+  );
+
+  // Nächste Daten anfordern, wenn das Ende in Sichtweite ist (auch wenn die
+  // geladenen Zeilen den Scroll-Bereich noch nicht füllen)
+  useEffect(() => {
+    if (
+      virtualized &&
+      onEndReached &&
+      !loading &&
+      data.length > 0 &&
+      rowRange.last >= data.length - END_REACHED_THRESHOLD
+    ) {
+      onEndReached();
+    }
+  }, [virtualized, onEndReached, loading, data.length, rowRange.last]);
+
+  const sorts = Array.isArray(sortConfig)
+    ? sortConfig
+    : sortConfig
+    ? [sortConfig]
+    : [];
+
   // --- Event Handler ---
   
-  const handleSort = (key: string) => {
+  const handleSort = (key: string, event: React.MouseEvent) => {
     if (onSort) {
-      onSort(key);
+      onSort(key, event.shiftKey);
     }
   };
 
   // --- Helper-Funktionen ---
   
+  const getSortIndex = (columnKey: string) =>
+    sorts.findIndex((sort) => sort.key === columnKey);
+
   const getSortIcon = (columnKey: string) => {
-    if (!sortConfig || sortConfig.key !== columnKey) {
+    const index = getSortIndex(columnKey);
+    if (index === -1) {
       return null;
     }
-    return sortConfig.direction === "asc" ? (
-      <ChevronUp className="w-4 h-4" />
-    ) : (
-      <ChevronDown className="w-4 h-4" />
+    return (
+      <span className="inline-flex items-center text-gray-700">
+        {sorts[index].direction === "asc" ? (
+          <ChevronUp className="w-4 h-4" />
+        ) : (
+          <ChevronDown className="w-4 h-4" />
+        )}
+        {/* Priorität nur bei mehreren Sortierschlüsseln anzeigen */}
+        {sorts.length > 1 && (
+          <span className="text-[10px] font-semibold">{index + 1}</span>
+        )}
+      </span>
     );
   };
 
+  const getAriaSort = (column: TableColumn<T>) => {
+    if (!column.sortable) return undefined;
+    const index = getSortIndex(column.key);
+    if (index === -1) return "none";
+    return sorts[index].direction === "asc" ? "ascending" : "descending";
+  };
+
   const getRowClassName = (row: T, index: number) => {
     const baseClasses = clsx(
       hover && "hover:bg-gray-50 transition-colors",
-      striped && index % 2 === 1 && "bg-gray-50/50"
+      striped && index % 2 === 1 && "bg-gray-50/50",
+      onRowClick && "cursor-pointer focus:outline-none focus:bg-orange-50"
     );
 
     if (typeof rowClassName === "function") {
@@ -117,6 +638,182 @@ const DataTable = <T extends Record<string, any>>({
     return clsx(baseClasses, rowClassName);
   };
 
+  // --- Spalten-Layout ---
+
+  // Abstand angehefteter Spalten vom Rand (sticky), Trennlinie an der
+  // innersten Spalte
+  const getPinStyle = (column: TableColumn<T>): React.CSSProperties => {
+    if (column.pinned === "left") {
+      const index = leftColumns.indexOf(column);
+      return { position: "sticky", left: sumWidths(leftWidths, 0, index) };
+    }
+    if (column.pinned === "right") {
+      const index = rightColumns.indexOf(column);
+      return {
+        position: "sticky",
+        right: sumWidths(rightWidths, index + 1, rightWidths.length),
+      };
+    }
+    return {};
+  };
+
+  const getPinClassName = (column: TableColumn<T>) =>
+    clsx(
+      column.pinned && "z-[1]",
+      column === leftColumns[leftColumns.length - 1] &&
+        "border-r border-gray-200",
+      column === rightColumns[0] && "border-l border-gray-200"
+    );
+
+  const getWidthStyle = (column: TableColumn<T>): React.CSSProperties => {
+    if (resizing?.key === column.key) {
+      const width = `${resizing.width}px`;
+      return { width, minWidth: width, maxWidth: width };
+    }
+    return {
+      width: column.width,
+      minWidth: column.minWidth,
+      maxWidth: column.maxWidth,
+    };
+  };
+
+  // Breite live nachführen, erst beim Loslassen melden
+  const startResize =
+    (column: TableColumn<T>) => (event: React.PointerEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const startX = event.clientX;
+      const startWidth = getWidth(column);
+      let width = startWidth;
+
+      const handleMove = (moveEvent: PointerEvent) => {
+        width = clampWidth(startWidth + moveEvent.clientX - startX);
+        setResizing({ key: column.key, width });
+      };
+      const handleUp = () => {
+        window.removeEventListener("pointermove", handleMove);
+        window.removeEventListener("pointerup", handleUp);
+        setResizing(null);
+        if (width !== startWidth) onColumnResize?.(column.key, width);
+      };
+      window.addEventListener("pointermove", handleMove);
+      window.addEventListener("pointerup", handleUp);
+    };
+
+  // Breite des breitesten gerenderten Inhalts (Header und sichtbare Zeilen)
+  const autoFitColumn = (column: TableColumn<T>) => {
+    const key = window.CSS.escape(column.key);
+    const contents = tableRef.current?.querySelectorAll<HTMLElement>(
+      `[data-column-key="${key}"] [data-column-content]`
+    );
+    if (!contents || contents.length === 0) return;
+
+    // max-content misst den Inhalt auch, wenn er schmaler als die Spalte ist
+    const contentWidth = Math.max(
+      ...Array.from(contents, (content) => {
+        const previous = content.style.width;
+        content.style.width = "max-content";
+        const width = content.getBoundingClientRect().width;
+        content.style.width = previous;
+        return width;
+      })
+    );
+    const padding = compact ? 32 : 48;
+    onColumnResize?.(
+      column.key,
+      clampWidth(contentWidth + padding, MAX_AUTO_FIT_WIDTH)
+    );
+  };
+
+  // Umsortieren nur innerhalb gleich angehefteter Spalten
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!onColumnOrderChange || !over || active.id === over.id) return;
+
+    const keys = columns.map((column) => column.key);
+    const from = keys.indexOf(String(active.id));
+    const to = keys.indexOf(String(over.id));
+    if (from === -1 || to === -1) return;
+    if (getPinGroup(columns[from]) !== getPinGroup(columns[to])) return;
+
+    onColumnOrderChange(arrayMove(keys, from, to));
+  };
+
+  const hasColumnMenu = !!(onColumnPinChange || onColumnResize || onColumnHide);
+  const menuColumn = menu
+    ? columns.find((column) => column.key === menu.key)
+    : undefined;
+
+  // --- Rendering ---
+
+  const renderHeaderCell = (column: TableColumn<T>) => {
+    // Checkbox-Spalte ohne Layout-Funktionen
+    const layoutEnabled = column.key !== SELECTION_COLUMN_KEY;
+    return (
+      <HeaderCell
+        key={column.key}
+        column={column}
+        className={clsx(
+          "relative text-left text-xs font-medium text-gray-500 uppercase tracking-wider bg-gray-50",
+          compact ? "px-4 py-2" : "px-6 py-3",
+          column.sortable && "cursor-pointer select-none hover:bg-gray-100",
+          getPinClassName(column),
+          column.headerClassName
+        )}
+        style={{ ...getWidthStyle(column), ...getPinStyle(column) }}
+        ariaSort={getAriaSort(column)}
+        sortIndicator={getSortIcon(column.key)}
+        reorderable={layoutEnabled && !!onColumnOrderChange}
+        onSort={
+          column.sortable ? (event) => handleSort(column.key, event) : undefined
+        }
+        onResizeStart={
+          layoutEnabled && onColumnResize ? startResize(column) : undefined
+        }
+        onOpenMenu={
+          layoutEnabled && hasColumnMenu
+            ? (anchor) => setMenu({ key: column.key, anchor })
+            : undefined
+        }
+      />
+    );
+  };
+
+  const renderCell = (row: T, rowIndex: number, column: TableColumn<T>) => (
+    <td
+      key={column.key}
+      data-column-key={column.key}
+      className={clsx(
+        "text-sm text-gray-900",
+        compact ? "px-4 py-2" : "px-6 py-4",
+        column.pinned &&
+          (isRowSelected(rowIndex)
+            ? "bg-orange-50"
+            : "bg-white group-hover:bg-gray-50"),
+        getPinClassName(column),
+        column.className
+      )}
+      style={{ ...getWidthStyle(column), ...getPinStyle(column) }}
+    >
+      <div
+        className="truncate"
+        data-column-content
+        title={
+          typeof row[column.key] === "string" ||
+          typeof row[column.key] === "number"
+            ? String(row[column.key])
+            : undefined
+        }
+      >
+        {column.render
+          ? column.render(row[column.key], row, rowIndex)
+          : row[column.key]}
+      </div>
+    </td>
+  );
+
+  const spacerCell = (width: number, key: string) =>
+    width > 0 && <td key={key} aria-hidden="true" style={{ padding: 0 }} />;
+
   return (
     <div
       className={clsx(
@@ -125,48 +822,111 @@ const DataTable = <T extends Record<string, any>>({
         className
       )}
     >
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-200">
+      {/* Aktionsleiste für die Auswahl */}
+      {selectable && selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-orange-50 border-b border-orange-100 text-sm">
+          <span className="font-medium text-gray-900" aria-live="polite">
+            {allMatching
+              ? `Alle ${selectedCount.toLocaleString()} Datensätze ausgewählt`
+              : `${selectedCount.toLocaleString()} ausgewählt`}
+          </span>
+          {allOnPageSelected &&
+            !allMatching &&
+            totalCount !== undefined &&
+            totalCount > data.length && (
+              <button
+                type="button"
+                onClick={() =>
+                  onSelectionChange({ keys: new Set(), allMatching: true })
+                }
+                className="text-[#ff863d] hover:text-[#e6752e] font-medium"
+              >
+                Alle {totalCount.toLocaleString()} passenden auswählen
+              </button>
+            )}
+          <button
+            type="button"
+            onClick={() =>
+              onSelectionChange({ keys: new Set(), allMatching: false })
+            }
+            className="text-gray-600 hover:text-gray-900"
+          >
+            Auswahl aufheben
+          </button>
+          {bulkActions && (
+            <div className="ml-auto flex flex-wrap items-center gap-2">
+              {bulkActions}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        className={virtualized ? "overflow-auto" : "overflow-x-auto"}
+        style={virtualized ? { maxHeight } : undefined}
+        onScroll={virtualized ? updateViewport : undefined}
+      >
+        <table
+          ref={tableRef}
+          className={clsx(
+            "divide-y divide-gray-200",
+            fixedLayout ? "table-fixed" : "min-w-full"
+          )}
+          style={
+            fixedLayout ? { width: totalWidth, minWidth: "100%" } : undefined
+          }
+        >
+          {/* Feste Spaltenbreiten inkl. Platzhaltern */}
+          {fixedLayout && (
+            <colgroup>
+              {leftColumns.map((column, index) => (
+                <col key={column.key} style={{ width: leftWidths[index] }} />
+              ))}
+              {spacerLeft > 0 && <col style={{ width: spacerLeft }} />}
+              {visibleCenterColumns.map((column, index) => (
+                <col
+                  key={column.key}
+                  style={{ width: centerWidths[columnRange.first + index] }}
+                />
+              ))}
+              {spacerRight > 0 && <col style={{ width: spacerRight }} />}
+              {rightColumns.map((column, index) => (
+                <col key={column.key} style={{ width: rightWidths[index] }} />
+              ))}
+            </colgroup>
+          )}
+
           {/* --- Tabellen-Header --- */}
           <thead
             className={clsx(
               "bg-gray-50",
-              stickyHeader && "sticky top-0 z-10",
+              (stickyHeader || virtualized) && "sticky top-0 z-10",
               headerClassName
             )}
           >
-            <tr>
-              {columns.map((column) => (
-                <th
-                  key={column.key}
-                  scope="col"
-                  className={clsx(
-                    "text-left text-xs font-medium text-gray-500 uppercase tracking-wider",
-                    compact ? "px-4 py-2" : "px-6 py-3",
-                    column.sortable &&
-                      "cursor-pointer select-none hover:bg-gray-100",
-                    column.headerClassName
+            <DndContext
+              sensors={sensors}
+              collisionDetection={closestCenter}
+              onDragEnd={handleDragEnd}
+            >
+              <SortableContext
+                items={columns.map((column) => column.key)}
+                strategy={horizontalListSortingStrategy}
+              >
+                <tr>
+                  {leftColumns.map(renderHeaderCell)}
+                  {spacerLeft > 0 && (
+                    <th aria-hidden="true" style={{ padding: 0 }} />
                   )}
-                  style={{
-                    width: column.width,
-                    minWidth: column.minWidth,
-                    maxWidth: column.maxWidth,
-                  }}
-                  onClick={() => column.sortable && handleSort(column.key)}
-                >
-                  <div className="flex items-center space-x-1">
-                    <span>{column.header}</span>
-                    {column.sortable && (
-                      <span className="text-gray-400">
-                        {getSortIcon(column.key) || (
-                          <ChevronDown className="w-4 h-4 opacity-50" />
-                        )}
-                      </span>
-                    )}
-                  </div>
-                </th>
-              ))}
-            </tr>
+                  {visibleCenterColumns.map(renderHeaderCell)}
+                  {spacerRight > 0 && (
+                    <th aria-hidden="true" style={{ padding: 0 }} />
+                  )}
+                  {rightColumns.map(renderHeaderCell)}
+                </tr>
+              </SortableContext>
+            </DndContext>
           </thead>
           
           {/* --- Tabellen-Body --- */}
@@ -176,7 +936,10 @@ const DataTable = <T extends Record<string, any>>({
             {/* --- Loading State --- */}
             {loading ? (
               <tr>
-                <td colSpan={columns.length} className="px-6 py-12 text-center">
+                <td
+                  colSpan={renderedColumnCount}
+                  className="px-6 py-12 text-center"
+                >
                   <div className="flex items-center justify-center space-x-2">
                     <div className="animate-spin rounded-full h-5 w-5 border-2 border-dsp-orange border-t-transparent" />
                     <span className="text-gray-500">Laden...</span>
@@ -188,43 +951,102 @@ const DataTable = <T extends Record<string, any>>({
             data.length === 0 ? (
               <tr>
                 <td
-                  colSpan={columns.length}
+                  colSpan={renderedColumnCount}
                   className="px-6 py-12 text-center text-gray-500"
                 >
                   {emptyMessage}
                 </td>
               </tr>
             ) : (
-              /* --- Daten-Zeilen --- */
-              data.map((row, rowIndex) => (
-                <tr key={rowIndex} className={getRowClassName(row, rowIndex)}>
-                  {columns.map((column) => (
+              <>
+                {spacerTop > 0 && (
+                  <tr aria-hidden="true">
                     <td
-                      key={column.key}
+                      colSpan={renderedColumnCount}
+                      style={{ height: spacerTop, padding: 0 }}
+                    />
+                  </tr>
+                )}
+
+                {/* --- Daten-Zeilen --- */}
+                {visibleRows.map((row, visibleIndex) => {
+                  const rowIndex = rowRange.first + visibleIndex;
+                  return (
+                    <tr
+                      key={rowKeys[rowIndex]}
                       className={clsx(
-                        "text-sm text-gray-900",
-                        compact ? "px-4 py-2" : "px-6 py-4",
-                        column.className
+                        "group",
+                        selectable && isRowSelected(rowIndex) && "bg-orange-50",
+                        getRowClassName(row, rowIndex)
                       )}
-                      style={{
-                        width: column.width,
-                        minWidth: column.minWidth,
-                        maxWidth: column.maxWidth,
-                      }}
+                      style={virtualized ? { height: rowHeight } : undefined}
+                      {...(onRowClick && {
+                        onClick: () => onRowClick(row, rowIndex),
+                        onKeyDown: (event: React.KeyboardEvent) => {
+                          if (event.key === "Enter") onRowClick(row, rowIndex);
+                        },
+                        tabIndex: 0,
+                      })}
                     >
-                      <div className="truncate">
-                        {column.render
-                          ? column.render(row[column.key], row, rowIndex)
-                          : row[column.key]}
-                      </div>
+                      {leftColumns.map((column) =>
+                        renderCell(row, rowIndex, column)
+                      )}
+                      {spacerCell(spacerLeft, "spacer-left")}
+                      {visibleCenterColumns.map((column) =>
+                        renderCell(row, rowIndex, column)
+                      )}
+                      {spacerCell(spacerRight, "spacer-right")}
+                      {rightColumns.map((column) =>
+                        renderCell(row, rowIndex, column)
+                      )}
+                    </tr>
+                  );
+                })}
+
+                {spacerBottom > 0 && (
+                  <tr aria-hidden="true">
+                    <td
+                      colSpan={renderedColumnCount}
+                      style={{ height: spacerBottom, padding: 0 }}
+                    />
+                  </tr>
+                )}
+                {loadingMore && (
+                  <tr>
+                    <td
+                      colSpan={renderedColumnCount}
+                      className="px-6 py-3 text-center text-sm text-gray-500"
+                      aria-live="polite"
+                    >
+                      Weitere Datensätze werden geladen...
                     </td>
-                  ))}
-                </tr>
-              ))
+                  </tr>
+                )}
+              </>
             )}
           </tbody>
         </table>
       </div>
+
+      {/* Menü der Spalte */}
+      {menu && menuColumn && (
+        <ColumnMenu
+          anchor={menu.anchor}
+          pinned={menuColumn.pinned}
+          onPin={
+            onColumnPinChange
+              ? (pinned) => onColumnPinChange(menuColumn.key, pinned)
+              : undefined
+          }
+          onAutoFit={
+            onColumnResize ? () => autoFitColumn(menuColumn) : undefined
+          }
+          onHide={
+            onColumnHide ? () => onColumnHide(menuColumn.key) : undefined
+          }
+          onClose={closeMenu}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,286 @@
+/**
+ * Delete Record Dialog - DSP Database Overview Frontend
+ *
+ * Bestätigung vor dem Löschen eines oder mehrerer Datensätze eines Models
+ * (nur Superuser) mit Vorschau der Auswirkungen auf abhängige Datensätze:
+ * - CASCADE: Anzahl mitgelöschter Datensätze je Tabelle (rekursiv)
+ * - SET_NULL: Anzahl geleerter Verweise
+ * - PROTECT: verhindert das Löschen, Button bleibt deaktiviert
+ *
+ * Die Vorschau ermittelt services/deletePreview.ts aus den eingehenden
+ * Beziehungen und ihrem on_delete. Mehrere Datensätze werden nacheinander
+ * gelöscht (gegen Produktion einmal vorab bestätigt); bei einem Fehler
+ * bleiben die bereits gelöschten gelöscht und der Dialog nennt den Stand.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useState } from "react";
+import clsx from "clsx";
+import { AlertTriangle, Ban, Link2Off, Trash2 } from "lucide-react";
+import {
+  dbOverviewAPI,
+  type DatabaseSchemaResponse,
+  type ModelInfo,
+  type TableRecord,
+} from "../../services/api";
+import {
+  ApiError,
+  getErrorMessage,
+  isAbortError,
+} from "../../services/apiError";
+import { confirmProductionWrites } from "../../services/config";
+import {
+  countCascadedRecords,
+  type DeleteImpact,
+} from "../../services/deletePreview";
+import { createLogger } from "../../services/logger";
+import {
+  getPrimaryKeyName,
+  getRecordLabel,
+} from "../../services/schemaRelations";
+import { useDeletePreview } from "../../hooks/useDbOverview";
+import EditModal from "../manage/EditModal";
+import { FormErrorAlert } from "../common";
+import { ButtonSecondary } from "../ui_elements/buttons";
+
+const log = createLogger("DeleteRecord");
+
+// --- Komponenten-Interface ---
+
+interface DeleteRecordDialogProps {
+  schema: DatabaseSchemaResponse;
+  model: ModelInfo;
+  records: TableRecord[];
+  onClose: () => void;
+  // Auch nach teilweisem Löschen beim Schließen aufgerufen
+  onDeleted: () => void;
+}
+
+// --- Auswirkungen ---
+
+const IMPACT_STYLES: Record<
+  string,
+  { label: string; icon: React.ElementType; className: string }
+> = {
+  CASCADE: {
+    label: "werden mitgelöscht",
+    icon: Trash2,
+    className: "text-red-700",
+  },
+  SET_NULL: {
+    label: "Verweis wird geleert",
+    icon: Link2Off,
+    className: "text-yellow-700",
+  },
+  PROTECT: {
+    label: "verhindern das Löschen",
+    icon: Ban,
+    className: "text-red-700 font-medium",
+  },
+};
+
+const ImpactItem: React.FC<{ impact: DeleteImpact }> = ({ impact }) => {
+  const style = IMPACT_STYLES[impact.onDelete ?? ""] ?? {
+    label: `bleiben unverändert (${impact.onDelete ?? "unbekannt"})`,
+    icon: AlertTriangle,
+    className: "text-gray-600",
+  };
+  const Icon = style.icon;
+
+  return (
+    <li
+      className={clsx("flex items-start space-x-2 text-sm", style.className)}
+      style={{ paddingLeft: `${(impact.depth - 1) * 1.25}rem` }}
+    >
+      <Icon className="mt-0.5 h-4 w-4 flex-shrink-0" />
+      <span>
+        <strong>{impact.count.toLocaleString()}</strong>{" "}
+        {impact.model.model_name} ({impact.fieldName}) {style.label}
+      </span>
+    </li>
+  );
+};
+
+// --- Delete Record Dialog ---
+
+const DeleteRecordDialog: React.FC<DeleteRecordDialogProps> = ({
+  schema,
+  model,
+  records,
+  onClose,
+  onDeleted,
+}) => {
+  const primaryKeyName = getPrimaryKeyName(model);
+  const primaryKeys = records.map(
+    (record) => record[primaryKeyName] as string | number
+  );
+  const preview = useDeletePreview(schema, model, primaryKeys);
+  const [deleting, setDeleting] = useState(false);
+  const [deletedCount, setDeletedCount] = useState(0);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const handleDelete = async () => {
+    // Gegen Produktion einmal für alle statt je Datensatz nachfragen
+    const remaining = primaryKeys.length - deletedCount;
+    try {
+      confirmProductionWrites(
+        (remaining === 1
+          ? "1 Datensatz"
+          : `${remaining.toLocaleString()} Datensätze`) +
+          ` aus ${model.app_label}.${model.model_name} löschen`
+      );
+    } catch {
+      return;
+    }
+
+    setDeleting(true);
+    setDeleteError(null);
+    // Nach einem Fehler mit den noch nicht gelöschten weitermachen
+    for (let index = deletedCount; index < primaryKeys.length; index++) {
+      const primaryKey = primaryKeys[index];
+      try {
+        await dbOverviewAPI.deleteRecord(
+          model.app_label,
+          model.model_name,
+          primaryKey,
+          { writeConfirmed: true }
+        );
+        log.debug(`${model.model_name} #${primaryKey} gelöscht`);
+      } catch (error) {
+        // Abgebrochen - Stand bleibt, erneutes Löschen macht weiter
+        if (isAbortError(error)) {
+          setDeleting(false);
+          return;
+        }
+        // Bereits über CASCADE eines anderen Datensatzes gelöscht
+        if (!(error instanceof ApiError && error.status === 404)) {
+          log.error("Fehler beim Löschen:", error);
+          setDeleteError(
+            (primaryKeys.length > 1 ? `#${primaryKey}: ` : "") +
+              getErrorMessage(error)
+          );
+          setDeleting(false);
+          return;
+        }
+      }
+      setDeletedCount(index + 1);
+    }
+    onDeleted();
+  };
+
+  // Bereits gelöschte Datensätze muss der Aufrufer neu laden
+  const handleClose = deletedCount > 0 ? onDeleted : onClose;
+  const single = records.length === 1;
+
+  const cascaded = preview.data ? countCascadedRecords(preview.data) : 0;
+  // Ohne Vorschau (Fehler) entscheidet das Backend über PROTECT
+  const canDelete =
+    !preview.isPending && !preview.data?.blocked && !deleting;
+
+  return (
+    <EditModal
+      isOpen
+      onClose={handleClose}
+      title={single ? "Datensatz löschen" : "Datensätze löschen"}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          {single ? (
+            <>
+              Soll <strong>{getRecordLabel(model, records[0])}</strong> aus{" "}
+              {model.app_label}.{model.model_name} endgültig gelöscht werden?
+            </>
+          ) : (
+            <>
+              Sollen <strong>{records.length.toLocaleString()}</strong>{" "}
+              Datensätze aus {model.app_label}.{model.model_name} endgültig
+              gelöscht werden?
+            </>
+          )}
+        </p>
+
+        {/* Vorschau */}
+        {preview.isPending && (
+          <p className="text-sm text-gray-500" aria-live="polite">
+            Abhängige Datensätze werden ermittelt...
+          </p>
+        )}
+        {preview.error && (
+          <FormErrorAlert
+            message={
+              "Auswirkungen konnten nicht ermittelt werden: " +
+              getErrorMessage(preview.error)
+            }
+          />
+        )}
+        {preview.data &&
+          (preview.data.impacts.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Keine anderen Datensätze verweisen auf{" "}
+              {single ? "diesen Datensatz" : "diese Datensätze"}.
+            </p>
+          ) : (
+            <div className="space-y-2 rounded-lg border border-gray-200 p-3">
+              <p className="text-sm font-semibold text-gray-900">
+                Auswirkungen
+                {cascaded > 0 &&
+                  ` (${cascaded.toLocaleString()} weitere Datensätze)`}
+              </p>
+              <ul className="space-y-1">
+                {preview.data.impacts.map((impact, index) => (
+                  <ImpactItem key={index} impact={impact} />
+                ))}
+              </ul>
+              {preview.data.truncated && (
+                <p className="text-xs text-gray-500">
+                  Vorschau gekürzt - tatsächlich können weitere Datensätze
+                  betroffen sein.
+                </p>
+              )}
+            </div>
+          ))}
+        {preview.data?.blocked && (
+          <FormErrorAlert
+            message={
+              "Geschützte Verweise (PROTECT) verhindern das Löschen. " +
+              "Entfernen oder ändern Sie zuerst die verweisenden Datensätze."
+            }
+          />
+        )}
+        {(deleting || deletedCount > 0) && !single && (
+          <p className="text-sm text-gray-600" aria-live="polite">
+            {deletedCount.toLocaleString()} von{" "}
+            {records.length.toLocaleString()} gelöscht
+          </p>
+        )}
+        <FormErrorAlert message={deleteError} />
+
+        {/* Aktionen */}
+        <div className="flex justify-end space-x-2">
+          <ButtonSecondary
+            onClick={handleClose}
+            disabled={deleting}
+            variant="outline"
+            size="sm"
+          >
+            {deletedCount > 0 ? "Schließen" : "Abbrechen"}
+          </ButtonSecondary>
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={!canDelete}
+            className="inline-flex items-center space-x-2 rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>{deleting ? "Löschen..." : "Endgültig löschen"}</span>
+          </button>
+        </div>
+      </div>
+    </EditModal>
+  );
+};
+
+export default DeleteRecordDialog;
@@ -0,0 +1,316 @@
+/**
+ * Export Dialog Component - DSP Database Overview Frontend
+ *
+ * Dialog für den vollständigen Export einer Tabelle:
+ * - Format CSV, XLSX, JSON oder NDJSON
+ * - Umfang: ausgewählte Zeilen, gefiltertes Ergebnis oder alle Datensätze
+ * - Spaltenauswahl (vorbelegt mit den sichtbaren Spalten)
+ * - Fortschrittsbalken mit Abbruch während des Ladens
+ *
+ * Geladen wird seitenweise über den Tabellen-Endpoint, die Sortierung der
+ * Ansicht bleibt erhalten (siehe services/tableExport.ts).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useMemo, useState } from "react";
+import clsx from "clsx";
+import { CheckCircle, Download } from "lucide-react";
+import type {
+  ModelInfo,
+  TableFilterParam,
+  TableOrdering,
+  TableRecord,
+} from "../../services/api";
+import { getErrorMessage } from "../../services/apiError";
+import { countFilterConditions } from "../../services/tableFilters";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from "../../services/tableExport";
+import { useTableExport } from "../../hooks/useTableExport";
+import EditModal from "../manage/EditModal";
+import { FormErrorAlert } from "../common";
+import { ButtonPrimary, ButtonSecondary } from "../ui_elements/buttons";
+
+// --- Komponenten-Interface ---
+
+interface ExportDialogProps {
+  model: ModelInfo;
+  // Sichtbare Spalten der Ansicht in Anzeigereihenfolge
+  visibleColumns: string[];
+  ordering: TableOrdering[];
+  // Angewendete Filter der Ansicht (null = keine)
+  filters: TableFilterParam | null;
+  // Ausgewählte Zeilen der Tabelle (Umfang "Auswahl")
+  selectedRecords?: TableRecord[];
+  onClose: () => void;
+}
+
+type ExportScope = "selected" | "filtered" | "all";
+
+const FORMAT_ORDER: ExportFormat[] = ["csv", "xlsx", "json", "ndjson"];
+
+const RADIO_CLASSES = "border-gray-300 text-[#ff863d] focus:ring-[#ff863d]";
+
+const CHECKBOX_CLASSES =
+  "rounded border-gray-300 text-[#ff863d] focus:ring-[#ff863d]";
+
+// --- Export Dialog ---
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  model,
+  visibleColumns,
+  ordering,
+  filters,
+  selectedRecords = [],
+  onClose,
+}) => {
+  const { status, progress, error, start, cancel } = useTableExport();
+  const running = status === "running";
+
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [scope, setScope] = useState<ExportScope>(
+    selectedRecords.length > 0 ? "selected" : filters ? "filtered" : "all"
+  );
+  const [selectedColumns, setSelectedColumns] =
+    useState<string[]>(visibleColumns);
+
+  // Sichtbare Spalten zuerst, danach die übrigen in Schema-Reihenfolge
+  const columnOrder = useMemo(
+    () => [
+      ...visibleColumns,
+      ...model.fields
+        .map((field) => field.name)
+        .filter((name) => !visibleColumns.includes(name)),
+    ],
+    [model.fields, visibleColumns]
+  );
+  const exportColumns = columnOrder.filter((name) =>
+    selectedColumns.includes(name)
+  );
+
+  const toggleColumn = (name: string) =>
+    setSelectedColumns((current) =>
+      current.includes(name)
+        ? current.filter((item) => item !== name)
+        : [...current, name]
+    );
+
+  const handleExport = () => {
+    start({
+      appLabel: model.app_label,
+      modelName: model.model_name,
+      columns: exportColumns,
+      format,
+      ordering,
+      filters: scope === "filtered" ? filters : null,
+      primaryKey: model.fields.find((field) => field.primary_key)?.name,
+      records: scope === "selected" ? selectedRecords : undefined,
+    });
+  };
+
+  // Schließen bricht einen laufenden Export ab
+  const handleClose = () => {
+    cancel();
+    onClose();
+  };
+
+  const loadedCount = progress?.loaded ?? 0;
+  const percent =
+    progress && progress.total > 0
+      ? Math.round((progress.loaded / progress.total) * 100)
+      : 0;
+
+  return (
+    <EditModal
+      isOpen
+      onClose={handleClose}
+      title={`${model.model_name} exportieren`}
+    >
+      <div className="space-y-5">
+        {/* Format */}
+        <fieldset disabled={running} className="space-y-2">
+          <legend className="text-sm font-semibold text-gray-900 mb-2">
+            Format
+          </legend>
+          {FORMAT_ORDER.map((item) => (
+            <label
+              key={item}
+              className="flex items-center space-x-2 text-sm text-gray-700"
+            >
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === item}
+                onChange={() => setFormat(item)}
+                className={RADIO_CLASSES}
+              />
+              <span>{EXPORT_FORMATS[item].label}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        {/* Umfang */}
+        <fieldset disabled={running} className="space-y-2">
+          <legend className="text-sm font-semibold text-gray-900 mb-2">
+            Datensätze
+          </legend>
+          {selectedRecords.length > 0 && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === "selected"}
+                onChange={() => setScope("selected")}
+                className={RADIO_CLASSES}
+              />
+              <span>
+                Ausgewählte Zeilen ({selectedRecords.length.toLocaleString()})
+              </span>
+            </label>
+          )}
+          <label
+            className={clsx(
+              "flex items-center space-x-2 text-sm",
+              filters ? "text-gray-700" : "text-gray-400"
+            )}
+          >
+            <input
+              type="radio"
+              name="export-scope"
+              checked={scope === "filtered"}
+              onChange={() => setScope("filtered")}
+              disabled={!filters}
+              className={RADIO_CLASSES}
+            />
+            <span>
+              Gefiltertes Ergebnis
+              {filters &&
+                ` (${countFilterConditions(filters)} Filterbedingungen)`}
+            </span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="export-scope"
+              checked={scope === "all"}
+              onChange={() => setScope("all")}
+              className={RADIO_CLASSES}
+            />
+            <span>
+              Alle Datensätze ({model.record_count.toLocaleString()})
+            </span>
+          </label>
+        </fieldset>
+
+        {/* Spalten */}
+        <fieldset disabled={running} aria-label="Spalten">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold text-gray-900">
+              Spalten ({exportColumns.length} von {columnOrder.length})
+            </span>
+            <div className="flex space-x-3 text-xs">
+              <button
+                type="button"
+                onClick={() => setSelectedColumns(columnOrder)}
+                className="text-[#ff863d] hover:text-[#e6752e]"
+              >
+                Alle
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedColumns(visibleColumns)}
+                className="text-[#ff863d] hover:text-[#e6752e]"
+              >
+                Sichtbare
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-lg border border-gray-200 p-3">
+            {columnOrder.map((name) => (
+              <label
+                key={name}
+                className="flex items-center space-x-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedColumns.includes(name)}
+                  onChange={() => toggleColumn(name)}
+                  className={CHECKBOX_CLASSES}
+                />
+                <span className="truncate">{name}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {/* Fortschritt */}
+        {running && (
+          <div className="space-y-1" aria-live="polite">
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200">
+              <div
+                className="h-full bg-[#ff863d] transition-all duration-200"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-600">
+              {progress
+                ? `${progress.loaded.toLocaleString()} von ` +
+                  `${progress.total.toLocaleString()} Datensätzen geladen`
+                : "Export wird gestartet..."}
+            </p>
+          </div>
+        )}
+
+        {status === "done" && (
+          <p className="flex items-center space-x-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            <span>
+              Export abgeschlossen ({loadedCount.toLocaleString()} Datensätze).
+            </span>
+          </p>
+        )}
+        {status === "canceled" && (
+          <p className="text-sm text-gray-600">Export abgebrochen.</p>
+        )}
+        {status === "error" && (
+          <FormErrorAlert
+            message={`Export fehlgeschlagen: ${getErrorMessage(error)}`}
+          />
+        )}
+
+        {/* Aktionen */}
+        <div className="flex justify-end space-x-2">
+          {running ? (
+            <ButtonSecondary onClick={cancel} variant="outline" size="sm">
+              Abbrechen
+            </ButtonSecondary>
+          ) : (
+            <>
+              <ButtonSecondary
+                onClick={handleClose}
+                variant="outline"
+                size="sm"
+              >
+                Schließen
+              </ButtonSecondary>
+              <ButtonPrimary
+                onClick={handleExport}
+                icon={<Download />}
+                size="sm"
+                disabled={exportColumns.length === 0}
+              >
+                Exportieren
+              </ButtonPrimary>
+            </>
+          )}
+        </div>
+      </div>
+    </EditModal>
+  );
+};
+
+export default ExportDialog;
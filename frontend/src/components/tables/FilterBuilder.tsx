@@ -0,0 +1,490 @@
+/**
+ * Filter Builder Component - DSP Database Overview Frontend
+ *
+ * Aufbau serverseitiger Tabellenfilter aus dem Schema eines Models:
+ * - Operatoren und Eingabefelder passend zu Feldtyp, choices und null
+ * - Bedingungen in Gruppen mit UND/ODER, Gruppen untereinander UND/ODER
+ * - Mehrfachauswahl bei choices, ID-Listen bei ForeignKeys
+ * - Werte, die nicht zum Feld passen, werden markiert statt verworfen
+ *
+ * Die Komponente ist kontrolliert - angewendet wird der Filter vom Aufrufer
+ * (z.B. über einen "Anwenden"-Button).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React from "react";
+import clsx from "clsx";
+import { AlertCircle, Plus, Trash2, X } from "lucide-react";
+import type { SchemaField } from "../../services/api";
+import { isNumericPrimaryKey } from "../../services/schemaRelations";
+import {
+  createFilterCondition,
+  createFilterGroup,
+  FILTER_OPERATOR_LABELS,
+  getConditionError,
+  getFieldKind,
+  getOperatorsForField,
+  operatorNeedsValue,
+  type FilterCombinator,
+  type FilterOperator,
+  type RelationKeyResolver,
+  type TableFilter,
+  type TableFilterCondition,
+  type TableFilterGroup,
+} from "../../services/tableFilters";
+
+// --- Komponenten-Interfaces ---
+
+interface FilterBuilderProps {
+  fields: SchemaField[];
+  value: TableFilter;
+  onChange: (filter: TableFilter) => void;
+  // Schlüsselfeld des Ziel-Models je ForeignKey (Eingabe und Prüfung)
+  getRelationKey?: RelationKeyResolver;
+  className?: string;
+}
+
+// --- Styling ---
+
+const FIELD_CLASSES =
+  "px-3 py-1.5 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-[#ff863d]";
+
+const INPUT_CLASSES = clsx(FIELD_CLASSES, "border-gray-300");
+
+const COMBINATOR_LABELS: Record<FilterCombinator, string> = {
+  and: "UND",
+  or: "ODER",
+};
+
+// --- Hilfskomponenten ---
+
+const CombinatorSelect: React.FC<{
+  value: FilterCombinator;
+  onChange: (value: FilterCombinator) => void;
+  label: string;
+}> = ({ value, onChange, label }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as FilterCombinator)}
+    className={clsx(INPUT_CLASSES, "font-semibold")}
+    aria-label={label}
+  >
+    <option value="and">{COMBINATOR_LABELS.and}</option>
+    <option value="or">{COMBINATOR_LABELS.or}</option>
+  </select>
+);
+
+/**
+ * Eingabe des Vergleichswerts abhängig von Feldart und Operator
+ */
+const ValueInput: React.FC<{
+  field: SchemaField;
+  condition: TableFilterCondition;
+  onChange: (changes: Partial<TableFilterCondition>) => void;
+  getRelationKey?: RelationKeyResolver;
+  invalid: boolean;
+}> = ({ field, condition, onChange, getRelationKey, invalid }) => {
+  const kind = getFieldKind(field);
+  const { operator } = condition;
+  const inputClasses = clsx(
+    FIELD_CLASSES,
+    invalid ? "border-red-500 bg-red-50" : "border-gray-300"
+  );
+
+  if (!operatorNeedsValue(operator)) return null;
+
+  if (kind === "boolean") {
+    return (
+      <select
+        value={condition.value}
+        onChange={(e) => onChange({ value: e.target.value })}
+        className={INPUT_CLASSES}
+      >
+        <option value="true">Ja</option>
+        <option value="false">Nein</option>
+      </select>
+    );
+  }
+
+  if (kind === "choice" && operator === "in") {
+    const selected = condition.value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+    const toggle = (choice: string) =>
+      onChange({
+        value: (selected.includes(choice)
+          ? selected.filter((item) => item !== choice)
+          : [...selected, choice]
+        ).join(","),
+      });
+
+    return (
+      <div className="flex flex-wrap gap-2">
+        {field.choices!.map((choice) => (
+          <label
+            key={choice}
+            className="inline-flex items-center space-x-1 text-sm text-gray-700"
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(choice)}
+              onChange={() => toggle(choice)}
+              className="rounded border-gray-300 text-[#ff863d] focus:ring-[#ff863d]"
+            />
+            <span>{choice}</span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  if (kind === "choice") {
+    return (
+      <select
+        value={condition.value}
+        onChange={(e) => onChange({ value: e.target.value })}
+        className={INPUT_CLASSES}
+      >
+        <option value="">Wert wählen</option>
+        {field.choices!.map((choice) => (
+          <option key={choice} value={choice}>
+            {choice}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (operator === "in") {
+    return (
+      <input
+        type="text"
+        value={condition.value}
+        onChange={(e) => onChange({ value: e.target.value })}
+        placeholder={kind === "relation" ? "IDs, z.B. 1, 4, 7" : "1, 2, 3"}
+        className={inputClasses}
+      />
+    );
+  }
+
+  // ForeignKeys auf UUIDs oder Text-Schlüssel als Texteingabe
+  const inputType =
+    kind === "date" || kind === "datetime"
+      ? "date"
+      : kind === "number" ||
+        (kind === "relation" &&
+          isNumericPrimaryKey(getRelationKey?.(field) ?? null))
+      ? "number"
+      : "text";
+  const placeholder = kind === "relation" ? "ID" : "Wert";
+
+  if (operator === "range") {
+    return (
+      <div className="flex items-center space-x-2">
+        <input
+          type={inputType}
+          value={condition.value}
+          onChange={(e) => onChange({ value: e.target.value })}
+          placeholder="von"
+          className={clsx(inputClasses, "w-36")}
+        />
+        <span className="text-sm text-gray-500">und</span>
+        <input
+          type={inputType}
+          value={condition.valueTo}
+          onChange={(e) => onChange({ valueTo: e.target.value })}
+          placeholder="bis"
+          className={clsx(inputClasses, "w-36")}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <input
+      type={inputType}
+      value={condition.value}
+      onChange={(e) => onChange({ value: e.target.value })}
+      placeholder={placeholder}
+      className={inputClasses}
+    />
+  );
+};
+
+// --- Filter Builder ---
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({
+  fields,
+  value,
+  onChange,
+  getRelationKey,
+  className,
+}) => {
+  const findField = (name: string) =>
+    fields.find((field) => field.name === name) ?? fields[0];
+
+  // --- Gruppen ---
+
+  const updateGroup = (
+    groupId: string,
+    update: (group: TableFilterGroup) => TableFilterGroup
+  ) =>
+    onChange({
+      ...value,
+      groups: value.groups.map((group) =>
+        group.id === groupId ? update(group) : group
+      ),
+    });
+
+  const addGroup = () =>
+    onChange({
+      ...value,
+      groups: [...value.groups, createFilterGroup(fields[0])],
+    });
+
+  const removeGroup = (groupId: string) =>
+    onChange({
+      ...value,
+      groups: value.groups.filter((group) => group.id !== groupId),
+    });
+
+  // --- Bedingungen ---
+
+  const addCondition = (groupId: string) =>
+    updateGroup(groupId, (group) => ({
+      ...group,
+      conditions: [...group.conditions, createFilterCondition(fields[0])],
+    }));
+
+  const updateCondition = (
+    groupId: string,
+    conditionId: string,
+    changes: Partial<TableFilterCondition>
+  ) =>
+    updateGroup(groupId, (group) => ({
+      ...group,
+      conditions: group.conditions.map((condition) =>
+        condition.id === conditionId ? { ...condition, ...changes } : condition
+      ),
+    }));
+
+  // Feldwechsel setzt Operator und Werte passend zum neuen Feld zurück
+  const changeConditionField = (
+    groupId: string,
+    condition: TableFilterCondition,
+    fieldName: string
+  ) => {
+    const { field, operator, value: initialValue, valueTo } =
+      createFilterCondition(findField(fieldName));
+    updateCondition(groupId, condition.id, {
+      field,
+      operator,
+      value: initialValue,
+      valueTo,
+    });
+  };
+
+  const changeConditionOperator = (
+    groupId: string,
+    condition: TableFilterCondition,
+    operator: FilterOperator
+  ) => {
+    // Einzelwert und Liste sind nicht kompatibel - Wert verwerfen
+    const keepValue = (operator === "in") === (condition.operator === "in");
+    updateCondition(groupId, condition.id, {
+      operator,
+      ...(!keepValue && { value: "" }),
+    });
+  };
+
+  const removeCondition = (groupId: string, conditionId: string) => {
+    const group = value.groups.find((item) => item.id === groupId);
+    if (group && group.conditions.length === 1) {
+      removeGroup(groupId);
+      return;
+    }
+    updateGroup(groupId, (current) => ({
+      ...current,
+      conditions: current.conditions.filter(
+        (condition) => condition.id !== conditionId
+      ),
+    }));
+  };
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className={clsx("space-y-3", className)}>
+      {value.groups.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Keine Filter aktiv - es werden alle Datensätze angezeigt.
+        </p>
+      )}
+
+      {value.groups.map((group, groupIndex) => (
+        <React.Fragment key={group.id}>
+          {/* Verknüpfung zwischen Gruppen */}
+          {groupIndex > 0 && (
+            <div className="flex items-center space-x-2">
+              {groupIndex === 1 ? (
+                <CombinatorSelect
+                  value={value.combinator}
+                  onChange={(combinator) => onChange({ ...value, combinator })}
+                  label="Verknüpfung der Gruppen"
+                />
+              ) : (
+                <span className="px-3 text-sm font-semibold text-gray-600">
+                  {COMBINATOR_LABELS[value.combinator]}
+                </span>
+              )}
+            </div>
+          )}
+
+          <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+                Gruppe {groupIndex + 1}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeGroup(group.id)}
+                className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span>Gruppe entfernen</span>
+              </button>
+            </div>
+
+            {group.conditions.map((condition, conditionIndex) => {
+              const field = findField(condition.field);
+              const error = getConditionError(
+                condition,
+                fields,
+                getRelationKey
+              );
+              return (
+                <div
+                  key={condition.id}
+                  className="flex flex-wrap items-center gap-2"
+                >
+                  {/* Verknüpfung innerhalb der Gruppe */}
+                  <div className="w-20">
+                    {conditionIndex === 0 ? (
+                      <span className="text-sm text-gray-500">Wenn</span>
+                    ) : conditionIndex === 1 ? (
+                      <CombinatorSelect
+                        value={group.combinator}
+                        onChange={(combinator) =>
+                          updateGroup(group.id, (current) => ({
+                            ...current,
+                            combinator,
+                          }))
+                        }
+                        label={`Verknüpfung in Gruppe ${groupIndex + 1}`}
+                      />
+                    ) : (
+                      <span className="px-3 text-sm font-semibold text-gray-600">
+                        {COMBINATOR_LABELS[group.combinator]}
+                      </span>
+                    )}
+                  </div>
+
+                  <select
+                    value={condition.field}
+                    onChange={(e) =>
+                      changeConditionField(group.id, condition, e.target.value)
+                    }
+                    className={INPUT_CLASSES}
+                    aria-label="Spalte"
+                  >
+                    {fields.map((item) => (
+                      <option key={item.name} value={item.name}>
+                        {item.name}
+                      </option>
+                    ))}
+                  </select>
+
+                  <select
+                    value={condition.operator}
+                    onChange={(e) =>
+                      changeConditionOperator(
+                        group.id,
+                        condition,
+                        e.target.value as FilterOperator
+                      )
+                    }
+                    className={INPUT_CLASSES}
+                    aria-label="Operator"
+                  >
+                    {getOperatorsForField(field).map((operator) => (
+                      <option key={operator} value={operator}>
+                        {FILTER_OPERATOR_LABELS[operator]}
+                      </option>
+                    ))}
+                  </select>
+
+                  <ValueInput
+                    field={field}
+                    condition={condition}
+                    onChange={(changes) =>
+                      updateCondition(group.id, condition.id, changes)
+                    }
+                    getRelationKey={getRelationKey}
+                    invalid={error !== null}
+                  />
+
+                  {error && (
+                    <span
+                      className="flex items-center space-x-1 text-xs text-red-600"
+                      role="alert"
+                    >
+                      <AlertCircle className="h-3.5 w-3.5" />
+                      <span>Ungültiger Wert: {error}</span>
+                    </span>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={() => removeCondition(group.id, condition.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Bedingung entfernen"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              );
+            })}
+
+            <button
+              type="button"
+              onClick={() => addCondition(group.id)}
+              className="flex items-center space-x-1 text-sm text-[#ff863d] hover:text-[#e6752e]"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Bedingung hinzufügen</span>
+            </button>
+          </div>
+        </React.Fragment>
+      ))}
+
+      <button
+        type="button"
+        onClick={addGroup}
+        className="flex items-center space-x-1 text-sm font-medium text-[#ff863d] hover:text-[#e6752e]"
+      >
+        <Plus className="h-4 w-4" />
+        <span>
+          {value.groups.length === 0
+            ? "Filter hinzufügen"
+            : "Gruppe hinzufügen"}
+        </span>
+      </button>
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,466 @@
+/**
+ * Import Dialog Component - DSP Database Overview Frontend
+ *
+ * Assistent für den CSV-Import in eine Tabelle (nur Superuser):
+ * 1. CSV-Datei wählen (Trennzeichen wird erkannt)
+ * 2. Spalten den Feldern zuordnen (automatisch vorbelegt), ForeignKeys
+ *    über Primärschlüssel oder ein Suchfeld des Ziel-Models
+ * 3. Probelauf mit Fehlerbericht je Zeile
+ * 4. Import der gültigen Zeilen in Blöcken mit Ergebnis je Block
+ *
+ * Prüfung und Import übernimmt services/csvImport.ts.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import {
+  AlertTriangle,
+  CheckCircle,
+  FileText,
+  ListChecks,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import type { DatabaseSchemaResponse, ModelInfo } from "../../services/api";
+import { getErrorMessage } from "../../services/apiError";
+import {
+  autoMapColumns,
+  getImportFields,
+  getLookupFieldOptions,
+  getUnmappedRequiredFields,
+  parseCsv,
+  type CsvData,
+  type ImportMapping,
+} from "../../services/csvImport";
+import {
+  getForeignKeyModel,
+  getPrimaryKeyName,
+} from "../../services/schemaRelations";
+import { useCsvImport } from "../../hooks/useCsvImport";
+import EditModal from "../manage/EditModal";
+import { FormErrorAlert } from "../common";
+import { ButtonPrimary, ButtonSecondary } from "../ui_elements/buttons";
+
+// --- Komponenten-Interface ---
+
+interface ImportDialogProps {
+  schema: DatabaseSchemaResponse;
+  model: ModelInfo;
+  onClose: () => void;
+  // Mindestens ein Block wurde angelegt (Tabelle neu laden)
+  onImported: () => void;
+}
+
+// --- Konfiguration ---
+
+// Angezeigte Zeilenfehler im Bericht
+const MAX_LISTED_ERRORS = 100;
+
+const SELECT_CLASSES =
+  "block w-full py-1.5 px-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-[#ff863d] focus:border-[#ff863d]";
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Komma",
+  ";": "Semikolon",
+  "\t": "Tabulator",
+};
+
+// --- Import Dialog ---
+
+const ImportDialog: React.FC<ImportDialogProps> = ({
+  schema,
+  model,
+  onClose,
+  onImported,
+}) => {
+  const {
+    status,
+    rows,
+    batches,
+    progress,
+    error,
+    validate,
+    runImport,
+    cancel,
+    reset,
+  } = useCsvImport();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<CsvData | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({
+    columns: [],
+    lookups: {},
+  });
+
+  const fields = useMemo(() => getImportFields(model), [model]);
+  const missingFields = getUnmappedRequiredFields(model, mapping);
+  const mappedCount = mapping.columns.filter(Boolean).length;
+
+  const validRows = useMemo(
+    () => rows.filter((row) => row.errors.length === 0),
+    [rows]
+  );
+  const rowErrors = useMemo(
+    () =>
+      rows.flatMap((row) =>
+        row.errors.map((item) => ({ line: row.line, ...item }))
+      ),
+    [rows]
+  );
+  const createdCount = batches.reduce((sum, item) => sum + item.created, 0);
+
+  const running = status === "validating" || status === "importing";
+  // Ab dem Import nur noch das Ergebnis je Block anzeigen
+  const imported =
+    status === "importing" || status === "done" || batches.length > 0;
+
+  // Angelegte Datensätze in der Tabelle anzeigen
+  useEffect(() => {
+    if (status === "done" && createdCount > 0) onImported();
+  }, [status, createdCount, onImported]);
+
+  // --- Datei und Zuordnung ---
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    reset();
+    setFileError(null);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setFileError("Die Datei enthält keine Datenzeilen.");
+        setCsv(null);
+        return;
+      }
+      setFileName(file.name);
+      setCsv(parsed);
+      setMapping({
+        columns: autoMapColumns(parsed.headers, model),
+        lookups: {},
+      });
+    } catch (err) {
+      setFileError(
+        `Datei konnte nicht gelesen werden: ${getErrorMessage(err)}`
+      );
+      setCsv(null);
+    }
+  };
+
+  // Geänderte Zuordnung macht einen vorherigen Probelauf ungültig
+  const updateMapping = (next: ImportMapping) => {
+    setMapping(next);
+    if (status !== "idle") reset();
+  };
+
+  const setColumnField = (column: number, fieldName: string) =>
+    updateMapping({
+      ...mapping,
+      columns: mapping.columns.map((current, index) => {
+        if (index === column) return fieldName || null;
+        // Jedes Feld nur einer Spalte zuordnen
+        return current === fieldName ? null : current;
+      }),
+    });
+
+  const setLookupField = (fieldName: string, lookupField: string) =>
+    updateMapping({
+      ...mapping,
+      lookups: { ...mapping.lookups, [fieldName]: lookupField },
+    });
+
+  const handleValidate = () => {
+    if (csv) validate({ schema, model, csv, mapping });
+  };
+
+  const handleClose = () => {
+    cancel();
+    onClose();
+  };
+
+  // --- Darstellung ---
+
+  const renderMapping = () =>
+    csv && (
+      <fieldset disabled={running} className="space-y-2">
+        <legend className="text-sm font-semibold text-gray-900 mb-2">
+          Spalten zuordnen ({mappedCount} von {csv.headers.length})
+        </legend>
+        <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-3 py-2 text-left">CSV-Spalte</th>
+                <th className="px-3 py-2 text-left">Feld</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {csv.headers.map((header, column) => {
+                const fieldName = mapping.columns[column] ?? "";
+                const field = fields.find((item) => item.name === fieldName);
+                const targetModel = field?.is_relationship
+                  ? getForeignKeyModel(schema, model, field)
+                  : null;
+                return (
+                  <tr key={column}>
+                    <td className="px-3 py-2 align-top">
+                      <div className="font-medium text-gray-900">
+                        {header || `Spalte ${column + 1}`}
+                      </div>
+                      <div
+                        className="max-w-[12rem] truncate text-xs text-gray-500"
+                        title={csv.rows[0]?.[column]}
+                      >
+                        z.B. {csv.rows[0]?.[column] || "—"}
+                      </div>
+                    </td>
+                    <td className="space-y-1 px-3 py-2">
+                      <select
+                        value={fieldName}
+                        onChange={(event) =>
+                          setColumnField(column, event.target.value)
+                        }
+                        className={SELECT_CLASSES}
+                        aria-label={`Feld für Spalte ${header}`}
+                      >
+                        <option value="">— ignorieren —</option>
+                        {fields.map((item) => (
+                          <option key={item.name} value={item.name}>
+                            {item.name} ({item.type.replace("Field", "")})
+                          </option>
+                        ))}
+                      </select>
+                      {targetModel && field && (
+                        <label className="flex items-center space-x-2 text-xs text-gray-600">
+                          <span className="flex-shrink-0">
+                            {targetModel.model_name} über
+                          </span>
+                          <select
+                            value={
+                              mapping.lookups[field.name] ??
+                              getPrimaryKeyName(targetModel)
+                            }
+                            onChange={(event) =>
+                              setLookupField(field.name, event.target.value)
+                            }
+                            className={SELECT_CLASSES}
+                          >
+                            {getLookupFieldOptions(targetModel).map((name) => (
+                              <option key={name} value={name}>
+                                {name}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {missingFields.length > 0 && (
+          <p className="flex items-start space-x-2 text-sm text-yellow-700">
+            <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            <span>
+              Pflichtfelder ohne Spalte:{" "}
+              {missingFields.map((field) => field.name).join(", ")}
+            </span>
+          </p>
+        )}
+      </fieldset>
+    );
+
+  const renderReport = () => (
+    <div className="space-y-2" aria-live="polite">
+      <div className="flex items-center space-x-4 text-sm">
+        <span className="flex items-center space-x-1 text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          <span>{validRows.length.toLocaleString()} gültig</span>
+        </span>
+        <span
+          className={clsx(
+            "flex items-center space-x-1",
+            rowErrors.length > 0 ? "text-red-700" : "text-gray-500"
+          )}
+        >
+          <XCircle className="h-4 w-4" />
+          <span>
+            {(rows.length - validRows.length).toLocaleString()} fehlerhaft
+          </span>
+        </span>
+      </div>
+      {rowErrors.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto rounded-lg border border-red-200 bg-red-50 p-2 text-xs text-red-800 space-y-0.5">
+          {rowErrors.slice(0, MAX_LISTED_ERRORS).map((item, index) => (
+            <li key={index}>
+              Zeile {item.line}
+              {item.field && ` · ${item.field}`}: {item.message}
+            </li>
+          ))}
+          {rowErrors.length > MAX_LISTED_ERRORS && (
+            <li className="italic">
+              … und {rowErrors.length - MAX_LISTED_ERRORS} weitere Fehler
+            </li>
+          )}
+        </ul>
+      )}
+      {rowErrors.length > 0 && validRows.length > 0 && (
+        <p className="text-xs text-gray-600">
+          Importiert werden nur die gültigen Zeilen.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderBatches = () => (
+    <div className="space-y-2" aria-live="polite">
+      {progress && progress.total > 0 && (
+        <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200">
+          <div
+            className="h-full bg-[#ff863d] transition-all duration-200"
+            style={{ width: `${(progress.done / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+      <p className="text-sm text-gray-700">
+        {createdCount.toLocaleString()} von{" "}
+        {validRows.length.toLocaleString()} Datensätzen angelegt
+        {status === "importing" && " …"}
+      </p>
+      <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+        {batches.map((batch) => (
+          <li
+            key={batch.index}
+            className={batch.error ? "text-red-700" : "text-green-700"}
+          >
+            <span className="font-medium">
+              Block {batch.index + 1} (Zeilen {batch.firstLine}–
+              {batch.lastLine}):
+            </span>{" "}
+            {batch.error
+              ? `fehlgeschlagen - ${batch.error}`
+              : `${batch.created} angelegt`}
+            {batch.rowErrors.map((item, index) => (
+              <div key={index} className="pl-4">
+                Zeile {item.line}
+                {item.field && ` · ${item.field}`}: {item.message}
+              </div>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <EditModal
+      isOpen
+      onClose={handleClose}
+      title={`CSV in ${model.model_name} importieren`}
+    >
+      <div className="space-y-5">
+        {/* Datei */}
+        {!imported && (
+          <div className="space-y-1">
+            <label className="inline-flex cursor-pointer items-center space-x-2 rounded-lg border border-dashed border-gray-300 px-4 py-3 text-sm text-gray-700 hover:border-[#ff863d]">
+              <Upload className="h-4 w-4" />
+              <span>
+                {csv ? "Andere Datei wählen..." : "CSV-Datei wählen..."}
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={running}
+                className="sr-only"
+              />
+            </label>
+            {csv && (
+              <p className="flex items-center space-x-1 text-xs text-gray-500">
+                <FileText className="h-3.5 w-3.5" />
+                <span>
+                  {fileName} · {csv.rows.length.toLocaleString()} Zeilen ·
+                  Trennzeichen {DELIMITER_LABELS[csv.delimiter]}
+                </span>
+              </p>
+            )}
+            <FormErrorAlert message={fileError} />
+          </div>
+        )}
+
+        {!imported && renderMapping()}
+
+        {status === "validating" && (
+          <p className="text-sm text-gray-500" aria-live="polite">
+            Zeilen werden geprüft...
+          </p>
+        )}
+        {status === "validated" && renderReport()}
+        {imported && renderBatches()}
+        {status === "canceled" && (
+          <p className="text-sm text-gray-600">Vorgang abgebrochen.</p>
+        )}
+        {status === "error" && (
+          <FormErrorAlert
+            message={`Import fehlgeschlagen: ${getErrorMessage(error)}`}
+          />
+        )}
+
+        {/* Aktionen */}
+        <div className="flex justify-end space-x-2">
+          {running ? (
+            <ButtonSecondary onClick={cancel} variant="outline" size="sm">
+              Abbrechen
+            </ButtonSecondary>
+          ) : (
+            <>
+              <ButtonSecondary
+                onClick={handleClose}
+                variant="outline"
+                size="sm"
+              >
+                Schließen
+              </ButtonSecondary>
+              {status === "validated" ? (
+                <ButtonPrimary
+                  onClick={() => runImport(model, validRows)}
+                  icon={<Upload />}
+                  size="sm"
+                  disabled={validRows.length === 0}
+                >
+                  {validRows.length.toLocaleString()} Datensätze importieren
+                </ButtonPrimary>
+              ) : (
+                !imported && (
+                  <ButtonPrimary
+                    onClick={handleValidate}
+                    icon={<ListChecks />}
+                    size="sm"
+                    disabled={
+                      !csv || mappedCount === 0 || missingFields.length > 0
+                    }
+                  >
+                    Prüfen (Probelauf)
+                  </ButtonPrimary>
+                )
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </EditModal>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,184 @@
+/**
+ * Record Bulk Actions - DSP Database Overview Frontend
+ *
+ * Aktionen für ausgewählte Zeilen im Tabellen-Browser (Inhalt der
+ * Aktionsleiste der DataTable):
+ * - Auswahl exportieren (Export-Dialog mit Umfang "Auswahl")
+ * - Als JSON oder TSV in die Zwischenablage kopieren
+ * - Löschen (nur Superuser, über den Lösch-Dialog mit Vorschau)
+ *
+ * Sind alle passenden Datensätze ausgewählt, werden sie für Kopieren und
+ * Löschen seitenweise nachgeladen (siehe services/tableExport.ts).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useState } from "react";
+import { Braces, Copy, Download, Trash2 } from "lucide-react";
+import type {
+  ModelInfo,
+  TableFilterParam,
+  TableOrdering,
+  TableRecord,
+} from "../../services/api";
+import { getErrorMessage } from "../../services/apiError";
+import { getPrimaryKeyName } from "../../services/schemaRelations";
+import {
+  fetchAllRows,
+  pickColumns,
+  toClipboardText,
+  type ClipboardFormat,
+} from "../../services/tableExport";
+import { ButtonSecondary } from "../ui_elements/buttons";
+
+// --- Komponenten-Interface ---
+
+interface RecordBulkActionsProps {
+  model: ModelInfo;
+  // Ausgewählte geladene Zeilen (leer, wenn alle passenden gewählt sind)
+  records: TableRecord[];
+  allMatching: boolean;
+  // Anzahl aller passenden Datensätze
+  totalCount: number;
+  // Sichtbare Spalten in Anzeigereihenfolge (für das Kopieren)
+  columns: string[];
+  ordering: TableOrdering[];
+  filters: TableFilterParam | null;
+  onExport: () => void;
+  // Ohne Callback kein Löschen (fehlende Berechtigung)
+  onDelete?: (records: TableRecord[]) => void;
+}
+
+// --- Konfiguration ---
+
+// Obergrenze für das Löschen aller passenden Datensätze in einem Schritt
+const MAX_BULK_DELETE = 1000;
+
+// --- Record Bulk Actions ---
+
+const RecordBulkActions: React.FC<RecordBulkActionsProps> = ({
+  model,
+  records,
+  allMatching,
+  totalCount,
+  columns,
+  ordering,
+  filters,
+  onExport,
+  onDelete,
+}) => {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ausgewählte Datensätze mit den gewünschten Spalten
+  const loadRows = (rowColumns: string[]) =>
+    allMatching
+      ? fetchAllRows({
+          appLabel: model.app_label,
+          modelName: model.model_name,
+          columns: rowColumns,
+          ordering,
+          filters,
+          primaryKey: getPrimaryKeyName(model),
+        })
+      : Promise.resolve(pickColumns(records, rowColumns));
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = (format: ClipboardFormat) =>
+    run(async () => {
+      const rows = await loadRows(columns);
+      await navigator.clipboard.writeText(
+        toClipboardText(rows, columns, format)
+      );
+      setMessage(
+        `${rows.length.toLocaleString()} Zeilen als ` +
+          `${format.toUpperCase()} kopiert`
+      );
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      const rows = allMatching
+        ? await loadRows(model.fields.map((field) => field.name))
+        : records;
+      onDelete?.(rows);
+    });
+
+  const deleteTooLarge = allMatching && totalCount > MAX_BULK_DELETE;
+
+  return (
+    <>
+      {message && (
+        <span className="text-xs text-gray-600" aria-live="polite">
+          {message}
+        </span>
+      )}
+      {error && (
+        <span className="text-xs text-red-600" role="alert">
+          {error}
+        </span>
+      )}
+      <ButtonSecondary
+        onClick={onExport}
+        disabled={busy}
+        icon={<Download />}
+        size="sm"
+        variant="outline"
+      >
+        Exportieren
+      </ButtonSecondary>
+      <ButtonSecondary
+        onClick={() => handleCopy("json")}
+        disabled={busy}
+        icon={<Braces />}
+        size="sm"
+        variant="outline"
+      >
+        JSON kopieren
+      </ButtonSecondary>
+      <ButtonSecondary
+        onClick={() => handleCopy("tsv")}
+        disabled={busy}
+        icon={<Copy />}
+        size="sm"
+        variant="outline"
+      >
+        TSV kopieren
+      </ButtonSecondary>
+      {onDelete && (
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={busy || deleteTooLarge}
+          title={
+            deleteTooLarge
+              ? `Höchstens ${MAX_BULK_DELETE.toLocaleString()} Datensätze ` +
+                "auf einmal - bitte Filter eingrenzen"
+              : undefined
+          }
+          className="inline-flex items-center space-x-2 rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Trash2 className="h-4 w-4" />
+          <span>Löschen</span>
+        </button>
+      )}
+    </>
+  );
+};
+
+export default RecordBulkActions;
@@ -0,0 +1,515 @@
+/**
+ * Record Drawer Component - DSP Database Overview Frontend
+ *
+ * Seitenleiste mit allen Feldern eines Datensatzes:
+ * - Formatierung passend zum Feldtyp (Datum, Boolean, JSON, lange Texte)
+ * - ForeignKeys werden zum verknüpften Datensatz aufgelöst und lassen sich
+ *   direkt in der Seitenleiste öffnen
+ * - Eingehende Beziehungen (z.B. Employees eines Departments) als Tabs mit
+ *   Anzahl, seitenweise über den Tabellen-Endpoint geladen
+ * - Verlauf innerhalb der Seitenleiste mit "Zurück"
+ * - Absprung in den Tabellen-Browser mit passendem Filter
+ * - Optional Bearbeiten und Löschen des angezeigten Datensatzes
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Key,
+  Link,
+  Pencil,
+  Trash2,
+  X,
+} from "lucide-react";
+import type {
+  DatabaseSchemaResponse,
+  ModelInfo,
+  SchemaField,
+  TableFilterParam,
+} from "../../services/api";
+import {
+  getForeignKeyModel,
+  getIncomingRelations,
+  getModelKey,
+  getPrimaryKeyName,
+  getRecordLabel,
+  type IncomingRelation,
+} from "../../services/schemaRelations";
+import {
+  createExactFilterParam,
+  getFieldKind,
+} from "../../services/tableFilters";
+import {
+  useTableCounts,
+  useTableData,
+  useTableRecord,
+} from "../../hooks/useDbOverview";
+
+// --- Typen ---
+
+type TableRecord = Record<string, unknown>;
+
+interface RecordDrawerProps {
+  schema: DatabaseSchemaResponse;
+  model: ModelInfo;
+  record: TableRecord;
+  onClose: () => void;
+  // Tabelle eines Models gefiltert im Browser öffnen
+  onOpenTable: (model: ModelInfo, filters: TableFilterParam) => void;
+  // Bearbeiten/Löschen des angezeigten Datensatzes (ohne = nur lesen)
+  onEditRecord?: OpenRecord;
+  onDeleteRecord?: OpenRecord;
+}
+
+interface DrawerEntry {
+  model: ModelInfo;
+  record: TableRecord;
+}
+
+type OpenRecord = (model: ModelInfo, record: TableRecord) => void;
+
+// --- Konfiguration ---
+
+// Datensätze je Seite in den Beziehungs-Tabs
+const RELATED_PAGE_SIZE = 10;
+
+const FIELDS_TAB = "fields";
+
+const getRelationTabId = (relation: IncomingRelation) =>
+  `${getModelKey(relation.sourceModel)}.${relation.fieldName}`;
+
+// --- Feldwerte ---
+
+const formatDate = (value: unknown, withTime: boolean) => {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) return String(value);
+  return withTime
+    ? date.toLocaleString("de-DE")
+    : date.toLocaleDateString("de-DE");
+};
+
+/**
+ * Wert eines Feldes passend zum Feldtyp
+ */
+const FieldValue: React.FC<{ field: SchemaField; value: unknown }> = ({
+  field,
+  value,
+}) => {
+  if (value === null || value === undefined) {
+    return <span className="text-gray-400 italic">null</span>;
+  }
+
+  const kind = getFieldKind(field);
+  if (kind === "boolean") {
+    return (
+      <span className={value ? "text-green-600" : "text-red-600"}>
+        {value ? "✓ Ja" : "✗ Nein"}
+      </span>
+    );
+  }
+  if (kind === "datetime" || kind === "date") {
+    return (
+      <span title={String(value)}>
+        {formatDate(value, kind === "datetime")}
+      </span>
+    );
+  }
+  if (typeof value === "object") {
+    return (
+      <pre className="max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    );
+  }
+  return (
+    <span className="whitespace-pre-wrap break-words">{String(value)}</span>
+  );
+};
+
+/**
+ * ForeignKey mit aufgelöstem Ziel-Datensatz
+ */
+const ForeignKeyValue: React.FC<{
+  targetModel: ModelInfo;
+  value: unknown;
+  onOpenRecord: OpenRecord;
+}> = ({ targetModel, value, onOpenRecord }) => {
+  const { data: target, isPending, isError } = useTableRecord(
+    targetModel,
+    getPrimaryKeyName(targetModel),
+    value
+  );
+
+  if (value === null || value === undefined) {
+    return <span className="text-gray-400 italic">null</span>;
+  }
+  if (isPending) {
+    return <span className="text-gray-500">#{String(value)} …</span>;
+  }
+  if (isError || !target) {
+    return (
+      <span className="text-gray-500">
+        #{String(value)}{" "}
+        <span className="text-xs italic">
+          ({isError ? "Fehler beim Laden" : "nicht gefunden"})
+        </span>
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => onOpenRecord(targetModel, target)}
+      className="inline-flex items-center space-x-1 text-left text-purple-700 hover:text-purple-900 hover:underline"
+      title={`${targetModel.model_name} öffnen`}
+    >
+      <Link className="h-3.5 w-3.5 flex-shrink-0" />
+      <span>{getRecordLabel(targetModel, target)}</span>
+    </button>
+  );
+};
+
+// --- Beziehungs-Tab ---
+
+const RelatedRecords: React.FC<{
+  relation: IncomingRelation;
+  filters: TableFilterParam;
+  onOpenRecord: OpenRecord;
+  onOpenTable: RecordDrawerProps["onOpenTable"];
+}> = ({ relation, filters, onOpenRecord, onOpenTable }) => {
+  const { sourceModel } = relation;
+  const [page, setPage] = useState(1);
+  const { data, isPending, isPlaceholderData, error } = useTableData(
+    sourceModel,
+    { page, pageSize: RELATED_PAGE_SIZE, filters }
+  );
+
+  if (isPending) {
+    return <p className="p-4 text-sm text-gray-500">Lade Datensätze...</p>;
+  }
+  if (error) {
+    return (
+      <p className="p-4 text-sm text-red-700">
+        Datensätze konnten nicht geladen werden.
+      </p>
+    );
+  }
+
+  const { total_count: total, total_pages: totalPages } = data.pagination;
+
+  return (
+    <div className="space-y-3">
+      {data.data.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">
+          Keine verknüpften Datensätze.
+        </p>
+      ) : (
+        <ul
+          className={clsx(
+            "divide-y divide-gray-100 rounded-lg border border-gray-200",
+            isPlaceholderData && "opacity-60"
+          )}
+        >
+          {data.data.map((row) => (
+            <li key={String(row[getPrimaryKeyName(sourceModel)])}>
+              <button
+                type="button"
+                onClick={() => onOpenRecord(sourceModel, row)}
+                className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+              >
+                <span className="truncate text-gray-900">
+                  {getRecordLabel(sourceModel, row)}
+                </span>
+                <ChevronRight className="h-4 w-4 flex-shrink-0 text-gray-400" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => onOpenTable(sourceModel, filters)}
+          className="inline-flex items-center space-x-1 text-[#ff863d] hover:text-[#e6752e]"
+        >
+          <ExternalLink className="h-4 w-4" />
+          <span>Alle {total} in Tabelle öffnen</span>
+        </button>
+
+        {totalPages > 1 && (
+          <div className="flex items-center space-x-2 text-gray-600">
+            <button
+              type="button"
+              onClick={() => setPage((current) => current - 1)}
+              disabled={page <= 1}
+              className="rounded p-1 hover:bg-gray-100 disabled:opacity-40"
+              aria-label="Vorherige Seite"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span>
+              {page} / {totalPages}
+            </span>
+            <button
+              type="button"
+              onClick={() => setPage((current) => current + 1)}
+              disabled={page >= totalPages}
+              className="rounded p-1 hover:bg-gray-100 disabled:opacity-40"
+              aria-label="Nächste Seite"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Record Drawer ---
+
+const RecordDrawer: React.FC<RecordDrawerProps> = ({
+  schema,
+  model: initialModel,
+  record: initialRecord,
+  onClose,
+  onOpenTable,
+  onEditRecord,
+  onDeleteRecord,
+}) => {
+  // Verlauf innerhalb der Seitenleiste (letzter Eintrag wird angezeigt)
+  const [history, setHistory] = useState<DrawerEntry[]>([
+    { model: initialModel, record: initialRecord },
+  ]);
+  const [activeTab, setActiveTab] = useState(FIELDS_TAB);
+  const { model, record } = history[history.length - 1];
+  const primaryKeyName = getPrimaryKeyName(model);
+  const primaryKey = record[primaryKeyName];
+
+  const incomingRelations = useMemo(
+    () => getIncomingRelations(schema, model),
+    [schema, model]
+  );
+  const relationFilters = useMemo(
+    () =>
+      incomingRelations.map((relation) =>
+        createExactFilterParam(relation.fieldName, primaryKey)
+      ),
+    [incomingRelations, primaryKey]
+  );
+  const counts = useTableCounts(
+    incomingRelations.map((relation, index) => ({
+      model: relation.sourceModel,
+      filters: relationFilters[index],
+    }))
+  );
+
+  // Escape schließt die Seitenleiste
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const openRecord: OpenRecord = (nextModel, nextRecord) => {
+    setHistory((current) => [
+      ...current,
+      { model: nextModel, record: nextRecord },
+    ]);
+    setActiveTab(FIELDS_TAB);
+  };
+
+  const goBack = () => {
+    setHistory((current) => current.slice(0, -1));
+    setActiveTab(FIELDS_TAB);
+  };
+
+  const activeRelationIndex = incomingRelations.findIndex(
+    (relation) => getRelationTabId(relation) === activeTab
+  );
+  const tabs = [
+    { id: FIELDS_TAB, label: "Felder", count: model.fields.length },
+    ...incomingRelations.map((relation, index) => ({
+      id: getRelationTabId(relation),
+      label: `${relation.sourceModel.model_name} (${relation.fieldName})`,
+      count: counts[index]?.data,
+    })),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div
+        className="absolute inset-0 bg-black/30"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <aside
+        className="relative flex h-full w-full max-w-xl flex-col bg-white shadow-2xl"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`${model.model_name} Details`}
+      >
+        {/* --- Header --- */}
+        <div className="flex items-start justify-between border-b border-gray-200 px-5 py-4">
+          <div className="flex min-w-0 items-start space-x-2">
+            {history.length > 1 && (
+              <button
+                type="button"
+                onClick={goBack}
+                className="mt-0.5 rounded p-1 text-gray-500 hover:bg-gray-100"
+                title="Zurück"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </button>
+            )}
+            <div className="min-w-0">
+              <p className="text-xs font-medium uppercase tracking-wider text-gray-500">
+                {model.app_label} • {model.model_name}
+              </p>
+              <h2 className="truncate text-lg font-semibold text-gray-900">
+                {getRecordLabel(model, record)}
+              </h2>
+            </div>
+          </div>
+          <div className="flex items-center space-x-1">
+            {onEditRecord && (
+              <button
+                type="button"
+                onClick={() => onEditRecord(model, record)}
+                className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                title="Bearbeiten"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+            )}
+            {onDeleteRecord && (
+              <button
+                type="button"
+                onClick={() => onDeleteRecord(model, record)}
+                className="rounded p-1 text-gray-500 hover:bg-red-50 hover:text-red-600"
+                title="Löschen"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() =>
+                onOpenTable(
+                  model,
+                  createExactFilterParam(primaryKeyName, primaryKey)
+                )
+              }
+              className="rounded p-1 text-gray-500 hover:bg-gray-100"
+              title="In Tabelle öffnen"
+            >
+              <ExternalLink className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded p-1 text-gray-500 hover:bg-gray-100"
+              title="Schließen"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* --- Tabs --- */}
+        <div
+          className="flex space-x-1 overflow-x-auto border-b border-gray-200 px-5"
+          role="tablist"
+        >
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={clsx(
+                "flex flex-shrink-0 items-center space-x-1.5 border-b-2 px-3 py-2 text-sm",
+                activeTab === tab.id
+                  ? "border-[#ff863d] font-medium text-gray-900"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              )}
+            >
+              <span>{tab.label}</span>
+              <span className="rounded-full bg-gray-100 px-1.5 text-xs text-gray-600">
+                {tab.count ?? "…"}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* --- Inhalt --- */}
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          {activeRelationIndex === -1 ? (
+            <dl className="divide-y divide-gray-100">
+              {model.fields.map((field) => {
+                const targetModel = getForeignKeyModel(schema, model, field);
+                return (
+                  <div
+                    key={field.name}
+                    className="grid grid-cols-3 gap-3 py-2 text-sm"
+                  >
+                    <dt className="min-w-0">
+                      <div className="flex items-center space-x-1 font-medium text-gray-900">
+                        <span className="truncate" title={field.name}>
+                          {field.name}
+                        </span>
+                        {field.primary_key && (
+                          <Key className="h-3 w-3 flex-shrink-0 text-yellow-500" />
+                        )}
+                      </div>
+                      <div className="truncate text-xs text-gray-500">
+                        {targetModel
+                          ? `FK → ${targetModel.model_name}`
+                          : field.type.replace("Field", "")}
+                      </div>
+                    </dt>
+                    <dd className="col-span-2 min-w-0 text-gray-900">
+                      {targetModel ? (
+                        <ForeignKeyValue
+                          targetModel={targetModel}
+                          value={record[field.name]}
+                          onOpenRecord={openRecord}
+                        />
+                      ) : (
+                        <FieldValue field={field} value={record[field.name]} />
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+          ) : (
+            <RelatedRecords
+              key={`${activeTab}:${String(primaryKey)}`}
+              relation={incomingRelations[activeRelationIndex]}
+              filters={relationFilters[activeRelationIndex]}
+              onOpenRecord={openRecord}
+              onOpenTable={onOpenTable}
+            />
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default RecordDrawer;
@@ -0,0 +1,436 @@
+/**
+ * Record Form Dialog - DSP Database Overview Frontend
+ *
+ * Generisches Formular zum Anlegen und Bearbeiten von Datensätzen eines
+ * beliebigen Models (nur Superuser):
+ * - Eingabefelder aus dem Schema (Typ, max_length, choices, null/blank)
+ * - ForeignKeys als durchsuchbare Auswahl aus der Ziel-Tabelle
+ * - Von Hand vergebene Primärschlüssel: beim Anlegen Eingabe, beim
+ *   Bearbeiten nur lesbar
+ * - Clientseitige Prüfung per zod, Serverfehler direkt unter dem Feld
+ *
+ * Die Felder und ihre Umwandlung liefert services/recordForm.ts.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useMemo, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import clsx from "clsx";
+import { Save, Search } from "lucide-react";
+import {
+  dbOverviewAPI,
+  type DatabaseSchemaResponse,
+  type ModelInfo,
+  type SchemaField,
+  type TableRecord,
+} from "../../services/api";
+import { createLogger } from "../../services/logger";
+import {
+  createRecordSchema,
+  getEditableFields,
+  getRecordInputKind,
+  isReadOnlyOnEdit,
+  isRequiredField,
+  toRecordFormValues,
+  toRecordPayload,
+  type RecordFormValues,
+} from "../../services/recordForm";
+import {
+  getForeignKeyModel,
+  getPrimaryKeyName,
+  getRecordLabel,
+  getSearchFieldName,
+} from "../../services/schemaRelations";
+import { useTableData, useTableRecord } from "../../hooks/useDbOverview";
+import { applyApiErrors } from "../forms/formErrors";
+import EditModal from "../manage/EditModal";
+import { FormErrorAlert } from "../common";
+import { ButtonPrimary, ButtonSecondary } from "../ui_elements/buttons";
+
+const log = createLogger("RecordForm");
+
+// --- Komponenten-Interface ---
+
+interface RecordFormDialogProps {
+  schema: DatabaseSchemaResponse;
+  model: ModelInfo;
+  // Zu bearbeitender Datensatz (null = neuer Datensatz)
+  record: TableRecord | null;
+  onClose: () => void;
+  // Gespeicherter Datensatz, wie ihn das Backend zurückgibt
+  onSaved: (record: TableRecord) => void;
+}
+
+// --- Konfiguration ---
+
+// Einträge in der ForeignKey-Auswahl
+const RELATION_OPTION_LIMIT = 50;
+
+const INPUT_CLASSES =
+  "block w-full py-2 px-3 border rounded-md shadow-sm focus:outline-none focus:ring-[#ff863d] focus:border-[#ff863d] sm:text-sm";
+
+const getInputClasses = (error?: string) =>
+  clsx(INPUT_CLASSES, error ? "border-red-500" : "border-gray-300");
+
+const INPUT_TYPES: Partial<Record<string, string>> = {
+  integer: "number",
+  email: "email",
+  url: "url",
+  date: "date",
+  datetime: "datetime-local",
+};
+
+// Kurzbeschreibung eines Feldes unter dem Label, z.B. "CharField · max. 100"
+const getFieldHint = (field: SchemaField) =>
+  [
+    field.type,
+    field.primary_key && "Primärschlüssel",
+    field.max_length && `max. ${field.max_length}`,
+    field.unique && "eindeutig",
+    field.null && "null erlaubt",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// --- ForeignKey-Auswahl ---
+
+interface RelationPickerProps {
+  id: string;
+  targetModel: ModelInfo;
+  value: string;
+  onChange: (value: string) => void;
+  required: boolean;
+  error?: string;
+}
+
+/**
+ * Auswahl eines Datensatzes der Ziel-Tabelle mit Suche über das
+ * Namensfeld (z.B. name, title)
+ */
+const RelationPicker: React.FC<RelationPickerProps> = ({
+  id,
+  targetModel,
+  value,
+  onChange,
+  required,
+  error,
+}) => {
+  const [search, setSearch] = useState("");
+  const primaryKeyName = getPrimaryKeyName(targetModel);
+  const searchField = getSearchFieldName(targetModel);
+  const term = search.trim();
+
+  const { data, isFetching } = useTableData(targetModel, {
+    page: 1,
+    pageSize: RELATION_OPTION_LIMIT,
+    filters:
+      searchField && term
+        ? {
+            combinator: "and",
+            groups: [
+              {
+                combinator: "and",
+                conditions: [
+                  { field: searchField, lookup: "icontains", value: term },
+                ],
+              },
+            ],
+          }
+        : null,
+  });
+  // Aktuelle Auswahl auch dann anzeigen, wenn sie nicht im Suchergebnis ist
+  const { data: selected } = useTableRecord(
+    targetModel,
+    primaryKeyName,
+    value === "" ? null : value
+  );
+
+  const rows = data?.data ?? [];
+  const options = [
+    ...(selected &&
+    !rows.some((row) => String(row[primaryKeyName]) === value)
+      ? [selected]
+      : []),
+    ...rows,
+  ];
+
+  return (
+    <div className="space-y-1">
+      {searchField && (
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder={
+              `${targetModel.model_name} nach ${searchField} suchen...`
+            }
+            className={clsx(getInputClasses(), "pl-8")}
+            aria-label={`${targetModel.model_name} suchen`}
+          />
+        </div>
+      )}
+      <select
+        id={id}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className={getInputClasses(error)}
+      >
+        <option value="">
+          {required ? "Bitte wählen..." : "— leer (null) —"}
+        </option>
+        {options.map((row) => (
+          <option
+            key={String(row[primaryKeyName])}
+            value={String(row[primaryKeyName])}
+          >
+            {getRecordLabel(targetModel, row)}
+          </option>
+        ))}
+      </select>
+      {data && data.pagination.total_count > rows.length && (
+        <p className="text-xs text-gray-500">
+          {rows.length} von {data.pagination.total_count} angezeigt
+          {searchField && " - Suche eingrenzen"}
+          {isFetching && " …"}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// --- Record Form Dialog ---
+
+const RecordFormDialog: React.FC<RecordFormDialogProps> = ({
+  schema,
+  model,
+  record,
+  onClose,
+  onSaved,
+}) => {
+  const [formError, setFormError] = useState<string | null>(null);
+  const isEdit = record !== null;
+
+  const fields = useMemo(() => getEditableFields(model), [model]);
+  const fieldNames = useMemo(() => fields.map((field) => field.name), [fields]);
+  const initialValues = useMemo(
+    () => toRecordFormValues(model, record),
+    [model, record]
+  );
+  const resolver = useMemo(
+    () => zodResolver(createRecordSchema(schema, model)),
+    [schema, model]
+  );
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<RecordFormValues>({
+    resolver,
+    defaultValues: initialValues,
+  });
+
+  const onSubmit = async (values: RecordFormValues) => {
+    setFormError(null);
+
+    try {
+      let saved: TableRecord;
+      if (isEdit) {
+        const payload = toRecordPayload(schema, model, values, initialValues);
+        // Unverändert - kein Request nötig
+        if (Object.keys(payload).length === 0) {
+          onClose();
+          return;
+        }
+        saved = await dbOverviewAPI.updateRecord(
+          model.app_label,
+          model.model_name,
+          record[getPrimaryKeyName(model)] as string | number,
+          payload
+        );
+        log.debug(`${model.model_name} aktualisiert`);
+      } else {
+        saved = await dbOverviewAPI.createRecord(
+          model.app_label,
+          model.model_name,
+          toRecordPayload(schema, model, values)
+        );
+        log.debug(`${model.model_name} erstellt`);
+      }
+      onSaved(saved);
+    } catch (error) {
+      log.error("Fehler beim Speichern:", error);
+      // DRF-Validierungsfehler direkt unter den Feldern anzeigen
+      setFormError(applyApiErrors(error, setError, { fields: fieldNames }));
+    }
+  };
+
+  const renderInput = (field: SchemaField, error?: string) => {
+    const kind = getRecordInputKind(field);
+    const id = `record-field-${field.name}`;
+
+    if (isEdit && isReadOnlyOnEdit(field)) {
+      return (
+        <input
+          id={id}
+          type="text"
+          readOnly
+          className={clsx(getInputClasses(), "bg-gray-50 text-gray-500")}
+          {...register(field.name)}
+        />
+      );
+    }
+
+    switch (kind) {
+      case "boolean":
+        return (
+          <input
+            id={id}
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300 text-[#ff863d] focus:ring-[#ff863d]"
+            {...register(field.name)}
+          />
+        );
+      case "relation": {
+        const targetModel = getForeignKeyModel(schema, model, field);
+        if (!targetModel) break;
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            render={({ field: controller }) => (
+              <RelationPicker
+                id={id}
+                targetModel={targetModel}
+                value={String(controller.value)}
+                onChange={controller.onChange}
+                required={isRequiredField(field)}
+                error={error}
+              />
+            )}
+          />
+        );
+      }
+      case "choice":
+        return (
+          <select
+            id={id}
+            className={getInputClasses(error)}
+            {...register(field.name)}
+          >
+            <option value="">
+              {isRequiredField(field) ? "Bitte wählen..." : "— leer —"}
+            </option>
+            {field.choices?.map((choice) => (
+              <option key={choice} value={choice}>
+                {choice}
+              </option>
+            ))}
+          </select>
+        );
+      case "textarea":
+      case "json":
+        return (
+          <textarea
+            id={id}
+            rows={kind === "json" ? 6 : 3}
+            maxLength={field.max_length}
+            className={clsx(
+              getInputClasses(error),
+              kind === "json" && "font-mono text-xs"
+            )}
+            {...register(field.name)}
+          />
+        );
+      default:
+        break;
+    }
+
+    return (
+      <input
+        id={id}
+        type={INPUT_TYPES[kind] ?? "text"}
+        inputMode={kind === "decimal" ? "decimal" : undefined}
+        maxLength={field.max_length}
+        className={getInputClasses(error)}
+        {...register(field.name)}
+      />
+    );
+  };
+
+  return (
+    <EditModal
+      isOpen
+      onClose={onClose}
+      title={
+        isEdit
+          ? `${getRecordLabel(model, record)} bearbeiten`
+          : `Neuer Datensatz: ${model.model_name}`
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4" noValidate>
+        {fields.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Dieses Model hat keine bearbeitbaren Felder.
+          </p>
+        )}
+
+        {fields.map((field) => {
+          const error = errors[field.name]?.message;
+          const isCheckbox = getRecordInputKind(field) === "boolean";
+          return (
+            <div
+              key={field.name}
+              className={clsx(isCheckbox && "flex items-start space-x-3")}
+            >
+              {isCheckbox && renderInput(field, error)}
+              <label
+                htmlFor={`record-field-${field.name}`}
+                className="block text-sm font-medium text-gray-700"
+              >
+                {field.name}{" "}
+                {isRequiredField(field) && (
+                  <span className="text-red-500">*</span>
+                )}
+                <span className="block text-xs font-normal text-gray-500">
+                  {getFieldHint(field)}
+                </span>
+              </label>
+              {!isCheckbox && (
+                <div className="mt-1">{renderInput(field, error)}</div>
+              )}
+              {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+            </div>
+          );
+        })}
+
+        <FormErrorAlert message={formError} />
+
+        <div className="flex justify-end space-x-2 pt-4 border-t border-gray-200">
+          <ButtonSecondary onClick={onClose} variant="outline" size="sm">
+            Abbrechen
+          </ButtonSecondary>
+          <ButtonPrimary
+            type="submit"
+            icon={<Save />}
+            size="sm"
+            loading={isSubmitting}
+            disabled={isSubmitting}
+          >
+            {isEdit ? "Speichern" : "Erstellen"}
+          </ButtonPrimary>
+        </div>
+      </form>
+    </EditModal>
+  );
+};
+
+export default RecordFormDialog;
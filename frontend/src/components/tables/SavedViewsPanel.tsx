@@ -0,0 +1,296 @@
+/**
+ * Saved Views Panel - DSP Database Overview Frontend
+ *
+ * Gespeicherte Ansichten des gewählten Models im Tabellen-Browser:
+ * - Ansicht auswählen und anwenden, aktuelle Ansicht speichern oder eine
+ *   gewählte Ansicht mit den aktuellen Einstellungen überschreiben
+ * - Eine Ansicht als Standard markieren (gilt beim Öffnen des Models)
+ * - Weitergeben als Link oder JSON-Datei, Import von JSON-Dateien
+ *
+ * Gespeichert wird im Browser (siehe services/savedViews.ts).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useRef, useState } from "react";
+import {
+  Download,
+  Link2,
+  Save,
+  Star,
+  StarOff,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import type { ModelInfo } from "../../services/api";
+import { getErrorMessage } from "../../services/apiError";
+import { getModelKey } from "../../services/schemaRelations";
+import {
+  isSameViewSettings,
+  savedViews,
+  type TableViewSettings,
+} from "../../services/savedViews";
+import { downloadBlob } from "../../services/tableExport";
+import { useSavedViews } from "../../hooks/useSavedViews";
+import { getTablePath } from "../../hooks/useTableBrowserUrl";
+import { FormErrorAlert } from "../common";
+import { ButtonPrimary, ButtonSecondary } from "../ui_elements/buttons";
+
+// --- Komponenten-Interface ---
+
+interface SavedViewsPanelProps {
+  model: ModelInfo;
+  // Aktuelle Einstellungen der Tabelle
+  settings: TableViewSettings;
+  onApply: (settings: TableViewSettings) => void;
+}
+
+// --- Styling ---
+
+const INPUT_CLASSES =
+  "px-3 py-1.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-[#ff863d]";
+
+// --- Saved Views Panel ---
+
+const SavedViewsPanel: React.FC<SavedViewsPanelProps> = ({
+  model,
+  settings,
+  onApply,
+}) => {
+  const modelKey = getModelKey(model);
+  const { views } = useSavedViews(modelKey);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Zuletzt gewählte Ansicht, sonst die zu den Einstellungen passende
+  const activeView =
+    views.find((view) => view.id === selectedId) ??
+    views.find((view) => isSameViewSettings(view.settings, settings)) ??
+    null;
+  const modified =
+    !!activeView && !isSameViewSettings(activeView.settings, settings);
+
+  const report = (text: string | null, errorText: string | null = null) => {
+    setMessage(text);
+    setError(errorText);
+  };
+
+  const handleSelect = (id: string) => {
+    const view = views.find((item) => item.id === id);
+    setSelectedId(view?.id ?? null);
+    report(null);
+    if (view) onApply(view.settings);
+  };
+
+  const handleSaveAs = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+
+    const view = savedViews.save(modelKey, newName, settings);
+    setSelectedId(view.id);
+    setNewName("");
+    report(`Ansicht "${view.name}" gespeichert.`);
+  };
+
+  const handleOverwrite = () => {
+    if (!activeView) return;
+    savedViews.save(modelKey, activeView.name, settings);
+    report(`Ansicht "${activeView.name}" aktualisiert.`);
+  };
+
+  const handleToggleDefault = () => {
+    if (!activeView) return;
+    savedViews.setDefault(
+      modelKey,
+      activeView.isDefault ? null : activeView.id
+    );
+    report(
+      activeView.isDefault
+        ? "Keine Standard-Ansicht mehr."
+        : `"${activeView.name}" ist jetzt die Standard-Ansicht.`
+    );
+  };
+
+  const handleDelete = () => {
+    if (!activeView) return;
+    if (!confirm(`Ansicht "${activeView.name}" wirklich löschen?`)) return;
+
+    savedViews.remove(activeView.id);
+    setSelectedId(null);
+    report(`Ansicht "${activeView.name}" gelöscht.`);
+  };
+
+  // Link auf die aktuelle Ansicht - Empfänger können sie selbst speichern
+  const handleCopyLink = async () => {
+    const link =
+      window.location.origin +
+      getTablePath(model.app_label, model.model_name, settings);
+    try {
+      await navigator.clipboard.writeText(link);
+      report("Link in die Zwischenablage kopiert.");
+    } catch {
+      report(`Link zum Kopieren: ${link}`);
+    }
+  };
+
+  // Gewählte Ansicht oder alle Ansichten des Models als Datei
+  const handleExport = () => {
+    const items = activeView ? [activeView] : views;
+    if (items.length === 0) return;
+
+    const name = activeView ? activeView.name : "ansichten";
+    downloadBlob(
+      new Blob([savedViews.export(modelKey, items)], {
+        type: "application/json",
+      }),
+      `${model.model_name}_${name.replace(/[^\w-]+/g, "_")}.json`
+    );
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = savedViews.import(modelKey, await file.text());
+      setSelectedId(imported[0].id);
+      onApply(imported[0].settings);
+      report(
+        imported.length === 1
+          ? `Ansicht "${imported[0].name}" importiert.`
+          : `${imported.length} Ansichten importiert.`
+      );
+    } catch (err) {
+      report(null, getErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={activeView?.id ?? ""}
+          onChange={(e) => handleSelect(e.target.value)}
+          className={INPUT_CLASSES}
+          aria-label="Gespeicherte Ansicht"
+        >
+          <option value="">
+            {views.length > 0
+              ? "Ansicht wählen..."
+              : "Keine gespeicherten Ansichten"}
+          </option>
+          {views.map((view) => (
+            <option key={view.id} value={view.id}>
+              {view.name}
+              {view.isDefault ? " (Standard)" : ""}
+            </option>
+          ))}
+        </select>
+        {modified && (
+          <span className="text-xs font-medium text-yellow-700">
+            geändert
+          </span>
+        )}
+
+        <ButtonSecondary
+          onClick={handleOverwrite}
+          disabled={!modified}
+          icon={<Save />}
+          size="sm"
+          variant="outline"
+        >
+          Aktualisieren
+        </ButtonSecondary>
+        <ButtonSecondary
+          onClick={handleToggleDefault}
+          disabled={!activeView}
+          icon={activeView?.isDefault ? <StarOff /> : <Star />}
+          size="sm"
+          variant="outline"
+        >
+          {activeView?.isDefault ? "Kein Standard" : "Als Standard"}
+        </ButtonSecondary>
+        <ButtonSecondary
+          onClick={handleDelete}
+          disabled={!activeView}
+          icon={<Trash2 />}
+          size="sm"
+          variant="outline"
+        >
+          Löschen
+        </ButtonSecondary>
+
+        <span className="hidden sm:block h-6 w-px bg-gray-200" />
+
+        <ButtonSecondary
+          onClick={handleCopyLink}
+          icon={<Link2 />}
+          size="sm"
+          variant="outline"
+        >
+          Link kopieren
+        </ButtonSecondary>
+        <ButtonSecondary
+          onClick={handleExport}
+          disabled={views.length === 0}
+          icon={<Download />}
+          size="sm"
+          variant="outline"
+        >
+          Exportieren
+        </ButtonSecondary>
+        <ButtonSecondary
+          onClick={() => fileInputRef.current?.click()}
+          icon={<Upload />}
+          size="sm"
+          variant="outline"
+        >
+          Importieren
+        </ButtonSecondary>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {/* Aktuelle Einstellungen als neue Ansicht */}
+      <form onSubmit={handleSaveAs} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name der neuen Ansicht"
+          maxLength={100}
+          className={`${INPUT_CLASSES} w-64`}
+          aria-label="Name der neuen Ansicht"
+        />
+        <ButtonPrimary
+          type="submit"
+          disabled={!newName.trim()}
+          icon={<Save />}
+          size="sm"
+        >
+          Speichern
+        </ButtonPrimary>
+      </form>
+
+      {message && (
+        <p className="text-sm text-gray-600 break-all" aria-live="polite">
+          {message}
+        </p>
+      )}
+      <FormErrorAlert message={error} />
+    </div>
+  );
+};
+
+export default SavedViewsPanel;
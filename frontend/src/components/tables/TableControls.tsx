@@ -11,6 +11,7 @@ import {
   ChevronRight,
   ArrowLeft,
   ArrowRight,
+  Bookmark,
 } from "lucide-react";
 import { ButtonSecondary } from "../ui_elements/buttons";
 
@@ -21,6 +22,8 @@ interface TableControlsProps {
   searchPlaceholder?: string;
 
   // Export
+  // Dialog für den Export aller Datensätze (Format, Umfang, Spalten)
+  onExport?: () => void;
   onExportCSV?: () => void;
   onExportJSON?: () => void;
   onImport?: () => void;
@@ -29,6 +32,10 @@ interface TableControlsProps {
   onRefresh?: () => void;
   onToggleColumns?: () => void;
   onToggleFilters?: () => void;
+  // Gespeicherte Ansichten (Spalten, Filter, Sortierung)
+  onToggleViews?: () => void;
+  // Anzahl angewendeter Filterbedingungen (Badge am Filter-Button)
+  activeFilterCount?: number;
 
   // Pagination
   currentPage: number;
@@ -37,6 +44,11 @@ interface TableControlsProps {
   totalRecords: number;
   onPageChange: (page: number) => void;
   onPageSizeChange: (size: number) => void;
+  // Endlos-Scrollen statt Blättern (pageSize = Datensätze je Abruf)
+  infiniteScroll?: boolean;
+  onInfiniteScrollChange?: (enabled: boolean) => void;
+  // Beim Endlos-Scrollen bereits geladene Datensätze
+  loadedRecords?: number;
 
   // Loading states
   loading?: boolean;
@@ -52,18 +64,24 @@ const TableControls: React.FC<TableControlsProps> = ({
   searchTerm,
   onSearchChange,
   searchPlaceholder = "Suchen...",
+  onExport,
   onExportCSV,
   onExportJSON,
   onImport,
   onRefresh,
   onToggleColumns,
   onToggleFilters,
+  onToggleViews,
+  activeFilterCount = 0,
   currentPage,
   totalPages,
   pageSize,
   totalRecords,
   onPageChange,
   onPageSizeChange,
+  infiniteScroll = false,
+  onInfiniteScrollChange,
+  loadedRecords = 0,
   loading = false,
   refreshing = false,
   queryTime,
@@ -107,7 +125,7 @@ const TableControls: React.FC<TableControlsProps> = ({
               size="sm"
               variant="outline"
             >
-              Filter
+              Filter{activeFilterCount > 0 && ` (${activeFilterCount})`}
             </ButtonSecondary>
           )}
 
@@ -122,6 +140,17 @@ const TableControls: React.FC<TableControlsProps> = ({
             </ButtonSecondary>
           )}
 
+          {onToggleViews && (
+            <ButtonSecondary
+              onClick={onToggleViews}
+              icon={<Bookmark />}
+              size="sm"
+              variant="outline"
+            >
+              Ansichten
+            </ButtonSecondary>
+          )}
+
           {onRefresh && (
             <ButtonSecondary
               onClick={onRefresh}
@@ -135,13 +164,21 @@ const TableControls: React.FC<TableControlsProps> = ({
           )}
 
           {/* Export Dropdown */}
-          {(onExportCSV || onExportJSON || onImport) && (
+          {(onExport || onExportCSV || onExportJSON || onImport) && (
             <div className="relative group">
               <ButtonSecondary icon={<Download />} size="sm" variant="outline">
                 Export
               </ButtonSecondary>
               <div className="absolute right-0 top-full mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-10">
                 <div className="p-1">
+                  {onExport && (
+                    <button
+                      onClick={onExport}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 rounded-md"
+                    >
+                      Tabelle exportieren...
+                    </button>
+                  )}
                   {onExportCSV && (
                     <button
                       onClick={onExportCSV}
@@ -166,7 +203,7 @@ const TableControls: React.FC<TableControlsProps> = ({
                         className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 rounded-md flex items-center space-x-2"
                       >
                         <Upload className="h-4 w-4" />
-                        <span>Importieren</span>
+                        <span>CSV importieren...</span>
                       </button>
                     </>
                   )}
@@ -186,7 +223,9 @@ const TableControls: React.FC<TableControlsProps> = ({
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         {/* Page Size Selector */}
         <div className="flex items-center space-x-2">
-          <span className="text-sm text-gray-600">Zeige</span>
+          <span className="text-sm text-gray-600">
+            {infiniteScroll ? "Je Abruf" : "Zeige"}
+          </span>
           <select
             value={pageSize}
             onChange={(e) => onPageSizeChange(Number(e.target.value))}
@@ -201,55 +240,73 @@ const TableControls: React.FC<TableControlsProps> = ({
           <span className="text-sm text-gray-600">
             von {totalRecords.toLocaleString()} Einträgen
           </span>
+          {onInfiniteScrollChange && (
+            <label className="flex items-center space-x-2 pl-2 text-sm text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={infiniteScroll}
+                onChange={(e) => onInfiniteScrollChange(e.target.checked)}
+                className="rounded border-gray-300 text-[#ff863d] focus:ring-[#ff863d]"
+              />
+              <span>Endlos scrollen</span>
+            </label>
+          )}
         </div>
 
-        {/* Pagination */}
-        <div className="flex items-center space-x-1">
-          <ButtonSecondary
-            onClick={handleFirstPage}
-            disabled={currentPage === 1 || loading}
-            icon={<ArrowLeft />}
-            size="sm"
-            variant="ghost"
-            ariaLabel="Erste Seite"
-          />
+        {/* Pagination bzw. Fortschritt beim Endlos-Scrollen */}
+        {infiniteScroll ? (
+          <div className="text-sm text-gray-600" aria-live="polite">
+            {loadedRecords.toLocaleString()} von{" "}
+            {totalRecords.toLocaleString()} geladen
+          </div>
+        ) : (
+          <div className="flex items-center space-x-1">
+            <ButtonSecondary
+              onClick={handleFirstPage}
+              disabled={currentPage === 1 || loading}
+              icon={<ArrowLeft />}
+              size="sm"
+              variant="ghost"
+              ariaLabel="Erste Seite"
+            />
 
-          <ButtonSecondary
-            onClick={handlePrevPage}
-            disabled={currentPage === 1 || loading}
-            icon={<ChevronLeft />}
-            size="sm"
-            variant="ghost"
-            ariaLabel="Vorherige Seite"
-          />
+            <ButtonSecondary
+              onClick={handlePrevPage}
+              disabled={currentPage === 1 || loading}
+              icon={<ChevronLeft />}
+              size="sm"
+              variant="ghost"
+              ariaLabel="Vorherige Seite"
+            />
 
-          <div className="flex items-center space-x-1 px-3 py-1">
-            <span className="text-sm text-gray-600">
-              Seite {currentPage} von {totalPages}
-            </span>
-            <span className="text-xs text-gray-500">
-              ({startRecord}-{endRecord})
-            </span>
-          </div>
+            <div className="flex items-center space-x-1 px-3 py-1">
+              <span className="text-sm text-gray-600">
+                Seite {currentPage} von {totalPages}
+              </span>
+              <span className="text-xs text-gray-500">
+                ({startRecord}-{endRecord})
+              </span>
+            </div>
 
-          <ButtonSecondary
-            onClick={handleNextPage}
-            disabled={currentPage === totalPages || loading}
-            icon={<ChevronRight />}
-            size="sm"
-            variant="ghost"
-            ariaLabel="Nächste Seite"
-          />
+            <ButtonSecondary
+              onClick={handleNextPage}
+              disabled={currentPage === totalPages || loading}
+              icon={<ChevronRight />}
+              size="sm"
+              variant="ghost"
+              ariaLabel="Nächste Seite"
+            />
 
-          <ButtonSecondary
-            onClick={handleLastPage}
-            disabled={currentPage === totalPages || loading}
-            icon={<ArrowRight />}
-            size="sm"
-            variant="ghost"
-            ariaLabel="Letzte Seite"
-          />
-        </div>
+            <ButtonSecondary
+              onClick={handleLastPage}
+              disabled={currentPage === totalPages || loading}
+              icon={<ArrowRight />}
+              size="sm"
+              variant="ghost"
+              ariaLabel="Letzte Seite"
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -2,9 +2,20 @@
  * Table Components Index - DSP Database Overview Frontend
  *
  * Export-Datei für alle Tabellen-Komponenten:
- * - DataTable: Haupt-Tabellen-Komponente mit Sortierung und Paginierung
+ * - DataTable: Haupt-Tabellen-Komponente mit Sortierung, Paginierung und
+ *   Zeilenauswahl
  * - TableControls: Kontrollelemente für Tabellen (Filter, Paginierung)
  * - ModelSelector: Auswahl-Komponente für Datenmodelle
+ * - FilterBuilder: Serverseitige Filter mit UND/ODER-Gruppen
+ * - ExportDialog: Export ganzer Tabellen (CSV, XLSX, JSON, NDJSON)
+ * - RecordDrawer: Detailansicht eines Datensatzes mit Beziehungen
+ * - RecordFormDialog: Generisches Formular zum Anlegen/Bearbeiten
+ * - DeleteRecordDialog: Löschen mit Vorschau der Auswirkungen (on_delete)
+ * - ImportDialog: CSV-Import mit Spaltenzuordnung und Probelauf
+ * - ColumnManager: Spaltenauswahl mit Reihenfolge und Breiten
+ * - SavedViewsPanel: Gespeicherte Ansichten je Model (Standard, Teilen)
+ * - ColumnMenu: Spaltenmenü im Header (Anheften, Breite, Ausblenden)
+ * - RecordBulkActions: Export, Kopieren und Löschen ausgewählter Zeilen
  * 
  * Tabellen-Komponenten bieten konsistente Datenvisualisierung
  * mit erweiterten Funktionen wie Sortierung, Filterung und Paginierung.
@@ -15,6 +26,23 @@
  */
 
 export { default as DataTable } from "./DataTable";
-export type { TableColumn, SortConfig } from "./DataTable";
+export { getNextSortConfig } from "./sorting";
+export type {
+  TableColumn,
+  SortConfig,
+  RowKey,
+  RowSelection,
+} from "./DataTable";
+export type { ColumnPin } from "./ColumnMenu";
 export { default as TableControls } from "./TableControls";
 export { default as ModelSelector } from "./ModelSelector";
+export { default as FilterBuilder } from "./FilterBuilder";
+export { default as ExportDialog } from "./ExportDialog";
+export { default as RecordDrawer } from "./RecordDrawer";
+export { default as RecordFormDialog } from "./RecordFormDialog";
+export { default as DeleteRecordDialog } from "./DeleteRecordDialog";
+export { default as ImportDialog } from "./ImportDialog";
+export { default as ColumnManager } from "./ColumnManager";
+export { default as SavedViewsPanel } from "./SavedViewsPanel";
+export { default as ColumnMenu } from "./ColumnMenu";
+export { default as RecordBulkActions } from "./RecordBulkActions";
@@ -0,0 +1,44 @@
+/**
+ * Sortierung der DataTable - DSP Database Overview Frontend
+ *
+ * Hilfsfunktionen für die (mehrspaltige) Sortierung über die Spalten-Header.
+ * Liegen außerhalb von DataTable.tsx, damit das Komponenten-Modul nur
+ * Komponenten exportiert (Fast Refresh).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import type { SortConfig } from "./DataTable";
+
+/**
+ * Nächste Sortierung nach einem Klick auf einen Spalten-Header
+ *
+ * Jede Spalte wechselt aufsteigend -> absteigend -> unsortiert. Ein normaler
+ * Klick sortiert nur nach dieser Spalte, Umschalt+Klick ergänzt oder ändert
+ * die Spalte in der bestehenden Sortierung und behält deren Priorität.
+ */
+export const getNextSortConfig = (
+  current: SortConfig[],
+  key: string,
+  additive: boolean
+): SortConfig[] => {
+  const existing = current.find((sort) => sort.key === key);
+  const nextDirection: SortConfig["direction"] | null = !existing
+    ? "asc"
+    : existing.direction === "asc"
+    ? "desc"
+    : null;
+
+  if (!additive) {
+    return nextDirection ? [{ key, direction: nextDirection }] : [];
+  }
+
+  if (!existing) return [...current, { key, direction: "asc" }];
+  return nextDirection
+    ? current.map((sort) =>
+        sort.key === key ? { key, direction: nextDirection } : sort
+      )
+    : current.filter((sort) => sort.key !== key);
+};
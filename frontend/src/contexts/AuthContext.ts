@@ -0,0 +1,56 @@
+/**
+ * Auth Context - DSP Database Overview Frontend
+ *
+ * React-Context für den Authentifizierungszustand:
+ * - Aktueller Benutzer und Anmeldestatus
+ * - Login/Logout, Sitzungsverlängerung und Passwortänderung
+ * - Ablaufzeitpunkte von Access- und Refresh-Token
+ * - Rollenprüfungen für Route Guards und Navigation
+ *
+ * Der Context wird vom AuthProvider befüllt und über useAuth() gelesen.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { createContext, useContext } from "react";
+import type {
+  ChangePasswordPayload,
+  CurrentUser,
+  TokenResponse,
+  UserRole,
+} from "../services/authService";
+
+// --- Context-Typ ---
+
+export interface AuthContextValue {
+  user: CurrentUser | null;
+  isAuthenticated: boolean;
+  mustChangePassword: boolean;
+  accessExpiresAt: number | null;
+  refreshExpiresAt: number | null;
+  login: (username: string, password: string) => Promise<TokenResponse>;
+  logout: () => void;
+  refreshSession: () => Promise<void>;
+  changePassword: (payload: ChangePasswordPayload) => Promise<void>;
+  hasRoles: (roles?: UserRole[]) => boolean;
+  canAccessRoute: (path: string) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+// --- Hook ---
+
+/**
+ * Authentifizierungszustand und -aktionen abrufen
+ *
+ * @throws Error wenn außerhalb eines AuthProviders verwendet
+ */
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth muss innerhalb eines AuthProviders verwendet werden");
+  }
+  return context;
+};
@@ -0,0 +1,81 @@
+/**
+ * Auth Provider - DSP Database Overview Frontend
+ *
+ * Stellt den Authentifizierungszustand für die gesamte Anwendung bereit:
+ * - Abonniert den tokenStorage, damit Login, Logout und Token-Refresh
+ *   (auch aus den Axios-Interceptors) sofort neu rendern
+ * - Kapselt authService für alle Komponenten
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
+import { authService, type UserRole } from "../services/authService";
+import { tokenStorage } from "../services/tokenStorage";
+import { AuthContext, type AuthContextValue } from "./AuthContext";
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  // Snapshot wird bei jeder Änderung im tokenStorage neu erzeugt
+  const { isAuthenticated, user, accessExpiresAt, refreshExpiresAt } =
+    useSyncExternalStore(tokenStorage.subscribe, tokenStorage.getSnapshot);
+
+  const logout = useCallback(() => authService.logout(), []);
+
+  // Sitzungen ohne gespeichertes Profil (Login vor Einführung der Rollen)
+  // werden beendet, damit die Rollen beim nächsten Login bekannt sind
+  useEffect(() => {
+    if (isAuthenticated && !user) {
+      logout();
+    }
+  }, [isAuthenticated, user, logout]);
+
+  const hasRoles = useCallback(
+    (roles?: UserRole[]) => authService.hasRoles(roles, user),
+    [user]
+  );
+
+  const canAccessRoute = useCallback(
+    (path: string) => authService.canAccessRoute(path, user),
+    [user]
+  );
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      user,
+      isAuthenticated,
+      mustChangePassword: !!user?.force_password_change,
+      accessExpiresAt,
+      refreshExpiresAt,
+      login: (username, password) => authService.login(username, password),
+      logout,
+      refreshSession: () => authService.refreshSession(),
+      changePassword: (payload) => authService.changePassword(payload),
+      hasRoles,
+      canAccessRoute,
+    }),
+    [
+      user,
+      isAuthenticated,
+      accessExpiresAt,
+      refreshExpiresAt,
+      logout,
+      hasRoles,
+      canAccessRoute,
+    ]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
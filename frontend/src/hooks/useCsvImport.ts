@@ -0,0 +1,163 @@
+/**
+ * Hook für den CSV-Import in eine Tabelle
+ *
+ * Steuert Probelauf und Import (siehe services/csvImport.ts):
+ * - Status von der Prüfung bis zum Abschluss des Imports
+ * - Geprüfte Zeilen mit Fehlern und Ergebnis je Block
+ * - Abbruch über AbortController, auch beim Verlassen der Seite
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError } from "../services/apiError";
+import {
+  importRecords,
+  validateImport,
+  type ImportBatchResult,
+  type ImportProgress,
+  type ImportRow,
+} from "../services/csvImport";
+import type { ModelInfo } from "../services/api";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("Import");
+
+// --- Typen ---
+
+export type CsvImportStatus =
+  | "idle"
+  | "validating"
+  | "validated"
+  | "importing"
+  | "done"
+  | "canceled"
+  | "error";
+
+type ValidateOptions = Omit<Parameters<typeof validateImport>[0], "signal">;
+
+// --- Hook ---
+
+export const useCsvImport = () => {
+  const [status, setStatus] = useState<CsvImportStatus>("idle");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [batches, setBatches] = useState<ImportBatchResult[]>([]);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Laufende Prüfung bzw. laufenden Import beim Unmount abbrechen
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * Neuen Lauf starten - ein laufender wird abgebrochen
+   */
+  const begin = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    return controller;
+  }, []);
+
+  const fail = useCallback((controller: AbortController, err: unknown) => {
+    if (isAbortError(err)) {
+      // Überholter Lauf - Status gehört dem neuen Lauf
+      if (controllerRef.current === controller) setStatus("canceled");
+      return;
+    }
+    log.error("Import fehlgeschlagen:", err);
+    setError(err);
+    setStatus("error");
+  }, []);
+
+  /**
+   * Probelauf: alle Zeilen prüfen, ohne etwas anzulegen
+   */
+  const validate = useCallback(async (options: ValidateOptions) => {
+    const controller = begin();
+    setStatus("validating");
+    setRows([]);
+    setBatches([]);
+    setProgress(null);
+
+    try {
+      const result = await validateImport({
+        ...options,
+        signal: controller.signal,
+      });
+      setRows(result);
+      setStatus("validated");
+    } catch (err) {
+      fail(controller, err);
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, [begin, fail]);
+
+  /**
+   * Gültige Zeilen in Blöcken anlegen
+   */
+  const runImport = useCallback(
+    async (model: ModelInfo, validRows: ImportRow[]) => {
+      const controller = begin();
+      setStatus("importing");
+      setBatches([]);
+      setProgress({ done: 0, total: 0 });
+
+      try {
+        const results = await importRecords({
+          model,
+          rows: validRows,
+          signal: controller.signal,
+          onBatch: (result, nextProgress) => {
+            setBatches((current) => [...current, result]);
+            setProgress(nextProgress);
+          },
+        });
+        const created = results.reduce((sum, item) => sum + item.created, 0);
+        log.info(
+          `${created} von ${validRows.length} Datensätzen in ` +
+            `${model.app_label}.${model.model_name} importiert`
+        );
+        setStatus("done");
+      } catch (err) {
+        fail(controller, err);
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      }
+    },
+    [begin, fail]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Zurück in den Ausgangszustand (z.B. nach Änderung der Zuordnung)
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setStatus("idle");
+    setRows([]);
+    setBatches([]);
+    setProgress(null);
+    setError(null);
+  }, []);
+
+  return {
+    status,
+    rows,
+    batches,
+    progress,
+    error,
+    validate,
+    runImport,
+    cancel,
+    reset,
+  };
+};
+
+export default useCsvImport;
@@ -0,0 +1,283 @@
+/**
+ * React-Query Hooks für die db-overview-Endpoints
+ *
+ * Gemeinsamer Cache für Schema, Statistiken und Tabellendaten, damit die
+ * aufwendige Schema-Introspektion nicht bei jeder Navigation erneut läuft:
+ * - useDatabaseSchema: Datenbankschema (Overview, Statistiken, Browser)
+ * - useDatabaseStatistics: Tabellenstatistiken mit Hintergrund-Refresh
+ * - useTableData: Paginierte, sortierte und gefilterte Tabellendaten
+ * - useInfiniteTableData: Seitenweises Nachladen für Endlos-Scrollen
+ * - useTableRecord: Einzelner Datensatz über seinen Primärschlüssel
+ * - useTableCounts: Anzahl gefilterter Datensätze je Tabelle
+ * - useDeletePreview: Auswirkungen vor dem Löschen von Datensätzen
+ * - useRefreshDatabaseOverview: Manuelles Invalidieren aller Daten
+ *
+ * Abgebrochene Requests (Seitenwechsel, überholte Seiten) übernimmt
+ * react-query über das AbortSignal der Query-Funktion.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { useCallback } from "react";
+import {
+  keepPreviousData,
+  queryOptions,
+  useInfiniteQuery,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  dbOverviewAPI,
+  toOrderingParam,
+  type DatabaseSchemaResponse,
+  type ModelInfo,
+  type TableDataResponse,
+  type TableFilterParam,
+  type TableOrdering,
+} from "../services/api";
+import { getDeletePreview } from "../services/deletePreview";
+import { createExactFilterParam } from "../services/tableFilters";
+
+// --- Konfiguration ---
+
+const DB_OVERVIEW_QUERY_CONFIG = {
+  // Schema ändert sich nur mit Migrationen
+  SCHEMA_STALE_TIME: 10 * 60 * 1000, // 10 Minuten
+  // Zeilenzahlen ändern sich laufend
+  STATISTICS_STALE_TIME: 60 * 1000, // 1 Minute
+  STATISTICS_REFETCH_INTERVAL: 5 * 60 * 1000, // 5 Minuten
+  TABLE_DATA_STALE_TIME: 30 * 1000, // 30 Sekunden
+} as const;
+
+// --- Query Keys ---
+
+export const dbOverviewKeys = {
+  all: ["db-overview"] as const,
+  schema: () => [...dbOverviewKeys.all, "schema"] as const,
+  statistics: () => [...dbOverviewKeys.all, "statistics"] as const,
+  tableData: (
+    appLabel: string,
+    modelName: string,
+    params: {
+      page: number;
+      pageSize: number;
+      ordering: string;
+      filters: TableFilterParam | null;
+    }
+  ) => [...dbOverviewKeys.all, "table", appLabel, modelName, params] as const,
+  infiniteTableData: (
+    appLabel: string,
+    modelName: string,
+    params: {
+      pageSize: number;
+      ordering: string;
+      filters: TableFilterParam | null;
+    }
+  ) =>
+    [
+      ...dbOverviewKeys.all,
+      "table",
+      appLabel,
+      modelName,
+      "infinite",
+      params,
+    ] as const,
+  deletePreview: (appLabel: string, modelName: string, primaryKeys: string) =>
+    [
+      ...dbOverviewKeys.all,
+      "delete-preview",
+      appLabel,
+      modelName,
+      primaryKeys,
+    ] as const,
+};
+
+// --- Typen ---
+
+export interface TableDataQuery {
+  page: number;
+  pageSize: number;
+  ordering?: TableOrdering[];
+  filters?: TableFilterParam | null;
+}
+
+export interface TableDataQueryResult extends TableDataResponse {
+  // Dauer des Requests, der diese Daten geliefert hat (Millisekunden)
+  queryTime: number;
+}
+
+// --- Hooks ---
+
+/**
+ * Komplettes Datenbankschema (seitenübergreifend gecacht)
+ */
+export const useDatabaseSchema = () =>
+  useQuery({
+    queryKey: dbOverviewKeys.schema(),
+    queryFn: ({ signal }) => dbOverviewAPI.getDatabaseSchema({ signal }),
+    staleTime: DB_OVERVIEW_QUERY_CONFIG.SCHEMA_STALE_TIME,
+  });
+
+/**
+ * Datenbankstatistiken - werden bei geöffneter Seite periodisch im
+ * Hintergrund aktualisiert
+ */
+export const useDatabaseStatistics = () =>
+  useQuery({
+    queryKey: dbOverviewKeys.statistics(),
+    queryFn: ({ signal }) => dbOverviewAPI.getDatabaseStatistics({ signal }),
+    staleTime: DB_OVERVIEW_QUERY_CONFIG.STATISTICS_STALE_TIME,
+    refetchInterval: DB_OVERVIEW_QUERY_CONFIG.STATISTICS_REFETCH_INTERVAL,
+  });
+
+type TableModel = { app_label: string; model_name: string };
+
+const tableDataQuery = (
+  model: TableModel | null,
+  { page, pageSize, ordering = [], filters = null }: TableDataQuery
+) =>
+  queryOptions({
+    queryKey: dbOverviewKeys.tableData(
+      model?.app_label ?? "",
+      model?.model_name ?? "",
+      { page, pageSize, ordering: toOrderingParam(ordering), filters }
+    ),
+    queryFn: async ({ signal }): Promise<TableDataQueryResult> => {
+      const startTime = Date.now();
+      const data = await dbOverviewAPI.getTableData(
+        model!.app_label,
+        model!.model_name,
+        page,
+        pageSize,
+        { signal, ordering, filters }
+      );
+      return { ...data, queryTime: Date.now() - startTime };
+    },
+    enabled: !!model,
+    staleTime: DB_OVERVIEW_QUERY_CONFIG.TABLE_DATA_STALE_TIME,
+  });
+
+/**
+ * Paginierte, serverseitig sortierte und gefilterte Tabellendaten
+ *
+ * Beim Blättern, Umsortieren oder Filtern bleibt die vorherige Seite als
+ * Platzhalter stehen (isPlaceholderData), bis die neue Seite geladen ist.
+ */
+export const useTableData = (model: TableModel | null, query: TableDataQuery) =>
+  useQuery({
+    ...tableDataQuery(model, query),
+    placeholderData: keepPreviousData,
+  });
+
+/**
+ * Tabellendaten zum Endlos-Scrollen - fetchNextPage lädt die nächste Seite
+ * mit derselben Sortierung und denselben Filtern
+ *
+ * Geladene Seiten bleiben im Cache (data.pages), hasNextPage ist false nach
+ * der letzten Seite. Neue Sortierung oder Filter beginnen wieder bei Seite 1.
+ */
+export const useInfiniteTableData = (
+  model: TableModel | null,
+  { pageSize, ordering = [], filters = null }: Omit<TableDataQuery, "page">
+) =>
+  useInfiniteQuery({
+    queryKey: dbOverviewKeys.infiniteTableData(
+      model?.app_label ?? "",
+      model?.model_name ?? "",
+      { pageSize, ordering: toOrderingParam(ordering), filters }
+    ),
+    queryFn: async ({ pageParam, signal }): Promise<TableDataQueryResult> => {
+      const startTime = Date.now();
+      const data = await dbOverviewAPI.getTableData(
+        model!.app_label,
+        model!.model_name,
+        pageParam,
+        pageSize,
+        { signal, ordering, filters }
+      );
+      return { ...data, queryTime: Date.now() - startTime };
+    },
+    initialPageParam: 1,
+    getNextPageParam: ({ pagination }) =>
+      pagination.page < pagination.total_pages ? pagination.page + 1 : null,
+    enabled: !!model,
+    staleTime: DB_OVERVIEW_QUERY_CONFIG.TABLE_DATA_STALE_TIME,
+  });
+
+/**
+ * Einzelner Datensatz über den Primärschlüssel (null = nicht vorhanden)
+ *
+ * Lädt eine Seite der Größe 1 mit Filter auf den Schlüssel, z.B. um den
+ * Ziel-Datensatz eines ForeignKeys aufzulösen.
+ */
+export const useTableRecord = (
+  model: TableModel | null,
+  primaryKeyName: string,
+  primaryKey: unknown
+) =>
+  useQuery({
+    ...tableDataQuery(
+      primaryKey === null || primaryKey === undefined ? null : model,
+      {
+        page: 1,
+        pageSize: 1,
+        filters: createExactFilterParam(primaryKeyName, primaryKey),
+      }
+    ),
+    select: (data) => data.data[0] ?? null,
+  });
+
+/**
+ * Anzahl der Datensätze je Tabelle und Filter (z.B. für Zähler an Tabs)
+ *
+ * Ergebnisse in der Reihenfolge der Anfragen, undefined solange geladen.
+ */
+export const useTableCounts = (
+  queries: { model: TableModel; filters: TableFilterParam | null }[]
+) =>
+  useQueries({
+    queries: queries.map(({ model, filters }) => ({
+      ...tableDataQuery(model, { page: 1, pageSize: 1, filters }),
+      select: (data: TableDataQueryResult) => data.pagination.total_count,
+    })),
+  });
+
+/**
+ * Auswirkungen des Löschens eines oder mehrerer Datensätze (CASCADE,
+ * SET_NULL, PROTECT)
+ *
+ * Wird bei jedem Öffnen neu ermittelt, damit die Vorschau dem aktuellen
+ * Datenstand entspricht.
+ */
+export const useDeletePreview = (
+  schema: DatabaseSchemaResponse | null | undefined,
+  model: ModelInfo,
+  primaryKeys: unknown[]
+) =>
+  useQuery({
+    queryKey: dbOverviewKeys.deletePreview(
+      model.app_label,
+      model.model_name,
+      primaryKeys.map(String).join(",")
+    ),
+    queryFn: ({ signal }) =>
+      getDeletePreview(schema!, model, primaryKeys, signal),
+    enabled: !!schema,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+/**
+ * Alle db-overview-Daten als veraltet markieren und aktive Queries neu
+ * laden (z.B. für "Aktualisieren"-Buttons)
+ */
+export const useRefreshDatabaseOverview = () => {
+  const queryClient = useQueryClient();
+  return useCallback(
+    () => queryClient.invalidateQueries({ queryKey: dbOverviewKeys.all }),
+    [queryClient]
+  );
+};
@@ -0,0 +1,51 @@
+/**
+ * Hook für die Zeilenauswahl einer DataTable
+ *
+ * Hält die ausgewählten Zeilen (Schlüssel oder "alle passenden") und setzt
+ * die Auswahl zurück, sobald sich die Datengrundlage ändert (z.B. Model,
+ * Filter, Sortierung oder Seite) - sonst bezöge sich eine Aktion auf
+ * Datensätze, die nicht mehr angezeigt werden.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { useCallback, useState } from "react";
+import type { RowKey, RowSelection } from "../components/tables";
+
+const EMPTY_SELECTION: RowSelection = { keys: new Set(), allMatching: false };
+
+/**
+ * @param resetKey - Bei jeder Änderung wird die Auswahl geleert
+ */
+export const useRowSelection = (resetKey: string) => {
+  const [state, setState] = useState({
+    resetKey,
+    selection: EMPTY_SELECTION,
+  });
+
+  // Zurücksetzen schon beim Rendern, nicht erst nach einem Effekt
+  const selection =
+    state.resetKey === resetKey ? state.selection : EMPTY_SELECTION;
+
+  const setSelection = useCallback(
+    (next: RowSelection) => setState({ resetKey, selection: next }),
+    [resetKey]
+  );
+
+  const clear = useCallback(
+    () => setState({ resetKey, selection: EMPTY_SELECTION }),
+    [resetKey]
+  );
+
+  // Ob eine Zeile mit diesem Schlüssel ausgewählt ist
+  const isSelected = useCallback(
+    (key: RowKey) => selection.allMatching || selection.keys.has(key),
+    [selection]
+  );
+
+  return { selection, setSelection, clear, isSelected };
+};
+
+export default useRowSelection;
@@ -0,0 +1,33 @@
+/**
+ * Hook für gespeicherte Tabellen-Ansichten eines Models
+ *
+ * Liest die Ansichten aus services/savedViews.ts und aktualisiert sich bei
+ * jeder Änderung (auch aus anderen Komponenten).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { useMemo, useSyncExternalStore } from "react";
+import { savedViews } from "../services/savedViews";
+
+export const useSavedViews = (modelKey: string | null) => {
+  const allViews = useSyncExternalStore(
+    savedViews.subscribe,
+    savedViews.getSnapshot
+  );
+
+  const views = useMemo(
+    () =>
+      allViews
+        .filter((view) => view.modelKey === modelKey)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [allViews, modelKey]
+  );
+  const defaultView = views.find((view) => view.isDefault) ?? null;
+
+  return { views, defaultView };
+};
+
+export default useSavedViews;
@@ -0,0 +1,219 @@
+/**
+ * Zustand des Tabellen-Browsers in der URL
+ *
+ * Model, Seite, Seitengröße, Sortierung, Filter, sichtbare Spalten,
+ * Spaltenbreiten und angeheftete Spalten stehen in der URL, damit Ansichten
+ * als Link geteilt werden können und der Zurück-Button des Browsers
+ * funktioniert:
+ *
+ *   /tables/:appLabel/:modelName?page=2&page_size=100&sort=-name,id
+ *     &filters={...}&columns=id,name&widths=name:240&pinned=id:left
+ *     &mode=infinite
+ *
+ * - Modellwechsel und Navigation zu verknüpften Tabellen erzeugen neue
+ *   History-Einträge
+ * - Blättern, Sortieren und Filtern ebenfalls (Zurück stellt die vorherige
+ *   Ansicht wieder her), Spaltenauswahl, -breiten, Anheften und Seitengröße
+ *   ersetzen den Eintrag
+ * - mode=infinite: Endlos-Scrollen statt Blättern (page entfällt)
+ * - Fehlende oder ungültige Parameter fallen auf Standardwerte zurück
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { useCallback, useMemo } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { parseOrderingParam, toOrderingParam } from "../services/api";
+import type { TableViewSettings } from "../services/savedViews";
+import { parseFilterParam } from "../services/tableFilters";
+
+// --- Konfiguration ---
+
+export const TABLES_ROUTE = "/tables";
+
+export const DEFAULT_TABLE_PAGE_SIZE = 50;
+
+// Namen der Query-Parameter
+const PARAMS = {
+  PAGE: "page",
+  PAGE_SIZE: "page_size",
+  SORT: "sort",
+  FILTERS: "filters",
+  COLUMNS: "columns",
+  WIDTHS: "widths",
+  PINNED: "pinned",
+  MODE: "mode",
+} as const;
+
+const INFINITE_MODE = "infinite";
+
+// --- Typen ---
+
+export interface TableViewState extends TableViewSettings {
+  page: number;
+  // Endlos-Scrollen statt Seiten
+  infinite: boolean;
+}
+
+interface UpdateOptions {
+  // Aktuellen History-Eintrag ersetzen statt einen neuen anzulegen
+  replace?: boolean;
+}
+
+const DEFAULT_VIEW: TableViewState = {
+  page: 1,
+  pageSize: DEFAULT_TABLE_PAGE_SIZE,
+  sort: [],
+  filters: null,
+  columns: null,
+  widths: null,
+  pinned: null,
+  infinite: false,
+};
+
+// --- Hilfsfunktionen ---
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// "name:240,title:120" -> {name: 240, title: 120} (leer = null)
+const parseWidths = (value: string | null) => {
+  const widths = Object.fromEntries(
+    (value ?? "")
+      .split(",")
+      .map((entry) => entry.split(":"))
+      .map(([name, width]) => [name, Number.parseInt(width ?? "", 10)])
+      .filter(([name, width]) => name && Number(width) > 0)
+  ) as Record<string, number>;
+  return Object.keys(widths).length > 0 ? widths : null;
+};
+
+// "id:left,total:right" -> {id: "left", total: "right"} (leer = null)
+const parsePinned = (value: string | null) => {
+  const pinned = Object.fromEntries(
+    (value ?? "")
+      .split(",")
+      .map((entry) => entry.split(":"))
+      .filter(([name, pin]) => name && (pin === "left" || pin === "right"))
+  ) as TableViewSettings["pinned"];
+  return Object.keys(pinned).length > 0 ? pinned : null;
+};
+
+const parseView = (searchParams: URLSearchParams): TableViewState => {
+  const columns = searchParams.get(PARAMS.COLUMNS);
+  return {
+    page: parsePositiveInt(searchParams.get(PARAMS.PAGE), DEFAULT_VIEW.page),
+    pageSize: parsePositiveInt(
+      searchParams.get(PARAMS.PAGE_SIZE),
+      DEFAULT_VIEW.pageSize
+    ),
+    sort: parseOrderingParam(searchParams.get(PARAMS.SORT)),
+    filters: parseFilterParam(searchParams.get(PARAMS.FILTERS)),
+    columns: columns === null ? null : columns.split(",").filter(Boolean),
+    widths: parseWidths(searchParams.get(PARAMS.WIDTHS)),
+    pinned: parsePinned(searchParams.get(PARAMS.PINNED)),
+    infinite: searchParams.get(PARAMS.MODE) === INFINITE_MODE,
+  };
+};
+
+/**
+ * Ansicht als Query-String (Standardwerte werden weggelassen)
+ */
+export const toTableViewSearch = (view: Partial<TableViewState>): string => {
+  const params = new URLSearchParams();
+  if (view.page && view.page !== DEFAULT_VIEW.page && !view.infinite) {
+    params.set(PARAMS.PAGE, String(view.page));
+  }
+  if (view.pageSize && view.pageSize !== DEFAULT_VIEW.pageSize) {
+    params.set(PARAMS.PAGE_SIZE, String(view.pageSize));
+  }
+  if (view.sort && view.sort.length > 0) {
+    params.set(PARAMS.SORT, toOrderingParam(view.sort));
+  }
+  if (view.filters) {
+    params.set(PARAMS.FILTERS, JSON.stringify(view.filters));
+  }
+  if (view.columns) {
+    params.set(PARAMS.COLUMNS, view.columns.join(","));
+  }
+  if (view.widths && Object.keys(view.widths).length > 0) {
+    params.set(
+      PARAMS.WIDTHS,
+      Object.entries(view.widths)
+        .map(([name, width]) => `${name}:${width}`)
+        .join(",")
+    );
+  }
+  if (view.pinned && Object.keys(view.pinned).length > 0) {
+    params.set(
+      PARAMS.PINNED,
+      Object.entries(view.pinned)
+        .map(([name, pin]) => `${name}:${pin}`)
+        .join(",")
+    );
+  }
+  if (view.infinite) {
+    params.set(PARAMS.MODE, INFINITE_MODE);
+  }
+
+  const search = params.toString();
+  return search ? `?${search}` : "";
+};
+
+/**
+ * Pfad einer Tabelle im Browser (z.B. für Links aus anderen Seiten)
+ */
+export const getTablePath = (
+  appLabel: string,
+  modelName: string,
+  view: Partial<TableViewState> = {}
+) =>
+  `${TABLES_ROUTE}/${encodeURIComponent(appLabel)}/` +
+  `${encodeURIComponent(modelName)}${toTableViewSearch(view)}`;
+
+// --- Hook ---
+
+export const useTableBrowserUrl = () => {
+  const { appLabel = null, modelName = null } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const view = useMemo(() => parseView(searchParams), [searchParams]);
+  // Ob der Link eine Ansicht vorgibt (sonst gilt die Standard-Ansicht)
+  const hasViewParams = searchParams.toString() !== "";
+
+  /**
+   * Ansicht des aktuellen Models ändern
+   */
+  const updateView = useCallback(
+    (
+      changes: Partial<TableViewState>,
+      { replace = false }: UpdateOptions = {}
+    ) =>
+      navigate(
+        { search: toTableViewSearch({ ...view, ...changes }) },
+        { replace }
+      ),
+    [navigate, view]
+  );
+
+  /**
+   * Anderes Model öffnen (neuer History-Eintrag, Standardansicht)
+   */
+  const openModel = useCallback(
+    (
+      nextAppLabel: string,
+      nextModelName: string,
+      nextView: Partial<TableViewState> = {}
+    ) => navigate(getTablePath(nextAppLabel, nextModelName, nextView)),
+    [navigate]
+  );
+
+  return { appLabel, modelName, view, hasViewParams, updateView, openModel };
+};
+
+export default useTableBrowserUrl;
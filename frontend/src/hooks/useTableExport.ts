@@ -0,0 +1,103 @@
+/**
+ * Hook für den vollständigen Tabellen-Export
+ *
+ * Steuert einen laufenden Export (siehe services/tableExport.ts):
+ * - Status und Fortschritt (geladene von gesamt Datensätzen)
+ * - Abbruch über AbortController, auch beim Verlassen der Seite
+ * - Download der fertigen Datei
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError } from "../services/apiError";
+import { createLogger } from "../services/logger";
+import {
+  downloadBlob,
+  exportTable,
+  getExportFilename,
+  type ExportProgress,
+  type TableExportOptions,
+} from "../services/tableExport";
+
+const log = createLogger("Export");
+
+// --- Typen ---
+
+export type TableExportStatus =
+  | "idle"
+  | "running"
+  | "done"
+  | "canceled"
+  | "error";
+
+type StartOptions = Omit<TableExportOptions, "signal" | "onProgress">;
+
+// --- Hook ---
+
+export const useTableExport = () => {
+  const [status, setStatus] = useState<TableExportStatus>("idle");
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Laufenden Export beim Unmount abbrechen
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * Export starten und die Datei nach Abschluss herunterladen
+   */
+  const start = useCallback(async (options: StartOptions) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setStatus("running");
+    setProgress(null);
+    setError(null);
+
+    try {
+      const blob = await exportTable({
+        ...options,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, getExportFilename(options.modelName, options.format));
+      log.info(
+        `${options.appLabel}.${options.modelName} als ${options.format} ` +
+          "exportiert"
+      );
+      setStatus("done");
+    } catch (err) {
+      if (isAbortError(err)) {
+        // Überholter Export - Status gehört dem neuen Lauf
+        if (controllerRef.current === controller) setStatus("canceled");
+        return;
+      }
+      log.error("Export fehlgeschlagen:", err);
+      setError(err);
+      setStatus("error");
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Zurück in den Ausgangszustand (z.B. beim erneuten Öffnen des Dialogs)
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setStatus("idle");
+    setProgress(null);
+    setError(null);
+  }, []);
+
+  return { status, progress, error, start, cancel, reset };
+};
+
+export default useTableExport;
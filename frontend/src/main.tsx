@@ -3,6 +3,7 @@
  * 
  * Diese Datei initialisiert die React-Anwendung mit allen notwendigen Providern:
  * - React Query für Server-State-Management
+ * - AuthProvider für den Authentifizierungszustand
  * - Strict Mode für Entwicklung
  * - Root-Element-Mounting
  * 
@@ -21,13 +22,16 @@ import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import AuthProvider from "./contexts/AuthProvider";
 
 // QueryClient für Server-State-Management konfigurieren
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 5 * 60 * 1000, // 5 Minuten
-      retry: 3,
+      // Wiederholungen mit Backoff übernehmen bereits die Axios-Clients
+      // (RETRY_CONFIG) - sonst würden sich beide Ebenen multiplizieren
+      retry: false,
     },
   },
 });
@@ -36,7 +40,9 @@ const queryClient = new QueryClient({
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <QueryClientProvider client={queryClient}>
-      <App />
+      <AuthProvider>
+        <App />
+      </AuthProvider>
     </QueryClientProvider>
   </StrictMode>
 );
@@ -0,0 +1,383 @@
+/**
+ * In-Memory-Datenbank des Offline-Mock-Backends
+ *
+ * Hält alle Fixture-Datensätze und bietet einfache CRUD-Operationen:
+ * - Eigene ID-Sequenzen je Tabelle (IDs werden wie in Postgres nie
+ *   wiederverwendet)
+ * - Neunummerierung der Geschwister beim Verschieben (Feld "order")
+ * - Persistenz im sessionStorage, damit Änderungen ein Neuladen der
+ *   Seite überstehen und erst mit dem Schließen des Tabs verfallen
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { createSeedCollections } from "./fixtures";
+
+// --- Datensatz-Typen (entsprechen den Django-Modellen) ---
+
+export interface UserRecord {
+  id: number;
+  username: string;
+  // Nur im Mock im Klartext - das echte Backend speichert Hashes
+  password: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  is_staff: boolean;
+  is_superuser: boolean;
+  is_active: boolean;
+  force_password_change: boolean;
+  date_joined: string;
+  last_login: string | null;
+}
+
+export interface CategoryRecord {
+  id: number;
+  name: string;
+}
+
+export interface ModuleRecord {
+  id: number;
+  title: string;
+  category: number;
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChapterRecord {
+  id: number;
+  module: number;
+  title: string;
+  description: string;
+  order: number;
+  is_active: boolean;
+}
+
+export interface ContentRecord {
+  id: number;
+  chapter: number;
+  title: string;
+  description: string;
+  video_url: string;
+  order: number;
+}
+
+export interface ArticleRecord {
+  id: number;
+  module: number;
+  chapter: number | null;
+  title: string;
+  url: string;
+  order: number;
+}
+
+export interface TaskRecord {
+  id: number;
+  chapter: number;
+  title: string;
+  description: string;
+  difficulty: string;
+  hint: string;
+  order: number;
+}
+
+export interface TaskMultipleChoiceRecord {
+  id: number;
+  task: number;
+  question: string;
+  option_1: string;
+  option_2: string;
+  option_3: string;
+  option_4: string;
+  correct_answer: number;
+  order: number;
+}
+
+export interface DepartmentRecord {
+  id: number;
+  name: string;
+  description: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PositionRecord {
+  id: number;
+  title: string;
+  description: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EmployeeRecord {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+  department: number;
+  position: number;
+  max_working_hours: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ToolRecord {
+  id: number;
+  slug: string;
+  name: string;
+  description: string;
+  frontend_url: string;
+}
+
+export interface ToolAccessRecord {
+  id: number;
+  employee: number;
+  tool: number;
+  granted_at: string;
+  expires_at: string | null;
+}
+
+export interface ActivityLogRecord {
+  id: number;
+  user: number;
+  action: string;
+  object_type: string;
+  object_repr: string;
+  ip_address: string;
+  timestamp: string;
+}
+
+export interface MockCollections {
+  users: UserRecord[];
+  categories: CategoryRecord[];
+  modules: ModuleRecord[];
+  chapters: ChapterRecord[];
+  contents: ContentRecord[];
+  articles: ArticleRecord[];
+  tasks: TaskRecord[];
+  taskMultipleChoice: TaskMultipleChoiceRecord[];
+  departments: DepartmentRecord[];
+  positions: PositionRecord[];
+  employees: EmployeeRecord[];
+  tools: ToolRecord[];
+  toolAccess: ToolAccessRecord[];
+  activityLogs: ActivityLogRecord[];
+}
+
+export type CollectionName = keyof MockCollections;
+
+export type RecordOf<K extends CollectionName> = MockCollections[K][number];
+
+// Sitzung im Cookie-Modus - simuliert die httpOnly-Cookies des Backends
+export interface MockCookieSession {
+  userId: number;
+  // Ablaufzeitpunkte der beiden Token-Cookies (Millisekunden)
+  accessExpiresAt: number;
+  refreshExpiresAt: number;
+}
+
+interface MockState {
+  collections: MockCollections;
+  sequences: Record<CollectionName, number>;
+  cookieSession: MockCookieSession | null;
+}
+
+// --- Persistenz ---
+
+// Version im Key, damit geänderte Fixtures alte Stände verwerfen
+const STORAGE_KEY = "dsp-mock-db-v1";
+
+const createInitialState = (): MockState => {
+  const collections = createSeedCollections();
+  const sequences = Object.fromEntries(
+    Object.entries(collections).map(([name, records]) => [
+      name,
+      records.reduce((max, record) => Math.max(max, record.id), 0),
+    ])
+  ) as Record<CollectionName, number>;
+
+  return { collections, sequences, cookieSession: null };
+};
+
+const loadState = (): MockState => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as MockState;
+  } catch {
+    // Ungültiger Stand - mit frischen Fixtures starten
+  }
+  return createInitialState();
+};
+
+let state: MockState | null = null;
+
+const getState = () => {
+  if (!state) state = loadState();
+  return state;
+};
+
+const persist = () => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(getState()));
+  } catch {
+    // Speicher voll oder gesperrt - Änderungen bleiben bis zum Neuladen
+  }
+};
+
+export const timestamp = () => new Date().toISOString();
+
+// --- Datenbank-API ---
+
+export const mockDb = {
+  /**
+   * Alle Datensätze einer Tabelle (Referenz - nur lesend verwenden)
+   */
+  all<K extends CollectionName>(name: K): RecordOf<K>[] {
+    return getState().collections[name] as RecordOf<K>[];
+  },
+
+  /**
+   * Datensatz über seine ID finden (ID auch als String aus der URL)
+   */
+  find<K extends CollectionName>(
+    name: K,
+    id: number | string | null | undefined
+  ): RecordOf<K> | undefined {
+    const numericId = Number(id);
+    return mockDb.all(name).find((record) => record.id === numericId);
+  },
+
+  /**
+   * Datensatz mit neuer ID anlegen
+   */
+  insert<K extends CollectionName>(
+    name: K,
+    values: Omit<RecordOf<K>, "id">
+  ): RecordOf<K> {
+    const current = getState();
+    current.sequences[name] += 1;
+    const record = { id: current.sequences[name], ...values } as RecordOf<K>;
+    mockDb.all(name).push(record);
+    persist();
+    return record;
+  },
+
+  /**
+   * Datensatz teilweise aktualisieren
+   */
+  update<K extends CollectionName>(
+    name: K,
+    id: number | string,
+    patch: Partial<RecordOf<K>>
+  ): RecordOf<K> | undefined {
+    const record = mockDb.find(name, id);
+    if (!record) return undefined;
+    Object.assign(record, patch, { id: record.id });
+    persist();
+    return record;
+  },
+
+  /**
+   * Alle passenden Datensätze löschen und zurückgeben
+   */
+  removeWhere<K extends CollectionName>(
+    name: K,
+    predicate: (record: RecordOf<K>) => boolean
+  ): RecordOf<K>[] {
+    const records = mockDb.all(name);
+    const removed = records.filter(predicate);
+    const kept = records.filter((record) => !predicate(record));
+    const collections = getState().collections as Record<
+      CollectionName,
+      unknown[]
+    >;
+    collections[name] = kept;
+    persist();
+    return removed;
+  },
+
+  /**
+   * Datensatz innerhalb seiner Geschwister an Position "order" verschieben
+   *
+   * Die Geschwister werden anschließend lückenlos ab 1 durchnummeriert -
+   * so verhält sich auch die Reorder-Logik der Django-Views.
+   */
+  reorder<K extends CollectionName>(
+    name: K,
+    record: RecordOf<K> & { order: number },
+    isSibling: (candidate: RecordOf<K>) => boolean,
+    order: number
+  ) {
+    const siblings = mockDb
+      .siblings(name, isSibling)
+      .filter((candidate) => candidate.id !== record.id);
+
+    const index = Math.min(Math.max(Math.round(order) - 1, 0), siblings.length);
+    siblings.splice(index, 0, record);
+    siblings.forEach((sibling, position) => {
+      sibling.order = position + 1;
+    });
+    persist();
+  },
+
+  /**
+   * Geschwister lückenlos neu nummerieren (z.B. nach dem Löschen)
+   */
+  renumber<K extends CollectionName>(
+    name: K,
+    isSibling: (candidate: RecordOf<K>) => boolean
+  ) {
+    mockDb.siblings(name, isSibling).forEach((sibling, position) => {
+      sibling.order = position + 1;
+    });
+    persist();
+  },
+
+  /**
+   * Geschwister nach "order" sortiert
+   */
+  siblings<K extends CollectionName>(
+    name: K,
+    isSibling: (candidate: RecordOf<K>) => boolean
+  ) {
+    return (mockDb.all(name) as (RecordOf<K> & { order: number })[])
+      .filter(isSibling)
+      .sort((a, b) => a.order - b.order);
+  },
+
+  /**
+   * Nächste freie Position innerhalb der Geschwister
+   */
+  nextOrder<K extends CollectionName>(
+    name: K,
+    isSibling: (candidate: RecordOf<K>) => boolean
+  ): number {
+    const siblings = mockDb.siblings(name, isSibling);
+    return siblings.length > 0 ? siblings[siblings.length - 1].order + 1 : 1;
+  },
+
+  // --- Cookie-Sitzung ---
+
+  getCookieSession(): MockCookieSession | null {
+    return getState().cookieSession;
+  },
+
+  setCookieSession(session: MockCookieSession | null) {
+    getState().cookieSession = session;
+    persist();
+  },
+
+  /**
+   * Alle Änderungen verwerfen und die Fixtures neu laden
+   */
+  reset() {
+    state = createInitialState();
+    persist();
+  },
+};
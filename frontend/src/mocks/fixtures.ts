@@ -0,0 +1,494 @@
+/**
+ * Fixture-Daten des Offline-Mock-Backends
+ *
+ * Erzeugt einen realistischen, deterministischen Startbestand:
+ * - Benutzer mit unterschiedlichen Rollen (Passwort jeweils MOCK_PASSWORD)
+ * - E-Learning-Module mit Kapiteln, Videos, Artikeln, Aufgaben und Fragen
+ * - Mitarbeiter mit Abteilungen, Positionen und Tool-Zugriffen
+ * - Umfangreiches Aktivitätsprotokoll zum Testen der Paginierung
+ *
+ * Ein fester Seed sorgt dafür, dass jeder Start dieselben Daten liefert.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import type {
+  ActivityLogRecord,
+  ArticleRecord,
+  ChapterRecord,
+  ContentRecord,
+  EmployeeRecord,
+  MockCollections,
+  ModuleRecord,
+  TaskMultipleChoiceRecord,
+  TaskRecord,
+  ToolAccessRecord,
+  UserRecord,
+} from "./db";
+
+// Gemeinsames Passwort aller Fixture-Benutzer
+export const MOCK_PASSWORD = "demo";
+
+// Anzahl generierter Einträge im Aktivitätsprotokoll
+const ACTIVITY_LOG_SIZE = 2500;
+
+// --- Zufallsgenerator mit festem Seed (mulberry32) ---
+
+const createRandom = (seed: number) => {
+  let value = seed;
+  const next = () => {
+    value = (value + 0x6d2b79f5) | 0;
+    let t = Math.imul(value ^ (value >>> 15), 1 | value);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number) =>
+      min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T =>
+      items[Math.floor(next() * items.length)],
+  };
+};
+
+// Fester Bezugszeitpunkt, damit die Fixtures reproduzierbar bleiben
+const BASE_DATE = Date.UTC(2025, 0, 6, 8, 0, 0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAfterBase = (days: number, minutes = 0) =>
+  new Date(BASE_DATE + days * DAY_MS + minutes * 60 * 1000).toISOString();
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// --- Stammdaten ---
+
+const FIRST_NAMES = [
+  "Anna", "Lukas", "Sophie", "Jonas", "Marie", "Felix", "Laura", "Paul",
+  "Lea", "Tim", "Julia", "Niklas", "Hannah", "David", "Emma", "Leon",
+  "Clara", "Moritz", "Lena", "Jan", "Sarah", "Finn", "Mia", "Tobias",
+];
+
+const LAST_NAMES = [
+  "Müller", "Schmidt", "Schneider", "Fischer", "Weber", "Meyer", "Wagner",
+  "Becker", "Schulz", "Hoffmann", "Koch", "Richter", "Klein", "Wolf",
+  "Neumann", "Schwarz", "Zimmermann", "Braun", "Krüger", "Hartmann",
+];
+
+const DEPARTMENTS = [
+  ["Geschäftsführung", "Strategische Leitung des Unternehmens"],
+  ["Entwicklung", "Software- und Produktentwicklung"],
+  ["Vertrieb", "Kundengewinnung und Key-Account-Management"],
+  ["Personal", "Recruiting, Personalentwicklung und Verwaltung"],
+  ["Support", "Kundenbetreuung und technischer Support"],
+  ["Marketing", "Kommunikation, Kampagnen und Social Media"],
+] as const;
+
+const POSITIONS = [
+  ["Geschäftsführer/in", "Leitung des Unternehmens"],
+  ["Teamleitung", "Fachliche und disziplinarische Teamführung"],
+  ["Senior Entwickler/in", "Architektur und Code-Reviews"],
+  ["Entwickler/in", "Umsetzung von Features"],
+  ["Werkstudent/in", "Mitarbeit neben dem Studium"],
+  ["Sachbearbeiter/in", "Bearbeitung von Fachvorgängen"],
+  ["Support-Mitarbeiter/in", "First- und Second-Level-Support"],
+  ["Auszubildende/r", "Ausbildung im Unternehmen"],
+] as const;
+
+const TOOLS = [
+  ["db-overview", "Datenbank-Übersicht", "Schema- und Tabellenbrowser"],
+  ["elearning", "E-Learning", "Lernplattform mit Modulen und Aufgaben"],
+  ["zeiterfassung", "Zeiterfassung", "Arbeitszeiten und Abwesenheiten"],
+  ["ticketsystem", "Ticketsystem", "Bearbeitung von Support-Anfragen"],
+  ["wiki", "Wiki", "Internes Wissensmanagement"],
+] as const;
+
+const CATEGORIES = [
+  "Grundlagen",
+  "Datenbanken",
+  "Webentwicklung",
+  "Sicherheit",
+  "Projektmanagement",
+];
+
+// Module mit Kategorie (Index in CATEGORIES) und Kapitelüberschriften
+const MODULES: {
+  title: string;
+  category: number;
+  isPublic: boolean;
+  chapters: string[];
+}[] = [
+  {
+    title: "Git & Versionskontrolle",
+    category: 0,
+    isPublic: true,
+    chapters: [
+      "Erste Schritte",
+      "Branches und Merges",
+      "Zusammenarbeit im Team",
+    ],
+  },
+  {
+    title: "SQL für Einsteiger",
+    category: 1,
+    isPublic: true,
+    chapters: ["SELECT-Abfragen", "Joins", "Aggregationen", "Indizes"],
+  },
+  {
+    title: "Datenmodellierung",
+    category: 1,
+    isPublic: false,
+    chapters: ["Entitäten und Beziehungen", "Normalformen", "Migrationen"],
+  },
+  {
+    title: "Django REST Framework",
+    category: 2,
+    isPublic: true,
+    chapters: ["Serializer", "ViewSets und Router", "Authentifizierung"],
+  },
+  {
+    title: "React & TypeScript",
+    category: 2,
+    isPublic: true,
+    chapters: [
+      "Komponenten",
+      "Hooks",
+      "Datenabruf mit React Query",
+      "Formulare",
+    ],
+  },
+  {
+    title: "IT-Sicherheit im Alltag",
+    category: 3,
+    isPublic: true,
+    chapters: ["Passwörter und MFA", "Phishing erkennen"],
+  },
+  {
+    title: "Agiles Arbeiten mit Scrum",
+    category: 4,
+    isPublic: false,
+    chapters: ["Rollen", "Events", "Artefakte"],
+  },
+];
+
+const DIFFICULTIES = ["Einfach", "Mittel", "Schwer"] as const;
+
+const ACTIONS = ["login", "logout", "create", "update", "delete", "view"];
+
+const OBJECT_TYPES = [
+  "elearning.Module",
+  "elearning.Chapter",
+  "elearning.Task",
+  "employees.Employee",
+  "employees.ToolAccess",
+];
+
+// --- Generatoren ---
+
+const createUsers = (): UserRecord[] => {
+  const base = {
+    password: MOCK_PASSWORD,
+    is_active: true,
+    force_password_change: false,
+    last_login: null,
+  };
+
+  const users: UserRecord[] = [
+    {
+      ...base,
+      id: 1,
+      username: "admin",
+      email: "admin@dsp.example",
+      first_name: "Admin",
+      last_name: "DSP",
+      is_staff: true,
+      is_superuser: true,
+      date_joined: daysAfterBase(0),
+    },
+    {
+      ...base,
+      id: 2,
+      username: "redaktion",
+      email: "redaktion@dsp.example",
+      first_name: "Rita",
+      last_name: "Redaktion",
+      is_staff: true,
+      is_superuser: false,
+      date_joined: daysAfterBase(3),
+    },
+    {
+      ...base,
+      id: 3,
+      username: "lernende",
+      email: "lernende@dsp.example",
+      first_name: "Lars",
+      last_name: "Lernend",
+      is_staff: false,
+      is_superuser: false,
+      date_joined: daysAfterBase(10),
+    },
+    {
+      ...base,
+      id: 4,
+      username: "neu",
+      email: "neu@dsp.example",
+      first_name: "Nina",
+      last_name: "Neu",
+      is_staff: false,
+      is_superuser: false,
+      force_password_change: true,
+      date_joined: daysAfterBase(40),
+    },
+  ];
+
+  const random = createRandom(4);
+  for (let id = 5; id <= 14; id += 1) {
+    const firstName = random.pick(FIRST_NAMES);
+    const lastName = random.pick(LAST_NAMES);
+    users.push({
+      ...base,
+      id,
+      username: `${slugify(firstName)}.${slugify(lastName)}${id}`,
+      email: `${slugify(firstName)}.${slugify(lastName)}${id}@dsp.example`,
+      first_name: firstName,
+      last_name: lastName,
+      is_staff: false,
+      is_superuser: false,
+      is_active: random.next() > 0.15,
+      date_joined: daysAfterBase(random.int(5, 120)),
+    });
+  }
+
+  return users;
+};
+
+const createLearningContent = () => {
+  const random = createRandom(7);
+  const modules: ModuleRecord[] = [];
+  const chapters: ChapterRecord[] = [];
+  const contents: ContentRecord[] = [];
+  const articles: ArticleRecord[] = [];
+  const tasks: TaskRecord[] = [];
+  const questions: TaskMultipleChoiceRecord[] = [];
+
+  MODULES.forEach((module, moduleIndex) => {
+    const moduleId = moduleIndex + 1;
+    const createdAt = daysAfterBase(moduleIndex * 7);
+    modules.push({
+      id: moduleId,
+      title: module.title,
+      category: module.category + 1,
+      is_public: module.isPublic,
+      created_at: createdAt,
+      updated_at: createdAt,
+    });
+
+    module.chapters.forEach((chapterTitle, chapterIndex) => {
+      const chapterId = chapters.length + 1;
+      const slug = `${slugify(module.title)}-${slugify(chapterTitle)}`;
+      chapters.push({
+        id: chapterId,
+        module: moduleId,
+        title: chapterTitle,
+        description: `${chapterTitle} im Modul "${module.title}".`,
+        order: chapterIndex + 1,
+        is_active: true,
+      });
+
+      const videoCount = random.int(1, 3);
+      for (let part = 1; part <= videoCount; part += 1) {
+        contents.push({
+          id: contents.length + 1,
+          chapter: chapterId,
+          title: `${chapterTitle} - Teil ${part}`,
+          description: `Videolektion ${part} zu "${chapterTitle}".`,
+          video_url: `https://videos.dsp.example/${slug}-${part}.mp4`,
+          order: part,
+        });
+      }
+
+      articles.push({
+        id: articles.length + 1,
+        module: moduleId,
+        chapter: chapterId,
+        title: `Skript: ${chapterTitle}`,
+        url: `https://cloud.dsp.example/s/${slug}.pdf`,
+        order: 1,
+      });
+
+      const taskCount = random.int(1, 2);
+      for (let position = 1; position <= taskCount; position += 1) {
+        const taskId = tasks.length + 1;
+        tasks.push({
+          id: taskId,
+          chapter: chapterId,
+          title: `Übung ${position}: ${chapterTitle}`,
+          description: `Wenden Sie die Inhalte aus "${chapterTitle}" an.`,
+          difficulty: random.pick(DIFFICULTIES),
+          hint:
+            random.next() > 0.5 ? "Schauen Sie sich das Video erneut an." : "",
+          order: position,
+        });
+
+        const questionCount = random.int(1, 3);
+        for (let index = 1; index <= questionCount; index += 1) {
+          questions.push({
+            id: questions.length + 1,
+            task: taskId,
+            question: `Frage ${index} zu "${chapterTitle}"?`,
+            option_1: "Antwort A",
+            option_2: "Antwort B",
+            option_3: "Antwort C",
+            option_4: "Antwort D",
+            correct_answer: random.int(1, 4),
+            order: index,
+          });
+        }
+      }
+    });
+
+    // Modulweites Begleitmaterial ohne Kapitelzuordnung
+    articles.push({
+      id: articles.length + 1,
+      module: moduleId,
+      chapter: null,
+      title: `Leitfaden: ${module.title}`,
+      url: `https://cloud.dsp.example/s/${slugify(module.title)}-leitfaden.pdf`,
+      order: 1,
+    });
+  });
+
+  return { modules, chapters, contents, articles, tasks, questions };
+};
+
+const createEmployees = (): EmployeeRecord[] => {
+  const random = createRandom(11);
+  const employees: EmployeeRecord[] = [];
+  const usedEmails = new Set<string>();
+
+  for (let id = 1; id <= 28; id += 1) {
+    const firstName = random.pick(FIRST_NAMES);
+    const lastName = random.pick(LAST_NAMES);
+    let email = `${slugify(firstName)}.${slugify(lastName)}@dsp.example`;
+    if (usedEmails.has(email)) {
+      email = `${slugify(firstName)}.${slugify(lastName)}${id}@dsp.example`;
+    }
+    usedEmails.add(email);
+
+    const createdAt = daysAfterBase(random.int(0, 180));
+    employees.push({
+      id,
+      first_name: firstName,
+      last_name: lastName,
+      email,
+      // Erste Person leitet das Unternehmen, der Rest verteilt sich
+      department: id === 1 ? 1 : random.int(2, DEPARTMENTS.length),
+      position: id === 1 ? 1 : random.int(2, POSITIONS.length),
+      max_working_hours: random.pick([20, 30, 35, 40, 40, 40]),
+      is_active: random.next() > 0.1,
+      created_at: createdAt,
+      updated_at: createdAt,
+    });
+  }
+
+  return employees;
+};
+
+const createToolAccess = (employees: EmployeeRecord[]): ToolAccessRecord[] => {
+  const random = createRandom(13);
+  const access: ToolAccessRecord[] = [];
+
+  employees.forEach((employee) => {
+    TOOLS.forEach((_, toolIndex) => {
+      if (random.next() > 0.45) return;
+      access.push({
+        id: access.length + 1,
+        employee: employee.id,
+        tool: toolIndex + 1,
+        granted_at: daysAfterBase(random.int(0, 200)),
+        expires_at:
+          random.next() > 0.8 ? daysAfterBase(random.int(300, 400)) : null,
+      });
+    });
+  });
+
+  return access;
+};
+
+const createActivityLogs = (userCount: number): ActivityLogRecord[] => {
+  const random = createRandom(17);
+  const logs: ActivityLogRecord[] = [];
+  let minutes = 0;
+
+  for (let id = 1; id <= ACTIVITY_LOG_SIZE; id += 1) {
+    minutes += random.int(1, 180);
+    const objectType = random.pick(OBJECT_TYPES);
+    logs.push({
+      id,
+      user: random.int(1, userCount),
+      action: random.pick(ACTIONS),
+      object_type: objectType,
+      object_repr: `${objectType.split(".")[1]} #${random.int(1, 40)}`,
+      ip_address: `10.0.${random.int(0, 20)}.${random.int(2, 254)}`,
+      timestamp: daysAfterBase(0, minutes),
+    });
+  }
+
+  return logs;
+};
+
+/**
+ * Vollständigen Startbestand aller Tabellen erzeugen
+ */
+export const createSeedCollections = (): MockCollections => {
+  const users = createUsers();
+  const learning = createLearningContent();
+  const employees = createEmployees();
+
+  return {
+    users,
+    categories: CATEGORIES.map((name, index) => ({ id: index + 1, name })),
+    modules: learning.modules,
+    chapters: learning.chapters,
+    contents: learning.contents,
+    articles: learning.articles,
+    tasks: learning.tasks,
+    taskMultipleChoice: learning.questions,
+    departments: DEPARTMENTS.map(([name, description], index) => ({
+      id: index + 1,
+      name,
+      description,
+      is_active: true,
+      created_at: daysAfterBase(0),
+      updated_at: daysAfterBase(0),
+    })),
+    positions: POSITIONS.map(([title, description], index) => ({
+      id: index + 1,
+      title,
+      description,
+      is_active: true,
+      created_at: daysAfterBase(0),
+      updated_at: daysAfterBase(0),
+    })),
+    employees,
+    tools: TOOLS.map(([slug, name, description], index) => ({
+      id: index + 1,
+      slug,
+      name,
+      description,
+      frontend_url: `https://${slug}.dsp.example`,
+    })),
+    toolAccess: createToolAccess(employees),
+    activityLogs: createActivityLogs(users.length),
+  };
+};
@@ -0,0 +1,252 @@
+/**
+ * Mock-Handler für Authentifizierung
+ *
+ * Bildet die SimpleJWT-Endpoints des Backends nach:
+ * - Login, Token-Refresh und Logout
+ * - Passwortänderung inkl. Zurücksetzen von force_password_change
+ * - JWTs mit echtem exp-Claim (unsigniert), damit Ablaufwarnung und
+ *   automatischer Refresh wie gegen das echte Backend funktionieren
+ * - Cookie-Modus: Sitzung wird wie ein httpOnly-Cookie serverseitig gehalten
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { mockDb, timestamp, type UserRecord } from "../db";
+import {
+  badRequest,
+  noContent,
+  ok,
+  requireFields,
+  unauthorized,
+  type MockRouter,
+  type MockUser,
+} from "../http";
+
+// Laufzeiten wie in den SimpleJWT-Einstellungen des Backends (Sekunden)
+const ACCESS_TOKEN_LIFETIME = 15 * 60;
+const REFRESH_TOKEN_LIFETIME = 24 * 60 * 60;
+
+type TokenType = "access" | "refresh";
+
+interface TokenPayload {
+  token_type: TokenType;
+  exp: number;
+  iat: number;
+  jti: string;
+  user_id: number;
+}
+
+// --- JWT-Helfer ---
+
+const encodeSegment = (value: object) =>
+  btoa(JSON.stringify(value))
+    .replace(/=+$/, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+
+const decodeSegment = (segment: string): unknown => {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  return JSON.parse(atob(base64));
+};
+
+const createToken = (userId: number, tokenType: TokenType) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload: TokenPayload = {
+    token_type: tokenType,
+    exp:
+      issuedAt +
+      (tokenType === "access" ? ACCESS_TOKEN_LIFETIME : REFRESH_TOKEN_LIFETIME),
+    iat: issuedAt,
+    jti: Math.random().toString(36).slice(2),
+    user_id: userId,
+  };
+
+  return [
+    encodeSegment({ alg: "none", typ: "JWT" }),
+    encodeSegment(payload),
+    "mock",
+  ].join(".");
+};
+
+/**
+ * Token prüfen und die Benutzer-ID zurückgeben (null wenn ungültig)
+ */
+const verifyToken = (token: string, tokenType: TokenType): number | null => {
+  try {
+    const payload = decodeSegment(token.split(".")[1] ?? "") as TokenPayload;
+    const isValid =
+      payload.token_type === tokenType && payload.exp * 1000 > Date.now();
+    return isValid ? payload.user_id : null;
+  } catch {
+    return null;
+  }
+};
+
+const toMockUser = (user: UserRecord): MockUser => ({
+  id: user.id,
+  username: user.username,
+  is_staff: user.is_staff,
+  is_superuser: user.is_superuser,
+});
+
+const findActiveUser = (userId: number | null) => {
+  const user = mockDb.find("users", userId);
+  return user?.is_active ? user : undefined;
+};
+
+/**
+ * 401-Antwort für ungültige Tokens (löst im Client den Refresh aus)
+ */
+export const tokenInvalidResponse = () => ({
+  status: 401,
+  data: {
+    detail: "Token ist ungültig oder abgelaufen",
+    code: "token_not_valid",
+  },
+});
+
+// --- Authentifizierung eingehender Requests ---
+
+export interface MockAuthResult {
+  user: MockUser | null;
+  // Es wurde ein Token gesendet, das abgelaufen oder ungültig ist
+  tokenInvalid: boolean;
+}
+
+/**
+ * Benutzer eines Requests über Bearer-Token bzw. Cookie-Sitzung ermitteln
+ */
+export const authenticate = (
+  authorization: string | undefined,
+  withCredentials: boolean
+): MockAuthResult => {
+  if (authorization?.startsWith("Bearer ")) {
+    const user = findActiveUser(verifyToken(authorization.slice(7), "access"));
+    return { user: user ? toMockUser(user) : null, tokenInvalid: !user };
+  }
+
+  const session = withCredentials ? mockDb.getCookieSession() : null;
+  if (!session) return { user: null, tokenInvalid: false };
+
+  const user =
+    session.accessExpiresAt > Date.now()
+      ? findActiveUser(session.userId)
+      : undefined;
+  return { user: user ? toMockUser(user) : null, tokenInvalid: !user };
+};
+
+// --- Routen ---
+
+const startCookieSession = (userId: number) => {
+  const now = Date.now();
+  mockDb.setCookieSession({
+    userId,
+    accessExpiresAt: now + ACCESS_TOKEN_LIFETIME * 1000,
+    refreshExpiresAt: now + REFRESH_TOKEN_LIFETIME * 1000,
+  });
+};
+
+export const registerAuthRoutes = (router: MockRouter) => {
+  router.add("post", "/elearning/token/", "public", (request) => {
+    const { body, withCredentials } = request;
+    const user = mockDb
+      .all("users")
+      .find((candidate) => candidate.username === body.username);
+
+    if (!user || !user.is_active || user.password !== body.password) {
+      return unauthorized(
+        "Kein aktives Konto mit diesen Anmeldedaten gefunden."
+      );
+    }
+
+    mockDb.update("users", user.id, { last_login: timestamp() });
+    if (withCredentials) startCookieSession(user.id);
+
+    return ok({
+      access: createToken(user.id, "access"),
+      refresh: createToken(user.id, "refresh"),
+      user_id: user.id,
+      username: user.username,
+      is_staff: user.is_staff,
+      is_superuser: user.is_superuser,
+      force_password_change: user.force_password_change,
+    });
+  });
+
+  router.add(
+    "post",
+    "/elearning/token/refresh/",
+    "public",
+    ({ body, withCredentials }) => {
+      if (typeof body.refresh === "string") {
+        const user = findActiveUser(verifyToken(body.refresh, "refresh"));
+        return user
+          ? ok({ access: createToken(user.id, "access") })
+          : tokenInvalidResponse();
+      }
+
+      const session = withCredentials ? mockDb.getCookieSession() : null;
+      if (!session) {
+        return badRequest({
+          refresh: ["Dieses Feld ist zwingend erforderlich."],
+        });
+      }
+
+      const user =
+        session.refreshExpiresAt > Date.now()
+          ? findActiveUser(session.userId)
+          : undefined;
+      if (!user) {
+        mockDb.setCookieSession(null);
+        return tokenInvalidResponse();
+      }
+
+      startCookieSession(user.id);
+      return ok({});
+    }
+  );
+
+  router.add("post", "/elearning/token/logout/", "public", () => {
+    mockDb.setCookieSession(null);
+    return noContent();
+  });
+
+  router.add(
+    "post",
+    "/elearning/users/change-password/",
+    "authenticated",
+    ({ body, user }) => {
+      const missing = requireFields(body, [
+        "old_password",
+        "new_password",
+        "new_password_confirm",
+      ]);
+      if (missing) return missing;
+
+      const record = mockDb.find("users", user!.id)!;
+      if (record.password !== body.old_password) {
+        return badRequest({
+          old_password: ["Das aktuelle Passwort ist nicht korrekt."],
+        });
+      }
+      if (String(body.new_password).length < 8) {
+        return badRequest({
+          new_password: ["Das Passwort muss mindestens 8 Zeichen lang sein."],
+        });
+      }
+      if (body.new_password !== body.new_password_confirm) {
+        return badRequest({
+          new_password_confirm: ["Die Passwörter stimmen nicht überein."],
+        });
+      }
+
+      mockDb.update("users", record.id, {
+        password: String(body.new_password),
+        force_password_change: false,
+      });
+      return ok({ detail: "Passwort wurde erfolgreich geändert." });
+    }
+  );
+};
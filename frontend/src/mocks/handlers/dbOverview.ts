@@ -0,0 +1,245 @@
+/**
+ * Mock-Handler für die db-overview-Endpoints
+ *
+ * Liefert Schema, paginierte, gefilterte und sortierte Tabellendaten und
+ * Statistiken aus den Modelldefinitionen in schema.ts.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import type {
+  TableFilterParam,
+  TableFilterParamCondition,
+} from "../../services/api";
+import { badRequest, notFound, ok, type MockRouter } from "../http";
+import {
+  buildDatabaseSchema,
+  buildDatabaseStatistics,
+  findMockModel,
+  getMockTableRows,
+} from "../schema";
+
+// Obergrenze wie in der Pagination-Klasse des Backends
+const MAX_PAGE_SIZE = 1000;
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+type MockRow = Record<string, unknown>;
+
+// null zuerst, Zahlen numerisch, Texte nach deutscher Sortierung
+const compareValues = (a: unknown, b: unknown) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b), "de");
+};
+
+/**
+ * Zeilen nach dem Query-Parameter "ordering" sortieren ("-name,id")
+ *
+ * Unbekannte Felder werden wie beim OrderingFilter des Backends ignoriert.
+ */
+const sortRows = (
+  rows: MockRow[],
+  ordering: string | undefined,
+  fieldNames: string[]
+) => {
+  const keys = (ordering ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => fieldNames.includes(entry.replace(/^-/, "")))
+    .map((entry) => ({
+      name: entry.replace(/^-/, ""),
+      factor: entry.startsWith("-") ? -1 : 1,
+    }));
+  if (keys.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { name, factor } of keys) {
+      const result = compareValues(a[name], b[name]);
+      if (result !== 0) return result * factor;
+    }
+    return 0;
+  });
+};
+
+// --- Filter ---
+
+const toText = (value: unknown) => String(value ?? "").toLowerCase();
+
+// Datumsanteil eines ISO-Zeitstempels ("2025-07-10T08:00:00Z" -> "2025-07-10")
+const toDate = (value: unknown) => String(value ?? "").slice(0, 10);
+
+/**
+ * Einzelnen Django-Lookup auf einen Wert anwenden
+ *
+ * Gibt null für unbekannte Lookups zurück (-> 400 wie im Backend).
+ */
+const matchesLookup = (
+  rowValue: unknown,
+  lookup: string,
+  expected: unknown
+): boolean | null => {
+  // "date__gte" -> Vergleich nur auf dem Datumsanteil
+  if (lookup === "date" || lookup.startsWith("date__")) {
+    const nested = lookup === "date" ? "exact" : lookup.slice(6);
+    if (rowValue === null || rowValue === undefined) return false;
+    return matchesLookup(toDate(rowValue), nested, expected);
+  }
+
+  const isNull = rowValue === null || rowValue === undefined;
+  switch (lookup) {
+    case "isnull":
+      return isNull === expected;
+    case "exact":
+      return !isNull && compareValues(rowValue, expected) === 0;
+    case "iexact":
+      return !isNull && toText(rowValue) === toText(expected);
+    case "icontains":
+      return !isNull && toText(rowValue).includes(toText(expected));
+    case "istartswith":
+      return !isNull && toText(rowValue).startsWith(toText(expected));
+    case "iendswith":
+      return !isNull && toText(rowValue).endsWith(toText(expected));
+    case "gt":
+      return !isNull && compareValues(rowValue, expected) > 0;
+    case "gte":
+      return !isNull && compareValues(rowValue, expected) >= 0;
+    case "lt":
+      return !isNull && compareValues(rowValue, expected) < 0;
+    case "lte":
+      return !isNull && compareValues(rowValue, expected) <= 0;
+    case "range": {
+      const [from, to] = Array.isArray(expected) ? expected : [];
+      return (
+        !isNull &&
+        compareValues(rowValue, from) >= 0 &&
+        compareValues(rowValue, to) <= 0
+      );
+    }
+    case "in":
+      return (
+        !isNull &&
+        Array.isArray(expected) &&
+        expected.some((item) => compareValues(rowValue, item) === 0)
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * Zeilen nach dem Query-Parameter "filters" (JSON) filtern
+ *
+ * Gibt null zurück, wenn der Filter ungültig ist.
+ */
+const filterRows = (
+  rows: MockRow[],
+  rawFilters: string | undefined,
+  fieldNames: string[]
+): MockRow[] | null => {
+  if (!rawFilters) return rows;
+
+  let filters: TableFilterParam;
+  try {
+    filters = JSON.parse(rawFilters);
+  } catch {
+    return null;
+  }
+  if (
+    !filters ||
+    !Array.isArray(filters.groups) ||
+    filters.groups.some((group) => !Array.isArray(group?.conditions))
+  ) {
+    return null;
+  }
+
+  const conditions = filters.groups.flatMap((group) => group.conditions);
+  if (conditions.some((condition) => !fieldNames.includes(condition.field))) {
+    return null;
+  }
+
+  let invalid = false;
+  const matchesCondition = (
+    row: MockRow,
+    { field, lookup, value }: TableFilterParamCondition
+  ) => {
+    const result = matchesLookup(row[field], lookup, value);
+    if (result === null) invalid = true;
+    return result === true;
+  };
+
+  const combine = (combinator: string, results: boolean[]) =>
+    combinator === "or" ? results.some(Boolean) : results.every(Boolean);
+
+  const filtered = rows.filter((row) =>
+    combine(
+      filters.combinator,
+      filters.groups.map((group) =>
+        combine(
+          group.combinator,
+          group.conditions.map((condition) => matchesCondition(row, condition))
+        )
+      )
+    )
+  );
+  return invalid ? null : filtered;
+};
+
+export const registerDbOverviewRoutes = (router: MockRouter) => {
+  router.add("get", "/db-overview/schema/", "staff", () =>
+    ok(buildDatabaseSchema())
+  );
+
+  router.add(
+    "get",
+    "/db-overview/table/:appLabel/:modelName/",
+    "staff",
+    ({ params, query }) => {
+      const model = findMockModel(params.appLabel, params.modelName);
+      if (!model) return notFound();
+
+      const fieldNames = model.fields.map((field) => field.name);
+      const filtered = filterRows(
+        getMockTableRows(model),
+        query.filters,
+        fieldNames
+      );
+      if (!filtered) {
+        return badRequest({ filters: ["Ungültiger Filter."] });
+      }
+
+      const rows = sortRows(filtered, query.ordering, fieldNames);
+      const pageSize = Math.min(
+        parsePositiveInt(query.page_size, 20),
+        MAX_PAGE_SIZE
+      );
+      const totalPages = Math.max(1, Math.ceil(rows.length / pageSize));
+      const page = Math.min(parsePositiveInt(query.page, 1), totalPages);
+
+      return ok({
+        data: rows.slice((page - 1) * pageSize, page * pageSize),
+        pagination: {
+          page,
+          page_size: pageSize,
+          total_count: rows.length,
+          total_pages: totalPages,
+        },
+        success: true,
+      });
+    }
+  );
+
+  router.add("get", "/db-overview/statistics/", "staff", () =>
+    ok(buildDatabaseStatistics())
+  );
+};
@@ -0,0 +1,448 @@
+/**
+ * Mock-Handler für die Mitarbeiter-Endpoints
+ *
+ * Bildet die Views unter /employees/ nach:
+ * - Abteilungen, Positionen und Mitarbeiter (CRUD)
+ * - Tools und Tool-Zugriffe je Mitarbeiter
+ * - Eindeutige E-Mail-Adressen, Slugs und Namen als DRF-Feldfehler
+ * - Schutz verwendeter Abteilungen/Positionen (on_delete=PROTECT)
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import {
+  mockDb,
+  timestamp,
+  type DepartmentRecord,
+  type EmployeeRecord,
+  type PositionRecord,
+  type ToolAccessRecord,
+} from "../db";
+import {
+  badRequest,
+  created,
+  noContent,
+  notFound,
+  ok,
+  requireFields,
+  type MockResponse,
+  type MockRouter,
+} from "../http";
+
+const PREFIX = "/employees";
+
+const invalidReference = (field: string, value: unknown) =>
+  badRequest({
+    [field]: [`Ungültiger pk "${value}" - Objekt existiert nicht.`],
+  });
+
+/**
+ * Eindeutigkeit eines Wertes prüfen (Groß-/Kleinschreibung egal)
+ */
+const isTaken = <T extends { id: number }>(
+  records: T[],
+  getValue: (record: T) => string,
+  value: unknown,
+  excludeId?: number
+) =>
+  records.some(
+    (record) =>
+      record.id !== excludeId &&
+      getValue(record).toLowerCase() === String(value).trim().toLowerCase()
+  );
+
+// --- Serializer ---
+
+const serializeEmployee = (employee: EmployeeRecord) => ({
+  ...employee,
+  department: mockDb.find("departments", employee.department) ?? null,
+  position: mockDb.find("positions", employee.position) ?? null,
+  full_name: `${employee.first_name} ${employee.last_name}`,
+});
+
+const serializeToolAccess = (access: ToolAccessRecord) => ({
+  ...access,
+  tool: mockDb.find("tools", access.tool) ?? null,
+});
+
+// --- Abteilungen und Positionen ---
+
+/**
+ * CRUD-Routen für Abteilungen bzw. Positionen registrieren
+ *
+ * Beide Modelle unterscheiden sich nur im Namensfeld ("name" / "title").
+ */
+const registerLookupRoutes = (
+  router: MockRouter,
+  collection: "departments" | "positions",
+  labels: { duplicate: string; protected: string }
+) => {
+  type LookupRecord = DepartmentRecord | PositionRecord;
+  const nameField = collection === "departments" ? "name" : "title";
+  const employeeField =
+    collection === "departments" ? "department" : "position";
+  const path = `${PREFIX}/${collection}`;
+
+  const records = (): LookupRecord[] => mockDb.all(collection);
+  const nameOf = (record: LookupRecord) =>
+    "name" in record ? record.name : record.title;
+
+  const validate = (
+    body: Record<string, unknown>,
+    partial: boolean,
+    excludeId?: number
+  ): MockResponse | null => {
+    if (partial && body[nameField] === undefined) return null;
+
+    const missing = requireFields(body, [nameField]);
+    if (missing) return missing;
+
+    return isTaken(records(), nameOf, body[nameField], excludeId)
+      ? badRequest({ [nameField]: [labels.duplicate] })
+      : null;
+  };
+
+  const toValues = (body: Record<string, unknown>) => {
+    const values: Record<string, unknown> = {};
+    if (body[nameField] !== undefined) {
+      values[nameField] = String(body[nameField]).trim();
+    }
+    if (body.description !== undefined) {
+      values.description = String(body.description ?? "");
+    }
+    if (body.is_active !== undefined) {
+      values.is_active = Boolean(body.is_active);
+    }
+    return values;
+  };
+
+  router.add("get", `${path}/`, "superuser", () =>
+    ok([...records()].sort((a, b) => nameOf(a).localeCompare(nameOf(b))))
+  );
+
+  router.add("post", `${path}/`, "superuser", ({ body }) => {
+    const invalid = validate(body, false);
+    if (invalid) return invalid;
+
+    const now = timestamp();
+    const record = mockDb.insert(collection, {
+      description: "",
+      is_active: true,
+      ...toValues(body),
+      created_at: now,
+      updated_at: now,
+    } as Omit<DepartmentRecord & PositionRecord, "id">);
+    return created(record);
+  });
+
+  router.add("patch", `${path}/:id/`, "superuser", ({ params, body }) => {
+    const record = mockDb.find(collection, params.id);
+    if (!record) return notFound();
+
+    const invalid = validate(body, true, record.id);
+    if (invalid) return invalid;
+
+    return ok(
+      mockDb.update(collection, record.id, {
+        ...toValues(body),
+        updated_at: timestamp(),
+      })
+    );
+  });
+
+  router.add("delete", `${path}/:id/`, "superuser", ({ params }) => {
+    const record = mockDb.find(collection, params.id);
+    if (!record) return notFound();
+
+    const inUse = mockDb
+      .all("employees")
+      .some((employee) => employee[employeeField] === record.id);
+    if (inUse) return badRequest({ detail: labels.protected });
+
+    mockDb.removeWhere(collection, (candidate) => candidate.id === record.id);
+    return noContent();
+  });
+};
+
+// --- Mitarbeiter ---
+
+const validateEmployee = (
+  body: Record<string, unknown>,
+  partial: boolean,
+  excludeId?: number
+): MockResponse | null => {
+  const required = [
+    "first_name",
+    "last_name",
+    "email",
+    "department",
+    "position",
+    "max_working_hours",
+  ].filter((field) => !partial || body[field] !== undefined);
+
+  const missing = requireFields(body, required);
+  if (missing) return missing;
+
+  const errors: Record<string, string[]> = {};
+  const employees = mockDb.all("employees");
+
+  if (body.email !== undefined) {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(body.email))) {
+      errors.email = ["Geben Sie eine gültige E-Mail-Adresse an."];
+    } else if (isTaken(employees, (e) => e.email, body.email, excludeId)) {
+      errors.email = [
+        "Mitarbeiter mit dieser E-Mail-Adresse existiert bereits.",
+      ];
+    }
+  }
+  (["department", "position"] as const).forEach((field) => {
+    const collection = field === "department" ? "departments" : "positions";
+    const value = body[field];
+    if (value !== undefined && !mockDb.find(collection, value as number)) {
+      errors[field] = [
+        `Ungültiger pk "${value}" - Objekt existiert nicht.`,
+      ];
+    }
+  });
+  if (body.max_working_hours !== undefined) {
+    const hours = Number(body.max_working_hours);
+    if (!Number.isInteger(hours) || hours < 1 || hours > 60) {
+      errors.max_working_hours = ["Wert muss zwischen 1 und 60 liegen."];
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? badRequest(errors) : null;
+};
+
+const EMPLOYEE_TEXT_FIELDS = ["first_name", "last_name", "email"];
+const EMPLOYEE_NUMBER_FIELDS = ["department", "position", "max_working_hours"];
+
+const toEmployeeValues = (body: Record<string, unknown>) => {
+  const values: Record<string, unknown> = {};
+  EMPLOYEE_TEXT_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) values[field] = String(body[field]).trim();
+  });
+  EMPLOYEE_NUMBER_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) values[field] = Number(body[field]);
+  });
+  if (body.is_active !== undefined) values.is_active = Boolean(body.is_active);
+  return values as Partial<EmployeeRecord>;
+};
+
+const registerEmployeeCrudRoutes = (router: MockRouter) => {
+  router.add("get", `${PREFIX}/employees/`, "superuser", () =>
+    ok(
+      [...mockDb.all("employees")]
+        .sort(
+          (a, b) =>
+            a.last_name.localeCompare(b.last_name) ||
+            a.first_name.localeCompare(b.first_name)
+        )
+        .map(serializeEmployee)
+    )
+  );
+
+  router.add("post", `${PREFIX}/employees/`, "superuser", ({ body }) => {
+    const invalid = validateEmployee(body, false);
+    if (invalid) return invalid;
+
+    const now = timestamp();
+    const employee = mockDb.insert("employees", {
+      is_active: true,
+      ...(toEmployeeValues(body) as Omit<EmployeeRecord, "id">),
+      created_at: now,
+      updated_at: now,
+    });
+    return created(serializeEmployee(employee));
+  });
+
+  router.add(
+    "patch",
+    `${PREFIX}/employees/:id/`,
+    "superuser",
+    ({ params, body }) => {
+      const employee = mockDb.find("employees", params.id);
+      if (!employee) return notFound();
+
+      const invalid = validateEmployee(body, true, employee.id);
+      if (invalid) return invalid;
+
+      const updated = mockDb.update("employees", employee.id, {
+        ...toEmployeeValues(body),
+        updated_at: timestamp(),
+      })!;
+      return ok(serializeEmployee(updated));
+    }
+  );
+
+  router.add(
+    "delete",
+    `${PREFIX}/employees/:id/`,
+    "superuser",
+    ({ params }) => {
+      const employee = mockDb.find("employees", params.id);
+      if (!employee) return notFound();
+
+      mockDb.removeWhere(
+        "toolAccess",
+        (access) => access.employee === employee.id
+      );
+      mockDb.removeWhere(
+        "employees",
+        (candidate) => candidate.id === employee.id
+      );
+      return noContent();
+    }
+  );
+};
+
+// --- Tools und Tool-Zugriffe ---
+
+const validateTool = (
+  body: Record<string, unknown>,
+  partial: boolean,
+  excludeId?: number
+): MockResponse | null => {
+  const required = ["slug", "name"].filter(
+    (field) => !partial || body[field] !== undefined
+  );
+  const missing = requireFields(body, required);
+  if (missing) return missing;
+
+  if (body.slug !== undefined) {
+    if (!/^[-a-zA-Z0-9_]+$/.test(String(body.slug))) {
+      return badRequest({
+        slug: ["Nur Buchstaben, Ziffern, Unter- und Bindestriche erlaubt."],
+      });
+    }
+    const tools = mockDb.all("tools");
+    if (isTaken(tools, (tool) => tool.slug, body.slug, excludeId)) {
+      return badRequest({ slug: ["Tool mit diesem Slug existiert bereits."] });
+    }
+  }
+
+  return null;
+};
+
+const registerToolRoutes = (router: MockRouter) => {
+  router.add("get", `${PREFIX}/tools/`, "superuser", () =>
+    ok([...mockDb.all("tools")].sort((a, b) => a.name.localeCompare(b.name)))
+  );
+
+  router.add("post", `${PREFIX}/tools/`, "superuser", ({ body }) => {
+    const invalid = validateTool(body, false);
+    if (invalid) return invalid;
+
+    return created(
+      mockDb.insert("tools", {
+        slug: String(body.slug).trim(),
+        name: String(body.name).trim(),
+        description: String(body.description ?? ""),
+        frontend_url: String(body.frontend_url ?? ""),
+      })
+    );
+  });
+
+  router.add(
+    "patch",
+    `${PREFIX}/tools/:id/`,
+    "superuser",
+    ({ params, body }) => {
+      const tool = mockDb.find("tools", params.id);
+      if (!tool) return notFound();
+
+      const invalid = validateTool(body, true, tool.id);
+      if (invalid) return invalid;
+
+      const values: Record<string, string> = {};
+      ["slug", "name", "description", "frontend_url"].forEach((field) => {
+        if (body[field] !== undefined) {
+          values[field] = String(body[field] ?? "");
+        }
+      });
+      return ok(mockDb.update("tools", tool.id, values));
+    }
+  );
+
+  router.add("get", `${PREFIX}/tool-access/`, "superuser", ({ query }) => {
+    const employeeId = query.employee ? Number(query.employee) : undefined;
+    const toolId = query.tool ? Number(query.tool) : undefined;
+
+    return ok(
+      mockDb
+        .all("toolAccess")
+        .filter(
+          (access) =>
+            (employeeId === undefined || access.employee === employeeId) &&
+            (toolId === undefined || access.tool === toolId)
+        )
+        .map(serializeToolAccess)
+    );
+  });
+
+  router.add("post", `${PREFIX}/tool-access/`, "superuser", ({ body }) => {
+    const missing = requireFields(body, ["employee", "tool_id"]);
+    if (missing) return missing;
+
+    const employeeId = Number(body.employee);
+    const toolId = Number(body.tool_id);
+    if (!mockDb.find("employees", employeeId)) {
+      return invalidReference("employee", body.employee);
+    }
+    if (!mockDb.find("tools", toolId)) {
+      return invalidReference("tool_id", body.tool_id);
+    }
+
+    const exists = mockDb
+      .all("toolAccess")
+      .some(
+        (access) => access.employee === employeeId && access.tool === toolId
+      );
+    if (exists) {
+      return badRequest({
+        non_field_errors: [
+          "Der Mitarbeiter hat bereits Zugriff auf dieses Tool.",
+        ],
+      });
+    }
+
+    const access = mockDb.insert("toolAccess", {
+      employee: employeeId,
+      tool: toolId,
+      granted_at: timestamp(),
+      expires_at: (body.expires_at as string | undefined) ?? null,
+    });
+    return created(serializeToolAccess(access));
+  });
+
+  router.add(
+    "delete",
+    `${PREFIX}/tool-access/:id/`,
+    "superuser",
+    ({ params }) => {
+      const removed = mockDb.removeWhere(
+        "toolAccess",
+        (access) => access.id === Number(params.id)
+      );
+      return removed.length > 0 ? noContent() : notFound();
+    }
+  );
+};
+
+/**
+ * Alle Mitarbeiter-Routen registrieren
+ */
+export const registerEmployeeRoutes = (router: MockRouter) => {
+  registerLookupRoutes(router, "departments", {
+    duplicate: "Abteilung mit diesem Namen existiert bereits.",
+    protected: "Die Abteilung ist noch Mitarbeitern zugeordnet.",
+  });
+  registerLookupRoutes(router, "positions", {
+    duplicate: "Position mit diesem Titel existiert bereits.",
+    protected: "Die Position ist noch Mitarbeitern zugeordnet.",
+  });
+  registerEmployeeCrudRoutes(router);
+  registerToolRoutes(router);
+};
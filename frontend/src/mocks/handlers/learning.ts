@@ -0,0 +1,897 @@
+/**
+ * Mock-Handler für die E-Learning-Endpoints
+ *
+ * Bildet die Views unter /elearning/modules/ nach:
+ * - Module, Kapitel, Videos (Content), Artikel, Aufgaben und Fragen
+ * - Kategorien inkl. Schutz vor dem Löschen verwendeter Kategorien
+ * - Kaskadierendes Löschen wie über die ForeignKeys im Backend
+ * - Neunummerierung der Geschwister bei Änderungen am Feld "order"
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import {
+  mockDb,
+  timestamp,
+  type ArticleRecord,
+  type ChapterRecord,
+  type ModuleRecord,
+  type TaskRecord,
+} from "../db";
+import {
+  badRequest,
+  created,
+  noContent,
+  notFound,
+  ok,
+  requireFields,
+  type MockRequest,
+  type MockRouter,
+} from "../http";
+
+const PREFIX = "/elearning/modules";
+
+const REQUIRED_MESSAGE = "Dieses Feld ist zwingend erforderlich.";
+
+// Unterstützte Video-Formate der Cloud-Ablage
+const VIDEO_URL_PATTERN = /^https?:\/\/\S+\.(mp4|webm|mov|m4v)(\?\S*)?$/i;
+
+const byOrder = (a: { order: number }, b: { order: number }) =>
+  a.order - b.order;
+
+const invalidReference = (field: string, value: unknown) =>
+  badRequest({
+    [field]: [`Ungültiger pk "${value}" - Objekt existiert nicht.`],
+  });
+
+/**
+ * Lesbaren Titel aus dem Dateinamen einer URL ableiten
+ */
+const titleFromUrl = (url: string) => {
+  const fileName = decodeURIComponent(
+    url.split("?")[0].split("/").filter(Boolean).pop() ?? ""
+  );
+  const title = fileName.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim();
+  return title ? title.charAt(0).toUpperCase() + title.slice(1) : "Unbenannt";
+};
+
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === ""
+    ? undefined
+    : Number(value);
+
+// --- Serializer ---
+
+const serializeCategory = (categoryId: number) => {
+  const category = mockDb.find("categories", categoryId);
+  return category ? { id: category.id, name: category.name } : null;
+};
+
+const chaptersOf = (moduleId: number) =>
+  mockDb
+    .all("chapters")
+    .filter((chapter) => chapter.module === moduleId)
+    .sort(byOrder);
+
+const serializeModule = (module: ModuleRecord) => ({
+  ...module,
+  category: serializeCategory(module.category),
+  chapters: chaptersOf(module.id).map(({ id, title, order }) => ({
+    id,
+    title,
+    order,
+  })),
+});
+
+const serializeChapter = (chapter: ChapterRecord) => ({
+  ...chapter,
+  module_id: chapter.module,
+});
+
+const serializeArticle = (article: ArticleRecord) => ({
+  ...article,
+  module_id: article.module,
+  chapter_id: article.chapter,
+});
+
+const serializeChapterDetail = (chapter: ChapterRecord) => ({
+  ...serializeChapter(chapter),
+  contents: mockDb
+    .all("contents")
+    .filter((content) => content.chapter === chapter.id)
+    .sort(byOrder),
+  tasks: mockDb
+    .all("tasks")
+    .filter((task) => task.chapter === chapter.id)
+    .sort(byOrder),
+  articles: mockDb
+    .all("articles")
+    .filter((article) => article.chapter === chapter.id)
+    .sort(byOrder)
+    .map(serializeArticle),
+});
+
+const serializeModuleDetail = (module: ModuleRecord) => {
+  const chapters = chaptersOf(module.id).map(serializeChapterDetail);
+  return {
+    ...serializeModule(module),
+    chapters,
+    contents: chapters.flatMap((chapter) => chapter.contents),
+    articles: mockDb
+      .all("articles")
+      .filter((article) => article.module === module.id)
+      .sort(byOrder)
+      .map(serializeArticle),
+  };
+};
+
+// --- Kaskadierendes Löschen ---
+
+const deleteTasks = (predicate: (task: TaskRecord) => boolean) => {
+  const taskIds = mockDb.removeWhere("tasks", predicate).map((task) => task.id);
+  mockDb.removeWhere("taskMultipleChoice", (question) =>
+    taskIds.includes(question.task)
+  );
+};
+
+const deleteChapters = (predicate: (chapter: ChapterRecord) => boolean) => {
+  const chapterIds = mockDb
+    .removeWhere("chapters", predicate)
+    .map((chapter) => chapter.id);
+
+  mockDb.removeWhere("contents", (content) =>
+    chapterIds.includes(content.chapter)
+  );
+  deleteTasks((task) => chapterIds.includes(task.chapter));
+
+  // Artikel bleiben dem Modul erhalten (on_delete=SET_NULL)
+  mockDb
+    .all("articles")
+    .filter(
+      (article) => article.chapter && chapterIds.includes(article.chapter)
+    )
+    .forEach((article) =>
+      mockDb.update("articles", article.id, { chapter: null })
+    );
+};
+
+// --- Module ---
+
+const validateModule = (request: MockRequest, moduleId?: number) => {
+  const { body } = request;
+  const missing = requireFields(body, ["title", "category_id"]);
+  if (missing) return missing;
+
+  if (!mockDb.find("categories", body.category_id as number)) {
+    return invalidReference("category_id", body.category_id);
+  }
+
+  const title = String(body.title).trim();
+  const duplicate = mockDb
+    .all("modules")
+    .some(
+      (module) =>
+        module.id !== moduleId &&
+        module.title.toLowerCase() === title.toLowerCase()
+    );
+  if (duplicate) {
+    return badRequest({ title: ["Modul mit diesem Titel existiert bereits."] });
+  }
+
+  return null;
+};
+
+const registerModuleRoutes = (router: MockRouter) => {
+  router.add("get", `${PREFIX}/`, "authenticated", () =>
+    ok(mockDb.all("modules").map(serializeModule))
+  );
+
+  router.add("post", `${PREFIX}/`, "staff", (request) => {
+    const invalid = validateModule(request);
+    if (invalid) return invalid;
+
+    const now = timestamp();
+    const module = mockDb.insert("modules", {
+      title: String(request.body.title).trim(),
+      category: Number(request.body.category_id),
+      is_public: Boolean(request.body.is_public),
+      created_at: now,
+      updated_at: now,
+    });
+    return created(serializeModule(module));
+  });
+
+  router.add("get", `${PREFIX}/:id/detail/`, "authenticated", ({ params }) => {
+    const module = mockDb.find("modules", params.id);
+    return module ? ok(serializeModuleDetail(module)) : notFound();
+  });
+
+  router.add("put", `${PREFIX}/:id/`, "staff", (request) => {
+    const module = mockDb.find("modules", request.params.id);
+    if (!module) return notFound();
+
+    const invalid = validateModule(request, module.id);
+    if (invalid) return invalid;
+
+    const updated = mockDb.update("modules", module.id, {
+      title: String(request.body.title).trim(),
+      category: Number(request.body.category_id),
+      is_public: Boolean(request.body.is_public ?? module.is_public),
+      updated_at: timestamp(),
+    })!;
+    return ok(serializeModule(updated));
+  });
+
+  router.add("delete", `${PREFIX}/:id/`, "staff", ({ params }) => {
+    const module = mockDb.find("modules", params.id);
+    if (!module) return notFound();
+
+    deleteChapters((chapter) => chapter.module === module.id);
+    mockDb.removeWhere("articles", (article) => article.module === module.id);
+    mockDb.removeWhere("modules", (candidate) => candidate.id === module.id);
+    return noContent();
+  });
+};
+
+// --- Kapitel ---
+
+const registerChapterRoutes = (router: MockRouter) => {
+  router.add(
+    "get",
+    `${PREFIX}/chapters/list/`,
+    "authenticated",
+    ({ query }) => {
+      const moduleId = optionalNumber(query.module_id);
+      return ok(
+        mockDb
+          .all("chapters")
+          .filter(
+            (chapter) => moduleId === undefined || chapter.module === moduleId
+          )
+          .sort((a, b) => a.module - b.module || a.order - b.order)
+          .map(serializeChapter)
+      );
+    }
+  );
+
+  router.add("post", `${PREFIX}/chapters/`, "staff", ({ body }) => {
+    const missing = requireFields(body, ["module_id", "title"]);
+    if (missing) return missing;
+
+    const moduleId = Number(body.module_id);
+    if (!mockDb.find("modules", moduleId)) {
+      return invalidReference("module_id", body.module_id);
+    }
+
+    const isSibling = (chapter: ChapterRecord) => chapter.module === moduleId;
+    const chapter = mockDb.insert("chapters", {
+      module: moduleId,
+      title: String(body.title).trim(),
+      description: String(body.description ?? ""),
+      order: mockDb.nextOrder("chapters", isSibling),
+      is_active: body.is_active === undefined ? true : Boolean(body.is_active),
+    });
+
+    const order = optionalNumber(body.order);
+    if (order !== undefined) {
+      mockDb.reorder("chapters", chapter, isSibling, order);
+    }
+    return created(serializeChapter(chapter));
+  });
+
+  router.add(
+    "get",
+    `${PREFIX}/chapters/:id/detail/`,
+    "authenticated",
+    ({ params }) => {
+      const chapter = mockDb.find("chapters", params.id);
+      return chapter ? ok(serializeChapterDetail(chapter)) : notFound();
+    }
+  );
+
+  router.add("put", `${PREFIX}/chapters/:id/`, "staff", ({ params, body }) => {
+    const chapter = mockDb.find("chapters", params.id);
+    if (!chapter) return notFound();
+
+    const missing = requireFields(body, ["title"]);
+    if (missing) return missing;
+
+    const moduleId = optionalNumber(body.module_id) ?? chapter.module;
+    if (!mockDb.find("modules", moduleId)) {
+      return invalidReference("module_id", body.module_id);
+    }
+
+    const previousModule = chapter.module;
+    mockDb.update("chapters", chapter.id, {
+      module: moduleId,
+      title: String(body.title).trim(),
+      description: String(body.description ?? chapter.description),
+      is_active:
+        body.is_active === undefined
+          ? chapter.is_active
+          : Boolean(body.is_active),
+    });
+
+    const isSibling = (candidate: ChapterRecord) =>
+      candidate.module === moduleId;
+    const order = optionalNumber(body.order);
+    if (order !== undefined || previousModule !== moduleId) {
+      mockDb.reorder(
+        "chapters",
+        chapter,
+        isSibling,
+        order ?? mockDb.nextOrder("chapters", isSibling)
+      );
+      mockDb.renumber(
+        "chapters",
+        (candidate) => candidate.module === previousModule
+      );
+    }
+
+    return ok(serializeChapter(chapter));
+  });
+
+  router.add("delete", `${PREFIX}/chapters/:id/`, "staff", ({ params }) => {
+    const chapter = mockDb.find("chapters", params.id);
+    if (!chapter) return notFound();
+
+    deleteChapters((candidate) => candidate.id === chapter.id);
+    mockDb.renumber(
+      "chapters",
+      (candidate) => candidate.module === chapter.module
+    );
+    return noContent();
+  });
+};
+
+// --- Aufgaben und Multiple-Choice-Fragen ---
+
+const validateTask = (body: Record<string, unknown>) => {
+  const missing = requireFields(body, [
+    "chapter",
+    "title",
+    "description",
+    "difficulty",
+  ]);
+  if (missing) return missing;
+
+  return mockDb.find("chapters", body.chapter as number)
+    ? null
+    : invalidReference("chapter", body.chapter);
+};
+
+const validateQuestion = (body: Record<string, unknown>) => {
+  const missing = requireFields(body, [
+    "task",
+    "question",
+    "option_1",
+    "option_2",
+    "option_3",
+    "option_4",
+    "correct_answer",
+  ]);
+  if (missing) return missing;
+
+  if (!mockDb.find("tasks", body.task as number)) {
+    return invalidReference("task", body.task);
+  }
+
+  const answer = Number(body.correct_answer);
+  if (!Number.isInteger(answer) || answer < 1 || answer > 4) {
+    return badRequest({
+      correct_answer: [`"${body.correct_answer}" ist keine gültige Option.`],
+    });
+  }
+
+  return null;
+};
+
+const registerTaskRoutes = (router: MockRouter) => {
+  router.add("get", `${PREFIX}/tasks/list/`, "authenticated", ({ query }) => {
+    const chapterId = optionalNumber(query.chapter_id);
+    return ok(
+      mockDb
+        .all("tasks")
+        .filter((task) => chapterId === undefined || task.chapter === chapterId)
+        .sort((a, b) => a.chapter - b.chapter || a.order - b.order)
+    );
+  });
+
+  router.add("post", `${PREFIX}/tasks/`, "staff", ({ body }) => {
+    const invalid = validateTask(body);
+    if (invalid) return invalid;
+
+    const chapterId = Number(body.chapter);
+    const isSibling = (task: TaskRecord) => task.chapter === chapterId;
+    const task = mockDb.insert("tasks", {
+      chapter: chapterId,
+      title: String(body.title).trim(),
+      description: String(body.description),
+      difficulty: String(body.difficulty),
+      hint: String(body.hint ?? ""),
+      order: mockDb.nextOrder("tasks", isSibling),
+    });
+
+    const order = optionalNumber(body.order);
+    if (order !== undefined) mockDb.reorder("tasks", task, isSibling, order);
+    return created(task);
+  });
+
+  router.add("get", `${PREFIX}/tasks/:id/`, "authenticated", ({ params }) => {
+    const task = mockDb.find("tasks", params.id);
+    return task ? ok(task) : notFound();
+  });
+
+  router.add("put", `${PREFIX}/tasks/:id/`, "staff", ({ params, body }) => {
+    const task = mockDb.find("tasks", params.id);
+    if (!task) return notFound();
+
+    const invalid = validateTask(body);
+    if (invalid) return invalid;
+
+    const previousChapter = task.chapter;
+    const chapterId = Number(body.chapter);
+    mockDb.update("tasks", task.id, {
+      chapter: chapterId,
+      title: String(body.title).trim(),
+      description: String(body.description),
+      difficulty: String(body.difficulty),
+      hint: String(body.hint ?? task.hint),
+    });
+
+    const isSibling = (candidate: TaskRecord) =>
+      candidate.chapter === chapterId;
+    const order = optionalNumber(body.order);
+    if (order !== undefined || previousChapter !== chapterId) {
+      mockDb.reorder(
+        "tasks",
+        task,
+        isSibling,
+        order ?? mockDb.nextOrder("tasks", isSibling)
+      );
+      mockDb.renumber(
+        "tasks",
+        (candidate) => candidate.chapter === previousChapter
+      );
+    }
+
+    return ok(task);
+  });
+
+  router.add("delete", `${PREFIX}/tasks/:id/`, "staff", ({ params }) => {
+    const task = mockDb.find("tasks", params.id);
+    if (!task) return notFound();
+
+    deleteTasks((candidate) => candidate.id === task.id);
+    mockDb.renumber("tasks", (candidate) => candidate.chapter === task.chapter);
+    return noContent();
+  });
+
+  router.add(
+    "get",
+    `${PREFIX}/task-multiple-choice/list/`,
+    "authenticated",
+    ({ query }) => {
+      const taskId = optionalNumber(query.task_id);
+      return ok(
+        mockDb
+          .all("taskMultipleChoice")
+          .filter(
+            (question) => taskId === undefined || question.task === taskId
+          )
+          .sort((a, b) => a.task - b.task || a.order - b.order)
+      );
+    }
+  );
+
+  router.add("post", `${PREFIX}/task-multiple-choice/`, "staff", ({ body }) => {
+    const invalid = validateQuestion(body);
+    if (invalid) return invalid;
+
+    const taskId = Number(body.task);
+    const question = mockDb.insert("taskMultipleChoice", {
+      task: taskId,
+      question: String(body.question),
+      option_1: String(body.option_1),
+      option_2: String(body.option_2),
+      option_3: String(body.option_3),
+      option_4: String(body.option_4),
+      correct_answer: Number(body.correct_answer),
+      order:
+        optionalNumber(body.order) ??
+        mockDb.nextOrder("taskMultipleChoice", (item) => item.task === taskId),
+    });
+    return created(question);
+  });
+
+  router.add(
+    "get",
+    `${PREFIX}/task-multiple-choice/:id/`,
+    "authenticated",
+    ({ params }) => {
+      const question = mockDb.find("taskMultipleChoice", params.id);
+      return question ? ok(question) : notFound();
+    }
+  );
+
+  router.add(
+    "put",
+    `${PREFIX}/task-multiple-choice/:id/`,
+    "staff",
+    ({ params, body }) => {
+      const question = mockDb.find("taskMultipleChoice", params.id);
+      if (!question) return notFound();
+
+      const invalid = validateQuestion(body);
+      if (invalid) return invalid;
+
+      const updated = mockDb.update("taskMultipleChoice", question.id, {
+        task: Number(body.task),
+        question: String(body.question),
+        option_1: String(body.option_1),
+        option_2: String(body.option_2),
+        option_3: String(body.option_3),
+        option_4: String(body.option_4),
+        correct_answer: Number(body.correct_answer),
+        order: optionalNumber(body.order) ?? question.order,
+      });
+      return ok(updated);
+    }
+  );
+
+  router.add(
+    "delete",
+    `${PREFIX}/task-multiple-choice/:id/`,
+    "staff",
+    ({ params }) => {
+      const removed = mockDb.removeWhere(
+        "taskMultipleChoice",
+        (question) => question.id === Number(params.id)
+      );
+      return removed.length > 0 ? noContent() : notFound();
+    }
+  );
+};
+
+// --- Videos (Content) ---
+
+/**
+ * Kapitel eines Video-Requests ermitteln
+ *
+ * Neuere Formulare senden "chapter", ältere nur die Modul-ID - dann landet
+ * das Video wie im Backend im ersten Kapitel des Moduls.
+ */
+const resolveContentChapter = (body: Record<string, unknown>) => {
+  const chapterId = optionalNumber(body.chapter ?? body.chapter_id);
+  if (chapterId !== undefined) return mockDb.find("chapters", chapterId);
+
+  const moduleId = optionalNumber(body.module_id ?? body.moduleId);
+  return moduleId === undefined ? undefined : chaptersOf(moduleId)[0];
+};
+
+const registerContentRoutes = (router: MockRouter) => {
+  router.add(
+    "post",
+    `${PREFIX}/content/validate-video-url/`,
+    "authenticated",
+    ({ body }) => {
+      const url = String(body.video_url ?? "").trim();
+      if (!url) {
+        return badRequest({ video_url: [REQUIRED_MESSAGE] });
+      }
+      return VIDEO_URL_PATTERN.test(url)
+        ? ok({ success: true, video_url: url })
+        : ok({
+            success: false,
+            error: "Die URL verweist auf keine unterstützte Videodatei.",
+          });
+    }
+  );
+
+  router.add(
+    "post",
+    `${PREFIX}/content/process-article/`,
+    "staff",
+    ({ body }) => {
+      const missing = requireFields(body, ["moduleId", "cloudUrl"]);
+      if (missing) return missing;
+
+      const module = mockDb.find("modules", body.moduleId as string);
+      if (!module) return invalidReference("moduleId", body.moduleId);
+
+      const chapterId = optionalNumber(body.chapterId) ?? null;
+      if (chapterId !== null && !mockDb.find("chapters", chapterId)) {
+        return invalidReference("chapterId", body.chapterId);
+      }
+
+      const url = String(body.cloudUrl).trim();
+      const article = mockDb.insert("articles", {
+        module: module.id,
+        chapter: chapterId,
+        title: titleFromUrl(url),
+        url,
+        order: mockDb.nextOrder(
+          "articles",
+          (candidate) =>
+            candidate.module === module.id && candidate.chapter === chapterId
+        ),
+      });
+      return created(serializeArticle(article));
+    }
+  );
+
+  router.add("post", `${PREFIX}/content/`, "staff", ({ body }) => {
+    const chapter = resolveContentChapter(body);
+    if (!chapter) return badRequest({ chapter: [REQUIRED_MESSAGE] });
+
+    const videoUrl = String(body.video_url ?? body.url ?? "").trim();
+    if (!videoUrl) return badRequest({ video_url: [REQUIRED_MESSAGE] });
+
+    const content = mockDb.insert("contents", {
+      chapter: chapter.id,
+      title: String(body.title ?? "").trim() || titleFromUrl(videoUrl),
+      description: String(body.description ?? ""),
+      video_url: videoUrl,
+      order: mockDb.nextOrder(
+        "contents",
+        (candidate) => candidate.chapter === chapter.id
+      ),
+    });
+
+    const order = optionalNumber(body.order);
+    if (order !== undefined) {
+      mockDb.reorder(
+        "contents",
+        content,
+        (candidate) => candidate.chapter === chapter.id,
+        order
+      );
+    }
+    return created(content);
+  });
+
+  router.add("put", `${PREFIX}/content/:id/`, "staff", ({ params, body }) => {
+    const content = mockDb.find("contents", params.id);
+    if (!content) return notFound();
+
+    const chapterId = optionalNumber(body.chapter) ?? content.chapter;
+    if (!mockDb.find("chapters", chapterId)) {
+      return invalidReference("chapter", body.chapter);
+    }
+
+    const previousChapter = content.chapter;
+    mockDb.update("contents", content.id, {
+      chapter: chapterId,
+      title: String(body.title ?? content.title).trim() || content.title,
+      description: String(body.description ?? content.description),
+      video_url: String(body.video_url ?? body.url ?? content.video_url),
+    });
+
+    const isSibling = (candidate: typeof content) =>
+      candidate.chapter === chapterId;
+    const order = optionalNumber(body.order);
+    if (order !== undefined || previousChapter !== chapterId) {
+      mockDb.reorder(
+        "contents",
+        content,
+        isSibling,
+        order ?? mockDb.nextOrder("contents", isSibling)
+      );
+      mockDb.renumber(
+        "contents",
+        (candidate) => candidate.chapter === previousChapter
+      );
+    }
+
+    return ok(content);
+  });
+
+  router.add("delete", `${PREFIX}/content/:id/`, "staff", ({ params }) => {
+    const content = mockDb.find("contents", params.id);
+    if (!content) return notFound();
+
+    mockDb.removeWhere("contents", (candidate) => candidate.id === content.id);
+    mockDb.renumber(
+      "contents",
+      (candidate) => candidate.chapter === content.chapter
+    );
+    return noContent();
+  });
+};
+
+// --- Artikel ---
+
+const validateArticle = (body: Record<string, unknown>) => {
+  const missing = requireFields(body, ["module_id", "title", "url"]);
+  if (missing) return missing;
+
+  const moduleId = Number(body.module_id);
+  if (!mockDb.find("modules", moduleId)) {
+    return invalidReference("module_id", body.module_id);
+  }
+
+  const chapterId = optionalNumber(body.chapter_id);
+  if (chapterId !== undefined) {
+    const chapter = mockDb.find("chapters", chapterId);
+    if (!chapter) return invalidReference("chapter_id", body.chapter_id);
+    if (chapter.module !== moduleId) {
+      return badRequest({
+        chapter_id: ["Das Kapitel gehört nicht zum gewählten Modul."],
+      });
+    }
+  }
+
+  return null;
+};
+
+const registerArticleRoutes = (router: MockRouter) => {
+  router.add("post", `${PREFIX}/article/`, "staff", ({ body }) => {
+    const invalid = validateArticle(body);
+    if (invalid) return invalid;
+
+    const moduleId = Number(body.module_id);
+    const chapterId = optionalNumber(body.chapter_id) ?? null;
+    const isSibling = (article: ArticleRecord) =>
+      article.module === moduleId && article.chapter === chapterId;
+
+    const article = mockDb.insert("articles", {
+      module: moduleId,
+      chapter: chapterId,
+      title: String(body.title).trim(),
+      url: String(body.url).trim(),
+      order: mockDb.nextOrder("articles", isSibling),
+    });
+
+    const order = optionalNumber(body.order);
+    if (order !== undefined) {
+      mockDb.reorder("articles", article, isSibling, order);
+    }
+    return created(serializeArticle(article));
+  });
+
+  router.add("put", `${PREFIX}/article/:id/`, "staff", ({ params, body }) => {
+    const article = mockDb.find("articles", params.id);
+    if (!article) return notFound();
+
+    const invalid = validateArticle(body);
+    if (invalid) return invalid;
+
+    const { module: previousModule, chapter: previousChapter } = article;
+    const moduleId = Number(body.module_id);
+    const chapterId = optionalNumber(body.chapter_id) ?? null;
+    mockDb.update("articles", article.id, {
+      module: moduleId,
+      chapter: chapterId,
+      title: String(body.title).trim(),
+      url: String(body.url).trim(),
+    });
+
+    const isSibling = (candidate: ArticleRecord) =>
+      candidate.module === moduleId && candidate.chapter === chapterId;
+    const moved = previousModule !== moduleId || previousChapter !== chapterId;
+    const order = optionalNumber(body.order);
+    if (order !== undefined || moved) {
+      mockDb.reorder(
+        "articles",
+        article,
+        isSibling,
+        order ?? mockDb.nextOrder("articles", isSibling)
+      );
+      mockDb.renumber(
+        "articles",
+        (candidate) =>
+          candidate.module === previousModule &&
+          candidate.chapter === previousChapter
+      );
+    }
+
+    return ok(serializeArticle(article));
+  });
+
+  router.add("delete", `${PREFIX}/article/:id/`, "staff", ({ params }) => {
+    const article = mockDb.find("articles", params.id);
+    if (!article) return notFound();
+
+    mockDb.removeWhere("articles", (candidate) => candidate.id === article.id);
+    mockDb.renumber(
+      "articles",
+      (candidate) =>
+        candidate.module === article.module &&
+        candidate.chapter === article.chapter
+    );
+    return noContent();
+  });
+};
+
+// --- Kategorien ---
+
+const validateCategory = (
+  body: Record<string, unknown>,
+  categoryId?: number
+) => {
+  const missing = requireFields(body, ["name"]);
+  if (missing) return missing;
+
+  const name = String(body.name).trim().toLowerCase();
+  const duplicate = mockDb
+    .all("categories")
+    .some(
+      (category) =>
+        category.id !== categoryId && category.name.toLowerCase() === name
+    );
+  return duplicate
+    ? badRequest({ name: ["Kategorie mit diesem Namen existiert bereits."] })
+    : null;
+};
+
+const registerCategoryRoutes = (router: MockRouter) => {
+  router.add("get", `${PREFIX}/categories/`, "authenticated", () =>
+    ok(
+      [...mockDb.all("categories")].sort((a, b) => a.name.localeCompare(b.name))
+    )
+  );
+
+  router.add("post", `${PREFIX}/categories/`, "staff", ({ body }) => {
+    const invalid = validateCategory(body);
+    if (invalid) return invalid;
+
+    return created(
+      mockDb.insert("categories", { name: String(body.name).trim() })
+    );
+  });
+
+  router.add(
+    "put",
+    `${PREFIX}/categories/:id/`,
+    "staff",
+    ({ params, body }) => {
+      const category = mockDb.find("categories", params.id);
+      if (!category) return notFound();
+
+      const invalid = validateCategory(body, category.id);
+      if (invalid) return invalid;
+
+      return ok(
+        mockDb.update("categories", category.id, {
+          name: String(body.name).trim(),
+        })
+      );
+    }
+  );
+
+  router.add("delete", `${PREFIX}/categories/:id/`, "staff", ({ params }) => {
+    const category = mockDb.find("categories", params.id);
+    if (!category) return notFound();
+
+    // Module referenzieren Kategorien mit on_delete=PROTECT
+    const modules = mockDb.all("modules");
+    if (modules.some((module) => module.category === category.id)) {
+      return badRequest({
+        detail: "Die Kategorie wird noch von Modulen verwendet.",
+      });
+    }
+
+    mockDb.removeWhere(
+      "categories",
+      (candidate) => candidate.id === category.id
+    );
+    return noContent();
+  });
+};
+
+/**
+ * Alle E-Learning-Routen registrieren
+ *
+ * Feste Pfade (chapters/, tasks/, ...) vor den Modul-Routen mit :id,
+ * damit sie nicht als Modul-ID interpretiert werden.
+ */
+export const registerLearningRoutes = (router: MockRouter) => {
+  registerChapterRoutes(router);
+  registerTaskRoutes(router);
+  registerContentRoutes(router);
+  registerArticleRoutes(router);
+  registerCategoryRoutes(router);
+  registerModuleRoutes(router);
+};
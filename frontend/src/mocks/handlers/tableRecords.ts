@@ -0,0 +1,392 @@
+/**
+ * Mock-Handler für die generische Datensatz-Bearbeitung
+ *
+ * Bildet die Endpoints unter /db-overview/table/<app>/<model>/records/
+ * nach (nur Superuser):
+ * - Anlegen, teilweises Aktualisieren und Löschen beliebiger Datensätze
+ * - Anlegen mehrerer Datensätze in einem Request (records/bulk/), atomar
+ *   je Request wie transaction.atomic - ein Fehler verwirft alle Zeilen
+ * - Validierung aus dem Schema wie ein ModelSerializer (Pflichtfelder,
+ *   null, max_length, choices, Zahlen, Datumswerte, unique, ForeignKeys)
+ * - Löschen nach on_delete der eingehenden Beziehungen: PROTECT verhindert
+ *   das Löschen, CASCADE löscht rekursiv mit, SET_NULL leert den Verweis
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { mockDb, timestamp, type CollectionName } from "../db";
+import {
+  badRequest,
+  created,
+  noContent,
+  notFound,
+  ok,
+  type MockResponse,
+  type MockRouter,
+} from "../http";
+import {
+  findMockModel,
+  findMockModelByKey,
+  getMockIncomingRelations,
+  type MockField,
+  type MockModelDefinition,
+} from "../schema";
+
+type MockRow = Record<string, unknown> & { id: number };
+
+// Verweis, der beim Löschen auf null gesetzt wird (on_delete=SET_NULL)
+interface NullUpdate {
+  model: MockModelDefinition;
+  field: string;
+  id: number;
+}
+
+const PATH = "/db-overview/table/:appLabel/:modelName/records/";
+
+const INTEGER_TYPE_PATTERN = /Integer|AutoField/;
+const NUMBER_TYPE_PATTERN = /Integer|AutoField|Float|Decimal/;
+
+// Zeitstempel, die Django selbst setzt (auto_now_add / auto_now)
+const AUTO_TIMESTAMP_FIELDS = ["created_at", "updated_at"];
+
+const rowsOf = (model: MockModelDefinition) =>
+  mockDb.all(model.collection) as unknown as MockRow[];
+
+// --- Validierung ---
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+/**
+ * Einzelnen Feldwert prüfen - gibt die Fehlermeldung oder null zurück
+ */
+const validateValue = (
+  model: MockModelDefinition,
+  modelField: MockField,
+  value: unknown,
+  excludeId?: number,
+  // Bereits geprüfte Zeilen desselben Bulk-Requests (für unique)
+  batchRows: Record<string, unknown>[] = []
+): string | null => {
+  if (value === null) {
+    return modelField.null ? null : "Dieses Feld darf nicht null sein.";
+  }
+  if (value === "" && !modelField.blank) {
+    return "Dieses Feld darf nicht leer sein.";
+  }
+  if (value === "") return null;
+
+  const { type } = modelField;
+
+  if (modelField.related_model) {
+    const target = findMockModelByKey(modelField.related_model);
+    const exists =
+      target && rowsOf(target).some((row) => row.id === Number(value));
+    if (!exists) return `Ungültiger pk "${value}" - Objekt existiert nicht.`;
+  } else if (type.includes("Boolean")) {
+    if (typeof value !== "boolean") return "Muss ein gültiger Boolean sein.";
+  } else if (NUMBER_TYPE_PATTERN.test(type)) {
+    const number = Number(value);
+    if (typeof value === "boolean" || !Number.isFinite(number)) {
+      return "Eine gültige Zahl ist erforderlich.";
+    }
+    if (INTEGER_TYPE_PATTERN.test(type) && !Number.isInteger(number)) {
+      return "Eine gültige Ganzzahl ist erforderlich.";
+    }
+    if (type.startsWith("Positive") && number < 0) {
+      return "Stellen Sie sicher, dass dieser Wert größer oder gleich 0 ist.";
+    }
+  } else if (type === "DateField" || type === "DateTimeField") {
+    if (Number.isNaN(new Date(String(value)).getTime())) {
+      return "Ungültiges Datumsformat.";
+    }
+  } else if (type === "EmailField" && !/^\S+@\S+\.\S+$/.test(String(value))) {
+    return "Geben Sie eine gültige E-Mail-Adresse ein.";
+  } else if (type === "URLField" && !/^https?:\/\/\S+$/.test(String(value))) {
+    return "Geben Sie eine gültige URL ein.";
+  }
+
+  if (
+    modelField.max_length &&
+    typeof value === "string" &&
+    value.length > modelField.max_length
+  ) {
+    return (
+      "Stellen Sie sicher, dass dieses Feld nicht mehr als " +
+      `${modelField.max_length} Zeichen hat.`
+    );
+  }
+
+  if (modelField.choices && !modelField.choices.includes(String(value))) {
+    return `"${value}" ist keine gültige Option.`;
+  }
+
+  if (modelField.unique) {
+    const isSame = (other: unknown) =>
+      String(other).toLowerCase() === String(value).toLowerCase();
+    const taken =
+      rowsOf(model).some(
+        (row) => row.id !== excludeId && isSame(row[modelField.name])
+      ) || batchRows.some((row) => isSame(row[modelField.name]));
+    if (taken) {
+      return (
+        `${model.model_name} mit diesem Wert für ${modelField.name} ` +
+        "existiert bereits."
+      );
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Request-Body gegen das Schema prüfen und in Feldwerte übersetzen
+ *
+ * Unbekannte Felder und der Primärschlüssel werden ignoriert. Bei
+ * partial (PATCH) sind nur die gesendeten Felder Pflicht.
+ */
+const validateRecord = (
+  model: MockModelDefinition,
+  body: Record<string, unknown>,
+  partial: boolean,
+  excludeId?: number,
+  batchRows: Record<string, unknown>[] = []
+):
+  | { values: Record<string, unknown>; error: null }
+  | { values: null; error: MockResponse } => {
+  const errors: Record<string, string[]> = {};
+  const values: Record<string, unknown> = {};
+
+  model.fields
+    .filter((modelField) => !modelField.primary_key)
+    .forEach((modelField) => {
+      const value = body[modelField.name];
+      if (value === undefined) {
+        const required =
+          !partial &&
+          !modelField.blank &&
+          !modelField.type.includes("Boolean");
+        if (required) {
+          errors[modelField.name] = [
+            "Dieses Feld ist zwingend erforderlich.",
+          ];
+        }
+        return;
+      }
+
+      const message = validateValue(
+        model,
+        modelField,
+        value,
+        excludeId,
+        batchRows
+      );
+      if (message) {
+        errors[modelField.name] = [message];
+        return;
+      }
+      values[modelField.name] =
+        !isEmpty(value) &&
+        (modelField.related_model || NUMBER_TYPE_PATTERN.test(modelField.type))
+          ? Number(value)
+          : value;
+    });
+
+  return Object.keys(errors).length > 0
+    ? { values: null, error: badRequest(errors) }
+    : { values, error: null };
+};
+
+/**
+ * Standardwerte für nicht gesendete Felder beim Anlegen
+ */
+const getDefaults = (model: MockModelDefinition) =>
+  Object.fromEntries(
+    model.fields
+      .filter((modelField) => !modelField.primary_key)
+      .map((modelField) => [
+        modelField.name,
+        AUTO_TIMESTAMP_FIELDS.includes(modelField.name)
+          ? timestamp()
+          : modelField.type.includes("Boolean")
+          ? false
+          : modelField.null
+          ? null
+          : "",
+      ])
+  );
+
+const insertRecord = (
+  model: MockModelDefinition,
+  values: Record<string, unknown>
+) =>
+  mockDb.insert(model.collection as CollectionName, {
+    ...getDefaults(model),
+    ...values,
+  } as never) as unknown as MockRow;
+
+const toResponseRow = (model: MockModelDefinition, row: MockRow) =>
+  Object.fromEntries(
+    model.fields.map((modelField) => [
+      modelField.name,
+      row[modelField.name] ?? null,
+    ])
+  );
+
+// --- Löschen ---
+
+/**
+ * Auswirkungen eines Löschvorgangs nach on_delete ermitteln
+ *
+ * Wie der Django-Collector: erst alles sammeln, geschützte Verweise brechen
+ * den Vorgang ab, bevor etwas gelöscht wird.
+ */
+const collectDeletion = (model: MockModelDefinition, id: number) => {
+  const deletions = new Map<MockModelDefinition, Set<number>>([
+    [model, new Set([id])],
+  ]);
+  const nullUpdates: NullUpdate[] = [];
+  const queue: { model: MockModelDefinition; ids: number[] }[] = [
+    { model, ids: [id] },
+  ];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const { source, field: modelField } of getMockIncomingRelations(
+      current.model
+    )) {
+      const related = rowsOf(source).filter((row) =>
+        current.ids.includes(Number(row[modelField.name]))
+      );
+      if (related.length === 0) continue;
+
+      switch (modelField.on_delete) {
+        case "PROTECT":
+          return {
+            protectedBy:
+              `${current.model.model_name} wird noch von ${related.length} ` +
+              `${source.model_name}-Datensätzen verwendet ` +
+              `(${modelField.name}, on_delete=PROTECT).`,
+          };
+        case "CASCADE": {
+          const ids = deletions.get(source) ?? new Set<number>();
+          const added = related
+            .map((row) => row.id)
+            .filter((relatedId) => !ids.has(relatedId));
+          added.forEach((relatedId) => ids.add(relatedId));
+          deletions.set(source, ids);
+          if (added.length > 0) queue.push({ model: source, ids: added });
+          break;
+        }
+        case "SET_NULL":
+          related.forEach((row) =>
+            nullUpdates.push({
+              model: source,
+              field: modelField.name,
+              id: row.id,
+            })
+          );
+          break;
+        default:
+          // DO_NOTHING, SET_DEFAULT, ... - Verweise bleiben unverändert
+          break;
+      }
+    }
+  }
+
+  return { deletions, nullUpdates, protectedBy: null };
+};
+
+// --- Routen ---
+
+export const registerTableRecordRoutes = (router: MockRouter) => {
+  const findModel = (params: Record<string, string>) =>
+    findMockModel(params.appLabel, params.modelName);
+
+  router.add("post", PATH, "superuser", ({ params, body }) => {
+    const model = findModel(params);
+    if (!model) return notFound();
+
+    const { values, error } = validateRecord(model, body, false);
+    if (error) return error;
+
+    return created(toResponseRow(model, insertRecord(model, values)));
+  });
+
+  // Fehler wie beim ListSerializer: je Zeile ein Objekt (leer = gültig)
+  router.add("post", `${PATH}bulk/`, "superuser", ({ params, body }) => {
+    const model = findModel(params);
+    if (!model) return notFound();
+    if (!Array.isArray(body.records)) {
+      return badRequest({ records: ["Eine Liste von Datensätzen erwartet."] });
+    }
+
+    const accepted: Record<string, unknown>[] = [];
+    const rowErrors = (body.records as Record<string, unknown>[]).map(
+      (item) => {
+        const { values, error } = validateRecord(
+          model,
+          item ?? {},
+          false,
+          undefined,
+          accepted
+        );
+        if (error) return error.data;
+        accepted.push(values);
+        return {};
+      }
+    );
+    if (accepted.length < rowErrors.length) {
+      return badRequest({ records: rowErrors });
+    }
+
+    const records = accepted.map((values) => insertRecord(model, values));
+    return created({
+      created: records.length,
+      records: records.map((record) => toResponseRow(model, record)),
+    });
+  });
+
+  router.add("patch", `${PATH}:id/`, "superuser", ({ params, body }) => {
+    const model = findModel(params);
+    const row = model && rowsOf(model).find((item) => item.id === +params.id);
+    if (!model || !row) return notFound();
+
+    const { values, error } = validateRecord(model, body, true, row.id);
+    if (error) return error;
+
+    const patch = model.fields.some((item) => item.name === "updated_at")
+      ? { ...values, updated_at: timestamp() }
+      : values;
+    const record = mockDb.update(model.collection, row.id, patch as never);
+    return ok(toResponseRow(model, record as unknown as MockRow));
+  });
+
+  router.add("delete", `${PATH}:id/`, "superuser", ({ params }) => {
+    const model = findModel(params);
+    const row = model && rowsOf(model).find((item) => item.id === +params.id);
+    if (!model || !row) return notFound();
+
+    const { deletions, nullUpdates, protectedBy } = collectDeletion(
+      model,
+      row.id
+    );
+    if (protectedBy) return badRequest({ detail: protectedBy });
+
+    nullUpdates
+      .filter((update) => !deletions.get(update.model)?.has(update.id))
+      .forEach((update) =>
+        mockDb.update(update.model.collection, update.id, {
+          [update.field]: null,
+        } as never)
+      );
+    deletions.forEach((ids, deletedModel) =>
+      mockDb.removeWhere(deletedModel.collection, (record) =>
+        ids.has(record.id)
+      )
+    );
+    return noContent();
+  });
+};
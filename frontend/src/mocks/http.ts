@@ -0,0 +1,188 @@
+/**
+ * HTTP-Grundlagen des Offline-Mock-Backends
+ *
+ * Minimaler Router und Antwort-Helfer für die Mock-Handler:
+ * - Routen mit Platzhaltern ("/modules/:id/detail/")
+ * - Antworten im Format der Django-REST-Framework-Views
+ * - DRF-typische Fehlerkörper (detail bzw. Feldfehler)
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+// --- Typen ---
+
+export interface MockUser {
+  id: number;
+  username: string;
+  is_staff: boolean;
+  is_superuser: boolean;
+}
+
+export interface MockRequest {
+  method: string;
+  // Pfad relativ zur API-Base-URL, immer mit abschließendem "/"
+  path: string;
+  // Platzhalter aus dem Routenmuster
+  params: Record<string, string>;
+  // Query-Parameter aus URL und Axios-"params"
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  // Request sendet Cookies mit (Cookie-Modus der Token-Speicherung)
+  withCredentials: boolean;
+  // Angemeldeter Benutzer (null bei fehlender oder abgelaufener Anmeldung)
+  user: MockUser | null;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse;
+
+// Zugriffsstufe einer Route - wird vor dem Handler geprüft
+export type MockAccess = "public" | "authenticated" | "staff" | "superuser";
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  access: MockAccess;
+  handler: MockHandler;
+}
+
+// --- Antwort-Helfer ---
+
+export const ok = (data: unknown): MockResponse => ({ status: 200, data });
+
+export const created = (data: unknown): MockResponse => ({ status: 201, data });
+
+export const noContent = (): MockResponse => ({ status: 204 });
+
+export const badRequest = (errors: Record<string, unknown>): MockResponse => ({
+  status: 400,
+  data: errors,
+});
+
+export const notFound = (): MockResponse => ({
+  status: 404,
+  data: { detail: "Nicht gefunden." },
+});
+
+export const unauthorized = (
+  detail = "Anmeldedaten wurden nicht bereitgestellt."
+): MockResponse => ({ status: 401, data: { detail } });
+
+export const forbidden = (): MockResponse => ({
+  status: 403,
+  data: { detail: "Sie sind nicht berechtigt, diese Aktion durchzuführen." },
+});
+
+/**
+ * Pflichtfelder prüfen und DRF-Feldfehler erzeugen
+ *
+ * Liefert null, wenn alle Felder befüllt sind.
+ */
+export const requireFields = (
+  body: Record<string, unknown>,
+  fields: string[]
+): MockResponse | null => {
+  const errors: Record<string, string[]> = {};
+  fields.forEach((field) => {
+    const value = body[field];
+    if (value === undefined || value === null || value === "") {
+      errors[field] = ["Dieses Feld ist zwingend erforderlich."];
+    }
+  });
+  return Object.keys(errors).length > 0 ? badRequest(errors) : null;
+};
+
+// --- Router ---
+
+const compilePattern = (path: string) => {
+  const keys: string[] = [];
+  const source = path
+    .split("/")
+    .map((segment) => {
+      if (!segment.startsWith(":")) return segment;
+      keys.push(segment.slice(1));
+      return "([^/]+)";
+    })
+    .join("/");
+  return { pattern: new RegExp(`^${source}$`), keys };
+};
+
+export const createRouter = () => {
+  const routes: MockRoute[] = [];
+
+  const router = {
+    /**
+     * Route registrieren
+     */
+    add(
+      method: string,
+      path: string,
+      access: MockAccess,
+      handler: MockHandler
+    ) {
+      routes.push({
+        method: method.toLowerCase(),
+        access,
+        handler,
+        ...compilePattern(path),
+      });
+      return router;
+    },
+
+    /**
+     * Passende Route zu Methode und Pfad finden
+     *
+     * pathMatched unterscheidet 404 (unbekannter Pfad) von 405 (falsche
+     * Methode).
+     */
+    match(method: string, path: string) {
+      let pathMatched = false;
+
+      for (const route of routes) {
+        const match = route.pattern.exec(path);
+        if (!match) continue;
+        if (route.method !== method.toLowerCase()) {
+          pathMatched = true;
+          continue;
+        }
+
+        const params = Object.fromEntries(
+          route.keys.map((key, index) => [
+            key,
+            decodeURIComponent(match[index + 1]),
+          ])
+        );
+        return { route, params, pathMatched: true };
+      }
+
+      return { route: null, params: {}, pathMatched };
+    },
+  };
+
+  return router;
+};
+
+export type MockRouter = ReturnType<typeof createRouter>;
+
+/**
+ * Zugriffsstufe gegen den angemeldeten Benutzer prüfen
+ */
+export const checkAccess = (
+  access: MockAccess,
+  user: MockUser | null
+): MockResponse | null => {
+  if (access === "public") return null;
+  if (!user) return unauthorized();
+  if (access === "staff" && !user.is_staff && !user.is_superuser) {
+    return forbidden();
+  }
+  if (access === "superuser" && !user.is_superuser) return forbidden();
+  return null;
+};
@@ -0,0 +1,221 @@
+/**
+ * Axios-Adapter des Offline-Mock-Backends
+ *
+ * Ersetzt den HTTP-Adapter aller API-Clients, wenn VITE_USE_MOCK_BACKEND
+ * aktiv ist (siehe MOCK_CONFIG in services/config.ts):
+ * - Routing auf die Handler für Auth, db-overview (inkl. Datensatz-
+ *   Bearbeitung), E-Learning, Mitarbeiter
+ * - Authentifizierung über Bearer-Token bzw. simulierte Cookie-Sitzung
+ * - Simulierte Latenz, abbrechbar über das AbortSignal des Requests
+ * - Fehlerantworten als AxiosError, damit Interceptors (Token-Refresh,
+ *   Retry, ApiError) unverändert greifen
+ *
+ * Das Modul wird nur bei aktiviertem Mock dynamisch nachgeladen.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import {
+  authenticate,
+  registerAuthRoutes,
+  tokenInvalidResponse,
+} from "./handlers/auth";
+import { registerDbOverviewRoutes } from "./handlers/dbOverview";
+import { registerEmployeeRoutes } from "./handlers/employees";
+import { registerLearningRoutes } from "./handlers/learning";
+import { registerTableRecordRoutes } from "./handlers/tableRecords";
+import { checkAccess, createRouter, type MockResponse } from "./http";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("MockBackend");
+
+export interface MockAdapterOptions {
+  // API-Base-URL, deren Pfad vor dem Routing entfernt wird
+  baseUrl: string;
+  // Simulierte Antwortzeit (Millisekunden)
+  latencyMs: number;
+}
+
+const router = createRouter();
+registerAuthRoutes(router);
+registerDbOverviewRoutes(router);
+registerTableRecordRoutes(router);
+registerLearningRoutes(router);
+registerEmployeeRoutes(router);
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  500: "Internal Server Error",
+};
+
+log.info(
+  "🧪 Offline-Mock-Backend aktiv - Anmeldung z.B. mit admin / demo"
+);
+
+// --- Hilfsfunktionen ---
+
+/**
+ * Latenz abwarten - bricht sofort ab, wenn das AbortSignal auslöst
+ */
+const simulateLatency = (
+  delay: number,
+  signal: InternalAxiosRequestConfig["signal"]
+) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+
+    const timer = setTimeout(resolve, delay);
+    signal?.addEventListener?.("abort", () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    });
+  });
+
+/**
+ * Pfad relativ zur API-Base-URL und Query-Parameter ermitteln
+ *
+ * getUri berücksichtigt baseURL, absolute URLs (Token-Refresh) und
+ * serialisiert die Axios-"params" in die Query.
+ */
+const resolveLocation = (
+  config: InternalAxiosRequestConfig,
+  baseUrl: string
+) => {
+  const url = new URL(axios.getUri(config), window.location.origin);
+  const basePath = new URL(baseUrl, window.location.origin).pathname.replace(
+    /\/$/,
+    ""
+  );
+
+  let path = url.pathname.startsWith(basePath)
+    ? url.pathname.slice(basePath.length)
+    : url.pathname;
+  if (!path.endsWith("/")) path = `${path}/`;
+
+  return { path, query: Object.fromEntries(url.searchParams.entries()) };
+};
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data === "string") {
+    try {
+      const parsed = JSON.parse(data);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return data && typeof data === "object"
+    ? (data as Record<string, unknown>)
+    : {};
+};
+
+/**
+ * Request an den passenden Handler weiterreichen
+ */
+const dispatch = (
+  config: InternalAxiosRequestConfig,
+  options: MockAdapterOptions
+): MockResponse => {
+  const method = (config.method ?? "get").toLowerCase();
+  const { path, query } = resolveLocation(config, options.baseUrl);
+  const { route, params, pathMatched } = router.match(method, path);
+
+  if (!route) {
+    return pathMatched
+      ? {
+          status: 405,
+          data: { detail: `Methode "${method.toUpperCase()}" nicht erlaubt.` },
+        }
+      : { status: 404, data: { detail: "Nicht gefunden." } };
+  }
+
+  const authorization = AxiosHeaders.from(config.headers).get("Authorization");
+  const withCredentials = !!config.withCredentials;
+  const { user, tokenInvalid } = authenticate(
+    typeof authorization === "string" ? authorization : undefined,
+    withCredentials
+  );
+
+  // Abgelaufene Tokens nur auf geschützten Routen melden (wie SimpleJWT)
+  if (route.access !== "public" && tokenInvalid) {
+    return tokenInvalidResponse();
+  }
+
+  const denied = checkAccess(route.access, user);
+  if (denied) return denied;
+
+  try {
+    return route.handler({
+      method,
+      path,
+      params,
+      query,
+      body: parseBody(config.data),
+      withCredentials,
+      user,
+    });
+  } catch (error) {
+    log.error("❌ Mock-Backend: Fehler im Handler", error);
+    return {
+      status: 500,
+      data: { detail: "Interner Fehler im Mock-Backend." },
+    };
+  }
+};
+
+// --- Adapter ---
+
+/**
+ * Request gegen das Mock-Backend ausführen
+ *
+ * Verhält sich wie der XHR-Adapter: Statuscodes außerhalb von
+ * validateStatus führen zu einem AxiosError mit Response.
+ */
+export const handleMockRequest = async (
+  config: InternalAxiosRequestConfig,
+  options: MockAdapterOptions
+): Promise<AxiosResponse> => {
+  await simulateLatency(options.latencyMs, config.signal);
+
+  const { status, data } = dispatch(config, options);
+  const response: AxiosResponse = {
+    // Kopie, damit Aufrufer die In-Memory-Datensätze nicht verändern
+    data: data === undefined ? "" : structuredClone(data),
+    status,
+    statusText: STATUS_TEXT[status] ?? "",
+    headers: new AxiosHeaders({ "content-type": "application/json" }),
+    config,
+    request: null,
+  };
+
+  if (!config.validateStatus || config.validateStatus(status)) {
+    return response;
+  }
+
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response
+  );
+};
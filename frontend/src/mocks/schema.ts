@@ -0,0 +1,515 @@
+/**
+ * Schema-Beschreibung des Offline-Mock-Backends
+ *
+ * Beschreibt die Django-Modelle hinter den Mock-Tabellen so, wie sie die
+ * db-overview-Endpoints liefern:
+ * - Felder inkl. Typ, Constraints und Beziehungen
+ * - Tabellendaten direkt aus der In-Memory-Datenbank
+ * - Statistiken mit generiertem CREATE-TABLE-Statement (SQLite-Dialekt)
+ *
+ * Da Tabellendaten und Datensatzanzahl live aus mockDb stammen, zeigt der
+ * Table Browser auch Änderungen aus Mitarbeiter- und Lernverwaltung.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import type {
+  DatabaseSchemaResponse,
+  DatabaseStatistics,
+  GlobalRelationship,
+  ModelInfo,
+  SchemaField,
+} from "../services/api";
+import { mockDb, type CollectionName } from "./db";
+
+// --- Typen ---
+
+// Feld mit optionaler Beziehung (nur ForeignKeys)
+export interface MockField extends SchemaField {
+  related_model?: string;
+  related_name?: string | null;
+  on_delete?: string | null;
+}
+
+export interface MockModelDefinition {
+  app_label: string;
+  model_name: string;
+  verbose_name: string;
+  verbose_name_plural: string;
+  collection: CollectionName;
+  fields: MockField[];
+  ordering?: string[];
+}
+
+// --- Feld-Helfer ---
+
+const field = (
+  name: string,
+  type: string,
+  options: Partial<MockField> = {}
+): MockField => ({
+  name,
+  type,
+  null: false,
+  blank: false,
+  unique: false,
+  db_index: false,
+  primary_key: false,
+  auto_created: false,
+  is_relationship: false,
+  ...options,
+});
+
+const idField = () =>
+  field("id", "BigAutoField", {
+    primary_key: true,
+    unique: true,
+    auto_created: true,
+    blank: true,
+  });
+
+const charField = (
+  name: string,
+  maxLength: number,
+  options: Partial<MockField> = {}
+) => field(name, "CharField", { max_length: maxLength, ...options });
+
+const foreignKey = (
+  name: string,
+  relatedModel: string,
+  onDelete: string,
+  relatedName: string,
+  options: Partial<MockField> = {}
+) =>
+  field(name, "ForeignKey", {
+    db_index: true,
+    is_relationship: true,
+    related_model: relatedModel,
+    related_name: relatedName,
+    on_delete: onDelete,
+    ...options,
+  });
+
+const timestamps = () => [
+  field("created_at", "DateTimeField", { blank: true }),
+  field("updated_at", "DateTimeField", { blank: true }),
+];
+
+// --- Modelldefinitionen ---
+
+const MOCK_MODELS: MockModelDefinition[] = [
+  {
+    app_label: "auth",
+    model_name: "User",
+    verbose_name: "Benutzer",
+    verbose_name_plural: "Benutzer",
+    collection: "users",
+    fields: [
+      idField(),
+      charField("username", 150, { unique: true }),
+      field("email", "EmailField", { max_length: 254, blank: true }),
+      charField("first_name", 150, { blank: true }),
+      charField("last_name", 150, { blank: true }),
+      field("is_staff", "BooleanField"),
+      field("is_superuser", "BooleanField"),
+      field("is_active", "BooleanField"),
+      field("date_joined", "DateTimeField"),
+      field("last_login", "DateTimeField", { null: true, blank: true }),
+    ],
+  },
+  {
+    app_label: "elearning",
+    model_name: "ModuleCategory",
+    verbose_name: "Kategorie",
+    verbose_name_plural: "Kategorien",
+    collection: "categories",
+    fields: [idField(), charField("name", 100, { unique: true })],
+    ordering: ["name"],
+  },
+  {
+    app_label: "elearning",
+    model_name: "Module",
+    verbose_name: "Modul",
+    verbose_name_plural: "Module",
+    collection: "modules",
+    fields: [
+      idField(),
+      charField("title", 200, { unique: true }),
+      foreignKey("category", "elearning.ModuleCategory", "PROTECT", "modules"),
+      field("is_public", "BooleanField"),
+      ...timestamps(),
+    ],
+    ordering: ["title"],
+  },
+  {
+    app_label: "elearning",
+    model_name: "Chapter",
+    verbose_name: "Kapitel",
+    verbose_name_plural: "Kapitel",
+    collection: "chapters",
+    fields: [
+      idField(),
+      foreignKey("module", "elearning.Module", "CASCADE", "chapters"),
+      charField("title", 200),
+      field("description", "TextField", { blank: true }),
+      field("order", "PositiveIntegerField"),
+      field("is_active", "BooleanField"),
+    ],
+    ordering: ["module", "order"],
+  },
+  {
+    app_label: "elearning",
+    model_name: "Content",
+    verbose_name: "Video",
+    verbose_name_plural: "Videos",
+    collection: "contents",
+    fields: [
+      idField(),
+      foreignKey("chapter", "elearning.Chapter", "CASCADE", "contents"),
+      charField("title", 200),
+      field("description", "TextField", { blank: true }),
+      field("video_url", "URLField", { max_length: 200 }),
+      field("order", "PositiveIntegerField"),
+    ],
+    ordering: ["chapter", "order"],
+  },
+  {
+    app_label: "elearning",
+    model_name: "Article",
+    verbose_name: "Artikel",
+    verbose_name_plural: "Artikel",
+    collection: "articles",
+    fields: [
+      idField(),
+      foreignKey("module", "elearning.Module", "CASCADE", "articles"),
+      foreignKey("chapter", "elearning.Chapter", "SET_NULL", "articles", {
+        null: true,
+        blank: true,
+      }),
+      charField("title", 200),
+      field("url", "URLField", { max_length: 200 }),
+      field("order", "PositiveIntegerField"),
+    ],
+    ordering: ["module", "order"],
+  },
+  {
+    app_label: "elearning",
+    model_name: "Task",
+    verbose_name: "Aufgabe",
+    verbose_name_plural: "Aufgaben",
+    collection: "tasks",
+    fields: [
+      idField(),
+      foreignKey("chapter", "elearning.Chapter", "CASCADE", "tasks"),
+      charField("title", 200),
+      field("description", "TextField"),
+      charField("difficulty", 20, { choices: ["Einfach", "Mittel", "Schwer"] }),
+      field("hint", "TextField", { blank: true }),
+      field("order", "PositiveIntegerField"),
+    ],
+    ordering: ["chapter", "order"],
+  },
+  {
+    app_label: "elearning",
+    model_name: "TaskMultipleChoice",
+    verbose_name: "Multiple-Choice-Frage",
+    verbose_name_plural: "Multiple-Choice-Fragen",
+    collection: "taskMultipleChoice",
+    fields: [
+      idField(),
+      foreignKey("task", "elearning.Task", "CASCADE", "multiple_choice"),
+      field("question", "TextField"),
+      charField("option_1", 255),
+      charField("option_2", 255),
+      charField("option_3", 255),
+      charField("option_4", 255),
+      field("correct_answer", "PositiveSmallIntegerField", {
+        choices: ["1", "2", "3", "4"],
+      }),
+      field("order", "PositiveIntegerField"),
+    ],
+    ordering: ["task", "order"],
+  },
+  {
+    app_label: "employees",
+    model_name: "Department",
+    verbose_name: "Abteilung",
+    verbose_name_plural: "Abteilungen",
+    collection: "departments",
+    fields: [
+      idField(),
+      charField("name", 100, { unique: true }),
+      field("description", "TextField", { blank: true }),
+      field("is_active", "BooleanField"),
+      ...timestamps(),
+    ],
+    ordering: ["name"],
+  },
+  {
+    app_label: "employees",
+    model_name: "Position",
+    verbose_name: "Position",
+    verbose_name_plural: "Positionen",
+    collection: "positions",
+    fields: [
+      idField(),
+      charField("title", 100, { unique: true }),
+      field("description", "TextField", { blank: true }),
+      field("is_active", "BooleanField"),
+      ...timestamps(),
+    ],
+    ordering: ["title"],
+  },
+  {
+    app_label: "employees",
+    model_name: "Employee",
+    verbose_name: "Mitarbeiter",
+    verbose_name_plural: "Mitarbeiter",
+    collection: "employees",
+    fields: [
+      idField(),
+      charField("first_name", 100),
+      charField("last_name", 100),
+      field("email", "EmailField", { max_length: 254, unique: true }),
+      foreignKey("department", "employees.Department", "PROTECT", "employees"),
+      foreignKey("position", "employees.Position", "PROTECT", "employees"),
+      field("max_working_hours", "PositiveIntegerField"),
+      field("is_active", "BooleanField"),
+      ...timestamps(),
+    ],
+    ordering: ["last_name", "first_name"],
+  },
+  {
+    app_label: "employees",
+    model_name: "Tool",
+    verbose_name: "Tool",
+    verbose_name_plural: "Tools",
+    collection: "tools",
+    fields: [
+      idField(),
+      field("slug", "SlugField", { max_length: 50, unique: true }),
+      charField("name", 100),
+      field("description", "TextField", { blank: true }),
+      field("frontend_url", "URLField", { max_length: 200, blank: true }),
+    ],
+    ordering: ["name"],
+  },
+  {
+    app_label: "employees",
+    model_name: "ToolAccess",
+    verbose_name: "Tool-Zugriff",
+    verbose_name_plural: "Tool-Zugriffe",
+    collection: "toolAccess",
+    fields: [
+      idField(),
+      foreignKey("employee", "employees.Employee", "CASCADE", "tool_access"),
+      foreignKey("tool", "employees.Tool", "CASCADE", "access_entries"),
+      field("granted_at", "DateTimeField", { blank: true }),
+      field("expires_at", "DateTimeField", { null: true, blank: true }),
+    ],
+  },
+  {
+    app_label: "activity",
+    model_name: "ActivityLog",
+    verbose_name: "Aktivität",
+    verbose_name_plural: "Aktivitätsprotokoll",
+    collection: "activityLogs",
+    fields: [
+      idField(),
+      foreignKey("user", "auth.User", "CASCADE", "activity_logs"),
+      charField("action", 20, {
+        choices: ["login", "logout", "create", "update", "delete", "view"],
+      }),
+      charField("object_type", 100),
+      charField("object_repr", 200),
+      field("ip_address", "GenericIPAddressField"),
+      field("timestamp", "DateTimeField", { db_index: true }),
+    ],
+    ordering: ["-timestamp"],
+  },
+];
+
+// --- Hilfsfunktionen ---
+
+const getTableName = (model: MockModelDefinition) =>
+  `${model.app_label}_${model.model_name.toLowerCase()}`;
+
+// Beziehungsangaben erscheinen im Backend nur unter "relationships"
+const toSchemaField = (modelField: MockField): SchemaField => {
+  const schemaField = { ...modelField };
+  delete schemaField.related_model;
+  delete schemaField.related_name;
+  delete schemaField.on_delete;
+  return schemaField;
+};
+
+const toModelInfo = (model: MockModelDefinition): ModelInfo => {
+  const relationships = model.fields
+    .filter((modelField) => modelField.related_model)
+    .map((modelField) => ({
+      field_name: modelField.name,
+      relationship_type: modelField.type,
+      related_model: modelField.related_model!,
+      related_name: modelField.related_name ?? null,
+      on_delete: modelField.on_delete ?? null,
+    }));
+
+  return {
+    app_label: model.app_label,
+    model_name: model.model_name,
+    table_name: getTableName(model),
+    verbose_name: model.verbose_name,
+    verbose_name_plural: model.verbose_name_plural,
+    abstract: false,
+    fields: model.fields.map(toSchemaField),
+    relationships,
+    field_count: model.fields.length,
+    relationship_count: relationships.length,
+    record_count: mockDb.all(model.collection).length,
+    ordering: model.ordering ?? [],
+    indexes: [],
+  };
+};
+
+/**
+ * Modelldefinition zu App-Label und Modellname finden
+ */
+export const findMockModel = (appLabel: string, modelName: string) =>
+  MOCK_MODELS.find(
+    (model) =>
+      model.app_label === appLabel &&
+      model.model_name.toLowerCase() === modelName.toLowerCase()
+  );
+
+/**
+ * Modelldefinition zu "app_label.ModelName" (z.B. Ziel eines ForeignKeys)
+ */
+export const findMockModelByKey = (key: string) => {
+  const [appLabel, modelName] = key.split(".");
+  return findMockModel(appLabel, modelName ?? "");
+};
+
+/**
+ * ForeignKeys anderer Modelle auf dieses Modell (für on_delete)
+ */
+export const getMockIncomingRelations = (model: MockModelDefinition) => {
+  const key = `${model.app_label}.${model.model_name}`;
+  return MOCK_MODELS.flatMap((source) =>
+    source.fields
+      .filter((modelField) => modelField.related_model === key)
+      .map((modelField) => ({ source, field: modelField }))
+  );
+};
+
+/**
+ * Zeilen einer Tabelle in Feldreihenfolge des Modells
+ *
+ * Nur Schemafelder werden ausgegeben (z.B. kein Passwort bei auth.User),
+ * ForeignKeys erscheinen wie im Backend als ID.
+ */
+export const getMockTableRows = (model: MockModelDefinition) =>
+  (mockDb.all(model.collection) as object[]).map((record) => {
+    const values = record as Record<string, unknown>;
+    return Object.fromEntries(
+      model.fields.map((modelField) => [
+        modelField.name,
+        values[modelField.name] ?? null,
+      ])
+    );
+  });
+
+/**
+ * Vollständiges Schema im Format von /db-overview/schema/
+ */
+export const buildDatabaseSchema = (): DatabaseSchemaResponse => {
+  const appLabels = [...new Set(MOCK_MODELS.map((model) => model.app_label))];
+  const apps = appLabels.map((appLabel) => {
+    const models = MOCK_MODELS.filter(
+      (model) => model.app_label === appLabel
+    ).map(toModelInfo);
+    return { app_name: appLabel, models, model_count: models.length };
+  });
+
+  const relationships: GlobalRelationship[] = apps.flatMap((app) =>
+    app.models.flatMap((model) =>
+      model.relationships.map((relationship) => ({
+        source: `${model.app_label}.${model.model_name}`,
+        target: relationship.related_model,
+        type: relationship.relationship_type,
+        field_name: relationship.field_name,
+        related_name: relationship.related_name,
+        on_delete: relationship.on_delete,
+      }))
+    )
+  );
+
+  return {
+    schema_overview: {
+      total_apps: apps.length,
+      total_models: MOCK_MODELS.length,
+      total_relationships: relationships.length,
+      generated_at: new Date().toISOString(),
+      database_engine: "django.db.backends.sqlite3",
+    },
+    apps,
+    relationships,
+    success: true,
+  };
+};
+
+// --- Statistiken ---
+
+const SQL_TYPES: Record<string, (modelField: MockField) => string> = {
+  BigAutoField: () => "integer NOT NULL PRIMARY KEY AUTOINCREMENT",
+  CharField: (modelField) => `varchar(${modelField.max_length})`,
+  EmailField: (modelField) => `varchar(${modelField.max_length})`,
+  SlugField: (modelField) => `varchar(${modelField.max_length})`,
+  URLField: (modelField) => `varchar(${modelField.max_length})`,
+  TextField: () => "text",
+  BooleanField: () => "bool",
+  DateTimeField: () => "datetime",
+  PositiveIntegerField: () => "integer unsigned",
+  PositiveSmallIntegerField: () => "smallint unsigned",
+  GenericIPAddressField: () => "char(39)",
+};
+
+const toColumnSql = (modelField: MockField) => {
+  if (modelField.related_model) {
+    const [appLabel, modelName] = modelField.related_model.split(".");
+    const nullable = modelField.null ? "NULL" : "NOT NULL";
+    const table = `${appLabel}_${modelName.toLowerCase()}`;
+    return (
+      `"${modelField.name}_id" bigint ${nullable} ` +
+      `REFERENCES "${table}" ("id") DEFERRABLE INITIALLY DEFERRED`
+    );
+  }
+
+  const sqlType = SQL_TYPES[modelField.type]?.(modelField) ?? "text";
+  if (modelField.primary_key) return `"${modelField.name}" ${sqlType}`;
+
+  const nullable = modelField.null ? "NULL" : "NOT NULL";
+  const unique = modelField.unique ? " UNIQUE" : "";
+  return `"${modelField.name}" ${sqlType} ${nullable}${unique}`;
+};
+
+/**
+ * Tabellenstatistiken im Format von /db-overview/statistics/
+ */
+export const buildDatabaseStatistics = (): DatabaseStatistics => {
+  const tables = MOCK_MODELS.map((model) => ({
+    table_name: getTableName(model),
+    row_count: mockDb.all(model.collection).length,
+    create_sql: `CREATE TABLE "${getTableName(model)}" (${model.fields
+      .map(toColumnSql)
+      .join(", ")})`,
+  }));
+
+  return {
+    database_type: "sqlite",
+    tables,
+    total_tables: tables.length,
+    success: true,
+  };
+};
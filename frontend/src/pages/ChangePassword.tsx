@@ -0,0 +1,259 @@
+/**
+ * Change Password Page Component - DSP Database Overview
+ *
+ * Diese Seite erzwingt die Änderung temporärer Passwörter nach dem Login:
+ * - Eingabe von altem und neuem Passwort mit Bestätigung
+ * - Passwortstärke-Anzeige
+ * - Anzeige serverseitiger Validierungsfehler je Feld
+ * - Weiterleitung zur ursprünglich angefragten Seite nach Erfolg
+ *
+ * Solange das force_password_change-Flag gesetzt ist, leitet ProtectedRoute
+ * jede geschützte Route hierher um.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useNavigate, useLocation } from "react-router-dom";
+import clsx from "clsx";
+import type { ChangePasswordPayload } from "../services/authService";
+import { useAuth } from "../contexts/AuthContext";
+import { applyApiErrors } from "../components/forms/formErrors";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("ChangePassword");
+
+// --- Validierungsschema ---
+
+const schema = z
+  .object({
+    old_password: z.string().min(1, "Aktuelles Passwort erforderlich"),
+    new_password: z.string().min(8, "Mindestens 8 Zeichen"),
+    new_password_confirm: z.string().min(1, "Bitte Passwort bestätigen"),
+  })
+  .refine((data) => data.new_password === data.new_password_confirm, {
+    message: "Passwörter stimmen nicht überein",
+    path: ["new_password_confirm"],
+  })
+  .refine((data) => data.new_password !== data.old_password, {
+    message: "Neues Passwort muss sich vom alten unterscheiden",
+    path: ["new_password"],
+  });
+
+type FormValues = z.infer<typeof schema>;
+
+const FIELD_NAMES: (keyof FormValues)[] = [
+  "old_password",
+  "new_password",
+  "new_password_confirm",
+];
+
+// --- Passwortstärke ---
+
+const STRENGTH_LEVELS = [
+  { label: "Sehr schwach", className: "bg-red-500" },
+  { label: "Schwach", className: "bg-orange-500" },
+  { label: "Mittel", className: "bg-yellow-500" },
+  { label: "Stark", className: "bg-green-500" },
+  { label: "Sehr stark", className: "bg-green-600" },
+];
+
+/**
+ * Passwortstärke auf einer Skala von 0 bis 4 bewerten
+ *
+ * Bewertet Länge sowie die Vielfalt der verwendeten Zeichenklassen.
+ */
+const getPasswordStrength = (password: string): number => {
+  if (!password) return 0;
+
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (/[a-z]/.test(password) && /[A-Z]/.test(password)) score++;
+  if (/\d/.test(password)) score++;
+  if (/[^A-Za-z0-9]/.test(password)) score++;
+
+  return Math.min(score, STRENGTH_LEVELS.length - 1);
+};
+
+const PasswordStrengthMeter: React.FC<{ password: string }> = ({
+  password,
+}) => {
+  const strength = getPasswordStrength(password);
+  const level = STRENGTH_LEVELS[strength];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex space-x-1">
+        {STRENGTH_LEVELS.slice(1).map((_, index) => (
+          <div
+            key={index}
+            className={clsx(
+              "h-1.5 flex-1 rounded-full transition-colors",
+              password && index < strength ? level.className : "bg-gray-200"
+            )}
+          />
+        ))}
+      </div>
+      {password && (
+        <p className="text-xs text-gray-500">Passwortstärke: {level.label}</p>
+      )}
+    </div>
+  );
+};
+
+// --- UI Hilfskomponenten ---
+
+interface PasswordInputProps
+  extends React.InputHTMLAttributes<HTMLInputElement> {
+  label: string;
+  error?: string;
+}
+
+const PasswordInput = React.forwardRef<HTMLInputElement, PasswordInputProps>(
+  ({ label, error, ...rest }, ref) => (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <input
+        ref={ref}
+        type="password"
+        className={clsx(
+          "w-full border rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-[#ff863d] focus:border-[#ff863d] shadow-sm",
+          error ? "border-red-500" : "border-gray-300"
+        )}
+        {...rest}
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+);
+PasswordInput.displayName = "PasswordInput";
+
+/**
+ * Passwort-Änderungsseite
+ */
+const ChangePassword: React.FC = () => {
+  const [generalError, setGeneralError] = useState("");
+
+  const { changePassword, logout } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = location.state?.from?.pathname || "/";
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<FormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      old_password: "",
+      new_password: "",
+      new_password_confirm: "",
+    },
+  });
+
+  const newPassword = watch("new_password");
+
+  const handleLogout = () => {
+    logout();
+    navigate("/login", { replace: true });
+  };
+
+  const onSubmit = async (data: FormValues) => {
+    setGeneralError("");
+
+    try {
+      await changePassword(data as ChangePasswordPayload);
+      navigate(from, { replace: true });
+    } catch (err) {
+      log.error("Password change error:", err);
+
+      // Feldbezogene Fehler direkt unter dem Eingabefeld anzeigen
+      const message = applyApiErrors(err, setError, { fields: FIELD_NAMES });
+      if (message) setGeneralError(message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-white p-4">
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-100 w-full max-w-sm overflow-hidden">
+        {/* --- Header-Bereich --- */}
+        <div className="relative p-6 text-center bg-gradient-to-r from-gray-900 to-gray-800 overflow-hidden">
+          <div className="absolute inset-0 bg-[#ff863d] opacity-10"></div>
+          <div className="relative">
+            <h1 className="text-xl font-bold text-white tracking-wide">
+              Passwort ändern
+            </h1>
+            <p className="text-xs text-white/80 mt-1">
+              Bitte ersetzen Sie Ihr temporäres Passwort
+            </p>
+          </div>
+        </div>
+
+        {/* --- Formular-Bereich --- */}
+        <div className="p-8">
+          {generalError && (
+            <p className="text-red-600 text-sm mb-4 text-center">
+              {generalError}
+            </p>
+          )}
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+            <PasswordInput
+              label="Aktuelles Passwort"
+              autoComplete="current-password"
+              disabled={isSubmitting}
+              error={errors.old_password?.message}
+              {...register("old_password")}
+            />
+
+            <div className="space-y-2">
+              <PasswordInput
+                label="Neues Passwort"
+                autoComplete="new-password"
+                disabled={isSubmitting}
+                error={errors.new_password?.message}
+                {...register("new_password")}
+              />
+              <PasswordStrengthMeter password={newPassword} />
+            </div>
+
+            <PasswordInput
+              label="Neues Passwort bestätigen"
+              autoComplete="new-password"
+              disabled={isSubmitting}
+              error={errors.new_password_confirm?.message}
+              {...register("new_password_confirm")}
+            />
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full inline-flex items-center justify-center bg-[#ff863d] hover:bg-[#ed7c34] disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-white font-semibold py-2 rounded-lg shadow focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#ff863d]"
+            >
+              {isSubmitting ? "Speichern..." : "Passwort ändern"}
+            </button>
+          </form>
+
+          <button
+            type="button"
+            onClick={handleLogout}
+            className="mt-4 w-full text-sm text-gray-500 hover:text-gray-700"
+          >
+            Abmelden
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassword;
@@ -4,7 +4,8 @@
  * Zentrale Verwaltungsseite für:
  * - Abteilungen (Departments)
  * - Positionen (Positions)
- * - Mitarbeiter (Employees)
+ * - Mitarbeiter (Employees), mit Auswahl mehrerer Mitarbeiter zum
+ *   Aktivieren/Deaktivieren und Zuweisen einer Abteilung
  */
 
 import React, { useState, useEffect } from "react";
@@ -19,6 +20,8 @@ import {
   Filter,
   AlertCircle,
   CheckCircle,
+  Power,
+  PowerOff,
 } from "lucide-react";
 import clsx from "clsx";
 import {
@@ -26,10 +29,21 @@ import {
   type Department,
   type Position,
   type Employee,
+  type EmployeeCreate,
 } from "../services/employeeApi";
+import { getErrorMessage, isAbortError } from "../services/apiError";
 import DepartmentForm from "../components/forms/DepartmentForm";
 import PositionForm from "../components/forms/PositionForm";
 import EmployeeForm from "../components/forms/EmployeeForm";
+import {
+  DataTable,
+  type RowSelection,
+  type TableColumn,
+} from "../components/tables";
+import { useRowSelection } from "../hooks/useRowSelection";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("EmployeeManagement");
 
 type ActiveTab = "departments" | "positions" | "employees";
 type ModalState = "closed" | "create" | "edit";
@@ -52,6 +66,15 @@ const EmployeeManagement: React.FC = () => {
   const [positions, setPositions] = useState<Position[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
+  const [bulkUpdating, setBulkUpdating] = useState(false);
+
+  // Auswahl bezieht sich auf die angezeigte Liste
+  const {
+    selection,
+    setSelection,
+    clear: clearSelection,
+    isSelected,
+  } = useRowSelection(JSON.stringify([activeTab, searchTerm, showInactive]));
 
   // Load data on component mount
   useEffect(() => {
@@ -70,7 +93,7 @@ const EmployeeManagement: React.FC = () => {
       setPositions(posData);
       setEmployees(empData);
     } catch (error) {
-      console.error("Fehler beim Laden der Daten:", error);
+      log.error("Fehler beim Laden der Daten:", error);
       alert("Fehler beim Laden der Mitarbeiterdaten");
     } finally {
       setLoading(false);
@@ -106,11 +129,41 @@ const EmployeeManagement: React.FC = () => {
       }
       await loadAllData();
       alert(`${name} wurde erfolgreich gelöscht.`);
-    } catch (error: any) {
-      console.error("Fehler beim Löschen:", error);
-      alert(
-        `Fehler beim Löschen: ${error.response?.data?.message || error.message}`
-      );
+    } catch (error) {
+      log.error("Fehler beim Löschen:", error);
+      alert(`Fehler beim Löschen: ${getErrorMessage(error)}`);
+    }
+  };
+
+  // Gleiche Änderung für alle ausgewählten Mitarbeiter
+  const handleBulkUpdate = async (
+    data: Partial<EmployeeCreate>,
+    question: string
+  ) => {
+    const ids = filteredEmployees
+      .filter((employee) => isSelected(employee.id))
+      .map((employee) => employee.id);
+    if (ids.length === 0 || !confirm(question)) return;
+
+    setBulkUpdating(true);
+    try {
+      const { updated, failed } = await employeeAPI.updateEmployees(ids, data);
+      if (failed.length > 0) {
+        log.error("Fehler bei der Sammeländerung:", failed);
+        alert(
+          `${updated.length} von ${ids.length} Mitarbeitern geändert. ` +
+            `Fehler: ${getErrorMessage(failed[0].error)}`
+        );
+      }
+      clearSelection();
+      await loadAllData();
+    } catch (error) {
+      // Abgelehnte Bestätigung (Produktion) - nichts geändert
+      if (isAbortError(error)) return;
+      log.error("Fehler bei der Sammeländerung:", error);
+      alert(`Fehler bei der Sammeländerung: ${getErrorMessage(error)}`);
+    } finally {
+      setBulkUpdating(false);
     }
   };
 
@@ -298,6 +351,29 @@ const EmployeeManagement: React.FC = () => {
                 employees={filteredEmployees}
                 onEdit={(id, data) => handleEdit("employees", id, data)}
                 onDelete={(id, name) => handleDelete("employees", id, name)}
+                selection={selection}
+                onSelectionChange={setSelection}
+                bulkActions={
+                  <EmployeeBulkActions
+                    departments={departments.filter((d) => d.is_active)}
+                    disabled={bulkUpdating}
+                    onSetActive={(active) =>
+                      handleBulkUpdate(
+                        { is_active: active },
+                        `Ausgewählte Mitarbeiter ${
+                          active ? "aktivieren" : "deaktivieren"
+                        }?`
+                      )
+                    }
+                    onAssignDepartment={(department) =>
+                      handleBulkUpdate(
+                        { department: department.id },
+                        `Ausgewählte Mitarbeiter der Abteilung ` +
+                          `"${department.name}" zuweisen?`
+                      )
+                    }
+                  />
+                }
               />
             )}
           </div>
@@ -508,112 +584,179 @@ const PositionTable: React.FC<TableProps & { positions: Position[] }> = ({
   </div>
 );
 
-const EmployeeTable: React.FC<TableProps & { employees: Employee[] }> = ({
+interface EmployeeTableProps extends TableProps {
+  employees: Employee[];
+  selection: RowSelection;
+  onSelectionChange: (selection: RowSelection) => void;
+  bulkActions: React.ReactNode;
+}
+
+const EmployeeTable: React.FC<EmployeeTableProps> = ({
   employees,
   onEdit,
   onDelete,
-}) => (
-  <div className="overflow-x-auto">
-    <table className="min-w-full divide-y divide-gray-200">
-      <thead className="bg-gray-50">
-        <tr>
-          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            Name
-          </th>
-          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            E-Mail
-          </th>
-          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            Abteilung
-          </th>
-          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            Position
-          </th>
-          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            Max. Stunden
-          </th>
-          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            Status
-          </th>
-          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            Aktionen
-          </th>
-        </tr>
-      </thead>
-      <tbody className="bg-white divide-y divide-gray-200">
-        {employees.map((employee) => (
-          <tr key={employee.id} className="hover:bg-gray-50">
-            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-              {employee.full_name}
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-              {employee.email}
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-              {employee.department.name}
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-              {employee.position.title}
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-              {employee.max_working_hours}h/Woche
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap">
-              <span
-                className={clsx(
-                  "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
-                  employee.is_active
-                    ? "bg-green-100 text-green-800"
-                    : "bg-red-100 text-red-800"
-                )}
-              >
-                {employee.is_active ? (
-                  <>
-                    <CheckCircle className="h-3 w-3 mr-1" />
-                    Aktiv
-                  </>
-                ) : (
-                  <>
-                    <AlertCircle className="h-3 w-3 mr-1" />
-                    Inaktiv
-                  </>
-                )}
-              </span>
-            </td>
-            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-              <button
-                onClick={() =>
-                  onEdit(employee.id, {
-                    first_name: employee.first_name,
-                    last_name: employee.last_name,
-                    email: employee.email,
-                    department: employee.department.id,
-                    position: employee.position.id,
-                    max_working_hours: employee.max_working_hours,
-                    is_active: employee.is_active,
-                  })
-                }
-                className="text-[#ff863d] hover:text-[#ed7c34] mr-4"
-              >
-                <Edit className="h-4 w-4" />
-              </button>
-              <button
-                onClick={() => onDelete(employee.id, employee.full_name)}
-                className="text-red-600 hover:text-red-900"
-              >
-                <Trash2 className="h-4 w-4" />
-              </button>
-            </td>
-          </tr>
+  selection,
+  onSelectionChange,
+  bulkActions,
+}) => {
+  const columns: TableColumn<Employee>[] = [
+    {
+      key: "full_name",
+      header: "Name",
+      className: "font-medium",
+    },
+    { key: "email", header: "E-Mail", className: "text-gray-500" },
+    {
+      key: "department",
+      header: "Abteilung",
+      className: "text-gray-500",
+      render: (department: Department) => department.name,
+    },
+    {
+      key: "position",
+      header: "Position",
+      className: "text-gray-500",
+      render: (position: Position) => position.title,
+    },
+    {
+      key: "max_working_hours",
+      header: "Max. Stunden",
+      className: "text-gray-500",
+      render: (hours: number) => `${hours}h/Woche`,
+    },
+    {
+      key: "is_active",
+      header: "Status",
+      render: (isActive: boolean) => (
+        <span
+          className={clsx(
+            "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
+            isActive ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+          )}
+        >
+          {isActive ? (
+            <>
+              <CheckCircle className="h-3 w-3 mr-1" />
+              Aktiv
+            </>
+          ) : (
+            <>
+              <AlertCircle className="h-3 w-3 mr-1" />
+              Inaktiv
+            </>
+          )}
+        </span>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Aktionen",
+      className: "font-medium",
+      render: (_value, employee) => (
+        <>
+          <button
+            onClick={() =>
+              onEdit(employee.id, {
+                first_name: employee.first_name,
+                last_name: employee.last_name,
+                email: employee.email,
+                department: employee.department.id,
+                position: employee.position.id,
+                max_working_hours: employee.max_working_hours,
+                is_active: employee.is_active,
+              })
+            }
+            className="text-[#ff863d] hover:text-[#ed7c34] mr-4"
+          >
+            <Edit className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => onDelete(employee.id, employee.full_name)}
+            className="text-red-600 hover:text-red-900"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </>
+      ),
+    },
+  ];
+
+  return (
+    <DataTable<Employee>
+      columns={columns}
+      data={employees}
+      emptyMessage="Keine Mitarbeiter gefunden"
+      bordered={false}
+      selection={selection}
+      onSelectionChange={onSelectionChange}
+      getRowKey={(employee) => employee.id}
+      bulkActions={bulkActions}
+    />
+  );
+};
+
+interface EmployeeBulkActionsProps {
+  // Zur Auswahl stehende (aktive) Abteilungen
+  departments: Department[];
+  disabled: boolean;
+  onSetActive: (active: boolean) => void;
+  onAssignDepartment: (department: Department) => void;
+}
+
+const EmployeeBulkActions: React.FC<EmployeeBulkActionsProps> = ({
+  departments,
+  disabled,
+  onSetActive,
+  onAssignDepartment,
+}) => {
+  const [departmentId, setDepartmentId] = useState("");
+  const department = departments.find((d) => String(d.id) === departmentId);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => onSetActive(true)}
+        disabled={disabled}
+        className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        <Power className="h-4 w-4 mr-2 text-green-600" />
+        Aktivieren
+      </button>
+      <button
+        type="button"
+        onClick={() => onSetActive(false)}
+        disabled={disabled}
+        className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        <PowerOff className="h-4 w-4 mr-2 text-red-600" />
+        Deaktivieren
+      </button>
+      <select
+        value={departmentId}
+        onChange={(e) => setDepartmentId(e.target.value)}
+        disabled={disabled}
+        className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-[#ff863d] focus:border-[#ff863d]"
+        aria-label="Neue Abteilung"
+      >
+        <option value="">Abteilung wählen...</option>
+        {departments.map((d) => (
+          <option key={d.id} value={d.id}>
+            {d.name}
+          </option>
         ))}
-      </tbody>
-    </table>
-    {employees.length === 0 && (
-      <div className="text-center py-8 text-gray-500">
-        Keine Mitarbeiter gefunden
-      </div>
-    )}
-  </div>
-);
+      </select>
+      <button
+        type="button"
+        onClick={() => department && onAssignDepartment(department)}
+        disabled={disabled || !department}
+        className="inline-flex items-center px-3 py-1.5 text-sm bg-[#ff863d] text-white rounded-lg hover:bg-[#ed7c34] disabled:opacity-50"
+      >
+        <Building2 className="h-4 w-4 mr-2" />
+        Zuweisen
+      </button>
+    </>
+  );
+};
 
 export default EmployeeManagement;
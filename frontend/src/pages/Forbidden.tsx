@@ -0,0 +1,67 @@
+/**
+ * Forbidden Page Component - DSP Database Overview
+ *
+ * Diese Seite wird angezeigt, wenn ein angemeldeter Benutzer eine Route
+ * ohne die erforderlichen Rollen aufruft:
+ * - Verständliche Meldung statt leerer Seite
+ * - Anzeige der fehlenden Berechtigung
+ * - Rücksprung zum Dashboard
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import React from "react";
+import { Link } from "react-router-dom";
+import { ShieldAlert, Home } from "lucide-react";
+import type { UserRole } from "../services/authService";
+
+interface ForbiddenProps {
+  requiredRoles?: UserRole[];
+}
+
+// Lesbare Bezeichnungen für die Rollen
+const ROLE_LABELS: Record<UserRole, string> = {
+  staff: "Staff",
+  superuser: "Superuser",
+};
+
+/**
+ * Forbidden-Komponente (HTTP 403 Äquivalent)
+ *
+ * @param requiredRoles - Rollen, die für die Route erforderlich sind
+ */
+const Forbidden: React.FC<ForbiddenProps> = ({ requiredRoles = [] }) => {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+      <div className="max-w-md w-full bg-white rounded-lg p-8 shadow-sm border border-red-200 text-center">
+        <div className="flex items-center justify-center w-12 h-12 bg-red-100 rounded-lg mx-auto mb-4">
+          <ShieldAlert className="h-6 w-6 text-red-600" />
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">
+          Zugriff verweigert
+        </h3>
+        <p className="text-gray-600 text-sm">
+          Sie verfügen nicht über die erforderlichen Berechtigungen, um diese
+          Seite zu öffnen.
+        </p>
+        {requiredRoles.length > 0 && (
+          <p className="text-gray-500 text-xs mt-2">
+            Erforderliche Rolle:{" "}
+            {requiredRoles.map((role) => ROLE_LABELS[role]).join(", ")}
+          </p>
+        )}
+        <Link
+          to="/"
+          className="mt-6 inline-flex items-center space-x-2 bg-[#ff863d] hover:bg-[#ed7c34] text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          <Home className="h-4 w-4" />
+          <span>Zum Dashboard</span>
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -20,8 +20,12 @@
  */
 
 import React, { useState } from "react";
-import { authService } from "../services/authService";
-import { useNavigate, useLocation } from "react-router-dom";
+import { CHANGE_PASSWORD_ROUTE } from "../services/authService";
+import { useAuth } from "../contexts/AuthContext";
+import { Navigate, useNavigate, useLocation } from "react-router-dom";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("Login");
 
 /**
  * Login-Komponente für die Benutzerauthentifizierung
@@ -36,6 +40,9 @@ const Login: React.FC = () => {
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
+  // --- Authentifizierung ---
+  const { login, isAuthenticated } = useAuth();
+
   // --- Navigation und Location ---
   const navigate = useNavigate();
   const location = useLocation();
@@ -43,6 +50,11 @@ const Login: React.FC = () => {
   // Ursprünglich angefragte Seite aus dem State holen
   const from = location.state?.from?.pathname || "/";
 
+  // Anmeldung in einem anderen Tab - direkt zur angefragten Seite weiter
+  if (isAuthenticated && !isLoading) {
+    return <Navigate to={from} replace />;
+  }
+
   /**
    * Formular-Submit-Handler für die Authentifizierung
    *
@@ -60,17 +72,22 @@ const Login: React.FC = () => {
       setIsLoading(true);
       setError("");
 
-      // Authentifizierung durchführen
-      const tokens = await authService.login(username, password);
+      // Authentifizierung durchführen (Tokens speichert der AuthProvider)
+      const tokens = await login(username, password);
 
-      // Token im localStorage speichern
-      localStorage.setItem("access", tokens.access);
-      localStorage.setItem("refresh", tokens.refresh);
+      // Temporäres Passwort - zuerst Passwortänderung erzwingen
+      if (tokens.force_password_change) {
+        navigate(CHANGE_PASSWORD_ROUTE, {
+          replace: true,
+          state: { from: location.state?.from },
+        });
+        return;
+      }
 
       // Zur ursprünglich angefragten Seite weiterleiten
       navigate(from, { replace: true });
     } catch (err) {
-      console.error("Login error:", err);
+      log.error("Login error:", err);
       setError("Login fehlgeschlagen – bitte Daten prüfen.");
     } finally {
       setIsLoading(false);
@@ -8,7 +8,7 @@
  * - Schnellzugriff auf wichtige Bereiche
  */
 
-import React, { useState, useEffect } from "react";
+import React from "react";
 import { Link } from "react-router-dom";
 import {
   Database,
@@ -16,14 +16,13 @@ import {
   GitBranch,
   BarChart3,
   Settings,
-  AlertTriangle,
   ArrowRight,
   Activity,
   TrendingUp,
   Shield,
 } from "lucide-react";
-import { dbOverviewAPI, type DatabaseSchemaResponse } from "../services/api";
-import { LoadingSpinner } from "../components/common";
+import { useDatabaseSchema } from "../hooks/useDbOverview";
+import { LoadErrorState, LoadingSpinner } from "../components/common";
 
 interface QuickStat {
   label: string;
@@ -44,28 +43,12 @@ interface NavigationCard {
 }
 
 const Overview: React.FC = () => {
-  const [schemaData, setSchemaData] = useState<DatabaseSchemaResponse | null>(
-    null
-  );
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchSchemaData = async () => {
-      try {
-        setLoading(true);
-        const data = await dbOverviewAPI.getDatabaseSchema();
-        setSchemaData(data);
-      } catch (err) {
-        setError("Fehler beim Laden der Schema-Daten");
-        console.error("Schema loading error:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchSchemaData();
-  }, []);
+  const {
+    data: schemaData,
+    isPending: loading,
+    error,
+    refetch,
+  } = useDatabaseSchema();
 
   if (loading) {
     return (
@@ -83,15 +66,11 @@ const Overview: React.FC = () => {
 
   if (error) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
-        <div className="max-w-md w-full bg-white rounded-lg p-8 shadow-sm border border-red-200">
-          <div className="flex items-center justify-center w-12 h-12 bg-red-100 rounded-lg mx-auto mb-4">
-            <AlertTriangle className="h-6 w-6 text-red-600" />
-          </div>
-          <h3 className="text-lg font-semibold text-gray-900 text-center mb-2">Fehler beim Laden</h3>
-          <p className="text-gray-600 text-center text-sm">{error}</p>
-        </div>
-      </div>
+      <LoadErrorState
+        message="Fehler beim Laden der Schema-Daten"
+        error={error}
+        onRetry={() => refetch()}
+      />
     );
   }
 
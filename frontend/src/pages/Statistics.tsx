@@ -8,7 +8,7 @@
  * - Detaillierte Tabellenanalyse
  */
 
-import React, { useState, useEffect } from "react";
+import React from "react";
 import {
   BarChart3,
   Database,
@@ -19,57 +19,34 @@ import {
   Clock,
   Zap,
   Loader2,
-  AlertTriangle,
   RefreshCw,
   PieChart,
   BarChart,
   Calendar,
 } from "lucide-react";
 import {
-  dbOverviewAPI,
-  type DatabaseStatistics,
-  type DatabaseSchemaResponse,
-} from "../services/api";
+  useDatabaseSchema,
+  useDatabaseStatistics,
+  useRefreshDatabaseOverview,
+} from "../hooks/useDbOverview";
+import { LoadErrorState } from "../components/common";
 
 const Statistics: React.FC = () => {
-  const [statistics, setStatistics] = useState<DatabaseStatistics | null>(null);
-  const [schemaData, setSchemaData] = useState<DatabaseSchemaResponse | null>(
-    null
-  );
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [refreshing, setRefreshing] = useState(false);
+  const statisticsQuery = useDatabaseStatistics();
+  const schemaQuery = useDatabaseSchema();
+  const refreshDatabaseOverview = useRefreshDatabaseOverview();
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      const [statsData, schemaResponse] = await Promise.all([
-        dbOverviewAPI.getDatabaseStatistics(),
-        dbOverviewAPI.getDatabaseSchema(),
-      ]);
-      setStatistics(statsData);
-      setSchemaData(schemaResponse);
-    } catch (err) {
-      setError("Fehler beim Laden der Statistiken");
-      console.error("Statistics loading error:", err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const statistics = statisticsQuery.data;
+  const schemaData = schemaQuery.data;
+  const loading = statisticsQuery.isPending || schemaQuery.isPending;
+  const loadError = statisticsQuery.error ?? schemaQuery.error;
+  const refreshing = statisticsQuery.isFetching || schemaQuery.isFetching;
 
-  const handleRefresh = async () => {
-    setRefreshing(true);
-    try {
-      await fetchData();
-    } finally {
-      setRefreshing(false);
-    }
+  // Schema und Statistiken im gemeinsamen Cache neu laden
+  const handleRefresh = () => {
+    refreshDatabaseOverview();
   };
 
-  useEffect(() => {
-    fetchData();
-  }, []);
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -83,17 +60,13 @@ const Statistics: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (loadError) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
-        <div className="max-w-md w-full bg-white rounded-lg p-8 shadow-sm border border-red-200">
-          <div className="flex items-center justify-center w-12 h-12 bg-red-100 rounded-lg mx-auto mb-4">
-            <AlertTriangle className="h-6 w-6 text-red-600" />
-          </div>
-          <h3 className="text-lg font-semibold text-gray-900 text-center mb-2">Fehler beim Laden</h3>
-          <p className="text-gray-600 text-center text-sm">{error}</p>
-        </div>
-      </div>
+      <LoadErrorState
+        message="Fehler beim Laden der Statistiken"
+        error={loadError}
+        onRetry={handleRefresh}
+      />
     );
   }
 
@@ -11,7 +11,7 @@
  * - Schema-Informationen mit Tooltips
  */
 
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
 import {
   Table,
   Search,
@@ -44,13 +44,17 @@ import {
   CheckSquare,
   Square,
 } from "lucide-react";
+import { type ModelInfo, type SchemaField } from "../services/api";
 import {
-  dbOverviewAPI,
-  type DatabaseSchemaResponse,
-  type TableDataResponse,
-  type ModelInfo,
-  type SchemaField,
-} from "../services/api";
+  createEmptyFilter,
+  hasInvalidConditions,
+  toFilterParam,
+  type RelationKeyResolver,
+  type TableFilter,
+} from "../services/tableFilters";
+import { getForeignKeyTargetField } from "../services/schemaRelations";
+import { useDatabaseSchema, useTableData } from "../hooks/useDbOverview";
+import { FilterBuilder } from "../components";
 
 interface TableRecord {
   [key: string]: any;
@@ -62,26 +66,13 @@ interface ColumnConfig {
   width?: number;
 }
 
-interface FilterConfig {
-  column: string;
-  operator: "contains" | "equals" | "gt" | "lt" | "not_null" | "is_null";
-  value: string;
-}
-
 interface SortConfig {
   column: string;
   direction: "asc" | "desc";
 }
 
 const TableBrowser: React.FC = () => {
-  const [schemaData, setSchemaData] = useState<DatabaseSchemaResponse | null>(
-    null
-  );
   const [selectedModel, setSelectedModel] = useState<ModelInfo | null>(null);
-  const [tableData, setTableData] = useState<TableDataResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [dataLoading, setDataLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(50);
   const [searchTerm, setSearchTerm] = useState("");
@@ -91,29 +82,49 @@ const TableBrowser: React.FC = () => {
 
   // Neue professionelle Features
   const [columns, setColumns] = useState<ColumnConfig[]>([]);
-  const [filters, setFilters] = useState<FilterConfig[]>([]);
+  // Angewendeter Filter und Entwurf im Filter-Builder
+  const [filters, setFilters] = useState<TableFilter>(createEmptyFilter);
+  const [filterDraft, setFilterDraft] =
+    useState<TableFilter>(createEmptyFilter);
   const [sort, setSort] = useState<SortConfig | null>(null);
   const [showColumnManager, setShowColumnManager] = useState(false);
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
-  const [queryTime, setQueryTime] = useState<number | null>(null);
   const [showRelatedTables, setShowRelatedTables] = useState(false);
 
-  useEffect(() => {
-    const fetchSchemaData = async () => {
-      try {
-        setLoading(true);
-        const data = await dbOverviewAPI.getDatabaseSchema();
-        setSchemaData(data);
-      } catch (err) {
-        setError("Fehler beim Laden der Schema-Daten");
-        console.error("Schema loading error:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchSchemaData();
-  }, []);
+  // Schema und Tabellendaten aus dem gemeinsamen Query-Cache
+  const {
+    data: schemaData,
+    isPending: loading,
+    error: schemaError,
+  } = useDatabaseSchema();
+  // ForeignKey-Werte im Filter nach dem Schlüsseltyp des Ziel-Models
+  const getRelationKey = useCallback<RelationKeyResolver>(
+    (field) =>
+      selectedModel
+        ? getForeignKeyTargetField(schemaData, selectedModel, field)
+        : null,
+    [schemaData, selectedModel]
+  );
+  const filterParam = useMemo(
+    () =>
+      selectedModel
+        ? toFilterParam(filters, selectedModel.fields, getRelationKey)
+        : null,
+    [filters, selectedModel, getRelationKey]
+  );
+  const tableQuery = useTableData(selectedModel, {
+    page: currentPage,
+    pageSize,
+    filters: filterParam,
+  });
+  const tableData = tableQuery.data ?? null;
+  const queryTime = tableQuery.data?.queryTime ?? null;
+  const dataLoading = tableQuery.isFetching;
+  const error = schemaError
+    ? "Fehler beim Laden der Schema-Daten"
+    : tableQuery.error
+    ? "Fehler beim Laden der Tabellendaten"
+    : null;
 
   useEffect(() => {
     if (selectedModel) {
@@ -127,43 +138,12 @@ const TableBrowser: React.FC = () => {
       );
       setColumns(columnConfig);
       setCurrentPage(1);
-      setFilters([]);
+      setFilters(createEmptyFilter());
+      setFilterDraft(createEmptyFilter());
       setSort(null);
-      fetchTableData();
     }
   }, [selectedModel]);
 
-  useEffect(() => {
-    if (selectedModel && (currentPage !== 1 || sort || filters.length > 0)) {
-      fetchTableData();
-    }
-  }, [currentPage, pageSize, sort, filters]);
-
-  const fetchTableData = async () => {
-    if (!selectedModel) return;
-
-    try {
-      setDataLoading(true);
-      const startTime = Date.now();
-
-      const data = await dbOverviewAPI.getTableData(
-        selectedModel.app_label,
-        selectedModel.model_name,
-        currentPage,
-        pageSize
-      );
-
-      const endTime = Date.now();
-      setQueryTime(endTime - startTime);
-      setTableData(data);
-    } catch (err) {
-      setError("Fehler beim Laden der Tabellendaten");
-      console.error("Table data loading error:", err);
-    } finally {
-      setDataLoading(false);
-    }
-  };
-
   const getDefaultColumnWidth = (field: SchemaField): number => {
     if (field.primary_key) return 80;
     if (field.type.includes("Boolean")) return 60;
@@ -283,27 +263,17 @@ const TableBrowser: React.FC = () => {
     );
   };
 
-  const addFilter = () => {
-    setFilters((prev) => [
-      ...prev,
-      { column: "", operator: "contains", value: "" },
-    ]);
-  };
-
-  const updateFilter = (
-    index: number,
-    field: keyof FilterConfig,
-    value: string
-  ) => {
-    setFilters((prev) =>
-      prev.map((filter, i) =>
-        i === index ? { ...filter, [field]: value } : filter
-      )
-    );
-  };
-
-  const removeFilter = (index: number) => {
-    setFilters((prev) => prev.filter((_, i) => i !== index));
+  // Filter wirken serverseitig auf die ganze Tabelle - zurück auf Seite 1
+  // Ungültige Werte bleiben im Builder markiert statt zu entfallen
+  const applyFilters = () => {
+    if (
+      selectedModel &&
+      hasInvalidConditions(filterDraft, selectedModel.fields, getRelationKey)
+    ) {
+      return;
+    }
+    setFilters(filterDraft);
+    setCurrentPage(1);
   };
 
   const navigateToRelatedTable = (
@@ -673,55 +643,18 @@ const TableBrowser: React.FC = () => {
               Erweiterte Filter
             </h3>
             <button
-              onClick={addFilter}
-              className="text-sm text-dsp-orange hover:text-dsp-orange_medium"
+              onClick={applyFilters}
+              className="text-sm font-medium text-dsp-orange hover:text-dsp-orange_medium"
             >
-              + Filter hinzufügen
+              Filter anwenden
             </button>
           </div>
-          {filters.map((filter, index) => (
-            <div key={index} className="flex items-center space-x-2 mb-2">
-              <select
-                value={filter.column}
-                onChange={(e) => updateFilter(index, "column", e.target.value)}
-                className="px-3 py-1 border border-gray-300 rounded text-sm"
-              >
-                <option value="">Spalte wählen</option>
-                {selectedModel.fields.map((field) => (
-                  <option key={field.name} value={field.name}>
-                    {field.name}
-                  </option>
-                ))}
-              </select>
-              <select
-                value={filter.operator}
-                onChange={(e) =>
-                  updateFilter(index, "operator", e.target.value as any)
-                }
-                className="px-3 py-1 border border-gray-300 rounded text-sm"
-              >
-                <option value="contains">enthält</option>
-                <option value="equals">gleich</option>
-                <option value="gt">größer als</option>
-                <option value="lt">kleiner als</option>
-                <option value="not_null">nicht null</option>
-                <option value="is_null">ist null</option>
-              </select>
-              <input
-                type="text"
-                value={filter.value}
-                onChange={(e) => updateFilter(index, "value", e.target.value)}
-                placeholder="Wert"
-                className="px-3 py-1 border border-gray-300 rounded text-sm"
-              />
-              <button
-                onClick={() => removeFilter(index)}
-                className="text-red-500 hover:text-red-700"
-              >
-                ×
-              </button>
-            </div>
-          ))}
+          <FilterBuilder
+            fields={selectedModel.fields}
+            value={filterDraft}
+            onChange={setFilterDraft}
+            getRelationKey={getRelationKey}
+          />
         </div>
       )}
 
@@ -771,7 +704,7 @@ const TableBrowser: React.FC = () => {
                 JSON
               </button>
               <button
-                onClick={fetchTableData}
+                onClick={() => tableQuery.refetch()}
                 disabled={dataLoading}
                 className="inline-flex items-center px-3 py-1 border border-gray-300 rounded text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
               >
@@ -977,7 +910,7 @@ const TableBrowser: React.FC = () => {
       {/* Main Table */}
       {selectedModel ? (
         <div className="bg-white rounded-lg shadow-sm">
-          {dataLoading ? (
+          {tableQuery.isPending || tableQuery.isPlaceholderData ? (
             <div className="p-8 text-center">
               <Loader2 className="h-8 w-8 animate-spin text-dsp-orange mx-auto mb-4" />
               <p className="text-gray-600">Lade Tabellendaten...</p>
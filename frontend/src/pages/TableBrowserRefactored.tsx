@@ -4,13 +4,35 @@
  * Verwendet generische, wiederverwendbare Komponenten für:
  * - Model-Auswahl mit Dropdown
  * - Tabellen-Controls (Export, Pagination, etc.)
- * - Generische DataTable
+ * - Generische DataTable mit serverseitiger (mehrspaltiger) Sortierung,
+ *   virtualisiert (nur sichtbare Zeilen und Spalten im DOM)
+ * - Blättern oder Endlos-Scrollen (lädt beim Scrollen weitere Seiten)
+ * - Filter-Builder für serverseitige Filter (UND/ODER-Gruppen)
+ * - Export der ganzen (gefilterten) Tabelle statt nur der aktuellen Seite
+ * - Detail-Seitenleiste je Datensatz mit Navigation über ForeignKeys und
+ *   eingehende Beziehungen
+ * - Anlegen, Bearbeiten und Löschen beliebiger Datensätze für Superuser
+ *   (Formular aus dem Schema, Vorschau der Auswirkungen vor dem Löschen)
+ * - CSV-Import mit Spaltenzuordnung und Probelauf (nur Superuser)
+ * - Ansicht (Model, Seite, Sortierung, Filter, Spalten) in der URL, damit
+ *   sie als Link geteilt werden kann (siehe useTableBrowserUrl)
+ * - Spaltenauswahl mit Reihenfolge und Breiten, benannte Ansichten je Model
+ *   mit Standard-Ansicht (siehe services/savedViews.ts)
+ * - Spalten direkt in der Tabelle anpassen: Breite und Reihenfolge ziehen,
+ *   links/rechts anheften, ausblenden (Teil der Ansicht)
+ * - Zeilenauswahl (auch alle passenden Datensätze) mit Export, Kopieren als
+ *   JSON/TSV und Löschen (nur Superuser)
  * - Cards für strukturierte Layouts
  */
 
-import React, { useState, useEffect, useMemo } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
-  AlertTriangle,
   Database,
   Table,
   Key,
@@ -19,21 +41,60 @@ import {
   Calendar,
   ToggleLeft,
   Link,
-  SortAsc,
-  SortDesc
+  Plus,
+  AlertCircle,
 } from "lucide-react";
 import {
-  dbOverviewAPI,
-  type DatabaseSchemaResponse,
-  type TableDataResponse,
   type ModelInfo,
   type SchemaField,
+  type TableFilterParam,
 } from "../services/api";
 import {
+  getForeignKeyModel,
+  getForeignKeyTargetField,
+  getModelKey,
+  getPrimaryKeyName,
+} from "../services/schemaRelations";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  countFilterConditions,
+  fromFilterParam,
+  hasInvalidConditions,
+  toFilterParam,
+  type RelationKeyResolver,
+  type TableFilter,
+} from "../services/tableFilters";
+import {
+  useDatabaseSchema,
+  useInfiniteTableData,
+  useRefreshDatabaseOverview,
+  useTableData,
+} from "../hooks/useDbOverview";
+import { useRowSelection } from "../hooks/useRowSelection";
+import { useSavedViews } from "../hooks/useSavedViews";
+import { useTableBrowserUrl } from "../hooks/useTableBrowserUrl";
+import { savedViews, type TableViewSettings } from "../services/savedViews";
+import {
+  ButtonPrimary,
+  ButtonSecondary,
+  ColumnManager,
+  DataTable,
+  DeleteRecordDialog,
+  ExportDialog,
+  FilterBuilder,
+  ImportDialog,
+  getNextSortConfig,
+  RecordDrawer,
+  RecordFormDialog,
+  SavedViewsPanel,
+  LoadErrorState,
   LoadingSpinner,
   TableControls,
   ModelSelector,
-  type SortConfig,
+  RecordBulkActions,
+  type ColumnPin,
+  type RowKey,
+  type TableColumn,
 } from "../components";
 
 interface ModelWithApp extends ModelInfo {
@@ -44,91 +105,316 @@ interface TableRecord {
   [key: string]: string | number | boolean | null | undefined;
 }
 
+// Spaltenauswahl für die URL - alle Spalten in Schema-Reihenfolge = null
+const toColumnsParam = (columnNames: string[], fields: SchemaField[]) =>
+  columnNames.length === fields.length &&
+  columnNames.every((name, index) => fields[index].name === name)
+    ? null
+    : columnNames;
+
+// Geöffneter Dialog zum Anlegen, Bearbeiten oder Löschen eines Datensatzes
+type RecordAction =
+  | { type: "create"; model: ModelInfo }
+  | { type: "edit"; model: ModelInfo; record: TableRecord }
+  | { type: "delete"; model: ModelInfo; records: TableRecord[] };
+
 const TableBrowserRefactored: React.FC = () => {
-  // State Management
-  const [schemaData, setSchemaData] = useState<DatabaseSchemaResponse | null>(
-    null
-  );
-  const [selectedModel, setSelectedModel] = useState<ModelInfo | null>(null);
-  const [tableData, setTableData] = useState<TableDataResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [dataLoading, setDataLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // Table State
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(50);
-  const [modelSearchTerm, setModelSearchTerm] = useState("");
-  const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
-  const [queryTime, setQueryTime] = useState<number | null>(null);
+  // Ansicht aus der URL (Model, Seite, Sortierung, Filter, Spalten)
+  const { appLabel, modelName, view, hasViewParams, updateView, openModel } =
+    useTableBrowserUrl();
+  const { page: currentPage, pageSize } = view;
 
-  // Load initial schema data
-  useEffect(() => {
-    const fetchSchemaData = async () => {
-      try {
-        setLoading(true);
-        const data = await dbOverviewAPI.getDatabaseSchema();
-        setSchemaData(data);
-      } catch (err) {
-        setError("Fehler beim Laden der Schema-Daten");
-        console.error("Schema loading error:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Lokaler UI-State
+  const [modelSearchTerm, setModelSearchTerm] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [showColumns, setShowColumns] = useState(false);
+  const [showViews, setShowViews] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // Datensatz in der Detail-Seitenleiste (gehört zum Model mit modelKey)
+  const [detailRecord, setDetailRecord] = useState<{
+    modelKey: string;
+    record: TableRecord;
+  } | null>(null);
+  const [recordAction, setRecordAction] = useState<RecordAction | null>(null);
+
+  // Datensätze bearbeiten dürfen nur Superuser (wie im Backend)
+  const { hasRoles } = useAuth();
+  const canEditRecords = hasRoles(["superuser"]);
+  const refreshDatabaseOverview = useRefreshDatabaseOverview();
+
+  // Schema und Tabellendaten aus dem gemeinsamen Query-Cache - überholte
+  // Seiten werden abgebrochen, die vorherige Seite bleibt bis dahin stehen
+  const {
+    data: schemaData,
+    isPending: loading,
+    error: schemaError,
+  } = useDatabaseSchema();
+
+  const selectedModel = useMemo(
+    () =>
+      schemaData?.apps
+        .flatMap((app) => app.models)
+        .find(
+          (model) =>
+            model.app_label === appLabel && model.model_name === modelName
+        ) ?? null,
+    [schemaData, appLabel, modelName]
+  );
+  const fields = useMemo(() => selectedModel?.fields ?? [], [selectedModel]);
 
-    fetchSchemaData();
-  }, []);
+  // Parameter aus Links auf Felder des Models beschränken
+  const sortConfig = useMemo(
+    () =>
+      view.sort.filter((sort) =>
+        fields.some((field) => field.name === sort.key)
+      ),
+    [view.sort, fields]
+  );
+  // ForeignKey-Werte im Filter nach dem Schlüsseltyp des Ziel-Models
+  const getRelationKey = useCallback<RelationKeyResolver>(
+    (field) =>
+      selectedModel
+        ? getForeignKeyTargetField(schemaData, selectedModel, field)
+        : null,
+    [schemaData, selectedModel]
+  );
+  const linkFilter = useMemo(
+    () => fromFilterParam(view.filters, fields),
+    [view.filters, fields]
+  );
+  // Unpassende Werte (z.B. aus einem alten Link) nicht stillschweigend
+  // weglassen - sonst zeigte die Tabelle ungefiltert alle Datensätze
+  const linkFilterInvalid = useMemo(
+    () => hasInvalidConditions(linkFilter, fields, getRelationKey),
+    [linkFilter, fields, getRelationKey]
+  );
+  const filterParam = useMemo(
+    () =>
+      linkFilterInvalid
+        ? view.filters
+        : toFilterParam(linkFilter, fields, getRelationKey),
+    [linkFilterInvalid, view.filters, linkFilter, fields, getRelationKey]
+  );
+  const visibleFields = useMemo(() => {
+    const selected = (view.columns ?? [])
+      .map((name) => fields.find((field) => field.name === name))
+      .filter((field): field is SchemaField => !!field);
+    return selected.length > 0 ? selected : fields;
+  }, [view.columns, fields]);
+  const columnWidths = useMemo(() => view.widths ?? {}, [view.widths]);
+
+  // Aktuelle Ansicht zum Speichern
+  const viewSettings = useMemo<TableViewSettings>(
+    () => ({
+      pageSize,
+      sort: sortConfig,
+      filters: filterParam,
+      columns: toColumnsParam(
+        visibleFields.map((field) => field.name),
+        fields
+      ),
+      widths: view.widths,
+      pinned: view.pinned,
+    }),
+    [
+      visibleFields,
+      fields,
+      pageSize,
+      sortConfig,
+      filterParam,
+      view.widths,
+      view.pinned,
+    ]
+  );
 
-  // Load table data when model changes
+  // Standard-Ansicht beim Öffnen eines Models ohne Ansicht im Link
+  // (einmal je Modellwechsel, spätere Änderungen bleiben erhalten)
+  const { defaultView } = useSavedViews(
+    selectedModel ? getModelKey(selectedModel) : null
+  );
+  const defaultViewModelRef = useRef<string | null>(null);
   useEffect(() => {
-    if (selectedModel) {
-      setCurrentPage(1);
-      setSortConfig(null);
-      fetchTableData();
-    }
-  }, [selectedModel]);
+    if (!selectedModel) return;
+    const modelKey = getModelKey(selectedModel);
+    if (defaultViewModelRef.current === modelKey) return;
 
-  // Load table data when pagination/sorting changes
-  useEffect(() => {
-    if (selectedModel && (currentPage !== 1 || sortConfig)) {
-      fetchTableData();
+    defaultViewModelRef.current = modelKey;
+    if (defaultView && !hasViewParams) {
+      updateView({ ...defaultView.settings, page: 1 }, { replace: true });
     }
-  }, [currentPage, pageSize, sortConfig]);
+  }, [selectedModel, defaultView, hasViewParams, updateView]);
+
+  // Entwurf im Filter-Builder - folgt dem angewendeten Filter, wenn sich
+  // dieser über die URL ändert (Zurück-Button, geöffneter Link)
+  const appliedFilterKey = `${appLabel}.${modelName}:${JSON.stringify(
+    view.filters
+  )}`;
+  const [filterDraft, setFilterDraft] = useState<TableFilter>(linkFilter);
+  const [draftKey, setDraftKey] = useState(appliedFilterKey);
+  if (draftKey !== appliedFilterKey) {
+    setDraftKey(appliedFilterKey);
+    setFilterDraft(linkFilter);
+  }
+  const draftInvalid = hasInvalidConditions(
+    filterDraft,
+    fields,
+    getRelationKey
+  );
 
-  const fetchTableData = async () => {
-    if (!selectedModel) return;
+  // Ungültiger Filter aus dem Link: keine Abfrage, Builder zeigt den Fehler
+  const queryModel = linkFilterInvalid ? null : selectedModel;
+
+  // Blättern oder Endlos-Scrollen - jeweils nur eine Abfrage aktiv
+  const { infinite } = view;
+  const tableQuery = useTableData(infinite ? null : queryModel, {
+    page: currentPage,
+    pageSize,
+    ordering: sortConfig,
+    filters: filterParam,
+  });
+  const infiniteQuery = useInfiniteTableData(
+    infinite ? queryModel : null,
+    { pageSize, ordering: sortConfig, filters: filterParam }
+  );
+  const activeQuery = infinite ? infiniteQuery : tableQuery;
+
+  const loadedPages = infiniteQuery.data?.pages;
+  const tableData = (infinite ? loadedPages?.at(-1) : tableQuery.data) ?? null;
+  const tableRows = useMemo(
+    () =>
+      (infinite
+        ? loadedPages?.flatMap((page) => page.data)
+        : tableQuery.data?.data) ?? [],
+    [infinite, loadedPages, tableQuery.data]
+  );
+  const queryTime = tableData?.queryTime ?? null;
+  const dataLoading = activeQuery.isFetching;
+  // Nur beim ersten Laden bzw. Wechsel von Model/Seite die Tabelle ersetzen,
+  // nicht bei Hintergrund-Aktualisierungen oder nachgeladenen Seiten
+  const tableLoading = infinite
+    ? infiniteQuery.isPending
+    : tableQuery.isPending || tableQuery.isPlaceholderData;
+
+  // Auswahl gilt nur für die angezeigten Daten - neue Seite, Sortierung
+  // oder Filter leeren sie
+  const primaryKeyName = selectedModel
+    ? getPrimaryKeyName(selectedModel)
+    : "id";
+  const {
+    selection,
+    setSelection,
+    clear: clearSelection,
+    isSelected,
+  } = useRowSelection(
+    JSON.stringify([
+      appLabel,
+      modelName,
+      filterParam,
+      sortConfig,
+      pageSize,
+      infinite || currentPage,
+    ])
+  );
+  const selectedRecords = useMemo(
+    () =>
+      selection.allMatching
+        ? []
+        : tableRows.filter((row) =>
+            isSelected(row[primaryKeyName] as RowKey)
+          ),
+    [selection.allMatching, tableRows, isSelected, primaryKeyName]
+  );
 
-    try {
-      setDataLoading(true);
-      const startTime = Date.now();
+  // Modellwechsel startet mit der Standard-Ansicht (neuer History-Eintrag)
+  const handleModelSelect = (model: ModelInfo) => {
+    openModel(
+      model.app_label,
+      model.model_name,
+      savedViews.getDefault(getModelKey(model))?.settings
+    );
+  };
 
-      const data = await dbOverviewAPI.getTableData(
-        selectedModel.app_label,
-        selectedModel.model_name,
-        currentPage,
-        pageSize
-      );
+  const handlePageChange = (page: number) => {
+    updateView({ page });
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    updateView({ pageSize: size, page: 1 }, { replace: true });
+  };
+
+  const handleInfiniteScrollChange = (enabled: boolean) => {
+    updateView({ infinite: enabled, page: 1 }, { replace: true });
+  };
 
-      const endTime = Date.now();
-      setQueryTime(endTime - startTime);
-      setTableData(data);
-    } catch (err) {
-      setError("Fehler beim Laden der Tabellendaten");
-      console.error("Table data loading error:", err);
-    } finally {
-      setDataLoading(false);
+  // Nächste Seite, sobald das Ende der geladenen Zeilen in Sicht ist - nach
+  // einem Fehler erst wieder über "Aktualisieren"
+  const handleEndReached = () => {
+    if (
+      infiniteQuery.hasNextPage &&
+      !infiniteQuery.isFetchingNextPage &&
+      !infiniteQuery.isFetchNextPageError
+    ) {
+      infiniteQuery.fetchNextPage();
     }
   };
 
+  // Spalten in Anzeigereihenfolge und eigene Breiten (ersetzt den
+  // History-Eintrag)
+  const handleColumnsChange = (
+    columnNames: string[],
+    widths: Record<string, number>
+  ) => {
+    updateView(
+      {
+        columns: toColumnsParam(columnNames, fields),
+        widths: Object.keys(widths).length > 0 ? widths : null,
+      },
+      { replace: true }
+    );
+  };
+
+  // Anpassungen aus der Tabelle selbst (Menü bzw. Ziehen im Header)
+  const handleColumnResize = (key: string, width: number) => {
+    handleColumnsChange(
+      visibleFields.map((field) => field.name),
+      { ...columnWidths, [key]: width }
+    );
+  };
+
+  const handleColumnHide = (key: string) => {
+    const columnNames = visibleFields.map((field) => field.name);
+    if (columnNames.length <= 1) return;
+    handleColumnsChange(
+      columnNames.filter((name) => name !== key),
+      columnWidths
+    );
+  };
+
+  const handleColumnPinChange = (key: string, pin: ColumnPin | null) => {
+    const rest = Object.entries(view.pinned ?? {}).filter(
+      ([name]) => name !== key
+    );
+    const pinned = Object.fromEntries(pin ? [...rest, [key, pin]] : rest);
+    updateView(
+      { pinned: Object.keys(pinned).length > 0 ? pinned : null },
+      { replace: true }
+    );
+  };
+
+  // Gespeicherte Ansicht anwenden (neuer History-Eintrag)
+  const handleApplyView = (settings: TableViewSettings) => {
+    updateView({ ...settings, page: 1 });
+  };
+
   // Helper functions from old TableBrowser
-  const getColumnWidth = (field: SchemaField): string => {
-    if (field.primary_key) return "80px";
-    if (field.type.includes("Boolean")) return "60px";
-    if (field.type.includes("Date")) return "120px";
-    if (field.type.includes("Integer")) return "80px";
-    if (field.max_length && field.max_length < 50) return "120px";
-    return "150px";
+  const getDefaultColumnWidth = (field: SchemaField): number => {
+    if (field.primary_key) return 80;
+    if (field.type.includes("Boolean")) return 60;
+    if (field.type.includes("Date")) return 120;
+    if (field.type.includes("Integer")) return 80;
+    if (field.max_length && field.max_length < 50) return 120;
+    return 150;
   };
 
   const getFieldIcon = (field: SchemaField) => {
@@ -148,40 +434,6 @@ const TableBrowserRefactored: React.FC = () => {
 
 
 
-  const findRelationshipForField = (field: SchemaField) => {
-    if (!selectedModel || !schemaData) return null;
-
-    const relatedTables = schemaData.relationships;
-
-    // Direkte Suche nach Feldname
-    let rel = relatedTables.find((r) => r.field_name === field.name);
-    if (rel) return rel;
-
-    // Suche ohne _id Suffix
-    if (field.name.endsWith("_id")) {
-      const baseFieldName = field.name.slice(0, -3);
-      rel = relatedTables.find((r) => r.field_name === baseFieldName);
-      if (rel) return rel;
-    }
-
-    // Suche ohne _pk Suffix
-    if (field.name.endsWith("_pk")) {
-      const baseFieldName = field.name.slice(0, -3);
-      rel = relatedTables.find((r) => r.field_name === baseFieldName);
-      if (rel) return rel;
-    }
-
-    return null;
-  };
-
-  const getForeignKeyTarget = (field: SchemaField) => {
-    const rel = findRelationshipForField(field);
-    if (rel) {
-      return rel.target.split(".")[1]; // Nur den Model-Namen ohne app_label
-    }
-    return null;
-  };
-
   const formatCellValue = (
     value: string | number | boolean | null | undefined,
     field: SchemaField
@@ -220,147 +472,135 @@ const TableBrowserRefactored: React.FC = () => {
 
 
 
-  const handleSort = (columnKey: string) => {
-    setSortConfig((prev) => {
-      if (prev?.key === columnKey) {
-        return prev.direction === "asc"
-          ? { key: columnKey, direction: "desc" }
-          : null;
-      }
-      return { key: columnKey, direction: "asc" };
+  // Filter wirken auf die ganze Tabelle - zurück auf Seite 1
+  const handleApplyFilter = () => {
+    if (draftInvalid) return;
+    updateView({
+      filters: toFilterParam(filterDraft, fields, getRelationKey),
+      page: 1,
     });
   };
 
-  const handleExportCSV = () => {
-    if (!tableData || !selectedModel) return;
+  const handleResetFilter = () => {
+    updateView({ filters: null, page: 1 });
+  };
 
-    const headers = selectedModel.fields.map((field) => field.name);
-    const rows = tableData.data.map((row) =>
-      headers.map((header) => row[header] || "")
-    );
+  // Absprung aus der Detail-Seitenleiste in eine gefilterte Tabelle
+  const handleOpenTable = (model: ModelInfo, filters: TableFilterParam) => {
+    setDetailRecord(null);
+    openModel(model.app_label, model.model_name, { filters });
+  };
 
-    const csvContent = [
-      headers.join(","),
-      ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${selectedModel.model_name}_data.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+  // Bearbeiten/Löschen aus der Seitenleiste - der Dialog ersetzt sie
+  const handleEditRecord = (model: ModelInfo, record: TableRecord) => {
+    setDetailRecord(null);
+    setRecordAction({ type: "edit", model, record });
   };
 
-  const handleExportJSON = () => {
-    if (!tableData || !selectedModel) return;
-
-    const jsonContent = JSON.stringify(tableData.data, null, 2);
-    const blob = new Blob([jsonContent], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${selectedModel.model_name}_data.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleDeleteRecord = (model: ModelInfo, record: TableRecord) => {
+    setDetailRecord(null);
+    setRecordAction({ type: "delete", model, records: [record] });
   };
 
-  // Custom table rendering with enhanced column headers
-  const renderEnhancedTable = () => {
-    if (!selectedModel || !tableData) return null;
+  // Gespeicherten Datensatz in der Seitenleiste zeigen, Tabellen, Zähler
+  // und Statistiken neu laden
+  const handleRecordSaved = (model: ModelInfo, record: TableRecord) => {
+    setRecordAction(null);
+    setDetailRecord({ modelKey: getModelKey(model), record });
+    refreshDatabaseOverview();
+  };
 
-    return (
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-200 table-fixed">
-          <thead className="bg-gray-50">
-            <tr>
-              {selectedModel.fields.map((field) => (
-                <th
-                  key={field.name}
-                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                  onClick={() => handleSort(field.name)}
-                  style={{
-                    width: getColumnWidth(field),
-                    minWidth: "80px",
-                    maxWidth: "300px",
-                  }}
-                >
-                  <div className="flex flex-col space-y-1">
-                    {/* Spaltenname (dick, prominent) */}
-                    <div className="flex items-center space-x-1">
-                      <span
-                        className="font-bold text-gray-900 text-sm truncate"
-                        title={field.name}
-                      >
-                        {field.name}
-                      </span>
-                      {field.primary_key && (
-                        <Key className="h-3 w-3 text-yellow-500 flex-shrink-0" />
-                      )}
-                      {sortConfig?.key === field.name &&
-                        (sortConfig.direction === "asc" ? (
-                          <SortAsc className="h-3 w-3 flex-shrink-0 text-gray-600" />
-                        ) : (
-                          <SortDesc className="h-3 w-3 flex-shrink-0 text-gray-600" />
-                        ))}
-                    </div>
+  const handleRecordDeleted = () => {
+    setRecordAction(null);
+    clearSelection();
+    refreshDatabaseOverview();
+  };
 
-                    {/* Model-Herkunft und Typ */}
-                    <div className="flex items-center space-x-2">
-                      <div className="flex items-center space-x-1">
-                        {getFieldIcon(field)}
-                        <span className="text-xs text-gray-600 font-medium">
-                          {selectedModel?.model_name}
-                        </span>
-                      </div>
-                      {field.is_relationship &&
-                        (() => {
-                          const targetModel = getForeignKeyTarget(field);
-                          return (
-                            <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700">
-                              FK → {targetModel || "Unknown"}
-                            </span>
-                          );
-                        })()}
-                      <span className="text-xs text-gray-500 truncate">
-                        {field.type.replace("Field", "")}
-                      </span>
-                    </div>
-                  </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {tableData.data.map((record, index) => (
-              <tr key={index} className="hover:bg-gray-50 transition-colors">
-                {selectedModel.fields.map((field) => (
-                  <td
-                    key={field.name}
-                    className="px-4 py-3 text-sm text-gray-900"
-                    style={{
-                      width: getColumnWidth(field),
-                      minWidth: "80px",
-                      maxWidth: "300px",
-                    }}
-                  >
-                    <div
-                      className="truncate"
-                      title={String(record[field.name] || "")}
-                    >
-                      {formatCellValue(record[field.name], field)}
-                    </div>
-                  </td>
-                ))}
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
-    );
+  // Neue Sortierung gilt für die ganze Tabelle - zurück auf Seite 1
+  const handleSort = (columnKey: string, additive: boolean) => {
+    updateView({
+      sort: getNextSortConfig(sortConfig, columnKey, additive),
+      page: 1,
+    });
   };
 
+  // Spalten mit erweiterten Headern (Typ, Herkunft, FK-Ziel)
+  const renderColumnHeader = (field: SchemaField) => (
+    <div className="flex flex-col space-y-1">
+      {/* Spaltenname (dick, prominent) */}
+      <div className="flex items-center space-x-1">
+        <span
+          className="font-bold text-gray-900 text-sm truncate"
+          title={field.name}
+        >
+          {field.name}
+        </span>
+        {field.primary_key && (
+          <Key className="h-3 w-3 text-yellow-500 flex-shrink-0" />
+        )}
+      </div>
+
+      {/* Model-Herkunft und Typ */}
+      <div className="flex items-center space-x-2">
+        <div className="flex items-center space-x-1">
+          {getFieldIcon(field)}
+          <span className="text-xs text-gray-600 font-medium">
+            {selectedModel?.model_name}
+          </span>
+        </div>
+        {field.is_relationship &&
+          (() => {
+            const targetModel = selectedModel
+              ? getForeignKeyModel(schemaData, selectedModel, field)
+              : null;
+            const label = `FK → ${targetModel?.model_name || "Unknown"}`;
+            if (!targetModel) {
+              return (
+                <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-700">
+                  {label}
+                </span>
+              );
+            }
+            // Navigation zur verknüpften Tabelle (neuer History-Eintrag)
+            return (
+              <button
+                type="button"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  openModel(targetModel.app_label, targetModel.model_name);
+                }}
+                className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium normal-case bg-purple-100 text-purple-700 hover:bg-purple-200"
+                title={`Zu ${targetModel.model_name} wechseln`}
+              >
+                {label}
+              </button>
+            );
+          })()}
+        <span className="text-xs text-gray-500 truncate">
+          {field.type.replace("Field", "")}
+        </span>
+      </div>
+    </div>
+  );
+
+  // Eigene Breiten gelten exakt, Standardbreiten zwischen 80 und 300px
+  const columns: TableColumn<TableRecord>[] = visibleFields.map((field) => {
+    const customWidth = columnWidths[field.name]
+      ? `${columnWidths[field.name]}px`
+      : undefined;
+    return {
+      key: field.name,
+      header: field.name,
+      renderHeader: () => renderColumnHeader(field),
+      width: customWidth ?? `${getDefaultColumnWidth(field)}px`,
+      minWidth: customWidth ?? "80px",
+      maxWidth: customWidth ?? "300px",
+      sortable: true,
+      pinned: view.pinned?.[field.name],
+      render: (value) => formatCellValue(value, field),
+    };
+  });
+
   // Render loading state
   if (loading) {
     return (
@@ -377,19 +617,22 @@ const TableBrowserRefactored: React.FC = () => {
   }
 
   // Render error state
-  if (error) {
+  if (schemaError) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
-        <div className="max-w-md w-full bg-white rounded-lg p-8 shadow-sm border border-red-200">
-          <div className="flex items-center justify-center w-12 h-12 bg-red-100 rounded-lg mx-auto mb-4">
-            <AlertTriangle className="h-6 w-6 text-red-600" />
-          </div>
-          <h3 className="text-lg font-semibold text-gray-900 text-center mb-2">
-            Fehler beim Laden
-          </h3>
-          <p className="text-gray-600 text-center text-sm">{error}</p>
-        </div>
-      </div>
+      <LoadErrorState
+        message="Fehler beim Laden der Schema-Daten"
+        error={schemaError}
+      />
+    );
+  }
+
+  if (activeQuery.error) {
+    return (
+      <LoadErrorState
+        message="Fehler beim Laden der Tabellendaten"
+        error={activeQuery.error}
+        onRetry={() => activeQuery.refetch()}
+      />
     );
   }
 
@@ -430,7 +673,7 @@ const TableBrowserRefactored: React.FC = () => {
           <ModelSelector
             models={modelsWithApps}
             selectedModel={selectedModel}
-            onModelSelect={setSelectedModel}
+            onModelSelect={handleModelSelect}
             searchTerm={modelSearchTerm}
             onSearchChange={setModelSearchTerm}
             loading={loading}
@@ -456,17 +699,35 @@ const TableBrowserRefactored: React.FC = () => {
                     </p>
                   </div>
                 </div>
-                {tableData && (
-                  <div className="text-right">
-                    <p className="text-sm font-medium text-gray-900">
-                      {tableData.pagination.total_count.toLocaleString()}{" "}
-                      Datensätze
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      Seite {currentPage} von {totalPages}
-                    </p>
-                  </div>
-                )}
+                <div className="flex items-center space-x-4">
+                  {tableData && (
+                    <div className="text-right">
+                      <p className="text-sm font-medium text-gray-900">
+                        {tableData.pagination.total_count.toLocaleString()}{" "}
+                        Datensätze
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {infinite
+                          ? `${tableRows.length.toLocaleString()} geladen`
+                          : `Seite ${currentPage} von ${totalPages}`}
+                      </p>
+                    </div>
+                  )}
+                  {canEditRecords && (
+                    <ButtonPrimary
+                      onClick={() =>
+                        setRecordAction({
+                          type: "create",
+                          model: selectedModel,
+                        })
+                      }
+                      icon={<Plus />}
+                      size="sm"
+                    >
+                      Neuer Datensatz
+                    </ButtonPrimary>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -475,29 +736,150 @@ const TableBrowserRefactored: React.FC = () => {
                 searchTerm=""
                 onSearchChange={() => {}}
                 searchPlaceholder="In Tabelle suchen..."
-                onExportCSV={handleExportCSV}
-                onExportJSON={handleExportJSON}
-                onRefresh={fetchTableData}
+                onExport={() => setShowExport(true)}
+                onImport={
+                  canEditRecords ? () => setShowImport(true) : undefined
+                }
+                onRefresh={() => activeQuery.refetch()}
+                onToggleFilters={() => setShowFilters((open) => !open)}
+                onToggleColumns={() => setShowColumns((open) => !open)}
+                onToggleViews={() => setShowViews((open) => !open)}
+                activeFilterCount={countFilterConditions(filterParam)}
                 currentPage={currentPage}
                 totalPages={totalPages}
                 pageSize={pageSize}
                 totalRecords={tableData?.pagination.total_count || 0}
-                onPageChange={setCurrentPage}
-                onPageSizeChange={setPageSize}
+                onPageChange={handlePageChange}
+                onPageSizeChange={handlePageSizeChange}
+                infiniteScroll={infinite}
+                onInfiniteScrollChange={handleInfiniteScrollChange}
+                loadedRecords={tableRows.length}
                 loading={dataLoading}
                 refreshing={dataLoading}
                 queryTime={queryTime}
               />
             </div>
 
+            {/* Gespeicherte Ansichten des Models */}
+            {showViews && (
+              <div className="p-4 border-b border-gray-200">
+                <SavedViewsPanel
+                  key={getModelKey(selectedModel)}
+                  model={selectedModel}
+                  settings={viewSettings}
+                  onApply={handleApplyView}
+                />
+              </div>
+            )}
+
+            {/* Spaltenauswahl - wird in der URL gespeichert */}
+            {showColumns && (
+              <div className="p-4 border-b border-gray-200">
+                <ColumnManager
+                  fields={fields}
+                  columns={visibleFields.map((field) => field.name)}
+                  widths={columnWidths}
+                  getDefaultWidth={getDefaultColumnWidth}
+                  onChange={handleColumnsChange}
+                />
+              </div>
+            )}
+
+            {/* Filter-Builder - Änderungen wirken erst mit "Anwenden" */}
+            {(showFilters || linkFilterInvalid) && (
+              <div className="p-4 border-b border-gray-200 space-y-4">
+                <FilterBuilder
+                  fields={fields}
+                  value={filterDraft}
+                  onChange={setFilterDraft}
+                  getRelationKey={getRelationKey}
+                />
+                <div className="flex justify-end space-x-2">
+                  <ButtonSecondary
+                    onClick={handleResetFilter}
+                    size="sm"
+                    variant="outline"
+                  >
+                    Zurücksetzen
+                  </ButtonSecondary>
+                  <ButtonPrimary
+                    onClick={handleApplyFilter}
+                    disabled={draftInvalid}
+                    size="sm"
+                  >
+                    Anwenden
+                  </ButtonPrimary>
+                </div>
+              </div>
+            )}
+
             {/* Enhanced Table with FK Information */}
-            {dataLoading ? (
+            {linkFilterInvalid ? (
+              <div className="p-8 text-center">
+                <AlertCircle className="h-12 w-12 text-red-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  Ungültiger Filter
+                </h3>
+                <p className="text-gray-600">
+                  Der Filter enthält Werte, die nicht zu den Spalten passen.
+                  Bitte im Filter korrigieren oder zurücksetzen.
+                </p>
+              </div>
+            ) : tableLoading ? (
               <div className="p-8 text-center">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#ff863d] mx-auto mb-4"></div>
                 <p className="text-gray-600">Lade Tabellendaten...</p>
               </div>
-            ) : tableData && tableData.data.length > 0 ? (
-              renderEnhancedTable()
+            ) : tableRows.length > 0 ? (
+              <DataTable<TableRecord>
+                columns={columns}
+                data={tableRows}
+                sortConfig={sortConfig}
+                onSort={handleSort}
+                onRowClick={(record) =>
+                  setDetailRecord({
+                    modelKey: getModelKey(selectedModel),
+                    record,
+                  })
+                }
+                bordered={false}
+                compact
+                virtualized
+                onEndReached={infinite ? handleEndReached : undefined}
+                loadingMore={infiniteQuery.isFetchingNextPage}
+                onColumnResize={handleColumnResize}
+                onColumnOrderChange={(keys) =>
+                  handleColumnsChange(keys, columnWidths)
+                }
+                onColumnPinChange={handleColumnPinChange}
+                onColumnHide={handleColumnHide}
+                selection={selection}
+                onSelectionChange={setSelection}
+                getRowKey={(row) => row[primaryKeyName] as RowKey}
+                totalCount={tableData?.pagination.total_count}
+                bulkActions={
+                  <RecordBulkActions
+                    model={selectedModel}
+                    records={selectedRecords}
+                    allMatching={selection.allMatching}
+                    totalCount={tableData?.pagination.total_count ?? 0}
+                    columns={visibleFields.map((field) => field.name)}
+                    ordering={sortConfig}
+                    filters={filterParam}
+                    onExport={() => setShowExport(true)}
+                    onDelete={
+                      canEditRecords
+                        ? (records) =>
+                            setRecordAction({
+                              type: "delete",
+                              model: selectedModel,
+                              records: records as TableRecord[],
+                            })
+                        : undefined
+                    }
+                  />
+                }
+              />
             ) : (
               <div className="p-8 text-center">
                 <Table className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -505,13 +887,76 @@ const TableBrowserRefactored: React.FC = () => {
                   Keine Daten vorhanden
                 </h3>
                 <p className="text-gray-600">
-                  Diese Tabelle enthält keine Datensätze.
+                  {filterParam
+                    ? "Keine Datensätze entsprechen den Filtern."
+                    : "Diese Tabelle enthält keine Datensätze."}
                 </p>
               </div>
             )}
           </div>
         )}
 
+        {/* Export aller Datensätze mit Sortierung und Filtern der Ansicht */}
+        {selectedModel && showExport && (
+          <ExportDialog
+            model={selectedModel}
+            visibleColumns={visibleFields.map((field) => field.name)}
+            ordering={sortConfig}
+            filters={filterParam}
+            selectedRecords={selectedRecords}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+
+        {/* CSV-Import in die gewählte Tabelle (nur Superuser) */}
+        {schemaData && selectedModel && canEditRecords && showImport && (
+          <ImportDialog
+            schema={schemaData}
+            model={selectedModel}
+            onClose={() => setShowImport(false)}
+            onImported={refreshDatabaseOverview}
+          />
+        )}
+
+        {/* Detail-Seitenleiste des angeklickten Datensatzes */}
+        {schemaData &&
+          selectedModel &&
+          detailRecord?.modelKey === getModelKey(selectedModel) && (
+            <RecordDrawer
+              schema={schemaData}
+              model={selectedModel}
+              record={detailRecord.record}
+              onClose={() => setDetailRecord(null)}
+              onOpenTable={handleOpenTable}
+              onEditRecord={canEditRecords ? handleEditRecord : undefined}
+              onDeleteRecord={canEditRecords ? handleDeleteRecord : undefined}
+            />
+          )}
+
+        {/* Anlegen/Bearbeiten und Löschen (nur Superuser) */}
+        {schemaData &&
+          canEditRecords &&
+          recordAction &&
+          (recordAction.type === "delete" ? (
+            <DeleteRecordDialog
+              schema={schemaData}
+              model={recordAction.model}
+              records={recordAction.records}
+              onClose={() => setRecordAction(null)}
+              onDeleted={handleRecordDeleted}
+            />
+          ) : (
+            <RecordFormDialog
+              schema={schemaData}
+              model={recordAction.model}
+              record={recordAction.type === "edit" ? recordAction.record : null}
+              onClose={() => setRecordAction(null)}
+              onSaved={(record) =>
+                handleRecordSaved(recordAction.model, record as TableRecord)
+              }
+            />
+          ))}
+
         {/* Empty State when no model selected */}
         {!selectedModel && (
           <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-12">
@@ -520,9 +965,12 @@ const TableBrowserRefactored: React.FC = () => {
                 <Table className="h-8 w-8 text-gray-500" />
               </div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                Kein Model ausgewählt
+                {modelName ? "Model nicht gefunden" : "Kein Model ausgewählt"}
               </h3>
               <p className="text-gray-600 text-sm">
+                {modelName
+                  ? `Das Model ${appLabel}.${modelName} existiert nicht. `
+                  : ""}
                 Wählen Sie ein Django Model aus der Liste oben aus, um dessen
                 Daten zu durchsuchen.
               </p>
@@ -7,6 +7,9 @@ import {
   type ToolUpdate,
 } from "../services/employeeApi";
 import { Users, PlusCircle, Edit, Search } from "lucide-react";
+import { createLogger } from "../services/logger";
+
+const log = createLogger("ToolManagement");
 
 const ToolManagement: React.FC = () => {
   const [tools, setTools] = useState<Tool[]>([]);
@@ -29,7 +32,7 @@ const ToolManagement: React.FC = () => {
         setTools(toolsData);
         setEmployees(employeesData);
       } catch (error) {
-        console.error("Failed to load data:", error);
+        log.error("Failed to load data:", error);
       } finally {
         setLoading(false);
       }
@@ -44,7 +47,7 @@ const ToolManagement: React.FC = () => {
       setAccess(new Set(accessList.map((a) => a.employee)));
       setIsAccessModalOpen(true);
     } catch (error) {
-      console.error("Failed to get tool access:", error);
+      log.error("Failed to get tool access:", error);
     }
   };
 
@@ -74,7 +77,7 @@ const ToolManagement: React.FC = () => {
       setIsAccessModalOpen(false);
       setSelectedTool(null);
     } catch (error) {
-      console.error("Failed to save access:", error);
+      log.error("Failed to save access:", error);
       alert("Fehler beim Speichern der Zugriffe.");
     }
   };
@@ -103,7 +106,7 @@ const ToolManagement: React.FC = () => {
       setIsFormModalOpen(false);
       setToolToEdit(null);
     } catch (error) {
-      console.error("Failed to save tool:", error);
+      log.error("Failed to save tool:", error);
       alert("Fehler beim Speichern des Tools.");
     }
   };
@@ -6,7 +6,13 @@
  * für bessere Wartbarkeit, Fehlerbehandlung und Caching.
  */
 
-import { apiClient } from "./config";
+import { z } from "zod";
+import {
+  apiClient,
+  toRequestConfig,
+  type RequestOptions,
+} from "./config";
+import { parseResponseData } from "./responseValidation";
 
 // Verwende die zentrale Axios-Instanz
 const api = apiClient;
@@ -91,6 +97,41 @@ export interface TableDataResponse {
   success: boolean;
 }
 
+// Sortierung der Tabellendaten (erster Eintrag = primärer Schlüssel)
+export interface TableOrdering {
+  key: string;
+  direction: "asc" | "desc";
+}
+
+// Filter im Format des Query-Parameters "filters" (JSON) - Bedingungen mit
+// Django-Lookups, in Gruppen verknüpft (siehe tableFilters.ts)
+export interface TableFilterParamCondition {
+  field: string;
+  lookup: string;
+  value: unknown;
+}
+
+export interface TableFilterParam {
+  combinator: "and" | "or";
+  groups: {
+    combinator: "and" | "or";
+    conditions: TableFilterParamCondition[];
+  }[];
+}
+
+// Einzelner Datensatz (Feldname -> Wert, ForeignKeys als ID)
+export type TableRecord = Record<string, unknown>;
+
+export interface BulkCreateResponse {
+  created: number;
+  records: TableRecord[];
+}
+
+export interface TableDataOptions extends RequestOptions {
+  ordering?: TableOrdering[];
+  filters?: TableFilterParam | null;
+}
+
 export interface DatabaseStatistics {
   database_type: string;
   tables: {
@@ -102,43 +143,273 @@ export interface DatabaseStatistics {
   success: boolean;
 }
 
+// Schemas für API-Responses
+// Die Antworten werden zur Laufzeit geprüft (siehe responseValidation.ts)
+export const schemaFieldSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  null: z.boolean(),
+  blank: z.boolean(),
+  unique: z.boolean(),
+  db_index: z.boolean(),
+  primary_key: z.boolean(),
+  auto_created: z.boolean(),
+  max_length: z.number().nullish(),
+  choices: z.array(z.string()).nullish(),
+  is_relationship: z.boolean(),
+});
+
+export const modelRelationshipSchema = z.object({
+  field_name: z.string(),
+  relationship_type: z.string(),
+  related_model: z.string(),
+  related_name: z.string().nullable(),
+  on_delete: z.string().nullable(),
+});
+
+export const modelInfoSchema = z.object({
+  app_label: z.string(),
+  model_name: z.string(),
+  table_name: z.string(),
+  verbose_name: z.string(),
+  verbose_name_plural: z.string(),
+  abstract: z.boolean(),
+  fields: z.array(schemaFieldSchema),
+  relationships: z.array(modelRelationshipSchema),
+  field_count: z.number(),
+  relationship_count: z.number(),
+  record_count: z.number(),
+  ordering: z.array(z.string()),
+  indexes: z.array(z.string()),
+});
+
+export const appInfoSchema = z.object({
+  app_name: z.string(),
+  models: z.array(modelInfoSchema),
+  model_count: z.number(),
+});
+
+export const globalRelationshipSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  type: z.string(),
+  field_name: z.string(),
+  related_name: z.string().nullable(),
+  on_delete: z.string().nullable(),
+});
+
+export const schemaOverviewSchema = z.object({
+  total_apps: z.number(),
+  total_models: z.number(),
+  total_relationships: z.number(),
+  generated_at: z.string(),
+  database_engine: z.string(),
+});
+
+export const databaseSchemaResponseSchema = z.object({
+  schema_overview: schemaOverviewSchema,
+  apps: z.array(appInfoSchema),
+  relationships: z.array(globalRelationshipSchema),
+  success: z.boolean(),
+});
+
+export const tableDataResponseSchema = z.object({
+  data: z.array(z.record(z.any())),
+  pagination: z.object({
+    page: z.number(),
+    page_size: z.number(),
+    total_count: z.number(),
+    total_pages: z.number(),
+  }),
+  success: z.boolean(),
+});
+
+export const tableRecordSchema = z.record(z.any());
+
+export const bulkCreateResponseSchema = z.object({
+  created: z.number(),
+  records: z.array(tableRecordSchema),
+});
+
+export const databaseStatisticsSchema = z.object({
+  database_type: z.string(),
+  tables: z.array(
+    z.object({
+      table_name: z.string(),
+      row_count: z.number(),
+      create_sql: z.string(),
+    })
+  ),
+  total_tables: z.number(),
+  success: z.boolean(),
+});
+
+/**
+ * Sortierung im Django-Format für den Query-Parameter "ordering"
+ * ([{key: "name", direction: "desc"}, {key: "id", ...}] -> "-name,id")
+ */
+export const toOrderingParam = (ordering: TableOrdering[]): string =>
+  ordering
+    .map(({ key, direction }) => (direction === "desc" ? `-${key}` : key))
+    .join(",");
+
+/**
+ * Sortierung aus dem Django-Format lesen ("-name,id" -> [...])
+ */
+export const parseOrderingParam = (value: string | null): TableOrdering[] =>
+  (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.replace(/^-/, "") !== "")
+    .map((entry) => ({
+      key: entry.replace(/^-/, ""),
+      direction: entry.startsWith("-") ? "desc" : "asc",
+    }));
+
+const getRecordsPath = (appLabel: string, modelName: string) =>
+  `/db-overview/table/${appLabel}/${modelName}/records/`;
+
 // API-Funktionen
 export const dbOverviewAPI = {
   /**
    * Komplettes Datenbankschema abrufen
    * Diese Funktion ist das Herzstück der Anwendung
    */
-  async getDatabaseSchema(): Promise<DatabaseSchemaResponse> {
-    const response = await api.get("/db-overview/schema/");
-    return response.data;
+  async getDatabaseSchema(
+    options: RequestOptions = {}
+  ): Promise<DatabaseSchemaResponse> {
+    const response = await api.get("/db-overview/schema/", {
+      signal: options.signal,
+    });
+    return parseResponseData<DatabaseSchemaResponse>(
+      databaseSchemaResponseSchema,
+      response
+    );
   },
 
   /**
    * Tabellendaten für ein spezifisches Model abrufen
    * Wichtig für die Dateninspektion
+   *
+   * Sortierung und Filter wendet das Backend auf die gesamte Tabelle an,
+   * nicht nur auf die geladene Seite (total_count zählt gefilterte Zeilen).
    */
   async getTableData(
     appLabel: string,
     modelName: string,
     page: number = 1,
-    pageSize: number = 20
+    pageSize: number = 20,
+    options: TableDataOptions = {}
   ): Promise<TableDataResponse> {
+    const ordering = toOrderingParam(options.ordering ?? []);
     const response = await api.get(
       `/db-overview/table/${appLabel}/${modelName}/`,
       {
-        params: { page, page_size: pageSize },
+        params: {
+          page,
+          page_size: pageSize,
+          ...(ordering && { ordering }),
+          ...(options.filters && { filters: JSON.stringify(options.filters) }),
+        },
+        signal: options.signal,
       }
     );
-    return response.data;
+    return parseResponseData<TableDataResponse>(
+      tableDataResponseSchema,
+      response
+    );
+  },
+
+  /**
+   * Datensatz in einer beliebigen Tabelle anlegen (nur Superuser)
+   *
+   * Validierungsfehler (Pflichtfelder, max_length, unique, choices,
+   * unbekannte ForeignKeys) kommen als Feldfehler je Feldname zurück.
+   */
+  async createRecord(
+    appLabel: string,
+    modelName: string,
+    values: TableRecord
+  ): Promise<TableRecord> {
+    const response = await api.post(
+      getRecordsPath(appLabel, modelName),
+      values
+    );
+    return parseResponseData<TableRecord>(tableRecordSchema, response);
+  },
+
+  /**
+   * Mehrere Datensätze in einem Request anlegen (nur Superuser)
+   *
+   * Das Backend legt alle oder keinen an. Validierungsfehler kommen je
+   * Zeile zurück ("records.<index>.<feld>" in ApiError.fieldErrors).
+   */
+  async bulkCreateRecords(
+    appLabel: string,
+    modelName: string,
+    records: TableRecord[],
+    options: RequestOptions = {}
+  ): Promise<BulkCreateResponse> {
+    const response = await api.post(
+      `${getRecordsPath(appLabel, modelName)}bulk/`,
+      { records },
+      toRequestConfig(options)
+    );
+    return parseResponseData<BulkCreateResponse>(
+      bulkCreateResponseSchema,
+      response
+    );
+  },
+
+  /**
+   * Datensatz teilweise aktualisieren (nur Superuser)
+   */
+  async updateRecord(
+    appLabel: string,
+    modelName: string,
+    primaryKey: string | number,
+    values: TableRecord
+  ): Promise<TableRecord> {
+    const response = await api.patch(
+      `${getRecordsPath(appLabel, modelName)}${primaryKey}/`,
+      values
+    );
+    return parseResponseData<TableRecord>(tableRecordSchema, response);
+  },
+
+  /**
+   * Datensatz löschen (nur Superuser)
+   *
+   * Abhängige Datensätze behandelt das Backend nach on_delete der
+   * Beziehungen (CASCADE, SET_NULL, ...). Verwendete geschützte Beziehungen
+   * (PROTECT) verhindern das Löschen mit Status 400.
+   */
+  async deleteRecord(
+    appLabel: string,
+    modelName: string,
+    primaryKey: string | number,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    await api.delete(
+      `${getRecordsPath(appLabel, modelName)}${primaryKey}/`,
+      toRequestConfig(options)
+    );
   },
 
   /**
    * Erweiterte Datenbankstatistiken abrufen
    * Für Performance-Analysen und Optimierung
    */
-  async getDatabaseStatistics(): Promise<DatabaseStatistics> {
-    const response = await api.get("/db-overview/statistics/");
-    return response.data;
+  async getDatabaseStatistics(
+    options: RequestOptions = {}
+  ): Promise<DatabaseStatistics> {
+    const response = await api.get("/db-overview/statistics/", {
+      signal: options.signal,
+    });
+    return parseResponseData<DatabaseStatistics>(
+      databaseStatisticsSchema,
+      response
+    );
   },
 };
 
@@ -0,0 +1,212 @@
+/**
+ * API Error Modell für DSP Database Overview
+ *
+ * Einheitliche Fehlerdarstellung für alle API-Services:
+ * - Normalisierung von Axios- und Netzwerkfehlern
+ * - Auswertung von DRF-Validierungsfehlern (Feld- und Nicht-Feld-Fehler)
+ * - Verschachtelte Serializer-Fehler als Pfade ("questions.0.text")
+ * - Abgebrochene Requests (AbortSignal) als eigener Fall
+ *
+ * Die Interceptors in config.ts reichen ausschließlich ApiError-Instanzen
+ * an die Aufrufer weiter.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { isAxiosError, isCancel } from "axios";
+
+// --- Typen ---
+
+export type ApiFieldErrors = Record<string, string[]>;
+
+// DRF-Keys, die keinem Formularfeld zugeordnet sind
+const NON_FIELD_KEYS = ["non_field_errors", "detail", "message", "error"];
+
+// Fallback-Meldungen je HTTP-Status
+const STATUS_MESSAGES: Record<number, string> = {
+  400: "Die Eingaben sind ungültig.",
+  401: "Bitte melden Sie sich erneut an.",
+  403: "Keine Berechtigung für diese Aktion.",
+  404: "Der angeforderte Eintrag wurde nicht gefunden.",
+  409: "Der Eintrag wurde zwischenzeitlich geändert.",
+  429: "Zu viele Anfragen - bitte später erneut versuchen.",
+};
+
+// --- Fehlerklasse ---
+
+export class ApiError extends Error {
+  // HTTP-Status (0 bei Netzwerkfehlern oder Timeout)
+  readonly status: number;
+  // Fehler ohne Feldbezug (non_field_errors, detail, ...)
+  readonly nonFieldErrors: string[];
+  // Feldfehler je Feldname bzw. Pfad
+  readonly fieldErrors: ApiFieldErrors;
+  // Unveränderte Antwort des Backends
+  readonly data: unknown;
+  // Request wurde über ein AbortSignal abgebrochen (kein echter Fehler)
+  readonly isCanceled: boolean;
+
+  constructor({
+    status,
+    message,
+    nonFieldErrors = [],
+    fieldErrors = {},
+    data = null,
+    canceled = false,
+    cause,
+  }: {
+    status: number;
+    message: string;
+    nonFieldErrors?: string[];
+    fieldErrors?: ApiFieldErrors;
+    data?: unknown;
+    canceled?: boolean;
+    cause?: unknown;
+  }) {
+    super(message, { cause });
+    this.name = "ApiError";
+    this.status = status;
+    this.nonFieldErrors = nonFieldErrors;
+    this.fieldErrors = fieldErrors;
+    this.data = data;
+    this.isCanceled = canceled;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0 && !this.isCanceled;
+  }
+
+  get isValidationError(): boolean {
+    return this.status === 400;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+// --- Hilfsfunktionen ---
+
+const toMessages = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string");
+  }
+  return [];
+};
+
+/**
+ * DRF-Fehlerobjekt rekursiv in Feldpfade zerlegen
+ *
+ * { questions: [{ text: ["Pflichtfeld"] }] } -> { "questions.0.text": [...] }
+ */
+const collectFieldErrors = (
+  value: unknown,
+  path: string,
+  result: ApiFieldErrors
+) => {
+  const messages = toMessages(value);
+  if (messages.length > 0) {
+    result[path] = [...(result[path] ?? []), ...messages];
+    return;
+  }
+
+  if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, nested]) => {
+      collectFieldErrors(nested, path ? `${path}.${key}` : key, result);
+    });
+  }
+};
+
+const parseErrorBody = (data: unknown) => {
+  const nonFieldErrors: string[] = [];
+  const fieldErrors: ApiFieldErrors = {};
+
+  if (typeof data === "string" || Array.isArray(data)) {
+    nonFieldErrors.push(...toMessages(data));
+  } else if (data && typeof data === "object") {
+    Object.entries(data).forEach(([key, value]) => {
+      if (NON_FIELD_KEYS.includes(key)) {
+        nonFieldErrors.push(...toMessages(value));
+      } else {
+        collectFieldErrors(value, key, fieldErrors);
+      }
+    });
+  }
+
+  return { nonFieldErrors, fieldErrors };
+};
+
+/**
+ * Beliebigen Fehler in ein ApiError umwandeln
+ *
+ * Bereits normalisierte Fehler werden unverändert zurückgegeben.
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (isCancel(error)) {
+    return new ApiError({
+      status: 0,
+      message: "Anfrage abgebrochen.",
+      canceled: true,
+      cause: error,
+    });
+  }
+
+  if (isAxiosError(error)) {
+    if (!error.response) {
+      return new ApiError({
+        status: 0,
+        message:
+          error.code === "ECONNABORTED"
+            ? "Zeitüberschreitung - der Server antwortet nicht."
+            : "Keine Verbindung zum Server.",
+        cause: error,
+      });
+    }
+
+    const { status, data } = error.response;
+    // HTML-Fehlerseiten (z.B. Django-Debugseite) nicht als Meldung anzeigen
+    const body =
+      typeof data === "string" && data.trimStart().startsWith("<") ? null : data;
+    const { nonFieldErrors, fieldErrors } = parseErrorBody(body);
+
+    return new ApiError({
+      status,
+      message:
+        nonFieldErrors[0] ??
+        STATUS_MESSAGES[status] ??
+        (status >= 500
+          ? "Serverfehler - bitte später erneut versuchen."
+          : `Anfrage fehlgeschlagen (${status}).`),
+      nonFieldErrors,
+      fieldErrors,
+      data,
+      cause: error,
+    });
+  }
+
+  return new ApiError({
+    status: 0,
+    message: error instanceof Error ? error.message : String(error),
+    cause: error,
+  });
+};
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+
+/**
+ * Prüfen ob ein Fehler nur einen abgebrochenen (überholten) Request anzeigt
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof ApiError ? error.isCanceled : isCancel(error);
+
+/**
+ * Anzeigetext für einen beliebigen Fehler ermitteln
+ */
+export const getErrorMessage = (error: unknown): string =>
+  toApiError(error).message;
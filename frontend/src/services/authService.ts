@@ -5,12 +5,14 @@
  * - JWT Token-basierte Authentifizierung
  * - Login/Logout-Funktionalität
  * - Token-Speicherung und -Validierung
+ * - Persistiertes Benutzerprofil und Rollenprüfung
  * - Integration mit dem E-Learning-Backend
  *
  * Features:
  * - Sichere Token-Verwaltung
  * - Automatische Token-Validierung
- * - Integration mit localStorage
+ * - Token-Zugriff ausschließlich über tokenStorage
+ * - Speicher-Modus (localStorage, Speicher, httpOnly-Cookie) per Vite-Env
  * - Fehlerbehandlung für Authentifizierungsfehler
  *
  * Author: DSP Development Team
@@ -18,7 +20,13 @@
  * Version: 1.0.0
  */
 
-import { apiClient } from "./config";
+import { AUTH_CONFIG, apiClient, refreshAccessToken } from "./config";
+import { createLogger } from "./logger";
+import {
+  getResponseExpiry,
+  TOKEN_STORAGE_MODE,
+  tokenStorage,
+} from "./tokenStorage";
 
 // --- Typen ---
 
@@ -30,13 +38,52 @@ export interface TokenResponse {
   is_staff?: boolean;
   is_superuser?: boolean;
   force_password_change?: boolean;
+  // Ablaufzeitpunkte (ISO) - nur im Cookie-Modus relevant
+  access_expiration?: string;
+  refresh_expiration?: string;
 }
 
+export interface CurrentUser {
+  user_id: number | null;
+  username: string | null;
+  is_staff: boolean;
+  is_superuser: boolean;
+  force_password_change: boolean;
+}
+
+export interface ChangePasswordPayload {
+  old_password: string;
+  new_password: string;
+  new_password_confirm: string;
+}
+
+export type UserRole = "staff" | "superuser";
+
 export interface LoginCredentials {
   username: string;
   password: string;
 }
 
+// --- Konstanten ---
+
+const log = createLogger("Auth");
+
+// Route, auf die Benutzer mit temporärem Passwort festgelegt werden
+export const CHANGE_PASSWORD_ROUTE = "/change-password";
+
+/**
+ * Erforderliche Rollen je Route
+ *
+ * Wird von App (Route Guards) und Layout (Navigation) gemeinsam genutzt.
+ * Routen ohne Eintrag stehen jedem angemeldeten Benutzer offen.
+ */
+export const ROUTE_ROLES: Record<string, UserRole[]> = {
+  "/tables": ["staff"],
+  "/statistics": ["staff"],
+  "/employees": ["superuser"],
+  "/tool-management": ["superuser"],
+};
+
 // --- Authentication Service ---
 
 export const authService = {
@@ -54,13 +101,30 @@ export const authService = {
         password,
       });
 
-      // Token im localStorage speichern
-      localStorage.setItem("access", res.data.access);
-      localStorage.setItem("refresh", res.data.refresh);
+      // Token und Benutzerprofil (für Rollenprüfungen) persistieren
+      const expiry = getResponseExpiry(res.data);
+      tokenStorage.setSession(
+        res.data.access,
+        res.data.refresh,
+        {
+          user_id: res.data.user_id ?? null,
+          username: res.data.username ?? username,
+          is_staff: !!res.data.is_staff,
+          is_superuser: !!res.data.is_superuser,
+          force_password_change: !!res.data.force_password_change,
+        },
+        expiry
+      );
+      if (TOKEN_STORAGE_MODE === "cookie" && expiry.refresh === null) {
+        log.warn(
+          "Backend liefert kein Sitzungsende - nur der Idle-Timeout warnt " +
+            "vor der Abmeldung"
+        );
+      }
 
       return res.data;
     } catch (error) {
-      console.error("Login error:", error);
+      log.error("Login fehlgeschlagen:", error);
       throw error;
     }
   },
@@ -69,18 +133,25 @@ export const authService = {
    * Benutzer abmelden und Token entfernen
    */
   logout() {
-    localStorage.removeItem("access");
-    localStorage.removeItem("refresh");
-    console.log("User logged out successfully");
+    // httpOnly-Cookies kann nur das Backend löschen - Fehler (z.B. bereits
+    // abgelaufene Sitzung) ändern nichts am lokalen Logout
+    if (AUTH_CONFIG.WITH_CREDENTIALS && tokenStorage.getUser()) {
+      apiClient.post(AUTH_CONFIG.LOGOUT_ENDPOINT).catch((error) => {
+        log.error("Logout am Backend fehlgeschlagen:", error);
+      });
+    }
+
+    tokenStorage.clear();
+    log.info("Benutzer abgemeldet");
   },
 
   /**
    * Prüfen ob Benutzer authentifiziert ist
    *
-   * @returns true wenn Token vorhanden, false sonst
+   * @returns true wenn eine Sitzung besteht, false sonst
    */
   isAuthenticated(): boolean {
-    return !!localStorage.getItem("access");
+    return tokenStorage.getSnapshot().isAuthenticated;
   },
 
   /**
@@ -89,7 +160,7 @@ export const authService = {
    * @returns Access-Token oder null
    */
   getAccessToken(): string | null {
-    return localStorage.getItem("access");
+    return tokenStorage.getAccessToken();
   },
 
   /**
@@ -98,6 +169,89 @@ export const authService = {
    * @returns Refresh-Token oder null
    */
   getRefreshToken(): string | null {
-    return localStorage.getItem("refresh");
+    return tokenStorage.getRefreshToken();
+  },
+
+  /**
+   * Sitzung aktiv verlängern (z.B. "Angemeldet bleiben")
+   *
+   * Fordert einen neuen Access-Token an. Bei aktivierter Token-Rotation im
+   * Backend verlängert sich dadurch auch die Laufzeit des Refresh-Tokens.
+   */
+  async refreshSession(): Promise<void> {
+    await refreshAccessToken();
+  },
+
+  /**
+   * Passwort des angemeldeten Benutzers ändern
+   *
+   * Nach erfolgreicher Änderung wird das force_password_change-Flag im
+   * gespeicherten Profil zurückgesetzt. Validierungsfehler des Backends
+   * (HTTP 400) werden unverändert weitergereicht.
+   *
+   * @param payload - Altes Passwort, neues Passwort und Bestätigung
+   */
+  async changePassword(payload: ChangePasswordPayload): Promise<void> {
+    await apiClient.post("/elearning/users/change-password/", payload);
+
+    const user = this.getCurrentUser();
+    if (user) {
+      tokenStorage.setUser({ ...user, force_password_change: false });
+    }
+  },
+
+  /**
+   * Prüfen ob der Benutzer sein Passwort ändern muss
+   *
+   * @returns true wenn ein temporäres Passwort gesetzt ist
+   */
+  mustChangePassword(): boolean {
+    return !!this.getCurrentUser()?.force_password_change;
+  },
+
+  /**
+   * Persistiertes Benutzerprofil abrufen
+   *
+   * @returns Benutzerprofil oder null, falls keines gespeichert ist
+   */
+  getCurrentUser(): CurrentUser | null {
+    return tokenStorage.getUser();
+  },
+
+  /**
+   * Prüfen ob der Benutzer alle angegebenen Rollen besitzt
+   *
+   * Superuser erfüllen implizit auch die Staff-Rolle.
+   *
+   * @param roles - Erforderliche Rollen
+   * @param user - Zu prüfendes Profil (Standard: aktueller Benutzer)
+   * @returns true wenn alle Rollen erfüllt sind
+   */
+  hasRoles(
+    roles: UserRole[] = [],
+    user: CurrentUser | null = this.getCurrentUser()
+  ): boolean {
+    if (roles.length === 0) return true;
+    if (!user) return false;
+
+    return roles.every((role) =>
+      role === "superuser"
+        ? user.is_superuser
+        : user.is_staff || user.is_superuser
+    );
+  },
+
+  /**
+   * Prüfen ob der Benutzer eine Route öffnen darf
+   *
+   * @param path - Routenpfad
+   * @param user - Zu prüfendes Profil (Standard: aktueller Benutzer)
+   * @returns true wenn der Zugriff erlaubt ist
+   */
+  canAccessRoute(
+    path: string,
+    user: CurrentUser | null = this.getCurrentUser()
+  ): boolean {
+    return this.hasRoles(ROUTE_ROLES[path], user);
   },
 };
@@ -0,0 +1,153 @@
+/**
+ * Backend-Umgebungen für DSP Database Overview
+ *
+ * Ein Build kann gegen mehrere Backends (z.B. Entwicklung, Staging,
+ * Produktion) arbeiten:
+ * - Liste benannter Umgebungen aus VITE_BACKEND_ENVIRONMENTS (JSON)
+ * - Ohne Liste eine einzelne Umgebung aus VITE_BACKEND_URL
+ * - Aktive Umgebung wird im localStorage gemerkt
+ * - Umgebungsspezifische Storage-Keys, damit Sitzungen nicht zwischen
+ *   Backends geteilt werden
+ *
+ * Beispiel:
+ * VITE_BACKEND_ENVIRONMENTS=[{"id":"dev","label":"Entwicklung",
+ *   "baseUrl":"http://localhost:8000/api","color":"green"},
+ *   {"id":"prod","label":"Produktion","baseUrl":"https://dsp.example/api",
+ *   "color":"red","production":true}]
+ *
+ * Keine Abhängigkeit zu config.ts oder tokenStorage.ts (beide lesen die
+ * aktive Umgebung beim Laden aus diesem Modul).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { z } from "zod";
+import { createLogger } from "./logger";
+
+const log = createLogger("Environment");
+
+// --- Typen ---
+
+export const ENVIRONMENT_COLORS = [
+  "gray",
+  "green",
+  "blue",
+  "yellow",
+  "red",
+] as const;
+
+export type EnvironmentColor = (typeof ENVIRONMENT_COLORS)[number];
+
+export interface BackendEnvironment {
+  id: string;
+  label: string;
+  baseUrl: string;
+  color: EnvironmentColor;
+  // Schreibende Requests erfordern eine zusätzliche Bestätigung
+  production: boolean;
+}
+
+// --- Konfiguration ---
+
+// localStorage-Key der zuletzt gewählten Umgebung
+const ACTIVE_ENVIRONMENT_KEY = "dsp-backend-environment";
+
+// Umgebung ohne VITE_BACKEND_ENVIRONMENTS - nutzt die bisherigen Keys
+export const DEFAULT_ENVIRONMENT_ID = "default";
+
+const environmentListSchema = z
+  .array(
+    z.object({
+      id: z.string().regex(/^[a-z0-9-]+$/),
+      label: z.string().min(1),
+      baseUrl: z.string().min(1),
+      color: z.enum(ENVIRONMENT_COLORS).default("gray"),
+      production: z.boolean().default(false),
+    })
+  )
+  .min(1);
+
+const defaultEnvironment: BackendEnvironment = {
+  id: DEFAULT_ENVIRONMENT_ID,
+  label: "Standard",
+  baseUrl: import.meta.env.VITE_BACKEND_URL || "http://localhost:8000/api",
+  color: "gray",
+  production: false,
+};
+
+/**
+ * Umgebungsliste aus der Build-Konfiguration lesen
+ *
+ * Eine fehlerhafte Liste führt nicht zum Absturz - es bleibt bei der
+ * Standard-Umgebung, der Fehler wird in der Konsole gemeldet.
+ */
+const parseEnvironments = (raw: string | undefined): BackendEnvironment[] => {
+  if (!raw) return [defaultEnvironment];
+
+  try {
+    const result = environmentListSchema.safeParse(JSON.parse(raw));
+    if (result.success) return result.data as BackendEnvironment[];
+    log.error(
+      "❌ VITE_BACKEND_ENVIRONMENTS ist ungültig:",
+      result.error.issues
+    );
+  } catch (error) {
+    log.error("❌ VITE_BACKEND_ENVIRONMENTS ist kein JSON:", error);
+  }
+  return [defaultEnvironment];
+};
+
+export const BACKEND_ENVIRONMENTS = parseEnvironments(
+  import.meta.env.VITE_BACKEND_ENVIRONMENTS
+);
+
+const readActiveEnvironmentId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_ENVIRONMENT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Beim Laden aktive Umgebung (zuletzt gewählt, sonst die erste der Liste)
+ *
+ * Bleibt bis zum nächsten Seitenaufruf unverändert - Clients, Token-Speicher
+ * und Query-Cache sind an diese Umgebung gebunden.
+ */
+export const ACTIVE_ENVIRONMENT: BackendEnvironment =
+  BACKEND_ENVIRONMENTS.find(
+    (environment) => environment.id === readActiveEnvironmentId()
+  ) ?? BACKEND_ENVIRONMENTS[0];
+
+// --- Hilfsfunktionen ---
+
+/**
+ * Storage-Key für die aktive Umgebung
+ *
+ * Die Standard-Umgebung behält die bisherigen Keys, damit bestehende
+ * Sitzungen nach dem Update erhalten bleiben.
+ */
+export const getEnvironmentStorageKey = (key: string): string =>
+  ACTIVE_ENVIRONMENT.id === DEFAULT_ENVIRONMENT_ID
+    ? key
+    : `${ACTIVE_ENVIRONMENT.id}:${key}`;
+
+/**
+ * Auf eine andere Umgebung wechseln
+ *
+ * Die Seite wird neu geladen, damit API-Clients, Token-Speicher und Caches
+ * vollständig für das neue Backend aufgebaut werden. Die Sitzung der
+ * bisherigen Umgebung bleibt für einen späteren Rückwechsel erhalten.
+ */
+export const switchBackendEnvironment = (id: string) => {
+  if (id === ACTIVE_ENVIRONMENT.id) return;
+  if (!BACKEND_ENVIRONMENTS.some((environment) => environment.id === id)) {
+    return;
+  }
+
+  localStorage.setItem(ACTIVE_ENVIRONMENT_KEY, id);
+  window.location.reload();
+};
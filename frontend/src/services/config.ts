@@ -2,23 +2,49 @@
  * Zentrale API-Konfiguration für DSP Database Overview
  *
  * Diese Datei definiert die zentrale Konfiguration für alle API-Services:
- * - Einheitliche Base-URL für alle Services
+ * - Einheitliche Base-URL für alle Services (aktive Backend-Umgebung)
+ * - Bestätigung schreibender Requests gegen Produktions-Backends
  * - Gemeinsame Axios-Instanz mit Interceptors
- * - Zentrale Fehlerbehandlung
- * - JWT Token-Management
+ * - Zentrale Fehlerbehandlung (Normalisierung zu ApiError)
+ * - JWT Token-Management inkl. automatischem Token-Refresh
+ * - Cookie-Modus mit withCredentials und CSRF-Header
+ * - Wiederholung idempotenter Requests mit exponentiellem Backoff
+ * - Abbruch überholter Requests über AbortSignal
+ * - Optionales Offline-Mock-Backend mit Fixture-Daten
+ * - Log-Level-abhängiges Logging und Netzwerk-Protokoll (Inspektor)
  *
  * Author: DSP Development Team
  * Created: 10.07.2025
  * Version: 1.0.0
  */
 
-import axios from "axios";
+import axios, {
+  CanceledError,
+  type AxiosAdapter,
+  type AxiosError,
+  type AxiosInstance,
+  type AxiosRequestConfig,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { isAbortError, toApiError } from "./apiError";
+import { ACTIVE_ENVIRONMENT } from "./backendEnvironments";
+import { createLogger } from "./logger";
+import { formatBody, networkLog } from "./networkLog";
+import {
+  getResponseExpiry,
+  TOKEN_STORAGE_MODE,
+  tokenStorage,
+  type TokenExpiryResponse,
+} from "./tokenStorage";
 
 // --- Zentrale Konfiguration ---
 
 export const API_CONFIG = {
+  // Beim Laden aktive Backend-Umgebung (siehe backendEnvironments.ts)
+  ENVIRONMENT: ACTIVE_ENVIRONMENT,
+
   // Einheitliche Base-URL für alle Services
-  BASE_URL: import.meta.env.VITE_BACKEND_URL || "http://localhost:8000/api",
+  BASE_URL: ACTIVE_ENVIRONMENT.baseUrl,
 
   // Timeout für alle Requests
   TIMEOUT: 30000,
@@ -29,103 +55,556 @@ export const API_CONFIG = {
   },
 };
 
-// --- Zentrale Axios-Instanz ---
+// Gemeinsame Optionen für alle Service-Methoden
+export interface RequestOptions {
+  // Bricht den Request ab, z.B. wenn er von einer neueren Auswahl überholt
+  // wurde (kompatibel mit dem QueryFunctionContext von react-query)
+  signal?: AbortSignal;
+  // Änderung am Produktions-Backend bereits bestätigt, z.B. einmal für eine
+  // ganze Sammelaktion (siehe confirmProductionWrites)
+  writeConfirmed?: boolean;
+}
+
+const parseNonNegative = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+// --- Retry-Konfiguration ---
+
+export const RETRY_CONFIG = {
+  // Maximale Anzahl Wiederholungen je Request (0 = deaktiviert)
+  MAX_RETRIES: parseNonNegative(import.meta.env.VITE_API_MAX_RETRIES, 2),
+
+  // Basis-Wartezeit, verdoppelt sich mit jedem Versuch (Millisekunden)
+  BASE_DELAY_MS: parseNonNegative(import.meta.env.VITE_API_RETRY_DELAY_MS, 500),
+
+  // Obergrenze der Wartezeit (Millisekunden)
+  MAX_DELAY_MS: 8000,
+
+  // Nur idempotente Methoden werden automatisch wiederholt
+  METHODS: ["get", "head", "options"],
+};
+
+// --- Mock-Konfiguration ---
 
-export const apiClient = axios.create({
-  baseURL: API_CONFIG.BASE_URL,
-  timeout: API_CONFIG.TIMEOUT,
-  headers: API_CONFIG.DEFAULT_HEADERS,
-});
+export const MOCK_CONFIG = {
+  // Alle Requests gegen das Offline-Fixture-Backend statt gegen die API
+  ENABLED: import.meta.env.VITE_USE_MOCK_BACKEND === "true",
 
-// --- Request Interceptor für JWT Token ---
+  // Simulierte Antwortzeit des Mock-Backends (Millisekunden)
+  LATENCY_MS: parseNonNegative(import.meta.env.VITE_MOCK_LATENCY_MS, 250),
+};
 
-apiClient.interceptors.request.use(
-  (config) => {
-    // JWT Token automatisch anhängen
-    const token = localStorage.getItem("access");
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+/**
+ * Axios-Adapter für das Offline-Mock-Backend
+ *
+ * Das Mock-Modul samt Fixtures wird erst beim ersten Request nachgeladen
+ * und landet so in einem eigenen Chunk. Ohne aktiviertes Mock bleibt der
+ * Adapter undefined und Axios nutzt den normalen HTTP-Adapter.
+ */
+const mockAdapter: AxiosAdapter | undefined = MOCK_CONFIG.ENABLED
+  ? async (config) => {
+      const { handleMockRequest } = await import("../mocks/mockAdapter");
+      return handleMockRequest(config, {
+        baseUrl: API_CONFIG.BASE_URL,
+        latencyMs: MOCK_CONFIG.LATENCY_MS,
+      });
     }
+  : undefined;
 
-    // Logging für Debugging
-    console.log(
-      `📡 API Request: ${config.method?.toUpperCase()} ${config.url}`
-    );
+// --- Authentifizierungs-Konfiguration ---
 
-    return config;
-  },
-  (error) => {
-    console.error("❌ API Request Error:", error);
-    return Promise.reject(error);
+export const AUTH_CONFIG = {
+  // Speicherort der Tokens: "local" | "memory" | "cookie" (VITE_TOKEN_STORAGE)
+  TOKEN_STORAGE: TOKEN_STORAGE_MODE,
+
+  // Im Cookie-Modus sendet der Browser die httpOnly-Cookies selbst mit
+  WITH_CREDENTIALS: TOKEN_STORAGE_MODE === "cookie",
+
+  // Django-CSRF-Schutz für cookie-basierte Authentifizierung
+  CSRF_COOKIE_NAME: import.meta.env.VITE_CSRF_COOKIE_NAME || "csrftoken",
+  CSRF_HEADER_NAME: "X-CSRFToken",
+
+  // Endpoint, der die Token-Cookies serverseitig löscht (nur Cookie-Modus)
+  LOGOUT_ENDPOINT: "/elearning/token/logout/",
+};
+
+// Methoden, die laut Django-CSRF-Middleware einen Token benötigen
+const CSRF_UNSAFE_METHODS = ["post", "put", "patch", "delete"];
+
+/**
+ * Wert eines (nicht httpOnly) Cookies lesen
+ */
+const readCookie = (name: string): string | null => {
+  const match = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+};
+
+/**
+ * Header für Requests im Cookie-Modus (CSRF-Token)
+ */
+export const getCsrfHeaders = (): Record<string, string> => {
+  if (!AUTH_CONFIG.WITH_CREDENTIALS) return {};
+
+  const csrfToken = readCookie(AUTH_CONFIG.CSRF_COOKIE_NAME);
+  return csrfToken ? { [AUTH_CONFIG.CSRF_HEADER_NAME]: csrfToken } : {};
+};
+
+// --- Sitzungs-Konfiguration ---
+
+export const SESSION_CONFIG = {
+  // Vorlaufzeit der Ablauf-Warnung vor Sitzungsende (Minuten)
+  WARNING_MINUTES: parseNonNegative(
+    import.meta.env.VITE_SESSION_WARNING_MINUTES,
+    2
+  ),
+
+  // Automatischer Logout nach Inaktivität (Minuten, 0 = deaktiviert)
+  IDLE_TIMEOUT_MINUTES: parseNonNegative(
+    import.meta.env.VITE_IDLE_TIMEOUT_MINUTES,
+    0
+  ),
+};
+
+// --- Token-Refresh-Koordination ---
+
+// Endpoint für den SimpleJWT-Token-Refresh (relativ zur BASE_URL)
+const TOKEN_REFRESH_ENDPOINT = "/elearning/token/refresh/";
+
+// Token-Endpoints (Login/Refresh) lösen nie selbst einen Refresh aus
+const isTokenEndpoint = (url?: string) => !!url && url.includes("/token/");
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  // Request wurde bereits nach einem Token-Refresh wiederholt
+  _retry?: boolean;
+  // Anzahl bisheriger Wiederholungen nach Netzwerk-/Serverfehlern
+  _retryCount?: number;
+  // Schreibender Request gegen Produktion wurde bereits bestätigt
+  _writeConfirmed?: boolean;
+  // Startzeitpunkt des aktuellen Versuchs (Netzwerk-Protokoll)
+  _startedAt?: number;
+};
+
+// Im Cookie-Modus liefert der Refresh keinen lesbaren Token (null)
+interface QueuedRequest {
+  resolve: (token: string | null) => void;
+  reject: (error: unknown) => void;
+}
+
+// Modulweiter Zustand, damit alle Clients denselben Refresh teilen
+let isRefreshing = false;
+let failedQueue: QueuedRequest[] = [];
+let pendingRefresh: Promise<string | null> | null = null;
+
+/**
+ * Wartende Requests nach Abschluss des Refreshs fortsetzen oder abbrechen
+ */
+const processQueue = (error: unknown, token: string | null) => {
+  failedQueue.forEach((request) => {
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(token);
+    }
+  });
+  failedQueue = [];
+};
+
+/**
+ * Session beenden
+ *
+ * Das Leeren des Token-Speichers benachrichtigt den AuthProvider, der die
+ * Route Guards neu rendert und so zur Login-Seite weiterleitet.
+ */
+const forceLogout = () => {
+  tokenStorage.clear();
+};
+
+/**
+ * Refresh-Request ausführen
+ *
+ * Nutzt bewusst eine nackte Axios-Instanz ohne Interceptors, damit ein
+ * fehlschlagender Refresh keine Refresh-Schleife auslöst. Im Cookie-Modus
+ * liest das Backend den Refresh-Token aus dem httpOnly-Cookie.
+ */
+const requestTokenRefresh = async (): Promise<string | null> => {
+  if (!tokenStorage.canRefresh()) {
+    throw new Error("Kein Refresh-Token vorhanden");
   }
-);
 
-// --- Response Interceptor für Fehlerbehandlung ---
+  const refresh = tokenStorage.getRefreshToken();
+  const response = await axios.post<TokenExpiryResponse>(
+    `${API_CONFIG.BASE_URL}${TOKEN_REFRESH_ENDPOINT}`,
+    refresh ? { refresh } : {},
+    {
+      timeout: API_CONFIG.TIMEOUT,
+      headers: { ...API_CONFIG.DEFAULT_HEADERS, ...getCsrfHeaders() },
+      withCredentials: AUTH_CONFIG.WITH_CREDENTIALS,
+      adapter: mockAdapter,
+    }
+  );
 
-apiClient.interceptors.response.use(
-  (response) => {
-    console.log(`✅ API Response: ${response.status} ${response.config.url}`);
-    return response;
-  },
-  (error) => {
-    console.error("❌ API Response Error:", error);
-
-    // Automatisches Logout bei 401-Fehlern
-    if (error.response?.status === 401) {
-      localStorage.removeItem("access");
-      localStorage.removeItem("refresh");
-      window.location.href = "/login";
+  const { access, refresh: rotatedRefresh } = response.data;
+
+  // Bei aktivierter Token-Rotation liefert das Backend einen neuen Refresh-Token
+  if (access) {
+    tokenStorage.setTokens(access, rotatedRefresh ?? undefined);
+  }
+  // Cookie-Modus: Tokens unlesbar, Ablauf nur aus dem Body
+  if (TOKEN_STORAGE_MODE === "cookie") {
+    tokenStorage.setExpiry(getResponseExpiry(response.data));
+  }
+
+  return access ?? null;
+};
+
+/**
+ * Neuen Access-Token über den Refresh-Token anfordern
+ *
+ * Gleichzeitige Aufrufe (Interceptor, "Angemeldet bleiben") teilen sich
+ * denselben Request, damit rotierte Refresh-Tokens nicht doppelt genutzt werden.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!pendingRefresh) {
+    pendingRefresh = requestTokenRefresh().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+// --- Retry mit Backoff ---
+
+/**
+ * Prüfen ob ein fehlgeschlagener Request automatisch wiederholt wird
+ *
+ * Nur idempotente Requests nach Netzwerkfehlern, Timeouts oder 5xx -
+ * abgebrochene Requests und Client-Fehler (4xx) nie.
+ */
+const shouldRetry = (error: AxiosError, config: RetriableRequestConfig) => {
+  if (isAbortError(error)) return false;
+  if (!RETRY_CONFIG.METHODS.includes(config.method ?? "get")) return false;
+  if ((config._retryCount ?? 0) >= RETRY_CONFIG.MAX_RETRIES) return false;
+
+  const status = error.response?.status;
+  return status === undefined || status >= 500;
+};
+
+/**
+ * Wartezeit vor dem nächsten Versuch (exponentiell, mit Jitter)
+ *
+ * Der Jitter verteilt Wiederholungen vieler Clients, damit ein gerade
+ * wieder erreichbares Backend nicht von allen gleichzeitig getroffen wird.
+ */
+const getRetryDelay = (attempt: number) => {
+  const exponential = Math.min(
+    RETRY_CONFIG.MAX_DELAY_MS,
+    RETRY_CONFIG.BASE_DELAY_MS * 2 ** attempt
+  );
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+/**
+ * Wartezeit abwarten - bricht sofort ab, wenn das AbortSignal auslöst
+ */
+const waitForRetry = (
+  delay: number,
+  signal: InternalAxiosRequestConfig["signal"]
+) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
     }
 
-    return Promise.reject(error);
+    const timer = setTimeout(resolve, delay);
+    signal?.addEventListener?.("abort", () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    });
+  });
+
+// --- Schutz des Produktions-Backends ---
+
+const askProductionWrite = (action: string) => {
+  const { label } = API_CONFIG.ENVIRONMENT;
+  return window.confirm(
+    `Achtung: Änderung am Produktions-Backend "${label}".\n\n` +
+      `${action}\n\nWirklich ausführen?`
+  );
+};
+
+/**
+ * Schreibende Requests gegen Produktion bestätigen lassen
+ *
+ * Login, Token-Refresh und Logout sind ausgenommen. Wiederholungen nach
+ * einem Token-Refresh und vorab bestätigte Requests (writeConfirmed)
+ * fragen nicht erneut nach.
+ *
+ * @returns false, wenn der Benutzer den Request abgelehnt hat
+ */
+const confirmProductionWrite = (config: RetriableRequestConfig) => {
+  if (!API_CONFIG.ENVIRONMENT.production || config._writeConfirmed) {
+    return true;
+  }
+  if (
+    !CSRF_UNSAFE_METHODS.includes(config.method ?? "get") ||
+    isTokenEndpoint(config.url)
+  ) {
+    return true;
   }
-);
 
-// --- Service-spezifische Axios-Instanzen ---
+  const confirmed = askProductionWrite(
+    `${config.method?.toUpperCase()} ${config.url}`
+  );
+  config._writeConfirmed = confirmed;
+  return confirmed;
+};
 
-// Für Services, die eine andere Base-URL benötigen
-export const createServiceClient = (baseURL: string) => {
-  const client = axios.create({
-    baseURL: `${API_CONFIG.BASE_URL}${baseURL}`,
-    timeout: API_CONFIG.TIMEOUT,
-    headers: API_CONFIG.DEFAULT_HEADERS,
+/**
+ * Sammelaktion gegen Produktion einmal vorab bestätigen lassen
+ *
+ * Die einzelnen Requests der Aktion werden anschließend mit
+ * writeConfirmed gesendet - sonst fragte jeder Request erneut nach.
+ *
+ * @param action - Beschreibung für die Abfrage, z.B. "12 Datensätze löschen"
+ * @throws CanceledError, wenn der Benutzer ablehnt (wie bei einem
+ *   abgelehnten Einzel-Request)
+ */
+export const confirmProductionWrites = (action: string) => {
+  if (API_CONFIG.ENVIRONMENT.production && !askProductionWrite(action)) {
+    throw new CanceledError();
+  }
+};
+
+/**
+ * Axios-Config aus den Optionen einer Service-Methode
+ */
+export const toRequestConfig = ({
+  signal,
+  writeConfirmed,
+}: RequestOptions): AxiosRequestConfig =>
+  ({
+    signal,
+    ...(writeConfirmed && { _writeConfirmed: true }),
+  }) as AxiosRequestConfig;
+
+// --- Logging und Netzwerk-Protokoll ---
+
+const log = createLogger("API");
+
+interface RequestOutcome {
+  status: number;
+  data: unknown;
+  error?: string | null;
+  canceled?: boolean;
+}
+
+/**
+ * Abgeschlossenen Versuch eines Requests im Netzwerk-Protokoll ablegen
+ *
+ * Jeder Versuch (auch Wiederholungen und 401 vor dem Token-Refresh) wird
+ * einzeln protokolliert.
+ */
+const recordRequest = (
+  config: RetriableRequestConfig | undefined,
+  { status, data, error = null, canceled = false }: RequestOutcome
+) => {
+  if (!networkLog.enabled || !config) return;
+
+  const startedAt = config._startedAt ?? Date.now();
+  networkLog.record({
+    method: (config.method ?? "get").toUpperCase(),
+    url: axios.getUri(config),
+    status,
+    durationMs: Date.now() - startedAt,
+    startedAt,
+    requestBody: formatBody(config.data),
+    responseBody: formatBody(data),
+    error,
+    canceled,
   });
+};
 
-  // Gleiche Interceptors-Logik wie die Haupt-Instanz
+// --- Gemeinsame Interceptors ---
+
+/**
+ * Request- und Response-Interceptors an eine Axios-Instanz hängen
+ *
+ * - Schreibende Requests gegen Produktion bestätigen lassen
+ * - JWT Token bzw. CSRF-Header (Cookie-Modus) automatisch anhängen
+ * - Bei 401 einmalig den Token erneuern, parallele Requests einreihen
+ *   und anschließend mit dem neuen Token wiederholen
+ * - Logout nur, wenn der Refresh selbst fehlschlägt
+ * - GET-Requests bei Netzwerkfehlern und 5xx mit Backoff wiederholen
+ * - Fehler werden als ApiError an die Aufrufer weitergereicht
+ */
+const attachInterceptors = (client: AxiosInstance) => {
   client.interceptors.request.use(
     (config) => {
-      const token = localStorage.getItem("access");
+      // Abgelehnte Änderungen am Produktions-Backend gar nicht erst senden
+      if (!confirmProductionWrite(config)) {
+        throw new CanceledError();
+      }
+
+      // JWT Token automatisch anhängen
+      const token = tokenStorage.getAccessToken();
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
-      console.log(
-        `📡 API Request: ${config.method?.toUpperCase()} ${config.url}`
-      );
+
+      // CSRF-Header für schreibende Requests im Cookie-Modus
+      if (CSRF_UNSAFE_METHODS.includes(config.method ?? "get")) {
+        Object.entries(getCsrfHeaders()).forEach(([header, value]) => {
+          config.headers[header] = value;
+        });
+      }
+
+      log.debug(`📡 ${config.method?.toUpperCase()} ${config.url}`);
+      (config as RetriableRequestConfig)._startedAt = Date.now();
+
       return config;
     },
     (error) => {
-      console.error("❌ API Request Error:", error);
-      return Promise.reject(error);
+      log.error("❌ Request-Fehler:", error);
+      return Promise.reject(toApiError(error));
     }
   );
 
   client.interceptors.response.use(
     (response) => {
-      console.log(`✅ API Response: ${response.status} ${response.config.url}`);
+      log.debug(`✅ ${response.status} ${response.config.url}`);
+      recordRequest(response.config, {
+        status: response.status,
+        data: response.data,
+      });
       return response;
     },
-    (error) => {
-      console.error("❌ API Response Error:", error);
-      if (error.response?.status === 401) {
-        localStorage.removeItem("access");
-        localStorage.removeItem("refresh");
-        window.location.href = "/login";
+    async (error: AxiosError) => {
+      const originalRequest = error.config as RetriableRequestConfig | undefined;
+      recordRequest(originalRequest, {
+        status: error.response?.status ?? 0,
+        data: error.response?.data,
+        error: error.message,
+        canceled: isAbortError(error),
+      });
+
+      // Überholte Requests sind kein Fehler - nur weiterreichen
+      if (isAbortError(error)) {
+        return Promise.reject(toApiError(error));
+      }
+
+      // Netzwerkfehler und 5xx bei idempotenten Requests wiederholen
+      if (originalRequest && shouldRetry(error, originalRequest)) {
+        const attempt = originalRequest._retryCount ?? 0;
+        const delay = getRetryDelay(attempt);
+        originalRequest._retryCount = attempt + 1;
+        log.warn(
+          `🔁 Wiederholung ${attempt + 1}/${RETRY_CONFIG.MAX_RETRIES} in ${Math.round(delay)} ms: ${originalRequest.url}`
+        );
+
+        try {
+          await waitForRetry(delay, originalRequest.signal);
+        } catch (abortError) {
+          return Promise.reject(toApiError(abortError));
+        }
+        return client(originalRequest);
+      }
+
+      // Nur 401-Fehler von wiederholbaren Requests behandeln
+      if (
+        error.response?.status !== 401 ||
+        !originalRequest ||
+        originalRequest._retry ||
+        isTokenEndpoint(originalRequest.url)
+      ) {
+        log.error("❌ Response-Fehler:", error);
+        if (
+          error.response?.status === 401 &&
+          !isTokenEndpoint(originalRequest?.url)
+        ) {
+          forceLogout();
+        }
+        return Promise.reject(toApiError(error));
+      }
+
+      // Kein Refresh möglich (z.B. fehlgeschlagener Login) - direkt abbrechen
+      if (!tokenStorage.canRefresh()) {
+        log.error("❌ Response-Fehler:", error);
+        forceLogout();
+        return Promise.reject(toApiError(error));
+      }
+
+      originalRequest._retry = true;
+
+      // Refresh läuft bereits - Request einreihen und später wiederholen
+      if (isRefreshing) {
+        return new Promise<string | null>((resolve, reject) => {
+          failedQueue.push({ resolve, reject });
+        }).then((token) => {
+          if (token) {
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+          }
+          return client(originalRequest);
+        });
+      }
+
+      isRefreshing = true;
+
+      try {
+        const token = await refreshAccessToken();
+        log.info("🔄 Access-Token erneuert");
+        processQueue(null, token);
+        if (token) {
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+        }
+        return client(originalRequest);
+      } catch (refreshError) {
+        log.error("❌ Token-Refresh fehlgeschlagen:", refreshError);
+        const apiError = toApiError(refreshError);
+        processQueue(apiError, null);
+        forceLogout();
+        return Promise.reject(apiError);
+      } finally {
+        isRefreshing = false;
       }
-      return Promise.reject(error);
     }
   );
 
   return client;
 };
 
+// --- Zentrale Axios-Instanz ---
+
+export const apiClient = attachInterceptors(
+  axios.create({
+    baseURL: API_CONFIG.BASE_URL,
+    timeout: API_CONFIG.TIMEOUT,
+    headers: API_CONFIG.DEFAULT_HEADERS,
+    withCredentials: AUTH_CONFIG.WITH_CREDENTIALS,
+    adapter: mockAdapter,
+  })
+);
+
+// --- Service-spezifische Axios-Instanzen ---
+
+// Für Services, die eine andere Base-URL benötigen
+export const createServiceClient = (baseURL: string) => {
+  const client = axios.create({
+    baseURL: `${API_CONFIG.BASE_URL}${baseURL}`,
+    timeout: API_CONFIG.TIMEOUT,
+    headers: API_CONFIG.DEFAULT_HEADERS,
+    withCredentials: AUTH_CONFIG.WITH_CREDENTIALS,
+    adapter: mockAdapter,
+  });
+
+  // Gleiche Interceptors-Logik wie die Haupt-Instanz
+  return attachInterceptors(client);
+};
+
 export default apiClient;
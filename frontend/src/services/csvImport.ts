@@ -0,0 +1,624 @@
+/**
+ * CSV-Import für beliebige Models - DSP Database Overview
+ *
+ * Lädt Stammdaten aus einer CSV-Datei in eine Tabelle (nur Superuser):
+ * - Einlesen nach RFC 4180, Trennzeichen (Komma, Semikolon, Tab) wird
+ *   erkannt, BOM von Excel wird entfernt
+ * - Automatische Zuordnung der Spalten zu den Schemafeldern
+ * - Prüfung jeder Zeile vor dem Import (Probelauf): Feldtyp, max_length,
+ *   Pflichtfelder, null, choices, unique (in der Datei und in der Tabelle)
+ * - ForeignKeys über den Primärschlüssel oder ein gewähltes Suchfeld des
+ *   Ziel-Models (z.B. Abteilungsname statt ID)
+ * - Import in Blöcken über records/bulk/ - jeder Block wird vom Backend
+ *   ganz oder gar nicht angelegt, Fehler eines Blocks stoppen die übrigen
+ *   nicht
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import {
+  dbOverviewAPI,
+  type DatabaseSchemaResponse,
+  type ModelInfo,
+  type SchemaField,
+  type TableFilterParam,
+  type TableRecord,
+} from "./api";
+import {
+  ApiError,
+  getErrorMessage,
+  isAbortError,
+  toApiError,
+} from "./apiError";
+import { confirmProductionWrites } from "./config";
+import {
+  getEditableFields,
+  getRecordInputKind,
+  isRequiredField,
+  toRecordValue,
+  validateRecordValue,
+} from "./recordForm";
+import {
+  getForeignKeyModel,
+  getPrimaryKeyName,
+  getPrimaryKeyTypeLabel,
+  getSearchFieldName,
+  parsePrimaryKeyValue,
+} from "./schemaRelations";
+
+// --- Typen ---
+
+export interface CsvData {
+  headers: string[];
+  rows: string[][];
+  // Zeilennummer jeder Zeile in der Datei (Kopfzeile = 1)
+  lines: number[];
+  delimiter: string;
+}
+
+export interface ImportMapping {
+  // Zielfeld je CSV-Spalte (null = Spalte ignorieren)
+  columns: (string | null)[];
+  // Suchfeld im Ziel-Model je ForeignKey (fehlt = Primärschlüssel)
+  lookups: Record<string, string>;
+}
+
+export interface ImportRowError {
+  // Feldname (null = Fehler ohne Feldbezug)
+  field: string | null;
+  message: string;
+}
+
+export interface ImportRow {
+  // Zeilennummer in der Datei (Kopfzeile = 1)
+  line: number;
+  record: TableRecord;
+  errors: ImportRowError[];
+}
+
+export interface ImportBatchResult {
+  index: number;
+  firstLine: number;
+  lastLine: number;
+  // Angelegte Datensätze (0 bei Fehler - Blöcke sind atomar)
+  created: number;
+  error: string | null;
+  // Vom Backend gemeldete Zeilenfehler
+  rowErrors: (ImportRowError & { line: number })[];
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+interface ValidateImportOptions {
+  schema: DatabaseSchemaResponse;
+  model: ModelInfo;
+  csv: CsvData;
+  mapping: ImportMapping;
+  signal?: AbortSignal;
+}
+
+interface ImportRecordsOptions {
+  model: ModelInfo;
+  rows: ImportRow[];
+  batchSize?: number;
+  signal?: AbortSignal;
+  onBatch?: (result: ImportBatchResult, progress: ImportProgress) => void;
+}
+
+// --- Konfiguration ---
+
+// Datensätze je Bulk-Request
+export const IMPORT_BATCH_SIZE = 100;
+
+// Werte je "in"-Filter beim Nachschlagen (Länge der Query)
+const LOOKUP_CHUNK_SIZE = 100;
+
+// Maximale Seitengröße des Tabellen-Endpoints
+const LOOKUP_PAGE_SIZE = 1000;
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+const TRUE_VALUES = ["1", "true", "ja", "yes", "wahr", "x", "y", "j"];
+const FALSE_VALUES = ["0", "false", "nein", "no", "falsch", "n", ""];
+
+// Deutsches Datumsformat aus Excel, z.B. "31.12.2024" oder
+// "31.12.2024 08:30"
+const GERMAN_DATE_PATTERN =
+  /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// --- CSV einlesen ---
+
+/**
+ * Trennzeichen aus der Kopfzeile erkennen (häufigstes Zeichen)
+ */
+const detectDelimiter = (text: string) => {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length
+      ? delimiter
+      : best
+  );
+};
+
+/**
+ * CSV-Text nach RFC 4180 einlesen
+ *
+ * Felder in Anführungszeichen dürfen Trennzeichen, Zeilenumbrüche und
+ * verdoppelte Anführungszeichen enthalten. Leere Zeilen werden übersprungen.
+ */
+export const parseCsv = (text: string, delimiter?: string): CsvData => {
+  const content = text.replace(/^\uFEFF/, "");
+  const separator = delimiter ?? detectDelimiter(content);
+  const records: string[][] = [];
+  const lines: number[] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Aktuelle Zeile und Startzeile des Datensatzes (Umbrüche in Feldern)
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    record.push(field);
+    field = "";
+  };
+  const endRecord = () => {
+    endField();
+    if (record.some((value) => value !== "")) {
+      records.push(record);
+      lines.push(recordLine);
+    }
+    record = [];
+    recordLine = line;
+  };
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (char === "\n") line++;
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === separator) {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") {
+        index++;
+        line++;
+      } else if (char === "\r") {
+        line++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  const [headers = [], ...rows] = records;
+  return {
+    headers: headers.map((header) => header.trim()),
+    rows,
+    lines: lines.slice(1),
+    delimiter: separator,
+  };
+};
+
+// --- Zuordnung ---
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/(_id|_pk)$/, "")
+    .replace(/[^a-z0-9]/g, "");
+
+/**
+ * Felder, in die importiert werden kann (wie im Formular beim Anlegen,
+ * also auch ein von Hand vergebener Primärschlüssel)
+ */
+export const getImportFields = (model: ModelInfo) => getEditableFields(model);
+
+/**
+ * CSV-Spalten über ihren Namen den Feldern zuordnen (jedes Feld einmal)
+ */
+export const autoMapColumns = (
+  headers: string[],
+  model: ModelInfo
+): (string | null)[] => {
+  const used = new Set<string>();
+  return headers.map((header) => {
+    const match = getImportFields(model).find(
+      (field) =>
+        !used.has(field.name) &&
+        normalizeName(field.name) === normalizeName(header)
+    );
+    if (!match) return null;
+    used.add(match.name);
+    return match.name;
+  });
+};
+
+/**
+ * Mögliche Suchfelder für einen ForeignKey: Primärschlüssel, eindeutige
+ * Felder und das Namensfeld des Ziel-Models
+ */
+export const getLookupFieldOptions = (targetModel: ModelInfo): string[] => {
+  const names = [
+    getPrimaryKeyName(targetModel),
+    ...targetModel.fields
+      .filter((field) => field.unique && !field.is_relationship)
+      .map((field) => field.name),
+    getSearchFieldName(targetModel),
+  ];
+  return names.filter(
+    (name, index): name is string => !!name && names.indexOf(name) === index
+  );
+};
+
+/**
+ * Pflichtfelder ohne zugeordnete Spalte
+ */
+export const getUnmappedRequiredFields = (
+  model: ModelInfo,
+  mapping: ImportMapping
+) =>
+  getImportFields(model).filter(
+    (field) => isRequiredField(field) && !mapping.columns.includes(field.name)
+  );
+
+// --- Prüfung ---
+
+const parseBoolean = (value: string) => {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+};
+
+// "31.12.2024 08:30" -> "2024-12-31T08:30:00", sonst unverändert
+const normalizeDate = (value: string) => {
+  const match = GERMAN_DATE_PATTERN.exec(value.trim());
+  if (!match) return value;
+  const [, day, month, year, hours, minutes, seconds = "00"] = match;
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  return hours
+    ? `${date}T${hours.padStart(2, "0")}:${minutes}:${seconds}`
+    : date;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size)
+  );
+
+const createInFilterParam = (
+  field: string,
+  values: unknown[]
+): TableFilterParam => ({
+  combinator: "and",
+  groups: [
+    { combinator: "and", conditions: [{ field, lookup: "in", value: values }] },
+  ],
+});
+
+/**
+ * Datensätze einer Tabelle zu den gegebenen Feldwerten laden
+ */
+const fetchByValues = async (
+  model: ModelInfo,
+  fieldName: string,
+  values: unknown[],
+  signal?: AbortSignal
+) => {
+  const rows: TableRecord[] = [];
+  for (const part of chunk(values, LOOKUP_CHUNK_SIZE)) {
+    const response = await dbOverviewAPI.getTableData(
+      model.app_label,
+      model.model_name,
+      1,
+      LOOKUP_PAGE_SIZE,
+      { signal, filters: createInFilterParam(fieldName, part) }
+    );
+    rows.push(...response.data);
+  }
+  return rows;
+};
+
+/**
+ * Einzelnen CSV-Wert prüfen und umwandeln (ohne ForeignKeys)
+ */
+const convertValue = (
+  field: SchemaField,
+  raw: string
+): { value?: unknown; error?: string } => {
+  const kind = getRecordInputKind(field);
+  if (kind === "boolean") {
+    const value = parseBoolean(raw);
+    return value === null ? { error: "Ja/Nein (1/0) erwartet" } : { value };
+  }
+
+  const input =
+    kind === "date" || kind === "datetime" ? normalizeDate(raw) : raw;
+  const error = validateRecordValue(field, input);
+  return error ? { error } : { value: toRecordValue(field, input) };
+};
+
+/**
+ * ForeignKey-Spalte über das Suchfeld des Ziel-Models auflösen
+ *
+ * IDs werden wie im Formular nach dem Primärschlüsseltyp des Ziel-Models
+ * geprüft (Ganzzahl, UUID oder Text).
+ */
+const resolveForeignKeys = async (
+  rows: ImportRow[],
+  rawValues: Map<ImportRow, string>,
+  field: SchemaField,
+  targetModel: ModelInfo,
+  lookupField: string,
+  signal?: AbortSignal
+) => {
+  const primaryKeyName = getPrimaryKeyName(targetModel);
+  const keyField =
+    targetModel.fields.find((item) => item.name === primaryKeyName) ?? null;
+  const byPrimaryKey = lookupField === primaryKeyName;
+
+  // Suchwert je Zeile - IDs im Typ des Primärschlüssels
+  const lookupValues = new Map<ImportRow, unknown>();
+  rows.forEach((row) => {
+    const raw = rawValues.get(row)!;
+    const value = byPrimaryKey ? parsePrimaryKeyValue(keyField, raw) : raw;
+    if (value === undefined) {
+      row.errors.push({
+        field: field.name,
+        message: `ID (${getPrimaryKeyTypeLabel(keyField)}) erwartet`,
+      });
+      return;
+    }
+    lookupValues.set(row, value);
+  });
+  const pending = [...lookupValues.keys()];
+  const targets = await fetchByValues(
+    targetModel,
+    lookupField,
+    [...new Set(lookupValues.values())],
+    signal
+  );
+
+  // Suchwert -> Primärschlüssel aller Treffer
+  const matches = new Map<string, unknown[]>();
+  targets.forEach((target) => {
+    const key = String(target[lookupField]);
+    matches.set(key, [...(matches.get(key) ?? []), target[primaryKeyName]]);
+  });
+
+  pending.forEach((row) => {
+    const raw = rawValues.get(row)!;
+    const found = matches.get(String(lookupValues.get(row))) ?? [];
+    if (found.length === 1) {
+      row.record[field.name] = found[0];
+      return;
+    }
+    row.errors.push({
+      field: field.name,
+      message:
+        found.length === 0
+          ? `${targetModel.model_name} mit ${lookupField} "${raw}" ` +
+            "nicht gefunden"
+          : `${lookupField} "${raw}" ist in ${targetModel.model_name} ` +
+            "nicht eindeutig",
+    });
+  });
+};
+
+/**
+ * Eindeutige Felder gegen die Datei selbst und die Tabelle prüfen
+ */
+const checkUniqueValues = async (
+  model: ModelInfo,
+  rows: ImportRow[],
+  field: SchemaField,
+  signal?: AbortSignal
+) => {
+  const withValue = rows.filter(
+    (row) =>
+      row.record[field.name] !== undefined &&
+      row.record[field.name] !== null &&
+      row.record[field.name] !== ""
+  );
+
+  // Erster Wert je Schlüssel mit Zeilennummer
+  const firstRows = new Map<string, ImportRow>();
+  withValue.forEach((row) => {
+    const key = String(row.record[field.name]);
+    const firstRow = firstRows.get(key);
+    if (!firstRow) {
+      firstRows.set(key, row);
+    } else {
+      row.errors.push({
+        field: field.name,
+        message: `Wert bereits in Zeile ${firstRow.line}`,
+      });
+    }
+  });
+
+  const existing = await fetchByValues(
+    model,
+    field.name,
+    [...firstRows.values()].map((row) => row.record[field.name]),
+    signal
+  );
+  const taken = new Set(existing.map((row) => String(row[field.name])));
+  withValue.forEach((row) => {
+    if (taken.has(String(row.record[field.name]))) {
+      row.errors.push({
+        field: field.name,
+        message: "Wert existiert bereits in der Tabelle",
+      });
+    }
+  });
+};
+
+/**
+ * Alle Zeilen prüfen und in Datensätze umwandeln (Probelauf)
+ *
+ * Liest nur - angelegt wird erst mit importRecords.
+ */
+export const validateImport = async ({
+  schema,
+  model,
+  csv,
+  mapping,
+  signal,
+}: ValidateImportOptions): Promise<ImportRow[]> => {
+  const mappedFields = mapping.columns.flatMap((name, column) => {
+    const field = getImportFields(model).find((item) => item.name === name);
+    return field ? [{ field, column }] : [];
+  });
+  const foreignKeys = new Map(
+    mappedFields.map(({ field }) => [field, new Map<ImportRow, string>()])
+  );
+
+  const rows: ImportRow[] = csv.rows.map((values, index) => {
+    const row: ImportRow = {
+      line: csv.lines[index] ?? index + 2,
+      record: {},
+      errors: [],
+    };
+    mappedFields.forEach(({ field, column }) => {
+      const raw = (values[column] ?? "").trim();
+
+      if (field.is_relationship && raw !== "") {
+        foreignKeys.get(field)!.set(row, raw);
+        return;
+      }
+      const { value, error } = convertValue(field, raw);
+      if (error) {
+        row.errors.push({ field: field.name, message: error });
+      } else if (value !== undefined) {
+        row.record[field.name] = value;
+      }
+    });
+    return row;
+  });
+
+  for (const { field } of mappedFields) {
+    if (field.is_relationship) {
+      const rawValues = foreignKeys.get(field)!;
+      const targetModel = getForeignKeyModel(schema, model, field);
+      if (rawValues.size === 0) continue;
+      if (!targetModel) {
+        rawValues.forEach((_, row) =>
+          row.errors.push({
+            field: field.name,
+            message: "Ziel-Model des ForeignKeys unbekannt",
+          })
+        );
+        continue;
+      }
+      await resolveForeignKeys(
+        [...rawValues.keys()],
+        rawValues,
+        field,
+        targetModel,
+        mapping.lookups[field.name] ?? getPrimaryKeyName(targetModel),
+        signal
+      );
+    } else if (field.unique) {
+      await checkUniqueValues(model, rows, field, signal);
+    }
+  }
+
+  return rows;
+};
+
+// --- Import ---
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new ApiError({
+      status: 0,
+      message: "Import abgebrochen.",
+      canceled: true,
+    });
+  }
+};
+
+/**
+ * Zeilenfehler des Backends ("records.<index>.<feld>") den Zeilen eines
+ * Blocks zuordnen
+ */
+const getBatchRowErrors = (error: unknown, batch: ImportRow[]) =>
+  Object.entries(toApiError(error).fieldErrors).flatMap(([path, messages]) => {
+    const [, index, field = null] = path.split(".");
+    const row = batch[Number(index)];
+    return row
+      ? [{ line: row.line, field, message: messages.join(" ") }]
+      : [];
+  });
+
+/**
+ * Gültige Zeilen in Blöcken anlegen
+ *
+ * Ein fehlgeschlagener Block wird gemeldet, die übrigen Blöcke laufen
+ * weiter. Nur ein Abbruch über das AbortSignal beendet den Import. Gegen
+ * Produktion wird der ganze Import einmal vorab bestätigt, nicht je Block.
+ */
+export const importRecords = async ({
+  model,
+  rows,
+  batchSize = IMPORT_BATCH_SIZE,
+  signal,
+  onBatch,
+}: ImportRecordsOptions): Promise<ImportBatchResult[]> => {
+  const batches = chunk(rows, batchSize);
+  const results: ImportBatchResult[] = [];
+  if (batches.length > 0) {
+    confirmProductionWrites(
+      `${rows.length.toLocaleString()} Datensätze in ` +
+        `${model.app_label}.${model.model_name} importieren`
+    );
+  }
+
+  for (const [index, batch] of batches.entries()) {
+    throwIfAborted(signal);
+    const result: ImportBatchResult = {
+      index,
+      firstLine: batch[0].line,
+      lastLine: batch[batch.length - 1].line,
+      created: 0,
+      error: null,
+      rowErrors: [],
+    };
+
+    try {
+      const response = await dbOverviewAPI.bulkCreateRecords(
+        model.app_label,
+        model.model_name,
+        batch.map((row) => row.record),
+        { signal, writeConfirmed: true }
+      );
+      result.created = response.created;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      result.error = getErrorMessage(error);
+      result.rowErrors = getBatchRowErrors(error, batch);
+    }
+
+    results.push(result);
+    onBatch?.(result, { done: index + 1, total: batches.length });
+  }
+
+  return results;
+};
@@ -0,0 +1,168 @@
+/**
+ * Vorschau der Auswirkungen beim Löschen eines oder mehrerer Datensätze
+ *
+ * Ermittelt vor dem Löschen, was das Backend nach on_delete der
+ * eingehenden Beziehungen mit abhängigen Datensätzen tun wird:
+ * - CASCADE: abhängige Datensätze werden mitgelöscht (rekursiv)
+ * - SET_NULL: Verweise werden geleert
+ * - PROTECT: Löschen ist blockiert, solange Verweise bestehen
+ * - Sonstige (DO_NOTHING, SET_DEFAULT, ...): nur zur Information
+ *
+ * Gezählt wird über den Tabellen-Endpoint mit einem "in"-Filter auf das
+ * ForeignKey-Feld. Tiefe und Anzahl der verfolgten Datensätze sind
+ * begrenzt, darüber hinaus ist die Vorschau als unvollständig markiert.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import {
+  dbOverviewAPI,
+  type DatabaseSchemaResponse,
+  type ModelInfo,
+  type TableFilterParam,
+} from "./api";
+import {
+  getIncomingRelations,
+  getModelKey,
+  getPrimaryKeyName,
+} from "./schemaRelations";
+
+// --- Konfiguration ---
+
+// Maximale Tiefe der CASCADE-Kette
+const MAX_CASCADE_DEPTH = 5;
+
+// Obergrenze verfolgter Datensätze je Beziehung (= maximale Seitengröße)
+const MAX_TRACKED_RECORDS = 1000;
+
+// --- Typen ---
+
+export interface DeleteImpact {
+  // Model mit dem verweisenden ForeignKey
+  model: ModelInfo;
+  fieldName: string;
+  // on_delete der Beziehung (z.B. "CASCADE"), null wenn unbekannt
+  onDelete: string | null;
+  // Anzahl betroffener Datensätze
+  count: number;
+  // Stufe in der Kaskade (1 = verweist direkt auf den Datensatz)
+  depth: number;
+}
+
+export interface DeletePreview {
+  impacts: DeleteImpact[];
+  // Mindestens ein verwendeter PROTECT-Verweis verhindert das Löschen
+  blocked: boolean;
+  // Tiefe oder Anzahl überschritten - tatsächliche Auswirkung größer
+  truncated: boolean;
+}
+
+interface PendingLevel {
+  model: ModelInfo;
+  ids: unknown[];
+  depth: number;
+}
+
+// --- Vorschau ---
+
+const createInFilterParam = (
+  field: string,
+  values: unknown[]
+): TableFilterParam => ({
+  combinator: "and",
+  groups: [
+    { combinator: "and", conditions: [{ field, lookup: "in", value: values }] },
+  ],
+});
+
+/**
+ * Auswirkungen des Löschens von Datensätzen eines Models ermitteln
+ *
+ * @param schema - Datenbankschema mit den globalen Beziehungen
+ * @param model - Model der zu löschenden Datensätze
+ * @param primaryKeys - Primärschlüssel der Datensätze
+ * @param signal - Optionales AbortSignal
+ */
+export const getDeletePreview = async (
+  schema: DatabaseSchemaResponse,
+  model: ModelInfo,
+  primaryKeys: unknown[],
+  signal?: AbortSignal
+): Promise<DeletePreview> => {
+  const impacts: DeleteImpact[] = [];
+  let truncated = false;
+
+  // Bereits als gelöscht erfasste Datensätze je Model (gegen Zyklen)
+  const visited = new Map<string, Set<string>>([
+    [getModelKey(model), new Set(primaryKeys.map(String))],
+  ]);
+  const queue: PendingLevel[] = [{ model, ids: primaryKeys, depth: 1 }];
+
+  while (queue.length > 0) {
+    const level = queue.shift()!;
+
+    for (const relation of getIncomingRelations(schema, level.model)) {
+      const onDelete = relation.relationship.on_delete;
+      const cascades = onDelete === "CASCADE";
+      const response = await dbOverviewAPI.getTableData(
+        relation.sourceModel.app_label,
+        relation.sourceModel.model_name,
+        1,
+        cascades ? MAX_TRACKED_RECORDS : 1,
+        {
+          signal,
+          filters: createInFilterParam(relation.fieldName, level.ids),
+        }
+      );
+      const count = response.pagination.total_count;
+      if (count === 0) continue;
+
+      impacts.push({
+        model: relation.sourceModel,
+        fieldName: relation.fieldName,
+        onDelete,
+        count,
+        depth: level.depth,
+      });
+      if (!cascades) continue;
+
+      // Mitgelöschte Datensätze haben wiederum eigene Abhängigkeiten
+      if (count > response.data.length) truncated = true;
+      const key = getModelKey(relation.sourceModel);
+      const seen = visited.get(key) ?? new Set<string>();
+      visited.set(key, seen);
+      const primaryKeyName = getPrimaryKeyName(relation.sourceModel);
+      const ids = response.data
+        .map((row) => row[primaryKeyName])
+        .filter((id) => !seen.has(String(id)));
+      ids.forEach((id) => seen.add(String(id)));
+
+      if (ids.length === 0) continue;
+      if (level.depth >= MAX_CASCADE_DEPTH) {
+        truncated = true;
+        continue;
+      }
+      queue.push({
+        model: relation.sourceModel,
+        ids,
+        depth: level.depth + 1,
+      });
+    }
+  }
+
+  return {
+    impacts,
+    blocked: impacts.some((impact) => impact.onDelete === "PROTECT"),
+    truncated,
+  };
+};
+
+/**
+ * Anzahl der mitgelöschten Datensätze (ohne die Datensätze selbst)
+ */
+export const countCascadedRecords = (preview: DeletePreview) =>
+  preview.impacts
+    .filter((impact) => impact.onDelete === "CASCADE")
+    .reduce((total, impact) => total + impact.count, 0);
@@ -4,7 +4,7 @@
  * Service für umfassende Mitarbeiterverwaltung:
  * - Departments (Abteilungen) - CRUD-Operationen
  * - Positions (Positionen/Rollen) - CRUD-Operationen
- * - Employees (Mitarbeiter) - CRUD-Operationen
+ * - Employees (Mitarbeiter) - CRUD-Operationen, Sammeländerungen
  * - Tool Access Management - Berechtigungsverwaltung
  *
  * Features:
@@ -12,13 +12,23 @@
  * - JWT-basierte Authentifizierung
  * - Automatische Fehlerbehandlung
  * - TypeScript-Typisierung für alle API-Responses
+ * - Laufzeit-Validierung der Antworten mit zod
+ * - Abbrechbare Lese-Requests über AbortSignal (RequestOptions)
  *
  * Author: DSP Development Team
  * Created: 10.07.2025
  * Version: 1.0.0
  */
 
-import { createServiceClient } from "./config";
+import { z } from "zod";
+import { isAbortError } from "./apiError";
+import {
+  confirmProductionWrites,
+  createServiceClient,
+  toRequestConfig,
+  type RequestOptions,
+} from "./config";
+import { parseResponseData } from "./responseValidation";
 
 // --- API-Konfiguration ---
 
@@ -75,6 +85,56 @@ export interface ToolAccess {
   expires_at?: string | null;
 }
 
+// --- Schemas für API-Responses ---
+// Antworten werden zur Laufzeit geprüft (siehe responseValidation.ts)
+
+export const departmentSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullish(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const positionSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string().nullish(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const employeeSchema = z.object({
+  id: z.number(),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  department: departmentSchema,
+  position: positionSchema,
+  max_working_hours: z.number(),
+  is_active: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  full_name: z.string(),
+});
+
+export const toolSchema = z.object({
+  id: z.number(),
+  slug: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  frontend_url: z.string().nullish(),
+});
+
+export const toolAccessSchema = z.object({
+  id: z.number(),
+  employee: z.number(),
+  tool: toolSchema,
+  expires_at: z.string().nullish(),
+});
+
 export interface ToolCreate {
   slug: string;
   name: string;
@@ -108,19 +168,27 @@ export interface EmployeeCreate {
   is_active?: boolean;
 }
 
+// Ergebnis einer Sammeländerung - Fehler je ID statt Abbruch
+export interface BulkUpdateResult<T> {
+  updated: T[];
+  failed: { id: number; error: unknown }[];
+}
+
 // --- API-Funktionen ---
 
 export const employeeAPI = {
   // --- Department CRUD-Operationen ---
 
-  async getDepartments(): Promise<Department[]> {
-    const response = await employeeApi.get("/departments/");
-    return response.data;
+  async getDepartments(options: RequestOptions = {}): Promise<Department[]> {
+    const response = await employeeApi.get("/departments/", {
+      signal: options.signal,
+    });
+    return parseResponseData<Department[]>(z.array(departmentSchema), response);
   },
 
   async createDepartment(data: DepartmentCreate): Promise<Department> {
     const response = await employeeApi.post("/departments/", data);
-    return response.data;
+    return parseResponseData<Department>(departmentSchema, response);
   },
 
   async updateDepartment(
@@ -128,7 +196,7 @@ export const employeeAPI = {
     data: Partial<DepartmentCreate>
   ): Promise<Department> {
     const response = await employeeApi.patch(`/departments/${id}/`, data);
-    return response.data;
+    return parseResponseData<Department>(departmentSchema, response);
   },
 
   async deleteDepartment(id: number): Promise<void> {
@@ -137,14 +205,16 @@ export const employeeAPI = {
 
   // --- Position CRUD-Operationen ---
 
-  async getPositions(): Promise<Position[]> {
-    const response = await employeeApi.get("/positions/");
-    return response.data;
+  async getPositions(options: RequestOptions = {}): Promise<Position[]> {
+    const response = await employeeApi.get("/positions/", {
+      signal: options.signal,
+    });
+    return parseResponseData<Position[]>(z.array(positionSchema), response);
   },
 
   async createPosition(data: PositionCreate): Promise<Position> {
     const response = await employeeApi.post("/positions/", data);
-    return response.data;
+    return parseResponseData<Position>(positionSchema, response);
   },
 
   async updatePosition(
@@ -152,7 +222,7 @@ export const employeeAPI = {
     data: Partial<PositionCreate>
   ): Promise<Position> {
     const response = await employeeApi.patch(`/positions/${id}/`, data);
-    return response.data;
+    return parseResponseData<Position>(positionSchema, response);
   },
 
   async deletePosition(id: number): Promise<void> {
@@ -161,47 +231,89 @@ export const employeeAPI = {
 
   // --- Employee CRUD-Operationen ---
 
-  async getEmployees(): Promise<Employee[]> {
-    const response = await employeeApi.get("/employees/");
-    return response.data;
+  async getEmployees(options: RequestOptions = {}): Promise<Employee[]> {
+    const response = await employeeApi.get("/employees/", {
+      signal: options.signal,
+    });
+    return parseResponseData<Employee[]>(z.array(employeeSchema), response);
   },
 
   async createEmployee(data: EmployeeCreate): Promise<Employee> {
     const response = await employeeApi.post("/employees/", data);
-    return response.data;
+    return parseResponseData<Employee>(employeeSchema, response);
   },
 
   async updateEmployee(
     id: number,
-    data: Partial<EmployeeCreate>
+    data: Partial<EmployeeCreate>,
+    options: RequestOptions = {}
   ): Promise<Employee> {
-    const response = await employeeApi.patch(`/employees/${id}/`, data);
-    return response.data;
+    const response = await employeeApi.patch(
+      `/employees/${id}/`,
+      data,
+      toRequestConfig(options)
+    );
+    return parseResponseData<Employee>(employeeSchema, response);
   },
 
   async deleteEmployee(id: number): Promise<void> {
     await employeeApi.delete(`/employees/${id}/`);
   },
 
+  /**
+   * Mehrere Mitarbeiter gleich ändern (z.B. Status oder Abteilung)
+   *
+   * Das Backend hat keinen Sammel-Endpoint - die Mitarbeiter werden
+   * nacheinander geändert, Fehler einzelner brechen nicht ab. Gegen
+   * Produktion wird die Aktion einmal vorab bestätigt; Ablehnen oder
+   * Abbrechen beendet sie (Fehler mit isAbortError).
+   */
+  async updateEmployees(
+    ids: number[],
+    data: Partial<EmployeeCreate>
+  ): Promise<BulkUpdateResult<Employee>> {
+    confirmProductionWrites(`${ids.length} Mitarbeiter ändern`);
+
+    const result: BulkUpdateResult<Employee> = { updated: [], failed: [] };
+    for (const id of ids) {
+      try {
+        result.updated.push(
+          await this.updateEmployee(id, data, { writeConfirmed: true })
+        );
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        result.failed.push({ id, error });
+      }
+    }
+    return result;
+  },
+
   // Tool APIs
-  async getTools(): Promise<Tool[]> {
-    const res = await employeeApi.get("/tools/");
-    return res.data;
+  async getTools(options: RequestOptions = {}): Promise<Tool[]> {
+    const res = await employeeApi.get("/tools/", {
+      signal: options.signal,
+    });
+    return parseResponseData<Tool[]>(z.array(toolSchema), res);
   },
 
   async createTool(data: ToolCreate): Promise<Tool> {
     const res = await employeeApi.post("/tools/", data);
-    return res.data;
+    return parseResponseData<Tool>(toolSchema, res);
   },
 
   async updateTool(id: number, data: ToolUpdate): Promise<Tool> {
     const res = await employeeApi.patch(`/tools/${id}/`, data);
-    return res.data;
+    return parseResponseData<Tool>(toolSchema, res);
   },
 
-  async getToolAccess(employeeId: number): Promise<ToolAccess[]> {
-    const res = await employeeApi.get(`/tool-access/?employee=${employeeId}`);
-    return res.data;
+  async getToolAccess(
+    employeeId: number,
+    options: RequestOptions = {}
+  ): Promise<ToolAccess[]> {
+    const res = await employeeApi.get(`/tool-access/?employee=${employeeId}`, {
+      signal: options.signal,
+    });
+    return parseResponseData<ToolAccess[]>(z.array(toolAccessSchema), res);
   },
   async grantToolAccess(
     employee: number,
@@ -211,14 +323,19 @@ export const employeeAPI = {
       employee,
       tool_id,
     });
-    return res.data;
+    return parseResponseData<ToolAccess>(toolAccessSchema, res);
   },
   async revokeToolAccess(accessId: number): Promise<void> {
     await employeeApi.delete(`/tool-access/${accessId}/`);
   },
-  async getToolAccessForTool(toolId: number): Promise<ToolAccess[]> {
-    const res = await employeeApi.get(`/tool-access/?tool=${toolId}`);
-    return res.data;
+  async getToolAccessForTool(
+    toolId: number,
+    options: RequestOptions = {}
+  ): Promise<ToolAccess[]> {
+    const res = await employeeApi.get(`/tool-access/?tool=${toolId}`, {
+      signal: options.signal,
+    });
+    return parseResponseData<ToolAccess[]>(z.array(toolAccessSchema), res);
   },
 };
 
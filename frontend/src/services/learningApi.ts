@@ -12,14 +12,18 @@
  * - JWT-basierte Authentifizierung
  * - Automatische Token-Injection
  * - Umfassende Fehlerbehandlung
- * - Logging für Debugging
+ * - Request-Protokoll über den Netzwerk-Inspektor
+ * - Abbrechbare Lese-Requests über AbortSignal (RequestOptions)
+ * - Laufzeit-Validierung der gelesenen Daten mit zod
  *
  * Author: DSP Development Team
  * Created: 10.07.2025
  * Version: 1.0.0
  */
 
-import { apiClient } from "./config";
+import { z } from "zod";
+import { apiClient, type RequestOptions } from "./config";
+import { parseResponse } from "./responseValidation";
 
 // --- API-Konfiguration ---
 
@@ -109,6 +113,109 @@ export interface TaskMultipleChoicePayload {
   order?: number;
 }
 
+// --- Schemas für API-Responses ---
+// Die Serializer liefern teils zusätzliche Felder, daher passthrough:
+// geprüft werden nur die Felder, auf die sich das Frontend verlässt.
+
+export const categorySchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+  })
+  .passthrough();
+
+export const contentSchema = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    description: z.string().nullish(),
+    video_url: z.string().nullish(),
+    order: z.number(),
+  })
+  .passthrough();
+
+export const articleSchema = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    url: z.string().nullish(),
+    order: z.number().nullish(),
+  })
+  .passthrough();
+
+export const taskSchema = z
+  .object({
+    id: z.number(),
+    chapter: z.number(),
+    title: z.string(),
+    description: z.string().nullish(),
+    difficulty: z.string(),
+    hint: z.string().nullish(),
+    order: z.number(),
+  })
+  .passthrough();
+
+export const taskMultipleChoiceSchema = z
+  .object({
+    id: z.number(),
+    task: z.number(),
+    question: z.string(),
+    option_1: z.string(),
+    option_2: z.string(),
+    option_3: z.string(),
+    option_4: z.string(),
+    correct_answer: z.number(),
+    order: z.number().nullish(),
+  })
+  .passthrough();
+
+export const chapterSchema = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    description: z.string().nullish(),
+    order: z.number(),
+    // Modul-ID oder verschachteltes Modul, je nach Serializer
+    module: z
+      .union([z.number(), z.object({ id: z.number() }).passthrough()])
+      .optional(),
+  })
+  .passthrough();
+
+export const chapterDetailSchema = chapterSchema.extend({
+  contents: z.array(contentSchema).optional(),
+  tasks: z.array(taskSchema).optional(),
+  articles: z.array(articleSchema).optional(),
+});
+
+export const moduleSchema = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    category: categorySchema,
+    is_public: z.boolean(),
+    chapters: z
+      .array(
+        z
+          .object({ id: z.number(), title: z.string(), order: z.number() })
+          .passthrough()
+      )
+      .optional(),
+  })
+  .passthrough();
+
+export const moduleDetailSchema = moduleSchema.extend({
+  chapters: z.array(chapterDetailSchema).optional(),
+  contents: z.array(contentSchema).optional(),
+  articles: z.array(articleSchema).optional(),
+});
+
+export const videoUrlValidationSchema = z.object({
+  success: z.boolean(),
+  video_url: z.string().optional(),
+  error: z.string().optional(),
+});
+
 // --- Learning API Service ---
 
 export const learningAPI = {
@@ -135,13 +242,18 @@ export const learningAPI = {
   /**
    * Alle Module abrufen
    */
-  getModulesAll: () => learningApi.get("/elearning/modules/"),
+  getModulesAll: (options?: RequestOptions) =>
+    learningApi
+      .get("/elearning/modules/", { signal: options?.signal })
+      .then((response) => parseResponse(z.array(moduleSchema), response)),
 
   /**
    * Einzelnes Modul abrufen
    */
-  getModule: (id: string | number) =>
-    learningApi.get(`/elearning/modules/${id}/detail/`),
+  getModule: (id: string | number, options?: RequestOptions) =>
+    learningApi
+      .get(`/elearning/modules/${id}/detail/`, { signal: options?.signal })
+      .then((response) => parseResponse(moduleDetailSchema, response)),
 
   // --- Chapter CRUD-Operationen ---
 
@@ -166,13 +278,20 @@ export const learningAPI = {
   /**
    * Alle Kapitel abrufen
    */
-  getChaptersAll: () => learningApi.get("/elearning/modules/chapters/list/"),
+  getChaptersAll: (options?: RequestOptions) =>
+    learningApi
+      .get("/elearning/modules/chapters/list/", { signal: options?.signal })
+      .then((response) => parseResponse(z.array(chapterSchema), response)),
 
   /**
    * Einzelnes Kapitel abrufen
    */
-  getChapter: (id: string | number) =>
-    learningApi.get(`/elearning/modules/chapters/${id}/detail/`),
+  getChapter: (id: string | number, options?: RequestOptions) =>
+    learningApi
+      .get(`/elearning/modules/chapters/${id}/detail/`, {
+        signal: options?.signal,
+      })
+      .then((response) => parseResponse(chapterDetailSchema, response)),
 
   // --- Task CRUD-Operationen ---
 
@@ -197,19 +316,28 @@ export const learningAPI = {
   /**
    * Alle Aufgaben abrufen
    */
-  getTasksAll: () => learningApi.get("/elearning/modules/tasks/list/"),
+  getTasksAll: (options?: RequestOptions) =>
+    learningApi
+      .get("/elearning/modules/tasks/list/", { signal: options?.signal })
+      .then((response) => parseResponse(z.array(taskSchema), response)),
 
   /**
    * Aufgaben nach Kapitel abrufen
    */
-  getTasksByChapter: (chapterId: string | number) =>
-    learningApi.get(`/elearning/modules/tasks/list/?chapter_id=${chapterId}`),
+  getTasksByChapter: (chapterId: string | number, options?: RequestOptions) =>
+    learningApi
+      .get(`/elearning/modules/tasks/list/?chapter_id=${chapterId}`, {
+        signal: options?.signal,
+      })
+      .then((response) => parseResponse(z.array(taskSchema), response)),
 
   /**
    * Einzelne Aufgabe abrufen
    */
-  getTask: (id: string | number) =>
-    learningApi.get(`/elearning/modules/tasks/${id}/`),
+  getTask: (id: string | number, options?: RequestOptions) =>
+    learningApi
+      .get(`/elearning/modules/tasks/${id}/`, { signal: options?.signal })
+      .then((response) => parseResponse(taskSchema, response)),
 
   // --- TaskMultipleChoice CRUD-Operationen ---
 
@@ -236,22 +364,39 @@ export const learningAPI = {
   /**
    * Alle Multiple Choice Fragen abrufen
    */
-  getTaskMultipleChoiceAll: () =>
-    learningApi.get("/elearning/modules/task-multiple-choice/list/"),
+  getTaskMultipleChoiceAll: (options?: RequestOptions) =>
+    learningApi
+      .get("/elearning/modules/task-multiple-choice/list/", {
+        signal: options?.signal,
+      })
+      .then((response) =>
+        parseResponse(z.array(taskMultipleChoiceSchema), response)
+      ),
 
   /**
    * Multiple Choice Fragen nach Task abrufen
    */
-  getTaskMultipleChoiceByTask: (taskId: string | number) =>
-    learningApi.get(
-      `/elearning/modules/task-multiple-choice/list/?task_id=${taskId}`
-    ),
+  getTaskMultipleChoiceByTask: (
+    taskId: string | number,
+    options?: RequestOptions
+  ) =>
+    learningApi
+      .get(`/elearning/modules/task-multiple-choice/list/?task_id=${taskId}`, {
+        signal: options?.signal,
+      })
+      .then((response) =>
+        parseResponse(z.array(taskMultipleChoiceSchema), response)
+      ),
 
   /**
    * Einzelne Multiple Choice Frage abrufen
    */
-  getTaskMultipleChoice: (id: string | number) =>
-    learningApi.get(`/elearning/modules/task-multiple-choice/${id}/`),
+  getTaskMultipleChoice: (id: string | number, options?: RequestOptions) =>
+    learningApi
+      .get(`/elearning/modules/task-multiple-choice/${id}/`, {
+        signal: options?.signal,
+      })
+      .then((response) => parseResponse(taskMultipleChoiceSchema, response)),
 
   // --- Content CRUD-Operationen ---
 
@@ -278,11 +423,8 @@ export const learningAPI = {
   /**
    * Neues Video erstellen
    */
-  createVideo: (data: VideoPayload) => {
-    console.log("📡 [LearningAPI] POST /elearning/modules/content/");
-    console.log("📡 [LearningAPI] createVideo payload:", data);
-    return learningApi.post("/elearning/modules/content/", data);
-  },
+  createVideo: (data: VideoPayload) =>
+    learningApi.post("/elearning/modules/content/", data),
 
   /**
    * Video aktualisieren
@@ -290,6 +432,16 @@ export const learningAPI = {
   updateVideo: (id: string | number, data: VideoUpdatePayload) =>
     learningApi.put(`/elearning/modules/content/${id}/`, data),
 
+  /**
+   * Video-URL (Wasabi Cloud) serverseitig prüfen und normalisieren
+   */
+  validateVideoUrl: (videoUrl: string) =>
+    learningApi
+      .post("/elearning/modules/content/validate-video-url/", {
+        video_url: videoUrl,
+      })
+      .then((response) => parseResponse(videoUrlValidationSchema, response)),
+
   /**
    * Video löschen
    */
@@ -313,11 +465,8 @@ export const learningAPI = {
   /**
    * Artikel aktualisieren
    */
-  updateArticle: (id: string | number, data: ArticlePayload) => {
-    console.log(`[DEBUG] learningApi.updateArticle() called for id: ${id}`);
-    console.log(`[DEBUG] Data being sent:`, data);
-    return learningApi.put(`/elearning/modules/article/${id}/`, data);
-  },
+  updateArticle: (id: string | number, data: ArticlePayload) =>
+    learningApi.put(`/elearning/modules/article/${id}/`, data),
 
   /**
    * Artikel löschen
@@ -330,7 +479,10 @@ export const learningAPI = {
   /**
    * Alle Kategorien abrufen
    */
-  getCategories: () => learningApi.get("/elearning/modules/categories/"),
+  getCategories: (options?: RequestOptions) =>
+    learningApi
+      .get("/elearning/modules/categories/", { signal: options?.signal })
+      .then((response) => parseResponse(z.array(categorySchema), response)),
 
   /**
    * Neue Kategorie erstellen
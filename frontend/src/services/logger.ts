@@ -0,0 +1,91 @@
+/**
+ * Logger für DSP Database Overview
+ *
+ * Ersetzt direkte console-Aufrufe in Services und Komponenten:
+ * - Log-Level debug | info | warn | error | silent
+ * - Standard: "debug" im Entwicklungsmodus, "silent" im Produktions-Build
+ * - Build-Konfiguration über VITE_LOG_LEVEL
+ * - Zur Fehlersuche im Browser überschreibbar, ohne neuen Build:
+ *   localStorage.setItem("dsp-log-level", "debug") und Seite neu laden
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+// --- Typen ---
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+// --- Konfiguration ---
+
+const LOG_LEVEL_STORAGE_KEY = "dsp-log-level";
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === "string" && value in LEVEL_PRIORITY;
+
+const readStoredLevel = (): string | null => {
+  try {
+    return localStorage.getItem(LOG_LEVEL_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const resolveLogLevel = (): LogLevel => {
+  const stored = readStoredLevel();
+  if (isLogLevel(stored)) return stored;
+
+  const configured = import.meta.env.VITE_LOG_LEVEL;
+  if (isLogLevel(configured)) return configured;
+
+  return import.meta.env.DEV ? "debug" : "silent";
+};
+
+export const LOG_LEVEL: LogLevel = resolveLogLevel();
+
+// --- Logger ---
+
+const isEnabled = (level: Exclude<LogLevel, "silent">) =>
+  LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[LOG_LEVEL];
+
+/**
+ * Logger für einen Bereich erstellen
+ *
+ * @param scope - Präfix der Ausgaben, z.B. "API" oder "TaskForm"
+ */
+export const createLogger = (scope: string): Logger => {
+  const prefix = `[${scope}]`;
+
+  return {
+    debug: (...args) => {
+      if (isEnabled("debug")) console.debug(prefix, ...args);
+    },
+    info: (...args) => {
+      if (isEnabled("info")) console.info(prefix, ...args);
+    },
+    warn: (...args) => {
+      if (isEnabled("warn")) console.warn(prefix, ...args);
+    },
+    error: (...args) => {
+      if (isEnabled("error")) console.error(prefix, ...args);
+    },
+  };
+};
+
+export default createLogger;
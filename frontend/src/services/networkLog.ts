@@ -0,0 +1,161 @@
+/**
+ * Netzwerk-Protokoll für DSP Database Overview
+ *
+ * Sammelt die letzten API-Requests für den Netzwerk-Inspektor, damit der
+ * Support Fehler ohne Browser-Devtools nachvollziehen kann:
+ * - Methode, URL, Status, Dauer und Fehlermeldung je Request
+ * - Request- und Response-Body mit geschwärzten Geheimnissen (Passwörter,
+ *   Tokens) und begrenzter Länge
+ * - Ringpuffer mit den letzten MAX_ENTRIES Einträgen, nur im Speicher
+ * - Änderungsbenachrichtigung für React (useSyncExternalStore)
+ *
+ * Aktiv im Entwicklungsmodus, mit VITE_NETWORK_INSPECTOR=true oder nach
+ * localStorage.setItem("dsp-network-inspector", "true") im Browser.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+// --- Typen ---
+
+export interface NetworkLogEntry {
+  id: number;
+  method: string;
+  url: string;
+  // HTTP-Status (0 bei Netzwerkfehler, Timeout oder Abbruch)
+  status: number;
+  durationMs: number;
+  startedAt: number;
+  requestBody: string | null;
+  responseBody: string | null;
+  error: string | null;
+  canceled: boolean;
+}
+
+export type NetworkLogInput = Omit<NetworkLogEntry, "id">;
+
+// --- Konfiguration ---
+
+const NETWORK_INSPECTOR_STORAGE_KEY = "dsp-network-inspector";
+
+// Anzahl gespeicherter Requests
+const MAX_ENTRIES = 100;
+
+// Maximale Länge eines Bodys in der Anzeige (Zeichen)
+const MAX_BODY_LENGTH = 4000;
+
+// Felder, deren Werte nie angezeigt werden - ganze Namen (access, refresh)
+// oder Endungen (access_token, csrftoken, client_secret), damit Felder wie
+// "has_access" oder "tool_access" lesbar bleiben
+const SENSITIVE_KEY_PATTERN =
+  /^(access|refresh|authorization|cookie)$|password|(pass\d?|token|secret)$/i;
+
+const REDACTED = "[geschwärzt]";
+
+const readStoredFlag = (): boolean => {
+  try {
+    return localStorage.getItem(NETWORK_INSPECTOR_STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+};
+
+export const NETWORK_INSPECTOR_ENABLED =
+  import.meta.env.DEV ||
+  import.meta.env.VITE_NETWORK_INSPECTOR === "true" ||
+  readStoredFlag();
+
+// --- Schwärzen und Kürzen ---
+
+const redactValue = (value: unknown, depth = 0): unknown => {
+  if (depth > 8 || value === null || typeof value !== "object") return value;
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key)
+        ? REDACTED
+        : redactValue(nested, depth + 1),
+    ])
+  );
+};
+
+const parseJson = (body: string): unknown => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Body für die Anzeige aufbereiten (geschwärzt, formatiert, gekürzt)
+ */
+export const formatBody = (body: unknown): string | null => {
+  if (body === undefined || body === null || body === "") return null;
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    return "[FormData]";
+  }
+
+  const value = typeof body === "string" ? parseJson(body) : body;
+  const text =
+    typeof value === "string"
+      ? value
+      : JSON.stringify(redactValue(value), null, 2) ?? String(value);
+
+  return text.length > MAX_BODY_LENGTH
+    ? `${text.slice(0, MAX_BODY_LENGTH)}\n… (${text.length} Zeichen)`
+    : text;
+};
+
+// --- Store ---
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let entries: NetworkLogEntry[] = [];
+let nextId = 1;
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+export const networkLog = {
+  enabled: NETWORK_INSPECTOR_ENABLED,
+
+  /**
+   * Abgeschlossenen Request protokollieren (neueste zuerst)
+   */
+  record(entry: NetworkLogInput) {
+    if (!NETWORK_INSPECTOR_ENABLED) return;
+
+    entries = [{ ...entry, id: nextId++ }, ...entries].slice(0, MAX_ENTRIES);
+    notify();
+  },
+
+  clear() {
+    entries = [];
+    notify();
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Unveränderliche Liste - Referenz bleibt bis zur nächsten Änderung gleich
+   */
+  getSnapshot(): NetworkLogEntry[] {
+    return entries;
+  },
+};
+
+export default networkLog;
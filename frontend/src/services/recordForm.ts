@@ -0,0 +1,319 @@
+/**
+ * Formular-Generator für beliebige Datensätze - DSP Database Overview
+ *
+ * Leitet aus den Schemafeldern eines Models (ModelInfo.fields) ab:
+ * - Eingabeart je Feld (Text, Zahl, Datum, Auswahl, ForeignKey, ...)
+ * - zod-Schema mit Pflichtfeldern, max_length, Zahlen- und Datumsformat
+ * - Umwandlung Datensatz <-> Formularwerte <-> Request-Body
+ *
+ * Formularwerte sind Strings (Checkboxen: Boolean), erst der Request-Body
+ * enthält Zahlen, ForeignKey-IDs und null für leere nullable Felder.
+ * ForeignKey-IDs richten sich nach dem Primärschlüssel des Ziel-Models
+ * (Ganzzahl, UUID oder Text).
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { z } from "zod";
+import type {
+  DatabaseSchemaResponse,
+  ModelInfo,
+  SchemaField,
+  TableRecord,
+} from "./api";
+import {
+  getForeignKeyTargetField,
+  getPrimaryKeyTypeLabel,
+  parsePrimaryKeyValue,
+} from "./schemaRelations";
+
+// --- Typen ---
+
+export type RecordInputKind =
+  | "text"
+  | "textarea"
+  | "email"
+  | "url"
+  | "integer"
+  | "decimal"
+  | "boolean"
+  | "date"
+  | "datetime"
+  | "choice"
+  | "relation"
+  | "json";
+
+export type RecordFormValues = Record<string, string | boolean>;
+
+// --- Konfiguration ---
+
+// auto_now / auto_now_add - setzt das Backend, im Schema nicht markiert
+const READ_ONLY_FIELD_NAMES = ["created_at", "updated_at"];
+
+// Ab dieser Länge (oder ohne max_length) mehrzeilig
+const TEXTAREA_MIN_LENGTH = 500;
+
+const INTEGER_TYPE_PATTERN = /Integer|AutoField/;
+const DECIMAL_TYPE_PATTERN = /Float|Decimal/;
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const DECIMAL_PATTERN = /^-?\d+([.,]\d+)?$/;
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/;
+
+// Eingaben, bei denen ein leerer Wert als "" statt null gespeichert wird
+const TEXT_KINDS: RecordInputKind[] = [
+  "text",
+  "textarea",
+  "email",
+  "url",
+  "choice",
+];
+
+// --- Felder ---
+
+/**
+ * Eingabeart eines Schemafeldes
+ */
+export const getRecordInputKind = (field: SchemaField): RecordInputKind => {
+  if (field.is_relationship) return "relation";
+  if (field.choices && field.choices.length > 0) return "choice";
+
+  const { type } = field;
+  if (type.includes("Boolean")) return "boolean";
+  if (type === "DateTimeField") return "datetime";
+  if (type === "DateField") return "date";
+  if (INTEGER_TYPE_PATTERN.test(type)) return "integer";
+  if (DECIMAL_TYPE_PATTERN.test(type)) return "decimal";
+  if (type === "EmailField") return "email";
+  if (type === "URLField") return "url";
+  if (type === "JSONField") return "json";
+  if (
+    type === "TextField" ||
+    (field.max_length ?? 0) >= TEXTAREA_MIN_LENGTH
+  ) {
+    return "textarea";
+  }
+  return "text";
+};
+
+/**
+ * Im Formular bearbeitbare Felder (ohne automatisch gepflegte Felder)
+ *
+ * Ein von Hand vergebener Primärschlüssel (nicht auto_created) gehört
+ * dazu: Beim Anlegen und Importieren wird er eingegeben, beim Bearbeiten
+ * nur angezeigt (siehe isReadOnlyOnEdit).
+ */
+export const getEditableFields = (model: ModelInfo) =>
+  model.fields.filter(
+    (field) =>
+      !field.auto_created && !READ_ONLY_FIELD_NAMES.includes(field.name)
+  );
+
+/**
+ * Feld, das sich nach dem Anlegen nicht mehr ändern lässt (Primärschlüssel)
+ */
+export const isReadOnlyOnEdit = (field: SchemaField) => field.primary_key;
+
+/**
+ * Pflichtfeld im Formular (Django: blank=False, Checkboxen nie)
+ */
+export const isRequiredField = (field: SchemaField) =>
+  !field.blank && getRecordInputKind(field) !== "boolean";
+
+// --- Validierung ---
+
+/**
+ * Eingabewert (String) eines Feldes prüfen - Fehlermeldung oder null
+ *
+ * @param keyField - Bei ForeignKeys der Primärschlüssel des Ziel-Models
+ *   (siehe getForeignKeyTargetField), ohne ihn gelten ganzzahlige IDs
+ */
+export const validateRecordValue = (
+  field: SchemaField,
+  value: string,
+  keyField: SchemaField | null = null
+): string | null => {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return isRequiredField(field) ? "Pflichtfeld" : null;
+  }
+  if (field.max_length && value.length > field.max_length) {
+    return `Maximal ${field.max_length} Zeichen`;
+  }
+
+  switch (getRecordInputKind(field)) {
+    case "relation":
+      return parsePrimaryKeyValue(keyField, trimmed) === undefined
+        ? `${getPrimaryKeyTypeLabel(keyField)} erwartet`
+        : null;
+    case "integer":
+      if (!INTEGER_PATTERN.test(trimmed)) return "Ganzzahl erwartet";
+      if (field.type.startsWith("Positive") && Number(trimmed) < 0) {
+        return "Wert darf nicht negativ sein";
+      }
+      return null;
+    case "decimal":
+      return DECIMAL_PATTERN.test(trimmed) ? null : "Zahl erwartet";
+    case "email":
+      return EMAIL_PATTERN.test(trimmed) ? null : "Ungültige E-Mail-Adresse";
+    case "url":
+      return URL_PATTERN.test(trimmed) ? null : "Ungültige URL";
+    case "date":
+    case "datetime":
+      return Number.isNaN(new Date(trimmed).getTime())
+        ? "Ungültiges Datum"
+        : null;
+    case "choice":
+      return field.choices?.includes(trimmed) ? null : "Ungültige Auswahl";
+    case "json":
+      try {
+        JSON.parse(trimmed);
+        return null;
+      } catch {
+        return "Ungültiges JSON";
+      }
+    default:
+      return null;
+  }
+};
+
+/**
+ * zod-Schema für die bearbeitbaren Felder eines Models
+ */
+export const createRecordSchema = (
+  schema: DatabaseSchemaResponse | null | undefined,
+  model: ModelInfo
+) =>
+  z.object(
+    Object.fromEntries(
+      getEditableFields(model).map((field) => [
+        field.name,
+        getRecordInputKind(field) === "boolean"
+          ? z.boolean()
+          : z.string().superRefine((value, ctx) => {
+              const message = validateRecordValue(
+                field,
+                value,
+                getForeignKeyTargetField(schema, model, field)
+              );
+              if (message) ctx.addIssue({ code: "custom", message });
+            }),
+      ])
+    )
+  );
+
+// --- Umwandlung ---
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// ISO-Zeitpunkt -> Wert für <input type="datetime-local"> (lokale Zeit)
+const toDateTimeLocal = (value: unknown) => {
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) return "";
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-` +
+    `${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+};
+
+const toFormValue = (field: SchemaField, value: unknown) => {
+  const kind = getRecordInputKind(field);
+  if (kind === "boolean") return value === true;
+  if (value === null || value === undefined) return "";
+  if (kind === "datetime") return toDateTimeLocal(value);
+  if (kind === "date") return String(value).slice(0, 10);
+  if (kind === "json") return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+/**
+ * Formularwerte aus einem Datensatz (null = neuer Datensatz)
+ */
+export const toRecordFormValues = (
+  model: ModelInfo,
+  record: TableRecord | null
+): RecordFormValues =>
+  Object.fromEntries(
+    getEditableFields(model).map((field) => [
+      field.name,
+      toFormValue(field, record?.[field.name] ?? null),
+    ])
+  );
+
+/**
+ * Formularwert in den Wert für den Request-Body umwandeln (undefined =
+ * weglassen)
+ *
+ * @param keyField - Bei ForeignKeys der Primärschlüssel des Ziel-Models
+ */
+export const toRecordValue = (
+  field: SchemaField,
+  value: string | boolean,
+  keyField: SchemaField | null = null
+): unknown => {
+  const kind = getRecordInputKind(field);
+  if (typeof value === "boolean") return value;
+
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    if (field.null) return null;
+    return TEXT_KINDS.includes(kind) ? "" : undefined;
+  }
+
+  switch (kind) {
+    case "relation":
+      return parsePrimaryKeyValue(keyField, trimmed);
+    case "integer":
+      return Number(trimmed);
+    case "decimal":
+      // DecimalField als String, damit keine Nachkommastellen verloren gehen
+      return field.type === "DecimalField"
+        ? trimmed.replace(",", ".")
+        : Number(trimmed.replace(",", "."));
+    case "choice":
+      return INTEGER_TYPE_PATTERN.test(field.type) ? Number(trimmed) : trimmed;
+    case "datetime":
+      return new Date(trimmed).toISOString();
+    case "json":
+      return JSON.parse(trimmed);
+    case "date":
+      return trimmed;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Request-Body aus den Formularwerten
+ *
+ * Mit initialValues (Bearbeiten) nur die geänderten Felder, nie der
+ * Primärschlüssel. Leere Werte werden null bei null=True, "" bei
+ * Textfeldern und sonst weggelassen (Standardwert des Backends).
+ */
+export const toRecordPayload = (
+  schema: DatabaseSchemaResponse | null | undefined,
+  model: ModelInfo,
+  values: RecordFormValues,
+  initialValues?: RecordFormValues
+): TableRecord =>
+  Object.fromEntries(
+    getEditableFields(model)
+      .filter(
+        (field) =>
+          !initialValues ||
+          (!isReadOnlyOnEdit(field) &&
+            initialValues[field.name] !== values[field.name])
+      )
+      .map((field) => [
+        field.name,
+        toRecordValue(
+          field,
+          values[field.name],
+          getForeignKeyTargetField(schema, model, field)
+        ),
+      ])
+      .filter(([, value]) => value !== undefined)
+  );
@@ -0,0 +1,129 @@
+/**
+ * Laufzeit-Validierung von API-Antworten für DSP Database Overview
+ *
+ * Prüft Antworten im Service-Layer gegen zod-Schemas, bevor sie an
+ * Komponenten weitergegeben werden:
+ * - Abweichungen vom erwarteten Format (Schema-Drift im Backend) werden
+ *   als ResponseValidationError gemeldet statt später beim Rendern
+ *   (z.B. in reduce-Aufrufen) unverständlich abzustürzen
+ * - Fehlermeldung für Entwickler mit Endpoint und betroffenen Pfaden
+ *   ("GET /api/db-overview/statistics/: tables.3.row_count - ...")
+ * - Für Benutzer eine allgemeine Meldung (ApiError.message)
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import axios, { type AxiosResponse } from "axios";
+import type { z } from "zod";
+import { ApiError } from "./apiError";
+import { createLogger } from "./logger";
+
+const log = createLogger("Validation");
+
+// --- Typen ---
+
+export interface ResponseValidationIssue {
+  // Pfad innerhalb der Antwort ("apps.0.models.2.record_count")
+  path: string;
+  message: string;
+}
+
+// --- Fehlerklasse ---
+
+export class ResponseValidationError extends ApiError {
+  // Methode und URL des Requests ("GET /api/db-overview/schema/")
+  readonly endpoint: string;
+  readonly issues: ResponseValidationIssue[];
+
+  constructor({
+    status,
+    endpoint,
+    issues,
+    data,
+    cause,
+  }: {
+    status: number;
+    endpoint: string;
+    issues: ResponseValidationIssue[];
+    data: unknown;
+    cause?: unknown;
+  }) {
+    super({
+      status,
+      message: "Die Antwort des Servers hat ein unerwartetes Format.",
+      data,
+      cause,
+    });
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+
+  /**
+   * Technische Beschreibung für Konsole und Fehleranzeige
+   */
+  get details(): string {
+    return [
+      `Unerwartetes Antwortformat von ${this.endpoint}:`,
+      ...this.issues.map(({ path, message }) => `  ${path} - ${message}`),
+    ].join("\n");
+  }
+}
+
+export const isResponseValidationError = (
+  error: unknown
+): error is ResponseValidationError => error instanceof ResponseValidationError;
+
+// --- Hilfsfunktionen ---
+
+const describeEndpoint = (response: AxiosResponse) => {
+  const method = (response.config.method ?? "get").toUpperCase();
+  const url = new URL(axios.getUri(response.config), window.location.origin);
+  return `${method} ${url.pathname}${url.search}`;
+};
+
+const toIssues = (error: z.ZodError): ResponseValidationIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(Antwort)",
+    message: issue.message,
+  }));
+
+/**
+ * Antwortdaten gegen ein Schema prüfen
+ *
+ * Gibt die Response mit den validierten (typisierten) Daten zurück.
+ * Bei Abweichungen wird der Fehler in der Konsole protokolliert und
+ * ein ResponseValidationError geworfen.
+ */
+export const parseResponse = <TSchema extends z.ZodTypeAny>(
+  schema: TSchema,
+  response: AxiosResponse
+): AxiosResponse<z.output<TSchema>> => {
+  const result = schema.safeParse(response.data);
+  if (result.success) {
+    return { ...response, data: result.data };
+  }
+
+  const error = new ResponseValidationError({
+    status: response.status,
+    endpoint: describeEndpoint(response),
+    issues: toIssues(result.error),
+    data: response.data,
+    cause: result.error,
+  });
+  log.error(`❌ ${error.details}`);
+  throw error;
+};
+
+/**
+ * Antwortdaten prüfen und mit dem Interface des Services typisieren
+ *
+ * Das Projekt kompiliert ohne "strict" - dort leitet zod alle Felder als
+ * optional ab. Die Services behalten daher ihre Interfaces als Typquelle.
+ */
+export const parseResponseData = <TData>(
+  schema: z.ZodTypeAny,
+  response: AxiosResponse
+): TData => parseResponse(schema, response).data as TData;
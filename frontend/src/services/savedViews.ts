@@ -0,0 +1,306 @@
+/**
+ * Gespeicherte Tabellen-Ansichten - DSP Database Overview
+ *
+ * Benannte Ansichten je Model (app_label.model_name) für den
+ * Tabellen-Browser:
+ * - Sichtbare Spalten in Anzeigereihenfolge, Spaltenbreiten, angeheftete
+ *   Spalten, Filter, Sortierung und Seitengröße
+ * - Eine Ansicht je Model kann Standard sein - sie gilt beim Öffnen des
+ *   Models ohne Ansicht im Link
+ * - Austausch mit Kollegen als JSON-Datei (Export/Import) oder als Link
+ *   (siehe getTablePath in useTableBrowserUrl)
+ * - Ablage im localStorage je Backend-Umgebung, Änderungsbenachrichtigung
+ *   für React (useSyncExternalStore)
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { z } from "zod";
+import type { TableFilterParam, TableOrdering } from "./api";
+import { getEnvironmentStorageKey } from "./backendEnvironments";
+import { createLogger } from "./logger";
+import { filterParamSchema } from "./tableFilters";
+
+const log = createLogger("SavedViews");
+
+// --- Typen ---
+
+export interface TableViewSettings {
+  pageSize: number;
+  sort: TableOrdering[];
+  filters: TableFilterParam | null;
+  // Sichtbare Spalten in Anzeigereihenfolge (null = alle)
+  columns: string[] | null;
+  // Spaltenbreiten in Pixeln (fehlende Spalten: Standardbreite)
+  widths: Record<string, number> | null;
+  // Links bzw. rechts angeheftete Spalten
+  pinned: Record<string, "left" | "right"> | null;
+}
+
+export interface SavedTableView {
+  id: string;
+  // app_label.model_name
+  modelKey: string;
+  name: string;
+  isDefault: boolean;
+  settings: TableViewSettings;
+  updatedAt: string;
+}
+
+// --- Konfiguration ---
+
+const STORAGE_KEY = getEnvironmentStorageKey("dsp-table-views");
+
+// Kennung und Version exportierter Dateien
+const EXPORT_FORMAT = "dsp-table-views";
+const EXPORT_VERSION = 1;
+
+// --- Schemas ---
+
+const settingsSchema = z.object({
+  pageSize: z.number().int().positive(),
+  sort: z.array(
+    z.object({ key: z.string(), direction: z.enum(["asc", "desc"]) })
+  ),
+  filters: filterParamSchema.nullable(),
+  columns: z.array(z.string()).nullable(),
+  widths: z.record(z.number().int().positive()).nullable(),
+  // Fehlt in Ansichten, die vor dem Anheften gespeichert wurden
+  pinned: z.record(z.enum(["left", "right"])).nullable().default(null),
+});
+
+const savedViewSchema = z.object({
+  id: z.string(),
+  modelKey: z.string(),
+  name: z.string(),
+  isDefault: z.boolean(),
+  settings: settingsSchema,
+  updatedAt: z.string(),
+});
+
+const exportFileSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  model: z.string(),
+  views: z
+    .array(
+      z.object({ name: z.string().trim().min(1), settings: settingsSchema })
+    )
+    .min(1),
+});
+
+// --- Hilfsfunktionen ---
+
+const createViewId = () =>
+  `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Einstellungen in fester Reihenfolge (Breiten und angeheftete Spalten nach
+ * Spaltenname) - für Vergleich und Speicherung
+ */
+export const normalizeViewSettings = (
+  settings: TableViewSettings
+): TableViewSettings => {
+  const widths = Object.entries(settings.widths ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  const pinned = Object.entries(settings.pinned ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  return {
+    pageSize: settings.pageSize,
+    sort: settings.sort.map(({ key, direction }) => ({ key, direction })),
+    filters: settings.filters,
+    columns: settings.columns,
+    widths: widths.length > 0 ? Object.fromEntries(widths) : null,
+    pinned: pinned.length > 0 ? Object.fromEntries(pinned) : null,
+  };
+};
+
+/**
+ * Ob zwei Einstellungen dieselbe Ansicht ergeben
+ */
+export const isSameViewSettings = (
+  a: TableViewSettings,
+  b: TableViewSettings
+) =>
+  JSON.stringify(normalizeViewSettings(a)) ===
+  JSON.stringify(normalizeViewSettings(b));
+
+// --- Store ---
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let views: SavedTableView[] | null = null;
+
+const readViews = (): SavedTableView[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const result = z.array(savedViewSchema).safeParse(JSON.parse(raw));
+    if (result.success) return result.data as SavedTableView[];
+    log.warn("Gespeicherte Ansichten ungültig - werden ignoriert");
+  } catch (error) {
+    log.warn("Gespeicherte Ansichten nicht lesbar:", error);
+  }
+  return [];
+};
+
+const writeViews = (next: SavedTableView[]) => {
+  views = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    // Bleiben bis zum Neuladen im Speicher
+    log.error("Ansichten konnten nicht gespeichert werden:", error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const getViews = () => {
+  if (!views) views = readViews();
+  return views;
+};
+
+const upsertView = (
+  current: SavedTableView[],
+  modelKey: string,
+  name: string,
+  settings: TableViewSettings
+) => {
+  const trimmed = name.trim();
+  const existing = current.find(
+    (view) => view.modelKey === modelKey && view.name === trimmed
+  );
+  const view: SavedTableView = {
+    id: existing?.id ?? createViewId(),
+    modelKey,
+    name: trimmed,
+    isDefault: existing?.isDefault ?? false,
+    settings: normalizeViewSettings(settings),
+    updatedAt: new Date().toISOString(),
+  };
+  return {
+    view,
+    views: existing
+      ? current.map((item) => (item.id === existing.id ? view : item))
+      : [...current, view],
+  };
+};
+
+export const savedViews = {
+  getDefault(modelKey: string): SavedTableView | null {
+    return (
+      getViews().find(
+        (view) => view.modelKey === modelKey && view.isDefault
+      ) ?? null
+    );
+  },
+
+  /**
+   * Ansicht speichern - eine gleichnamige Ansicht des Models wird
+   * überschrieben
+   */
+  save(
+    modelKey: string,
+    name: string,
+    settings: TableViewSettings
+  ): SavedTableView {
+    const result = upsertView(getViews(), modelKey, name, settings);
+    writeViews(result.views);
+    return result.view;
+  },
+
+  remove(id: string) {
+    writeViews(getViews().filter((view) => view.id !== id));
+  },
+
+  /**
+   * Standard-Ansicht eines Models setzen (null = keine)
+   */
+  setDefault(modelKey: string, id: string | null) {
+    writeViews(
+      getViews().map((view) =>
+        view.modelKey === modelKey
+          ? { ...view, isDefault: view.id === id }
+          : view
+      )
+    );
+  },
+
+  /**
+   * Ansichten als JSON-Datei zum Weitergeben
+   */
+  export(modelKey: string, items: SavedTableView[]): string {
+    return JSON.stringify(
+      {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        model: modelKey,
+        views: items.map(({ name, settings }) => ({ name, settings })),
+      },
+      null,
+      2
+    );
+  },
+
+  /**
+   * Ansichten aus einer exportierten JSON-Datei übernehmen
+   *
+   * Gleichnamige Ansichten werden überschrieben (Standard-Markierung
+   * bleibt), neue werden nicht Standard. Wirft einen Fehler mit Meldung
+   * für den Benutzer.
+   */
+  import(modelKey: string, text: string): SavedTableView[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("Die Datei enthält kein gültiges JSON.");
+    }
+
+    const result = exportFileSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error("Die Datei enthält keine gültigen Tabellen-Ansichten.");
+    }
+    if (result.data.model !== modelKey) {
+      throw new Error(
+        `Die Ansichten gehören zu ${result.data.model}, nicht zu ${modelKey}.`
+      );
+    }
+
+    let current = getViews();
+    const imported = result.data.views.map(({ name, settings }) => {
+      const next = upsertView(
+        current,
+        modelKey,
+        name,
+        settings as TableViewSettings
+      );
+      current = next.views;
+      return next.view;
+    });
+    writeViews(current);
+    log.info(`${imported.length} Ansichten für ${modelKey} importiert`);
+    return imported;
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Alle Ansichten - Referenz bleibt bis zur nächsten Änderung gleich
+   */
+  getSnapshot(): SavedTableView[] {
+    return getViews();
+  },
+};
+
+export default savedViews;
@@ -0,0 +1,241 @@
+/**
+ * Beziehungen im Datenbankschema für DSP Database Overview
+ *
+ * Hilfsfunktionen für die Navigation zwischen verknüpften Datensätzen:
+ * - Ziel-Model eines ForeignKeys (ausgehende Beziehung)
+ * - Eingehende Beziehungen eines Models aus den GlobalRelationships
+ *   (z.B. Department <- Employee.department)
+ * - Primärschlüssel und Anzeigename eines Datensatzes
+ * - Eingaben für Primärschlüssel und ForeignKeys passend zum Schlüsseltyp
+ *   (Ganzzahl, UUID, Text)
+ * - Suchfeld eines Models (z.B. für ForeignKey-Auswahllisten)
+ *
+ * Models werden über ihren Schlüssel "app_label.ModelName" referenziert,
+ * wie in GlobalRelationship.source/target und related_model.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import type {
+  DatabaseSchemaResponse,
+  GlobalRelationship,
+  ModelInfo,
+  SchemaField,
+} from "./api";
+
+// --- Typen ---
+
+export interface IncomingRelation {
+  relationship: GlobalRelationship;
+  // Model mit dem ForeignKey auf das betrachtete Model
+  sourceModel: ModelInfo;
+  // ForeignKey-Feld im Quell-Model
+  fieldName: string;
+}
+
+// --- Konfiguration ---
+
+// Felder, die einen Datensatz für Menschen lesbar benennen (Reihenfolge =
+// Priorität)
+const LABEL_FIELD_NAMES = [
+  "name",
+  "title",
+  "username",
+  "last_name",
+  "email",
+  "code",
+  "slug",
+];
+
+// Suffixe, unter denen ForeignKeys teilweise im Schema auftauchen
+const FOREIGN_KEY_SUFFIXES = ["_id", "_pk"];
+
+// --- Models ---
+
+export const getModelKey = (model: {
+  app_label: string;
+  model_name: string;
+}) => `${model.app_label}.${model.model_name}`;
+
+export const findModelByKey = (
+  schema: DatabaseSchemaResponse | null | undefined,
+  key: string
+): ModelInfo | null =>
+  schema?.apps
+    .flatMap((app) => app.models)
+    .find((model) => getModelKey(model) === key) ?? null;
+
+/**
+ * Name des Primärschlüssels (Django-Standard "id" als Fallback)
+ */
+export const getPrimaryKeyName = (model: ModelInfo) =>
+  model.fields.find((field) => field.primary_key)?.name ?? "id";
+
+// --- Ausgehende Beziehungen ---
+
+const stripForeignKeySuffix = (name: string) => {
+  const suffix = FOREIGN_KEY_SUFFIXES.find((item) => name.endsWith(item));
+  return suffix ? name.slice(0, -suffix.length) : name;
+};
+
+/**
+ * Ziel-Model eines ForeignKey-Feldes
+ *
+ * Sucht zuerst in den Beziehungen des Models, dann in den globalen
+ * Beziehungen mit diesem Model als Quelle.
+ */
+export const getForeignKeyModel = (
+  schema: DatabaseSchemaResponse | null | undefined,
+  model: ModelInfo,
+  field: SchemaField
+): ModelInfo | null => {
+  if (!schema || !field.is_relationship) return null;
+
+  const names = [field.name, stripForeignKeySuffix(field.name)];
+  const target =
+    model.relationships.find((rel) => names.includes(rel.field_name))
+      ?.related_model ??
+    schema.relationships.find(
+      (rel) =>
+        rel.source === getModelKey(model) && names.includes(rel.field_name)
+    )?.target;
+
+  return target ? findModelByKey(schema, target) : null;
+};
+
+/**
+ * Primärschlüsselfeld des Ziel-Models eines ForeignKey-Feldes
+ * (null, wenn das Ziel-Model oder sein Schlüssel nicht im Schema steht)
+ */
+export const getForeignKeyTargetField = (
+  schema: DatabaseSchemaResponse | null | undefined,
+  model: ModelInfo,
+  field: SchemaField
+): SchemaField | null => {
+  const target = getForeignKeyModel(schema, model, field);
+  if (!target) return null;
+  const keyName = getPrimaryKeyName(target);
+  return target.fields.find((item) => item.name === keyName) ?? null;
+};
+
+// --- Primärschlüsselwerte ---
+
+export type PrimaryKeyValue = string | number;
+
+type PrimaryKeyKind = "integer" | "uuid" | "text";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+const PRIMARY_KEY_KIND_LABELS: Record<PrimaryKeyKind, string> = {
+  integer: "Ganzzahl",
+  uuid: "UUID",
+  text: "Text",
+};
+
+// Ohne bekanntes Feld gilt der Django-Standard (AutoField); Schlüssel, die
+// selbst auf ein anderes Model zeigen (OneToOne als pk), ebenso
+const getPrimaryKeyKind = (keyField: SchemaField | null): PrimaryKeyKind => {
+  if (!keyField || keyField.is_relationship) return "integer";
+  if (keyField.type === "UUIDField") return "uuid";
+  return /Integer|AutoField/.test(keyField.type) ? "integer" : "text";
+};
+
+/**
+ * Erwartete Eingabe für einen Primärschlüssel, z.B. "Ganzzahl" oder "UUID"
+ */
+export const getPrimaryKeyTypeLabel = (keyField: SchemaField | null) =>
+  PRIMARY_KEY_KIND_LABELS[getPrimaryKeyKind(keyField)];
+
+/**
+ * Eingabe in den Wert eines Primärschlüssels umwandeln
+ *
+ * Gilt auch für ForeignKeys - dann mit dem Schlüsselfeld des Ziel-Models
+ * (siehe getForeignKeyTargetField). Ganzzahlige Schlüssel werden zur Zahl,
+ * UUIDs und andere Schlüssel (z.B. CharField) bleiben Text. Gibt undefined
+ * zurück, wenn die Eingabe leer ist oder nicht zum Schlüssel passt.
+ */
+export const parsePrimaryKeyValue = (
+  keyField: SchemaField | null,
+  raw: string
+): PrimaryKeyValue | undefined => {
+  const trimmed = raw.trim();
+  if (trimmed === "") return undefined;
+
+  switch (getPrimaryKeyKind(keyField)) {
+    case "integer":
+      return /^-?\d+$/.test(trimmed) ? Number(trimmed) : undefined;
+    case "uuid":
+      return UUID_PATTERN.test(trimmed) ? trimmed : undefined;
+    default:
+      return trimmed;
+  }
+};
+
+/**
+ * Ob ein Primärschlüssel als Zahl eingegeben wird (z.B. für Eingabefelder)
+ */
+export const isNumericPrimaryKey = (keyField: SchemaField | null) =>
+  getPrimaryKeyKind(keyField) === "integer";
+
+// --- Eingehende Beziehungen ---
+
+/**
+ * Beziehungen anderer Models auf dieses Model (Reverse Relations)
+ *
+ * Nur Beziehungen, deren Quell-Model und Feld im Schema bekannt sind -
+ * über sie lassen sich die verknüpften Datensätze filtern.
+ */
+export const getIncomingRelations = (
+  schema: DatabaseSchemaResponse | null | undefined,
+  model: ModelInfo
+): IncomingRelation[] => {
+  if (!schema) return [];
+  const key = getModelKey(model);
+
+  return schema.relationships.flatMap((relationship) => {
+    if (relationship.target !== key) return [];
+    const sourceModel = findModelByKey(schema, relationship.source);
+    const field = sourceModel?.fields.find((item) =>
+      [relationship.field_name, `${relationship.field_name}_id`].includes(
+        item.name
+      )
+    );
+    return sourceModel && field
+      ? [{ relationship, sourceModel, fieldName: field.name }]
+      : [];
+  });
+};
+
+// --- Datensätze ---
+
+/**
+ * Feld, über das sich Datensätze eines Models nach Namen suchen lassen
+ * (null, wenn das Model kein lesbares Namensfeld hat)
+ */
+export const getSearchFieldName = (model: ModelInfo): string | null =>
+  LABEL_FIELD_NAMES.find((name) =>
+    model.fields.some((field) => field.name === name)
+  ) ?? null;
+
+/**
+ * Lesbarer Name eines Datensatzes, z.B. "Vertrieb (#5)"
+ */
+export const getRecordLabel = (
+  model: ModelInfo,
+  record: Record<string, unknown>
+): string => {
+  const primaryKey = record[getPrimaryKeyName(model)];
+  const labelField = LABEL_FIELD_NAMES.find(
+    (name) => typeof record[name] === "string" && record[name] !== ""
+  );
+  if (!labelField) return `${model.model_name} #${primaryKey}`;
+
+  const label =
+    labelField === "last_name" && typeof record.first_name === "string"
+      ? `${record.first_name} ${record.last_name}`.trim()
+      : String(record[labelField]);
+  return `${label} (#${primaryKey})`;
+};
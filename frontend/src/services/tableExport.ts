@@ -0,0 +1,319 @@
+/**
+ * Tabellen-Export für DSP Database Overview
+ *
+ * Exportiert alle Datensätze eines Models (oder das gefilterte Ergebnis),
+ * nicht nur die angezeigte Seite:
+ * - Seitenweises Laden über /db-overview/table/ mit Fortschrittsanzeige
+ * - Abbrechbar über ein AbortSignal (laufender Request wird abgebrochen)
+ * - Stabile Reihenfolge über den Primärschlüssel als letzte Sortierung,
+ *   damit beim Blättern keine Zeilen doppelt vorkommen oder fehlen
+ * - Nur die gewählten Spalten in der gewählten Reihenfolge
+ * - Formate CSV (RFC 4180, UTF-8 mit BOM für Excel), JSON, NDJSON und XLSX
+ * - Texte, die Tabellenkalkulationen als Formel lesen würden (z.B. "=..."),
+ *   werden in CSV und TSV mit "'" entschärft (CSV-Injection)
+ * - Alternativ bereits geladene Datensätze (z.B. eine Auswahl) exportieren
+ *   oder als JSON/TSV in die Zwischenablage kopieren
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import {
+  dbOverviewAPI,
+  type TableFilterParam,
+  type TableOrdering,
+  type TableRecord,
+} from "./api";
+import { ApiError } from "./apiError";
+import { createXlsx, XLSX_MIME_TYPE, type XlsxCellValue } from "./xlsxWriter";
+
+// --- Typen ---
+
+export type ExportFormat = "csv" | "json" | "ndjson" | "xlsx";
+
+export type ClipboardFormat = "json" | "tsv";
+
+export interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface TableExportOptions {
+  appLabel: string;
+  modelName: string;
+  // Exportierte Spalten in Ausgabereihenfolge
+  columns: string[];
+  format: ExportFormat;
+  ordering?: TableOrdering[];
+  // null = alle Datensätze
+  filters?: TableFilterParam | null;
+  // Primärschlüssel für eine stabile Reihenfolge beim Blättern
+  primaryKey?: string;
+  // Bereits geladene Datensätze statt aller Datensätze der Tabelle
+  records?: TableRecord[];
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export type TableRowsOptions = Omit<TableExportOptions, "format" | "records">;
+
+type ExportRow = Record<string, unknown>;
+
+// --- Konfiguration ---
+
+// Datensätze je Request (Maximum des Backends)
+export const EXPORT_PAGE_SIZE = 1000;
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: {
+    label: "CSV (Excel, Tabellenkalkulation)",
+    extension: "csv",
+    mimeType: "text/csv;charset=utf-8",
+  },
+  xlsx: {
+    label: "Excel-Arbeitsmappe (XLSX)",
+    extension: "xlsx",
+    mimeType: XLSX_MIME_TYPE,
+  },
+  json: {
+    label: "JSON (Array von Objekten)",
+    extension: "json",
+    mimeType: "application/json",
+  },
+  ndjson: {
+    label: "NDJSON (ein Objekt je Zeile)",
+    extension: "ndjson",
+    mimeType: "application/x-ndjson",
+  },
+};
+
+// Byte Order Mark - Excel erkennt CSV-Dateien sonst nicht als UTF-8
+const UTF8_BOM = "\uFEFF";
+
+// Zeichen, mit denen Excel & Co. einen Zellinhalt als Formel auswerten
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+// Wartezeit bis zum Freigeben der Blob-URL - manche Browser (z.B. Firefox,
+// Safari) starten den Download erst nach dem Klick-Handler
+const REVOKE_URL_DELAY_MS = 1000;
+
+// --- Laden ---
+
+/**
+ * Sortierung um den Primärschlüssel ergänzen (stabile Seitengrenzen)
+ */
+const getStableOrdering = (
+  ordering: TableOrdering[],
+  primaryKey?: string
+): TableOrdering[] =>
+  primaryKey && !ordering.some((sort) => sort.key === primaryKey)
+    ? [...ordering, { key: primaryKey, direction: "asc" }]
+    : ordering;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new ApiError({
+      status: 0,
+      message: "Export abgebrochen.",
+      canceled: true,
+    });
+  }
+};
+
+/**
+ * Datensätze auf die Spalten in Ausgabereihenfolge beschränken
+ */
+export const pickColumns = (
+  records: TableRecord[],
+  columns: string[]
+): ExportRow[] =>
+  records.map((record) =>
+    Object.fromEntries(
+      columns.map((column) => [column, record[column] ?? null])
+    )
+  );
+
+/**
+ * Alle Datensätze seitenweise laden und auf die Spalten beschränken
+ */
+export const fetchAllRows = async ({
+  appLabel,
+  modelName,
+  columns,
+  ordering = [],
+  filters = null,
+  primaryKey,
+  signal,
+  onProgress,
+}: TableRowsOptions): Promise<ExportRow[]> => {
+  const stableOrdering = getStableOrdering(ordering, primaryKey);
+  const rows: ExportRow[] = [];
+
+  for (let page = 1; ; page++) {
+    throwIfAborted(signal);
+    const response = await dbOverviewAPI.getTableData(
+      appLabel,
+      modelName,
+      page,
+      EXPORT_PAGE_SIZE,
+      { ordering: stableOrdering, filters, signal }
+    );
+
+    rows.push(...pickColumns(response.data, columns));
+
+    const { total_count: total, total_pages: totalPages } =
+      response.pagination;
+    onProgress?.({ loaded: rows.length, total: Math.max(total, rows.length) });
+
+    if (page >= totalPages || response.data.length === 0) return rows;
+  }
+};
+
+// --- Formate ---
+
+/**
+ * Wert als Text (Objekte und Listen als JSON, null als leere Zelle)
+ */
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Text einer Zelle für Tabellenkalkulationen - beginnt ein Text wie eine
+ * Formel, wird ein "'" vorangestellt (Zahlen wie -5 bleiben unverändert)
+ */
+const toSpreadsheetText = (value: unknown): string => {
+  const text = toText(value);
+  return typeof value === "string" && FORMULA_PREFIX_PATTERN.test(text)
+    ? `'${text}`
+    : text;
+};
+
+/**
+ * CSV-Feld nach RFC 4180 (Anführungszeichen bei Trennzeichen, Zeilen-
+ * umbrüchen und Anführungszeichen, diese werden verdoppelt)
+ */
+export const escapeCsvField = (value: unknown): string => {
+  const text = toSpreadsheetText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: ExportRow[], columns: string[]): string =>
+  UTF8_BOM +
+  [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((cells) => cells.map(escapeCsvField).join(","))
+    .join("\r\n") +
+  "\r\n";
+
+const toXlsxValue = (value: unknown): XlsxCellValue =>
+  typeof value === "number" || typeof value === "boolean"
+    ? value
+    : toText(value);
+
+const toXlsx = (rows: ExportRow[], columns: string[], sheetName: string) =>
+  createXlsx(
+    [
+      columns,
+      ...rows.map((row) => columns.map((column) => toXlsxValue(row[column]))),
+    ],
+    sheetName
+  );
+
+/**
+ * Datensätze im gewählten Format als Datei-Inhalt
+ */
+export const serializeRows = (
+  rows: ExportRow[],
+  columns: string[],
+  format: ExportFormat,
+  sheetName = "Daten"
+): Blob => {
+  const { mimeType } = EXPORT_FORMATS[format];
+
+  switch (format) {
+    case "csv":
+      return new Blob([toCsv(rows, columns)], { type: mimeType });
+    case "xlsx":
+      return toXlsx(rows, columns, sheetName);
+    case "ndjson":
+      return new Blob(
+        rows.map((row) => `${JSON.stringify(row)}\n`),
+        { type: mimeType }
+      );
+    case "json":
+      return new Blob([JSON.stringify(rows, null, 2)], { type: mimeType });
+  }
+};
+
+// Tabulator und Zeilenumbrüche würden Zellen bzw. Zeilen verschieben
+const toTsvField = (value: unknown): string =>
+  toSpreadsheetText(value).replace(/[\t\r\n]+/g, " ");
+
+/**
+ * Datensätze als Text für die Zwischenablage - TSV lässt sich direkt in
+ * Tabellenkalkulationen einfügen
+ */
+export const toClipboardText = (
+  rows: ExportRow[],
+  columns: string[],
+  format: ClipboardFormat
+): string =>
+  format === "json"
+    ? JSON.stringify(rows, null, 2)
+    : [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+        .map((cells) => cells.map(toTsvField).join("\t"))
+        .join("\n");
+
+// --- Öffentliche API ---
+
+/**
+ * Tabelle vollständig laden (bzw. die übergebenen Datensätze nehmen) und
+ * als Datei-Inhalt zurückgeben
+ *
+ * Bei Abbruch wird ein ApiError mit isCanceled geworfen.
+ */
+export const exportTable = async (
+  options: TableExportOptions
+): Promise<Blob> => {
+  let rows: ExportRow[];
+  if (options.records) {
+    rows = pickColumns(options.records, options.columns);
+    options.onProgress?.({ loaded: rows.length, total: rows.length });
+  } else {
+    rows = await fetchAllRows(options);
+  }
+  throwIfAborted(options.signal);
+  return serializeRows(
+    rows,
+    options.columns,
+    options.format,
+    options.modelName
+  );
+};
+
+/**
+ * Dateiname für den Export, z.B. "Employee_2025-07-10.csv"
+ */
+export const getExportFilename = (modelName: string, format: ExportFormat) =>
+  `${modelName}_${new Date().toISOString().slice(0, 10)}.` +
+  EXPORT_FORMATS[format].extension;
+
+/**
+ * Datei im Browser herunterladen
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_DELAY_MS);
+};
@@ -0,0 +1,452 @@
+/**
+ * Tabellenfilter für DSP Database Overview
+ *
+ * Filtermodell des Filter-Builders im Tabellen-Browser und Übersetzung in
+ * den Query-Parameter "filters" von /db-overview/table/ (TableFilterParam):
+ * - Operatoren abhängig von SchemaField.type, choices und null
+ * - Bedingungen in Gruppen (UND/ODER), Gruppen untereinander UND/ODER
+ * - Lookups im Django-Format (icontains, gte, range, in, isnull, ...),
+ *   bei DateTimeFields tageweise über "date__"
+ *
+ * Unvollständige Bedingungen (z.B. ohne Wert) werden nicht gesendet. Werte,
+ * die nicht zum Feld passen (z.B. Text bei einem ForeignKey auf ganzzahlige
+ * IDs), meldet getConditionError - der Filter-Builder zeigt sie an.
+ * ForeignKey-Werte richten sich nach dem Primärschlüssel des Ziel-Models.
+ * Der Parameter dient auch als Format für Links auf gefilterte Tabellen und
+ * lässt sich daher wieder in den Builder zurücklesen.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import { z } from "zod";
+import type {
+  SchemaField,
+  TableFilterParam,
+  TableFilterParamCondition,
+} from "./api";
+import {
+  getPrimaryKeyTypeLabel,
+  parsePrimaryKeyValue,
+} from "./schemaRelations";
+
+// --- Typen ---
+
+export type FilterCombinator = "and" | "or";
+
+export type FilterOperator =
+  | "icontains"
+  | "istartswith"
+  | "iendswith"
+  | "iexact"
+  | "exact"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "range"
+  | "in"
+  | "isnull"
+  | "notnull";
+
+export type FieldKind =
+  | "text"
+  | "number"
+  | "date"
+  | "datetime"
+  | "boolean"
+  | "choice"
+  | "relation";
+
+export interface TableFilterCondition {
+  id: string;
+  field: string;
+  operator: FilterOperator;
+  // Bei "in" kommagetrennte Liste, bei "range" die Untergrenze
+  value: string;
+  // Obergrenze bei "range"
+  valueTo: string;
+}
+
+export interface TableFilterGroup {
+  id: string;
+  combinator: FilterCombinator;
+  conditions: TableFilterCondition[];
+}
+
+export interface TableFilter {
+  // Verknüpfung der Gruppen untereinander
+  combinator: FilterCombinator;
+  groups: TableFilterGroup[];
+}
+
+// Primärschlüsselfeld des Ziel-Models eines ForeignKeys (siehe
+// getForeignKeyTargetField) - ohne Auflösung gelten ganzzahlige IDs
+export type RelationKeyResolver = (field: SchemaField) => SchemaField | null;
+
+// --- Operatoren ---
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  icontains: "enthält",
+  istartswith: "beginnt mit",
+  iendswith: "endet mit",
+  iexact: "ist gleich",
+  exact: "ist gleich",
+  gt: "größer als",
+  gte: "mindestens",
+  lt: "kleiner als",
+  lte: "höchstens",
+  range: "zwischen",
+  in: "ist einer von",
+  isnull: "ist leer",
+  notnull: "ist nicht leer",
+};
+
+const OPERATORS_BY_KIND: Record<FieldKind, FilterOperator[]> = {
+  text: ["icontains", "istartswith", "iendswith", "iexact"],
+  number: ["exact", "gt", "gte", "lt", "lte", "range", "in"],
+  date: ["exact", "gte", "lte", "range"],
+  datetime: ["exact", "gte", "lte", "range"],
+  boolean: ["exact"],
+  choice: ["exact", "in"],
+  relation: ["exact", "in"],
+};
+
+// Operatoren ohne Eingabewert
+const VALUELESS_OPERATORS: FilterOperator[] = ["isnull", "notnull"];
+
+const NUMBER_TYPE_PATTERN = /Integer|AutoField|Float|Decimal/;
+
+/**
+ * Art des Feldes für Operatoren und Eingabefelder
+ */
+export const getFieldKind = (field: SchemaField): FieldKind => {
+  if (field.is_relationship) return "relation";
+  if (field.choices && field.choices.length > 0) return "choice";
+  if (field.type.includes("Boolean")) return "boolean";
+  if (field.type === "DateTimeField") return "datetime";
+  if (field.type === "DateField") return "date";
+  if (NUMBER_TYPE_PATTERN.test(field.type)) return "number";
+  return "text";
+};
+
+/**
+ * Zulässige Operatoren für ein Feld (Leer-Prüfung nur bei null=True)
+ */
+export const getOperatorsForField = (field: SchemaField): FilterOperator[] => [
+  ...OPERATORS_BY_KIND[getFieldKind(field)],
+  ...(field.null ? (["isnull", "notnull"] as FilterOperator[]) : []),
+];
+
+export const operatorNeedsValue = (operator: FilterOperator) =>
+  !VALUELESS_OPERATORS.includes(operator);
+
+// --- Erzeugen ---
+
+let nextFilterId = 0;
+const createFilterId = () => `filter-${++nextFilterId}`;
+
+export const createEmptyFilter = (): TableFilter => ({
+  combinator: "and",
+  groups: [],
+});
+
+export const createFilterCondition = (
+  field: SchemaField
+): TableFilterCondition => ({
+  id: createFilterId(),
+  field: field.name,
+  operator: getOperatorsForField(field)[0],
+  value: getFieldKind(field) === "boolean" ? "true" : "",
+  valueTo: "",
+});
+
+export const createFilterGroup = (field: SchemaField): TableFilterGroup => ({
+  id: createFilterId(),
+  combinator: "and",
+  conditions: [createFilterCondition(field)],
+});
+
+// --- Serialisierung ---
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Eingabewert in den Typ des Feldes umwandeln (Zahl, Boolean, Text,
+ * ForeignKeys wie der Primärschlüssel des Ziel-Models)
+ *
+ * Gibt undefined zurück, wenn der Wert nicht zum Feld passt.
+ */
+const coerceValue = (
+  field: SchemaField,
+  raw: string,
+  getRelationKey?: RelationKeyResolver
+): unknown => {
+  const kind = getFieldKind(field);
+  if (kind === "boolean") return raw === "true";
+  if (kind === "relation") {
+    return parsePrimaryKeyValue(getRelationKey?.(field) ?? null, raw);
+  }
+  if (NUMBER_TYPE_PATTERN.test(field.type)) {
+    const parsed = Number(raw);
+    return raw !== "" && Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return raw;
+};
+
+// Eingegebene Einzelwerte einer Bedingung (Liste, Bereich oder ein Wert)
+const getConditionInputs = (condition: TableFilterCondition) =>
+  (condition.operator === "in"
+    ? splitList(condition.value)
+    : condition.operator === "range"
+    ? [condition.value, condition.valueTo]
+    : [condition.value]
+  )
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Fehlermeldung zu einer Bedingung, deren Wert nicht zum Feld passt
+ *
+ * Leere Werte gelten als unvollständig, nicht als ungültig (null).
+ */
+export const getConditionError = (
+  condition: TableFilterCondition,
+  fields: SchemaField[],
+  getRelationKey?: RelationKeyResolver
+): string | null => {
+  const field = fields.find((item) => item.name === condition.field);
+  if (!field || !operatorNeedsValue(condition.operator)) return null;
+
+  const invalid = getConditionInputs(condition).some(
+    (item) => coerceValue(field, item, getRelationKey) === undefined
+  );
+  if (!invalid) return null;
+
+  return getFieldKind(field) === "relation"
+    ? `${getPrimaryKeyTypeLabel(getRelationKey?.(field) ?? null)} erwartet`
+    : "Zahl erwartet";
+};
+
+/**
+ * Ob ein Filter Bedingungen mit unpassenden Werten enthält - solche Filter
+ * werden nicht angewendet (sonst entfiele die Bedingung stillschweigend)
+ */
+export const hasInvalidConditions = (
+  filter: TableFilter,
+  fields: SchemaField[],
+  getRelationKey?: RelationKeyResolver
+) =>
+  filter.groups.some((group) =>
+    group.conditions.some(
+      (condition) =>
+        getConditionError(condition, fields, getRelationKey) !== null
+    )
+  );
+
+const toParamCondition = (
+  condition: TableFilterCondition,
+  fields: SchemaField[],
+  getRelationKey?: RelationKeyResolver
+): TableFilterParamCondition | null => {
+  const field = fields.find((item) => item.name === condition.field);
+  if (!field) return null;
+
+  if (condition.operator === "isnull" || condition.operator === "notnull") {
+    return {
+      field: field.name,
+      lookup: "isnull",
+      value: condition.operator === "isnull",
+    };
+  }
+
+  // DateTimeFields tageweise vergleichen (Datumseingabe ohne Uhrzeit)
+  const lookup =
+    getFieldKind(field) === "datetime"
+      ? condition.operator === "exact"
+        ? "date"
+        : `date__${condition.operator}`
+      : condition.operator;
+
+  if (condition.operator === "in") {
+    const values = splitList(condition.value).map((item) =>
+      coerceValue(field, item, getRelationKey)
+    );
+    if (values.length === 0 || values.includes(undefined)) return null;
+    return { field: field.name, lookup, value: values };
+  }
+
+  if (condition.operator === "range") {
+    const from = coerceValue(field, condition.value.trim(), getRelationKey);
+    const to = coerceValue(field, condition.valueTo.trim(), getRelationKey);
+    if (from === undefined || to === undefined || from === "" || to === "") {
+      return null;
+    }
+    return { field: field.name, lookup, value: [from, to] };
+  }
+
+  const value = coerceValue(field, condition.value.trim(), getRelationKey);
+  if (value === undefined || value === "") return null;
+  return { field: field.name, lookup, value };
+};
+
+/**
+ * Filter in das Format des Query-Parameters "filters" übersetzen
+ *
+ * Leere Gruppen und unvollständige Bedingungen entfallen - ungültige
+ * ebenfalls, daher vorher hasInvalidConditions prüfen. Ohne gültige
+ * Bedingung wird null zurückgegeben (kein Parameter).
+ */
+export const toFilterParam = (
+  filter: TableFilter,
+  fields: SchemaField[],
+  getRelationKey?: RelationKeyResolver
+): TableFilterParam | null => {
+  const groups = filter.groups
+    .map((group) => ({
+      combinator: group.combinator,
+      conditions: group.conditions
+        .map((condition) =>
+          toParamCondition(condition, fields, getRelationKey)
+        )
+        .filter(
+          (condition): condition is TableFilterParamCondition =>
+            condition !== null
+        ),
+    }))
+    .filter((group) => group.conditions.length > 0);
+
+  if (groups.length === 0) return null;
+
+  return { combinator: filter.combinator, groups };
+};
+
+/**
+ * Filter-Parameter für genau einen Wert, z.B. alle Datensätze mit einem
+ * bestimmten ForeignKey oder ein Datensatz über seinen Primärschlüssel
+ */
+export const createExactFilterParam = (
+  field: string,
+  value: unknown
+): TableFilterParam => ({
+  combinator: "and",
+  groups: [
+    { combinator: "and", conditions: [{ field, lookup: "exact", value }] },
+  ],
+});
+
+/**
+ * Anzahl der Bedingungen eines Filter-Parameters (z.B. für Badges)
+ */
+export const countFilterConditions = (param: TableFilterParam | null) =>
+  param?.groups.reduce((count, group) => count + group.conditions.length, 0) ??
+  0;
+
+// --- Zurücklesen (Links) ---
+
+const combinatorSchema = z.enum(["and", "or"]);
+
+// Auch für importierte Ansichten (siehe savedViews.ts)
+export const filterParamSchema = z.object({
+  combinator: combinatorSchema,
+  groups: z.array(
+    z.object({
+      combinator: combinatorSchema,
+      conditions: z.array(
+        z.object({
+          field: z.string(),
+          lookup: z.string(),
+          value: z.unknown(),
+        })
+      ),
+    })
+  ),
+});
+
+/**
+ * Filter-Parameter aus einem Link lesen (JSON)
+ *
+ * Ungültige Werte ergeben null (keine Filter) statt eines Fehlers.
+ */
+export const parseFilterParam = (
+  raw: string | null
+): TableFilterParam | null => {
+  if (!raw) return null;
+  try {
+    const result = filterParamSchema.safeParse(JSON.parse(raw));
+    return result.success ? (result.data as TableFilterParam) : null;
+  } catch {
+    return null;
+  }
+};
+
+const fromParamCondition = (
+  { field: fieldName, lookup, value }: TableFilterParamCondition,
+  fields: SchemaField[]
+): TableFilterCondition | null => {
+  const field = fields.find((item) => item.name === fieldName);
+  if (!field) return null;
+
+  // "exact" auf Textfeldern kommt aus Links auf einen Datensatz über
+  // seinen Primärschlüssel (z.B. CharField oder UUIDField)
+  const operator = (
+    lookup === "isnull"
+      ? value === false
+        ? "notnull"
+        : "isnull"
+      : lookup === "date"
+      ? "exact"
+      : lookup === "exact" && getFieldKind(field) === "text"
+      ? "iexact"
+      : lookup.replace(/^date__/, "")
+  ) as FilterOperator;
+  if (!getOperatorsForField(field).includes(operator)) return null;
+
+  const [from, to] = Array.isArray(value) ? value : [value, ""];
+  return {
+    id: createFilterId(),
+    field: field.name,
+    operator,
+    value:
+      operator === "in" && Array.isArray(value)
+        ? value.join(", ")
+        : operatorNeedsValue(operator)
+        ? String(from ?? "")
+        : "",
+    valueTo: operator === "range" ? String(to ?? "") : "",
+  };
+};
+
+/**
+ * Filter-Parameter in das Modell des Filter-Builders übersetzen
+ *
+ * Bedingungen auf unbekannte Felder oder mit unpassenden Operatoren
+ * entfallen.
+ */
+export const fromFilterParam = (
+  param: TableFilterParam | null,
+  fields: SchemaField[]
+): TableFilter => {
+  if (!param) return createEmptyFilter();
+
+  return {
+    combinator: param.combinator,
+    groups: param.groups
+      .map((group) => ({
+        id: createFilterId(),
+        combinator: group.combinator,
+        conditions: group.conditions
+          .map((condition) => fromParamCondition(condition, fields))
+          .filter(
+            (condition): condition is TableFilterCondition =>
+              condition !== null
+          ),
+      }))
+      .filter((group) => group.conditions.length > 0),
+  };
+};
@@ -0,0 +1,480 @@
+/**
+ * Token Storage für DSP Database Overview
+ *
+ * Einzige Stelle, die Access-/Refresh-Token und das Benutzerprofil liest
+ * und schreibt:
+ * - Austauschbare Speicher-Modi (über VITE_TOKEN_STORAGE wählbar)
+ * - Änderungsbenachrichtigung für React (AuthProvider)
+ * - Synchronisation von Login/Logout/Refresh über alle Browser-Tabs
+ * - Getrennte Sitzungen je Backend-Umgebung (umgebungsspezifische Keys)
+ * - Keine Abhängigkeit zu den Axios-Clients (vermeidet Import-Zyklen)
+ *
+ * Speicher-Modi:
+ * - "local":  Access- und Refresh-Token im localStorage (Standard)
+ * - "memory": Access-Token nur im Speicher, Refresh-Token im sessionStorage
+ * - "cookie": Tokens als httpOnly-Cookies des Backends, im Client nur das
+ *             Benutzerprofil als Sitzungsmarker und die Ablaufzeitpunkte aus
+ *             dem Body von Login/Refresh (liefert das Backend keine, warnt
+ *             die Oberfläche nur vor dem Idle-Timeout, nicht vor dem
+ *             Sitzungsende)
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+import type { CurrentUser } from "./authService";
+import {
+  ACTIVE_ENVIRONMENT,
+  getEnvironmentStorageKey,
+} from "./backendEnvironments";
+
+// --- Typen ---
+
+export type TokenStorageMode = "local" | "memory" | "cookie";
+
+// Ablaufzeitpunkte von Access- und Refresh-Token in ms (null = unbekannt)
+export interface TokenExpiry {
+  access: number | null;
+  refresh: number | null;
+}
+
+// Felder im Body von Login und Refresh, aus denen sich der Ablauf lesen lässt
+export interface TokenExpiryResponse {
+  access?: string | null;
+  refresh?: string | null;
+  // ISO-Zeitpunkte, z.B. von dj-rest-auth (JWT_AUTH_RETURN_EXPIRATION)
+  access_expiration?: string | null;
+  refresh_expiration?: string | null;
+}
+
+interface TokenStorageBackend {
+  getAccessToken(): string | null;
+  getRefreshToken(): string | null;
+  setTokens(access: string | null, refresh?: string | null): void;
+  getExpiry(): TokenExpiry;
+  // Nur für Tokens, deren exp-Claim der Client nicht lesen kann
+  setExpiry(expiry: TokenExpiry): void;
+  getUser(): CurrentUser | null;
+  setUser(user: CurrentUser): void;
+  clear(): void;
+  // Ob eine (ggf. per Refresh wiederherstellbare) Sitzung besteht
+  hasSession(): boolean;
+}
+
+// --- Storage-Keys ---
+
+// Je Backend-Umgebung eigene Keys - eine Sitzung gilt nur für ein Backend
+const STORAGE_KEYS = {
+  ACCESS: getEnvironmentStorageKey("access"),
+  REFRESH: getEnvironmentStorageKey("refresh"),
+  USER: getEnvironmentStorageKey("user"),
+  EXPIRY: getEnvironmentStorageKey("expiry"),
+} as const;
+
+const NO_EXPIRY: TokenExpiry = { access: null, refresh: null };
+
+// --- Hilfsfunktionen ---
+
+const readUser = (storage: Storage): CurrentUser | null => {
+  const raw = storage.getItem(STORAGE_KEYS.USER);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as CurrentUser;
+  } catch {
+    storage.removeItem(STORAGE_KEYS.USER);
+    return null;
+  }
+};
+
+const readExpiry = (): TokenExpiry => {
+  const raw = localStorage.getItem(STORAGE_KEYS.EXPIRY);
+  if (!raw) return NO_EXPIRY;
+
+  try {
+    return { ...NO_EXPIRY, ...(JSON.parse(raw) as Partial<TokenExpiry>) };
+  } catch {
+    localStorage.removeItem(STORAGE_KEYS.EXPIRY);
+    return NO_EXPIRY;
+  }
+};
+
+// --- Speicher-Backends ---
+
+/**
+ * Bisheriges Verhalten: alles im localStorage
+ */
+const createLocalBackend = (): TokenStorageBackend => ({
+  getAccessToken: () => localStorage.getItem(STORAGE_KEYS.ACCESS),
+  getRefreshToken: () => localStorage.getItem(STORAGE_KEYS.REFRESH),
+  setTokens(access, refresh) {
+    if (access) localStorage.setItem(STORAGE_KEYS.ACCESS, access);
+    if (refresh) localStorage.setItem(STORAGE_KEYS.REFRESH, refresh);
+  },
+  getExpiry: () => ({
+    access: getTokenExpiry(localStorage.getItem(STORAGE_KEYS.ACCESS)),
+    refresh: getTokenExpiry(localStorage.getItem(STORAGE_KEYS.REFRESH)),
+  }),
+  setExpiry() {
+    // Ablauf steht im exp-Claim der Tokens
+  },
+  getUser: () => readUser(localStorage),
+  setUser(user) {
+    localStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+  },
+  clear() {
+    localStorage.removeItem(STORAGE_KEYS.ACCESS);
+    localStorage.removeItem(STORAGE_KEYS.REFRESH);
+    localStorage.removeItem(STORAGE_KEYS.USER);
+  },
+  hasSession: () => !!localStorage.getItem(STORAGE_KEYS.ACCESS),
+});
+
+/**
+ * Access-Token nur im Speicher, Refresh-Token im sessionStorage
+ *
+ * Nach einem Reload fehlt der Access-Token; der erste Request erhält 401
+ * und wird über den Refresh-Token transparent wiederholt.
+ */
+const createMemoryBackend = (): TokenStorageBackend => {
+  let accessToken: string | null = null;
+
+  return {
+    getAccessToken: () => accessToken,
+    getRefreshToken: () => sessionStorage.getItem(STORAGE_KEYS.REFRESH),
+    setTokens(access, refresh) {
+      if (access) accessToken = access;
+      if (refresh) sessionStorage.setItem(STORAGE_KEYS.REFRESH, refresh);
+    },
+    getExpiry: () => ({
+      access: getTokenExpiry(accessToken),
+      refresh: getTokenExpiry(sessionStorage.getItem(STORAGE_KEYS.REFRESH)),
+    }),
+    setExpiry() {
+      // Ablauf steht im exp-Claim der Tokens
+    },
+    getUser: () => readUser(sessionStorage),
+    setUser(user) {
+      sessionStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+    },
+    clear() {
+      accessToken = null;
+      sessionStorage.removeItem(STORAGE_KEYS.REFRESH);
+      sessionStorage.removeItem(STORAGE_KEYS.USER);
+    },
+    hasSession: () =>
+      !!accessToken || !!sessionStorage.getItem(STORAGE_KEYS.REFRESH),
+  };
+};
+
+/**
+ * httpOnly-Cookies: Tokens sind für JavaScript unsichtbar
+ *
+ * Das Backend setzt und liest die Cookies selbst; im Client bleiben nur das
+ * Benutzerprofil als Marker für eine bestehende Sitzung und die
+ * Ablaufzeitpunkte, sofern das Backend sie bei Login/Refresh mitliefert.
+ */
+const createCookieBackend = (): TokenStorageBackend => ({
+  getAccessToken: () => null,
+  getRefreshToken: () => null,
+  setTokens() {
+    // Tokens verwaltet ausschließlich das Backend
+  },
+  getExpiry: readExpiry,
+  setExpiry(expiry) {
+    // Ohne neuen Wert (z.B. Refresh ohne Rotation) gilt der bisherige
+    const current = readExpiry();
+    localStorage.setItem(
+      STORAGE_KEYS.EXPIRY,
+      JSON.stringify({
+        access: expiry.access ?? current.access,
+        refresh: expiry.refresh ?? current.refresh,
+      })
+    );
+  },
+  getUser: () => readUser(localStorage),
+  setUser(user) {
+    localStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+  },
+  clear() {
+    localStorage.removeItem(STORAGE_KEYS.USER);
+    localStorage.removeItem(STORAGE_KEYS.EXPIRY);
+  },
+  hasSession: () => !!localStorage.getItem(STORAGE_KEYS.USER),
+});
+
+const resolveMode = (value: string | undefined): TokenStorageMode =>
+  value === "memory" || value === "cookie" ? value : "local";
+
+// Bewusst direkt aus import.meta.env gelesen - config.ts importiert dieses
+// Modul, ein Rückimport würde einen Zyklus erzeugen
+export const TOKEN_STORAGE_MODE = resolveMode(
+  import.meta.env.VITE_TOKEN_STORAGE
+);
+
+const backends: Record<TokenStorageMode, () => TokenStorageBackend> = {
+  local: createLocalBackend,
+  memory: createMemoryBackend,
+  cookie: createCookieBackend,
+};
+
+const backend = backends[TOKEN_STORAGE_MODE]();
+
+// --- Änderungsbenachrichtigung ---
+
+type Listener = () => void;
+
+export interface AuthSnapshot {
+  isAuthenticated: boolean;
+  user: CurrentUser | null;
+  accessExpiresAt: number | null;
+  refreshExpiresAt: number | null;
+}
+
+const listeners = new Set<Listener>();
+
+// Zwischengespeicherter Snapshot - stabile Referenz für useSyncExternalStore
+let snapshot: AuthSnapshot | null = null;
+
+const notify = () => {
+  snapshot = null;
+  listeners.forEach((listener) => listener());
+};
+
+// --- Tab-übergreifende Synchronisation ---
+
+// "local" und "cookie": Login, Logout und Token-Refresh in anderen Tabs
+// schreiben in den localStorage - das storage-Event informiert alle übrigen
+// Tabs darüber
+const TRACKED_KEYS: string[] = Object.values(STORAGE_KEYS);
+
+if (typeof window !== "undefined" && TOKEN_STORAGE_MODE !== "memory") {
+  window.addEventListener("storage", (event) => {
+    // key === null: localStorage.clear() in einem anderen Tab
+    if (event.storageArea !== localStorage) return;
+    if (event.key === null || TRACKED_KEYS.includes(event.key)) {
+      notify();
+    }
+  });
+}
+
+// "memory": Speicher und sessionStorage sind pro Tab getrennt - Änderungen
+// werden daher über einen BroadcastChannel an die übrigen Tabs verteilt
+type SessionMessage =
+  | {
+      type: "session";
+      access: string | null;
+      refresh: string | null;
+      user: CurrentUser | null;
+    }
+  | { type: "logout" }
+  | { type: "request" };
+
+const sessionChannel =
+  TOKEN_STORAGE_MODE === "memory" && typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(`dsp-auth-session:${ACTIVE_ENVIRONMENT.id}`)
+    : null;
+
+const broadcast = (message: SessionMessage) => {
+  sessionChannel?.postMessage(message);
+};
+
+const broadcastSession = () => {
+  broadcast({
+    type: "session",
+    access: backend.getAccessToken(),
+    refresh: backend.getRefreshToken(),
+    user: backend.getUser(),
+  });
+};
+
+sessionChannel?.addEventListener(
+  "message",
+  (event: MessageEvent<SessionMessage>) => {
+    const message = event.data;
+    if (message.type === "request") {
+      // Neuer Tab fragt nach einer bestehenden Sitzung
+      if (backend.hasSession()) broadcastSession();
+      return;
+    }
+    if (message.type === "logout") {
+      backend.clear();
+    } else {
+      backend.setTokens(message.access, message.refresh);
+      if (message.user) backend.setUser(message.user);
+    }
+    notify();
+  }
+);
+
+// Neu geöffnete Tabs übernehmen die Sitzung eines bereits angemeldeten Tabs
+if (!backend.hasSession()) {
+  broadcast({ type: "request" });
+}
+
+// --- JWT-Hilfsfunktionen ---
+
+/**
+ * Ablaufzeitpunkt (exp-Claim) eines JWT ermitteln
+ *
+ * Die Signatur wird nicht geprüft - der Wert dient nur der Anzeige und
+ * Planung im Client, die Prüfung bleibt Aufgabe des Backends.
+ *
+ * @param token - JWT im Format header.payload.signature
+ * @returns Ablaufzeitpunkt in Millisekunden oder null
+ */
+export const getTokenExpiry = (token: string | null): number | null => {
+  if (!token) return null;
+
+  try {
+    const payload = token.split(".")[1];
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(base64)) as { exp?: number };
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseExpiration = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Ablaufzeitpunkte aus dem Body von Login bzw. Refresh
+ *
+ * Für den Cookie-Modus, in dem die Tokens selbst unlesbar sind: Das Backend
+ * kann die Tokens zusätzlich im Body liefern (exp-Claim) oder die
+ * Zeitpunkte als access_expiration/refresh_expiration.
+ */
+export const getResponseExpiry = (body: TokenExpiryResponse): TokenExpiry => ({
+  access:
+    getTokenExpiry(body.access ?? null) ??
+    parseExpiration(body.access_expiration),
+  refresh:
+    getTokenExpiry(body.refresh ?? null) ??
+    parseExpiration(body.refresh_expiration),
+});
+
+// --- Token Storage ---
+
+export const tokenStorage = {
+  mode: TOKEN_STORAGE_MODE,
+
+  getAccessToken(): string | null {
+    return backend.getAccessToken();
+  },
+
+  getRefreshToken(): string | null {
+    return backend.getRefreshToken();
+  },
+
+  /**
+   * Prüfen ob ein Token-Refresh möglich ist
+   *
+   * Im Cookie-Modus liegt der Refresh-Token unsichtbar beim Backend - ein
+   * Refresh lohnt sich, solange eine Sitzung besteht.
+   */
+  canRefresh(): boolean {
+    return TOKEN_STORAGE_MODE === "cookie"
+      ? backend.hasSession()
+      : !!backend.getRefreshToken();
+  },
+
+  /**
+   * Tokens speichern
+   *
+   * @param access - Neuer Access-Token
+   * @param refresh - Neuer Refresh-Token (optional, z.B. ohne Token-Rotation)
+   */
+  setTokens(access: string, refresh?: string) {
+    backend.setTokens(access, refresh);
+    broadcastSession();
+    notify();
+  },
+
+  /**
+   * Neue Sitzung atomar speichern (Tokens und Benutzerprofil)
+   *
+   * Listener werden nur einmal benachrichtigt, damit kein Zwischenzustand
+   * mit Token, aber ohne Profil gerendert wird.
+   *
+   * @param expiry - Ablaufzeitpunkte aus dem Body (nur Cookie-Modus)
+   */
+  setSession(
+    access: string,
+    refresh: string,
+    user: CurrentUser,
+    expiry: TokenExpiry = NO_EXPIRY
+  ) {
+    backend.setTokens(access, refresh);
+    backend.setExpiry(expiry);
+    backend.setUser(user);
+    broadcastSession();
+    notify();
+  },
+
+  /**
+   * Ablaufzeitpunkte nach einem Refresh übernehmen (nur Cookie-Modus -
+   * sonst stehen sie im exp-Claim der Tokens)
+   */
+  setExpiry(expiry: TokenExpiry) {
+    backend.setExpiry(expiry);
+    notify();
+  },
+
+  getUser(): CurrentUser | null {
+    return backend.getUser();
+  },
+
+  setUser(user: CurrentUser) {
+    backend.setUser(user);
+    broadcastSession();
+    notify();
+  },
+
+  /**
+   * Tokens und Benutzerprofil vollständig entfernen
+   */
+  clear() {
+    backend.clear();
+    broadcast({ type: "logout" });
+    notify();
+  },
+
+  /**
+   * Auf Änderungen der gespeicherten Authentifizierungsdaten reagieren
+   *
+   * @param listener - Callback bei jeder Änderung
+   * @returns Funktion zum Abmelden des Listeners
+   */
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Aktuellen Authentifizierungszustand als unveränderlichen Snapshot liefern
+   *
+   * Die Referenz bleibt bis zur nächsten Änderung identisch.
+   */
+  getSnapshot(): AuthSnapshot {
+    if (!snapshot) {
+      const expiry = backend.getExpiry();
+      snapshot = {
+        isAuthenticated: backend.hasSession(),
+        user: backend.getUser(),
+        accessExpiresAt: expiry.access,
+        refreshExpiresAt: expiry.refresh,
+      };
+    }
+    return snapshot;
+  },
+};
+
+export default tokenStorage;
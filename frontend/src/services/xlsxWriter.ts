@@ -0,0 +1,264 @@
+/**
+ * Minimaler XLSX-Writer für DSP Database Overview
+ *
+ * Erzeugt eine Excel-Arbeitsmappe (Office Open XML) mit einem Tabellenblatt
+ * ohne externe Bibliothek:
+ * - Kopfzeile plus Datenzeilen, Zahlen und Booleans als typisierte Zellen
+ * - Texte als Inline-Strings (keine Formeln - Zellinhalte werden nie
+ *   ausgewertet)
+ * - ZIP-Container ohne Kompression ("stored") mit CRC-32
+ *
+ * Für Formatierungen, mehrere Blätter oder sehr große Dateien ist der
+ * Writer nicht gedacht - er deckt den Tabellen-Export ab.
+ *
+ * Author: DSP Development Team
+ * Created: 10.07.2025
+ * Version: 1.0.0
+ */
+
+// --- Typen ---
+
+export type XlsxCellValue = string | number | boolean | null;
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// --- Konfiguration ---
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Maximale Zeichen je Zelle in Excel
+const MAX_CELL_LENGTH = 32767;
+
+// Maximale Länge eines Blattnamens in Excel
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// --- XML ---
+
+// In XML 1.0 nicht erlaubte Steuerzeichen
+const INVALID_XML_CHARS =
+  // eslint-disable-next-line no-control-regex
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Spaltenbuchstaben einer Zelle (0 -> A, 25 -> Z, 26 -> AA)
+ */
+const getColumnName = (index: number): string => {
+  let name = "";
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    name = String.fromCharCode(65 + ((rest - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const renderCell = (value: XlsxCellValue, ref: string): string => {
+  if (value === null || value === "") return "";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = escapeXml(String(value).slice(0, MAX_CELL_LENGTH));
+  return (
+    `<c r="${ref}" t="inlineStr">` +
+    `<is><t xml:space="preserve">${text}</t></is></c>`
+  );
+};
+
+const renderSheet = (rows: XlsxCellValue[][]): string => {
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnNames = Array.from({ length: columnCount }, (_, index) =>
+    getColumnName(index)
+  );
+  const body = rows
+    .map((row, rowIndex) => {
+      const rowNumber = rowIndex + 1;
+      const cells = row
+        .map((value, index) =>
+          renderCell(value, `${columnNames[index]}${rowNumber}`)
+        )
+        .join("");
+      return `<row r="${rowNumber}">${cells}</row>`;
+    })
+    .join("");
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // Kopfzeile beim Scrollen fixieren
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    "</sheetView></sheetViews>" +
+    `<sheetData>${body}</sheetData></worksheet>`
+  );
+};
+
+const renderWorkbook = (sheetName: string) =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/>` +
+  "</sheets></workbook>";
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  "</Types>";
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  "</Relationships>";
+
+const WORKBOOK_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  "</Relationships>";
+
+// --- ZIP ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Zeitstempel im DOS-Format (Ortszeit, 2-Sekunden-Auflösung)
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/**
+ * ZIP-Archiv ohne Kompression zusammensetzen
+ */
+const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const parts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // benötigte Version
+    local.setUint16(6, 0x0800, true); // Dateinamen in UTF-8
+    local.setUint16(8, 0, true); // Methode: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // erstellt mit Version
+    central.setUint16(6, 20, true); // benötigte Version
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    // Extra-Feld, Kommentar, Disk, Attribute: 0
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), nameBytes, data);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralParts, new Uint8Array(end.buffer)], {
+    type: XLSX_MIME_TYPE,
+  });
+};
+
+// --- Öffentliche API ---
+
+/**
+ * Arbeitsmappe mit einem Tabellenblatt erzeugen
+ *
+ * Die erste Zeile wird als Kopfzeile fixiert. Ungültige Zeichen im
+ * Blattnamen werden ersetzt.
+ */
+export const createXlsx = (
+  rows: XlsxCellValue[][],
+  sheetName = "Daten"
+): Blob => {
+  const encoder = new TextEncoder();
+  const safeSheetName =
+    sheetName
+      .replace(/[\\/?*[\]:]/g, "_")
+      .slice(0, MAX_SHEET_NAME_LENGTH) || "Daten";
+
+  return createZip([
+    { name: "[Content_Types].xml", data: encoder.encode(CONTENT_TYPES_XML) },
+    { name: "_rels/.rels", data: encoder.encode(ROOT_RELS_XML) },
+    {
+      name: "xl/workbook.xml",
+      data: encoder.encode(renderWorkbook(safeSheetName)),
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: encoder.encode(WORKBOOK_RELS_XML),
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      data: encoder.encode(renderSheet(rows)),
+    },
+  ]);
+};
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_BACKEND_ENVIRONMENTS?: string;
+  readonly VITE_SESSION_WARNING_MINUTES?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_TOKEN_STORAGE?: string;
+  readonly VITE_CSRF_COOKIE_NAME?: string;
+  readonly VITE_API_MAX_RETRIES?: string;
+  readonly VITE_API_RETRY_DELAY_MS?: string;
+  readonly VITE_USE_MOCK_BACKEND?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_LOG_LEVEL?: string;
+  readonly VITE_NETWORK_INSPECTOR?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}